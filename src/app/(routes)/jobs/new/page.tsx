@@ -6,6 +6,7 @@
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useCreateJob } from '@/presentation/state/queries/useJobs';
+import { Priority, PriorityHelper } from '@/core/domain/value-objects/Priority';
 
 export default function NewJobPage() {
   const router = useRouter();
@@ -15,6 +16,7 @@ export default function NewJobPage() {
     voiceId: '',
     systemPrompt: '',
     userPromptTemplate: '',
+    priority: Priority.NORMAL,
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -28,7 +30,9 @@ export default function NewJobPage() {
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value,
@@ -71,6 +75,28 @@ export default function NewJobPage() {
           />
         </div>
 
+        <div>
+          <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-2">
+            Priority
+          </label>
+          <select
+            id="priority"
+            name="priority"
+            value={formData.priority}
+            onChange={handleChange}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Object.values(Priority).map((priority) => (
+              <option key={priority} value={priority}>
+                {PriorityHelper.getLabel(priority)}
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-500 mt-1">
+            Higher priority jobs get a larger share of the workers while other jobs are running
+          </p>
+        </div>
+
         <div>
           <label htmlFor="systemPrompt" className="block text-sm font-medium text-gray-700 mb-2">
             System Prompt (Optional)
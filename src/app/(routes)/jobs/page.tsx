@@ -11,6 +11,7 @@ import Link from 'next/link';
 export default function JobsPage() {
   const searchParams = useSearchParams();
   const status = searchParams.get('status') || undefined;
+  const priority = searchParams.get('priority') || undefined;
   const offset = parseInt(searchParams.get('offset') || '0');
 
   return (
@@ -76,7 +77,7 @@ export default function JobsPage() {
         </Link>
       </div>
 
-      <JobsList status={status} offset={offset} />
+      <JobsList status={status} priority={priority} offset={offset} />
     </div>
   );
 }
@@ -1,49 +1,86 @@
 // src/app/api/audio/download/[id]/route.ts
 // Audio download endpoint: GET /api/audio/download/:id
+// :id is either an audio chunk id, or a base64url storage key signed by the local
+// storage (?expires=...&signature=...). Range requests are honoured for players and podcast apps
 
+import { Readable } from 'stream';
 import { NextRequest, NextResponse } from 'next/server';
 import { container } from '@/infrastructure/di/Container';
 import { IStorageService } from '@/core/ports/services/storage/IStorageService';
 import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
-import { Logger } from '@/shared/lib/logger';
+import { LocalUrlSigner } from '@/infrastructure/services/storage/local/LocalUrlSigner';
+import { parseRangeHeader } from '@/infrastructure/services/storage/rangeHeader';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
 
-const logger = Logger.getInstance();
+export const dynamic = 'force-dynamic';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const audioChunkRepository = container.get<IAudioChunkRepository>('IAudioChunkRepository');
     const storageService = container.get<IStorageService>('IStorageService');
+    const { searchParams } = request.nextUrl;
+    const signed = searchParams.has('signature');
 
-    // Get audio chunk details
-    const audioChunk = await audioChunkRepository.findById(params.id);
+    let key: string | null;
+    if (signed) {
+      key = container.has('LocalUrlSigner')
+        ? container.get<LocalUrlSigner>('LocalUrlSigner').verify(params.id, searchParams.get('expires'), searchParams.get('signature'))
+        : null;
 
-    if (!audioChunk || !audioChunk.audioPath) {
+      if (!key) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid or expired download link',
+        }, { status: 403 });
+      }
+    } else {
+      const audioChunkRepository = container.get<IAudioChunkRepository>('IAudioChunkRepository');
+      key = (await audioChunkRepository.findById(params.id))?.audioPath ?? null;
+    }
+
+    const info = key ? await storageService.headObject(key) : null;
+    if (!key || !info || info.size === undefined) {
       return NextResponse.json({
         success: false,
         error: 'Audio file not found',
       }, { status: 404 });
     }
 
-    // Read audio file from storage
-    const audioBuffer = await storageService.readFile(audioChunk.audioPath);
+    const range = parseRangeHeader(request.headers.get('range'), info.size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${info.size}` },
+      });
+    }
+
+    const stream = await storageService.getObjectStream(key, range ?? undefined);
+    const fileName = signed ? key.split('/').pop() : `audio_${params.id}.mp3`;
+    const headers: Record<string, string> = {
+      'Content-Type': info.contentType ?? 'application/octet-stream',
+      'Content-Length': String(range ? (range.end as number) - range.start + 1 : info.size),
+      'Accept-Ranges': 'bytes',
+      'Content-Disposition': `${signed ? 'inline' : 'attachment'}; filename="${fileName}"`,
+      'Cache-Control': 'private, max-age=3600',
+    };
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${info.size}`;
+    }
 
-    return new NextResponse(audioBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': 'audio/mpeg',
-        'Content-Disposition': `attachment; filename="audio_${params.id}.mp3"`,
-      },
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+      status: range ? 206 : 200,
+      headers,
     });
 
   } catch (error) {
-    logger.error('Failed to download audio', error);
+    logger.error('Failed to download audio', error instanceof Error ? error : undefined, { id: params.id });
 
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-    }, { status: 500 });
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+// src/app/api/feeds/podcast/episodes/[id]/route.ts
+// Podcast enclosure: GET /api/feeds/podcast/episodes/:itemId(.mp3)
+// Redirects to a download URL signed on each request, so stored feeds never expire
+
+import { NextRequest, NextResponse } from 'next/server';
+import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { GeneratePodcastFeedUseCase } from '@/core/domain/use-cases/job/GeneratePodcastFeedUseCase';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // The extension is only there for podcast apps that sniff the enclosure URL
+  const itemId = params.id.replace(/\.[a-z0-9]+$/i, '');
+
+  try {
+    // Only registered when a storage service is configured
+    if (!serviceProvider.getContainer().has('GeneratePodcastFeedUseCase')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Podcast feeds require a configured storage service',
+      }, { status: 503 });
+    }
+
+    const generatePodcastFeedUseCase = serviceProvider.getService<GeneratePodcastFeedUseCase>('GeneratePodcastFeedUseCase');
+    const url = await generatePodcastFeedUseCase.getEpisodeAudioUrl(itemId);
+
+    return NextResponse.redirect(url, {
+      status: 302,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+
+  } catch (error) {
+    logger.error('Failed to serve podcast episode', error instanceof Error ? error : undefined, { itemId });
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/feeds/podcast/route.ts
+// Public podcast feed: GET /api/feeds/podcast (channel, every job) or ?jobId=... (one job)
+// Serves the stored feed (rebuilt on item completion), generating it on first request
+
+import { NextRequest, NextResponse } from 'next/server';
+import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { GeneratePodcastFeedUseCase } from '@/core/domain/use-cases/job/GeneratePodcastFeedUseCase';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId') ?? undefined;
+
+  try {
+    // Only registered when a storage service is configured
+    if (!serviceProvider.getContainer().has('GeneratePodcastFeedUseCase')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Podcast feeds require a configured storage service',
+      }, { status: 503 });
+    }
+
+    const generatePodcastFeedUseCase = serviceProvider.getService<GeneratePodcastFeedUseCase>('GeneratePodcastFeedUseCase');
+    const { xml } = await generatePodcastFeedUseCase.execute({ jobId });
+
+    return new NextResponse(xml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+
+  } catch (error) {
+    logger.error('Failed to serve podcast feed', error instanceof Error ? error : undefined, { jobId });
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
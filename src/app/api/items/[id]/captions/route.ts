@@ -0,0 +1,50 @@
+// src/app/api/items/[id]/captions/route.ts
+// Captions download: GET /api/items/:id/captions?format=srt|vtt
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { GenerateItemCaptionsUseCase } from '@/core/domain/use-cases/content/GenerateItemCaptionsUseCase';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+
+const captionsQuerySchema = z.object({
+  format: z.enum(['srt', 'vtt']).default('srt'),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { format } = captionsQuerySchema.parse({
+      format: request.nextUrl.searchParams.get('format') ?? undefined,
+    });
+
+    const generateItemCaptionsUseCase = serviceProvider.getService<GenerateItemCaptionsUseCase>('GenerateItemCaptionsUseCase');
+    const result = await generateItemCaptionsUseCase.execute({ itemId: params.id, format });
+
+    return new NextResponse(result.content, {
+      status: 200,
+      headers: {
+        'Content-Type': result.contentType,
+        'Content-Disposition': `attachment; filename="item_${params.id}.${format}"`,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        errors: error.issues.map(e => e.message),
+      }, { status: 400 });
+    }
+
+    logger.error(`Failed to generate captions for item ${params.id}`, error instanceof Error ? error : undefined);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
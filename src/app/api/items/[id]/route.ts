@@ -1,8 +1,17 @@
 // src/app/api/items/[id]/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { ProcessItemUseCase } from '@/core/domain/use-cases/content/ProcessItemUseCase';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { Priority } from '@/core/domain/value-objects/Priority';
 import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
 
+// null clears the override: the item falls back to its job's priority
+const updateItemSchema = z.object({
+  priority: z.nativeEnum(Priority).nullable(),
+});
+
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -39,18 +48,72 @@ export async function GET(
   try {
     const { id } = params;
     
-    const getItemUseCase = serviceProvider.getService('GetItemUseCase');
-    const item = await getItemUseCase.execute({ itemId: id });
+    const itemRepository = serviceProvider.getService<IContentItemRepository>('IContentItemRepository');
+    const item = await itemRepository.findById(id);
+    if (!item) {
+      return NextResponse.json({
+        success: false,
+        error: `ContentItem ${id} not found`,
+      }, { status: 404 });
+    }
+
+    // Model that produced the script (a fallback of the job's model when usedFallback)
+    const generatedTextRepository = serviceProvider.getService<IGeneratedTextRepository>('IGeneratedTextRepository');
+    const generatedText = item.generatedText ? await generatedTextRepository.findByItemId(id) : null;
     
     return NextResponse.json({
       success: true,
-      item,
+      item: {
+        ...item.toJSON(),
+        generation: generatedText?.metadata ?? null,
+      },
     });
     
   } catch (error) {
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-    }, { status: error instanceof Error && error.message.includes('not found') ? 404 : 500 });
+    }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const body = updateItemSchema.parse(await request.json());
+
+    const itemRepository = serviceProvider.getService<IContentItemRepository>('IContentItemRepository');
+    const item = await itemRepository.findById(id);
+    if (!item) {
+      return NextResponse.json({
+        success: false,
+        error: `ContentItem ${id} not found`,
+      }, { status: 404 });
+    }
+
+    // Takes effect the next time the item enters the pipeline
+    item.setPriority(body.priority ?? undefined);
+    await itemRepository.save(item);
+
+    return NextResponse.json({
+      success: true,
+      item,
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        errors: error.issues.map(e => e.message),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+// src/app/api/items/[id]/stages/route.ts
+// Script stages of an item: GET /api/items/:id/stages (each stage of the job with its stored output),
+// POST /api/items/:id/stages { fromStage: index | name } (re-runs the stages from there, then re-chunks)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IScriptStageOutputRepository } from '@/core/ports/repositories/IScriptStageOutputRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PriorityHelper } from '@/core/domain/value-objects/Priority';
+import { JOB_TYPES, QUEUE_NAMES, ScriptStagesJobPayload, pipelineJobId } from '@/shared/constants/queues';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const RerunStagesSchema = z.object({
+  fromStage: z.union([z.number().int().min(0), z.string().min(1)]),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const itemRepository = serviceProvider.getService<IContentItemRepository>('IContentItemRepository');
+    const item = await itemRepository.findById(id);
+    if (!item) {
+      return NextResponse.json({
+        success: false,
+        error: `ContentItem ${id} not found`,
+      }, { status: 404 });
+    }
+
+    const jobRepository = serviceProvider.getService<IJobRepository>('IJobRepository');
+    const job = await jobRepository.findById(item.jobId);
+    const outputRepository = serviceProvider.getService<IScriptStageOutputRepository>('IScriptStageOutputRepository');
+    const outputs = await outputRepository.findByItemId(id);
+
+    // An output only belongs to a stage while the job keeps that stage at that position
+    const stages = (job?.scriptStages ?? []).map((stage, index) => ({
+      index,
+      ...stage.toJSON(),
+      output: outputs.find((output) => output.stageIndex === index && output.stageName === stage.name)?.toJSON() ?? null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: { itemId: id, stages },
+    });
+
+  } catch (error) {
+    logger.error('Failed to list script stage outputs', error instanceof Error ? error : undefined, {
+      itemId: params.id,
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const parsed = RerunStagesSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: parsed.error.issues,
+      }, { status: 400 });
+    }
+
+    const itemRepository = serviceProvider.getService<IContentItemRepository>('IContentItemRepository');
+    const item = await itemRepository.findById(id);
+    if (!item) {
+      return NextResponse.json({
+        success: false,
+        error: `ContentItem ${id} not found`,
+      }, { status: 404 });
+    }
+
+    const jobRepository = serviceProvider.getService<IJobRepository>('IJobRepository');
+    const job = await jobRepository.findById(item.jobId);
+    if (!job || !job.hasScriptStages()) {
+      return NextResponse.json({
+        success: false,
+        error: `Job ${item.jobId} has no script stages`,
+      }, { status: 400 });
+    }
+
+    const { fromStage } = parsed.data;
+    const stageExists = typeof fromStage === 'number'
+      ? fromStage < job.scriptStages.length
+      : job.scriptStages.some((stage) => stage.name === fromStage);
+    if (!stageExists) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown script stage '${fromStage}'`,
+      }, { status: 400 });
+    }
+
+    // Same scheduling as the item's pipeline jobs (see JobProcessingWorkflow)
+    const settings = await serviceProvider.getService<IUserSettingsRepository>('IUserSettingsRepository').getOrCreateDefault();
+    const queueManager = serviceProvider.getService<IQueueManager>('IQueueManager');
+    const queueJobId = await queueManager
+      .getQueue<ScriptStagesJobPayload>(QUEUE_NAMES.TEXT_REFINEMENT)
+      .enqueue(
+        JOB_TYPES.RUN_SCRIPT_STAGES,
+        { jobId: job.id, itemId: id, fromStage },
+        {
+          jobId: pipelineJobId(JOB_TYPES.RUN_SCRIPT_STAGES, id),
+          priority: PriorityHelper.getWeight(PriorityHelper.resolve(job.priority, item.priority)),
+          fairnessKey: job.id,
+          maxAttempts: settings.defaultAutoRetry + 1,
+        }
+      );
+
+    logger.info('Script stages re-run queued', { itemId: id, jobId: job.id, fromStage, queueJobId });
+
+    return NextResponse.json({
+      success: true,
+      data: { itemId: id, fromStage, queueJobId },
+    }, { status: 202 });
+
+  } catch (error) {
+    logger.error('Failed to queue script stages re-run', error instanceof Error ? error : undefined, {
+      itemId: params.id,
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// src/app/api/items/[id]/stream/route.ts
+// SSE endpoint for item progress and text streaming: GET /api/items/:id/stream
+// Reconnecting clients resume from Last-Event-ID (or the lastEventId query parameter)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from '@/infrastructure/di/Container';
+import { SSEManager } from '@/infrastructure/streaming/SSEManager';
+import { ItemChannel } from '@/infrastructure/streaming/channels/ItemChannel';
+import { createSSEResponse } from '@/infrastructure/streaming/SSEStream';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { logger } from '@/shared/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const itemChannel = container.get<ItemChannel>('ItemChannel');
+    const itemRepository = container.get<IContentItemRepository>('IContentItemRepository');
+
+    const response = await createSSEResponse({
+      manager: container.get<SSEManager>('SSEManager'),
+      channel: itemChannel.getChannelName(params.id),
+      lastEventId: request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId'),
+      loadSnapshot: async () => {
+        const item = await itemRepository.findById(params.id);
+        return item ? itemChannel.createSnapshot(item) : null;
+      },
+      signal: request.signal,
+    });
+
+    if (!response) {
+      return NextResponse.json({
+        success: false,
+        error: `Item ${params.id} not found`,
+      }, { status: 404 });
+    }
+
+    return response;
+  } catch (error) {
+    logger.error(`Failed to open stream for item ${params.id}`, error instanceof Error ? error : undefined);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+// src/app/api/jobs/[id]/export/route.ts
+// Job export route: POST /api/jobs/:id/export
+// The ZIP bundle (audio, captions, scripts, manifest, error log) is streamed to storage
+// Jobs that are not completed export the finished items; filters narrow the selection
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { ExportJobResultsUseCase } from '@/core/domain/use-cases/job/ExportJobResultsUseCase';
+import { ItemStatus } from '@/core/domain/value-objects/ItemStatus';
+import { ContentCategory } from '@/core/domain/value-objects/CSVRow';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+
+const exportJobSchema = z.object({
+  format: z.enum(['json', 'csv', 'zip']).default('zip'),
+  includeAudio: z.boolean().default(true),
+  includeChunks: z.boolean().default(false),
+  includeCaptions: z.boolean().default(true),
+  includeMetadata: z.boolean().default(true),
+  filters: z.object({
+    statuses: z.array(z.nativeEnum(ItemStatus)).min(1).optional(),
+    categories: z.array(z.nativeEnum(ContentCategory)).min(1).optional(),
+    rowRange: z.object({
+      from: z.number().int().min(0).optional(),
+      to: z.number().int().min(0).optional(),
+    }).refine((range) => range.from === undefined || range.to === undefined || range.from <= range.to, {
+      message: 'rowRange.from must not exceed rowRange.to',
+    }).optional(),
+    completedOnly: z.boolean().optional(),
+  }).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = exportJobSchema.parse(await request.json().catch(() => ({})));
+
+    // Only registered when a storage service is configured
+    if (!serviceProvider.getContainer().has('ExportJobResultsUseCase')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Export requires a configured storage service',
+      }, { status: 503 });
+    }
+
+    const exportJobResultsUseCase = serviceProvider.getService<ExportJobResultsUseCase>('ExportJobResultsUseCase');
+
+    const result = await exportJobResultsUseCase.execute({
+      jobId: params.id,
+      ...body,
+    });
+
+    logger.info('Job exported', {
+      jobId: params.id,
+      format: body.format,
+      fileSize: result.fileSize,
+      partial: result.partial,
+      missingItems: result.missingItems,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        errors: error.issues.map(e => e.message),
+      }, { status: 400 });
+    }
+
+    logger.error(`Failed to export job ${params.id}`, error instanceof Error ? error : undefined);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
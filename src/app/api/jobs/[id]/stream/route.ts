@@ -0,0 +1,50 @@
+// src/app/api/jobs/[id]/stream/route.ts
+// SSE endpoint for job progress: GET /api/jobs/:id/stream
+// Reconnecting clients resume from Last-Event-ID (or the lastEventId query parameter)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from '@/infrastructure/di/Container';
+import { SSEManager } from '@/infrastructure/streaming/SSEManager';
+import { JobChannel } from '@/infrastructure/streaming/channels/JobChannel';
+import { createSSEResponse } from '@/infrastructure/streaming/SSEStream';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { logger } from '@/shared/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const jobChannel = container.get<JobChannel>('JobChannel');
+    const jobRepository = container.get<IJobRepository>('IJobRepository');
+
+    const response = await createSSEResponse({
+      manager: container.get<SSEManager>('SSEManager'),
+      channel: jobChannel.getChannelName(params.id),
+      lastEventId: request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId'),
+      loadSnapshot: async () => {
+        const job = await jobRepository.findById(params.id);
+        return job ? jobChannel.createSnapshot(job) : null;
+      },
+      signal: request.signal,
+    });
+
+    if (!response) {
+      return NextResponse.json({
+        success: false,
+        error: `Job ${params.id} not found`,
+      }, { status: 404 });
+    }
+
+    return response;
+  } catch (error) {
+    logger.error(`Failed to open stream for job ${params.id}`, error instanceof Error ? error : undefined);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
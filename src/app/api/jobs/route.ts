@@ -1,16 +1,24 @@
 // src/app/api/jobs/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { CreateJobUseCase } from '@/core/domain/use-cases/job/CreateJobUseCase';
+import { CreateJobUseCase, ScriptStageInputSchema } from '@/core/domain/use-cases/job/CreateJobUseCase';
 import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { Priority } from '@/core/domain/value-objects/Priority';
+import { AppError } from '@/shared/utils/errors/AppError';
 import { z } from 'zod';
 
 const CreateJobSchema = z.object({
   name: z.string().min(1),
   voiceId: z.string().optional(),
+  voiceProvider: z.enum(['elevenlabs', 'inworld', 'openai', 'local']).optional(),
   stability: z.number().min(0).max(1).optional(),
   similarityBoost: z.number().min(0).max(1).optional(),
   systemPrompt: z.string().optional(),
   userPromptTemplate: z.string().optional(),
+  promptTemplateId: z.string().min(1).optional(),
+  aiProvider: z.string().min(1).optional(),
+  aiModel: z.string().min(1).optional(),
+  scriptStages: z.array(ScriptStageInputSchema).optional(),
+  priority: z.nativeEnum(Priority).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -37,7 +45,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-    }, { status: 500 });
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
   }
 }
 
@@ -45,12 +53,14 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
+    const priority = searchParams.get('priority');
     const limit = searchParams.get('limit');
     const offset = searchParams.get('offset');
     
     const listJobsUseCase = serviceProvider.getService('ListJobsUseCase');
     const jobs = await listJobsUseCase.execute({
       status: status || undefined,
+      priority: priority || undefined,
       limit: limit ? parseInt(limit, 10) : undefined,
       offset: offset ? parseInt(offset, 10) : undefined,
     });
@@ -0,0 +1,89 @@
+// src/app/api/storage/gc/route.ts
+// Storage garbage collection: GET /api/storage/gc (report of the last run),
+// POST /api/storage/gc { dryRun?: boolean } (runs it now; the worker also runs it periodically)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { serviceProvider } from '@/infrastructure/di/ServiceProvider';
+import { CollectStorageGarbageUseCase } from '@/core/domain/use-cases/storage/CollectStorageGarbageUseCase';
+import { AppError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const CollectGarbageSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+function getGarbageCollector(): CollectStorageGarbageUseCase | null {
+  // Only registered when a storage service is configured
+  return serviceProvider.getContainer().has('CollectStorageGarbageUseCase')
+    ? serviceProvider.getService<CollectStorageGarbageUseCase>('CollectStorageGarbageUseCase')
+    : null;
+}
+
+export async function GET() {
+  try {
+    const garbageCollector = getGarbageCollector();
+    if (!garbageCollector) {
+      return NextResponse.json({
+        success: false,
+        error: 'Storage GC requires a configured storage service',
+      }, { status: 503 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await garbageCollector.getLastReport(),
+    });
+
+  } catch (error) {
+    logger.error('Failed to read storage GC report', error instanceof Error ? error : undefined);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const garbageCollector = getGarbageCollector();
+    if (!garbageCollector) {
+      return NextResponse.json({
+        success: false,
+        error: 'Storage GC requires a configured storage service',
+      }, { status: 503 });
+    }
+
+    const parsed = CollectGarbageSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: parsed.error.issues,
+      }, { status: 400 });
+    }
+
+    const report = await garbageCollector.execute(parsed.data);
+    logger.info('Storage GC run from API', {
+      dryRun: report.dryRun,
+      deletedObjects: report.deletedObjects,
+      reclaimedBytes: report.reclaimedBytes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+
+  } catch (error) {
+    logger.error('Storage GC failed', error instanceof Error ? error : undefined);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: error instanceof AppError ? error.statusCode : 500 });
+  }
+}
@@ -5,6 +5,7 @@ import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
 import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { IQueue } from '@/core/ports/queue/IQueue';
+import { IRetryPolicy, RetryDecision } from '@/core/ports/queue/IRetryPolicy';
 import { Job } from '@/core/domain/entities/Job';
 import { JobStatus } from '@/core/domain/value-objects/JobStatus';
 import { ItemStatus } from '@/core/domain/value-objects/ItemStatus';
@@ -37,7 +38,8 @@ export class ErrorRecoveryCoordinator {
     private readonly jobRepository: IJobRepository,
     private readonly itemRepository: IContentItemRepository,
     private readonly eventBus: IEventBus,
-    private readonly retryQueue: IQueue
+    private readonly retryQueue: IQueue,
+    private readonly retryPolicy: IRetryPolicy
   ) {}
 
   async handleError(context: ErrorContext): Promise<RecoveryResult> {
@@ -46,9 +48,7 @@ export class ErrorRecoveryCoordinator {
       entityId,
       error,
       severity,
-      retryable,
       retryCount,
-      maxRetries,
       metadata = {},
     } = context;
 
@@ -72,38 +72,37 @@ export class ErrorRecoveryCoordinator {
     );
 
     // Determine if we should retry
-    const shouldRetry = this.shouldRetry(errorContext, retryable, retryCount, maxRetries, severity);
+    const decision = this.shouldRetry(context);
 
-    if (shouldRetry) {
-      return await this.scheduleRetry(context);
+    if (decision.retry) {
+      return await this.scheduleRetry(context, decision.delayMs);
     } else {
       return await this.handlePermanentError(context);
     }
   }
 
-  private shouldRetry(
-    context: string,
-    retryable: boolean,
-    retryCount: number,
-    maxRetries: number,
-    severity: string
-  ): boolean {
-    // Don't retry critical errors or non-retryable errors
+  private shouldRetry(context: ErrorContext): RetryDecision {
+    const { error, retryable, retryCount, maxRetries, severity, metadata = {} } = context;
+
+    // The retry policy of the error code and pipeline step decides, within the
+    // caller's maxRetries budget
+    const decision = this.retryPolicy.decide(error, {
+      attempt: retryCount + 1,
+      step: metadata.step,
+      maxAttempts: maxRetries + 1,
+    });
+
+    // Don't retry critical errors or errors flagged non-retryable by the caller
     if (!retryable || severity === 'critical') {
-      return false;
+      return { ...decision, retry: false, delayMs: 0, reason: 'non_retryable' };
     }
 
-    // Check if we've exceeded max retries
-    return retryCount < maxRetries;
+    return decision;
   }
 
-  private async scheduleRetry(context: ErrorContext): Promise<RecoveryResult> {
+  private async scheduleRetry(context: ErrorContext, delay: number): Promise<RecoveryResult> {
     const { entityId, retryCount, maxRetries, error } = context;
 
-    // Calculate exponential backoff delay
-    const baseDelay = 1000; // 1 second
-    const maxDelay = 300000; // 5 minutes
-    const delay = Math.min(baseDelay * Math.pow(2, retryCount), maxDelay);
     const nextRetryAt = new Date(Date.now() + delay);
 
     logger.warn(`Scheduling retry for ${context.context}`, {
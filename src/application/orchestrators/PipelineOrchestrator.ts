@@ -12,6 +12,7 @@ import { JobCompletedEvent } from '@/core/domain/events/job/JobCompletedEvent';
 import { JobFailedEvent } from '@/core/domain/events/job/JobFailedEvent';
 import { JobProgressUpdatedEvent } from '@/core/domain/events/job/JobProgressUpdatedEvent';
 import { ItemStatus } from '@/core/domain/value-objects/ItemStatus';
+import { PriorityHelper } from '@/core/domain/value-objects/Priority';
 import { Logger } from '@/shared/lib/logger';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
@@ -51,7 +52,7 @@ export class PipelineOrchestrator {
         await this.jobQueue.enqueueItem({
           itemId: item.id,
           jobId: job.id,
-          priority: 1,
+          priority: PriorityHelper.getWeight(PriorityHelper.resolve(job.priority, item.priority)),
         });
       }
 
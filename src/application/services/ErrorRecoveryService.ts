@@ -4,6 +4,7 @@
 import { IErrorLogRepository } from '@/core/ports/repositories/IErrorLogRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { IRetryPolicy } from '@/core/ports/queue/IRetryPolicy';
 import { ErrorOccurredEvent } from '@/core/domain/events/error/ErrorOccurredEvent';
 import { RetryScheduledEvent } from '@/core/domain/events/error/RetryScheduledEvent';
 import { ErrorLog } from '@/core/domain/entities/ErrorLog';
@@ -13,7 +14,8 @@ export class ErrorRecoveryService {
   constructor(
     private readonly errorLogRepository: IErrorLogRepository,
     private readonly eventBus: IEventBus,
-    private readonly queueManager: IQueueManager
+    private readonly queueManager: IQueueManager,
+    private readonly retryPolicy: IRetryPolicy
   ) {
     this.setupEventListeners();
   }
@@ -42,14 +44,14 @@ export class ErrorRecoveryService {
 
       await this.errorLogRepository.save(errorLog);
 
-      // Determine if this error is retryable
-      const isRetryable = this.isRetryableError(errorType);
-
-      if (isRetryable) {
-        // Schedule retry with exponential backoff
-        const retryDelay = this.calculateRetryDelay(errorLog.retryCount);
+      // Retry policy of the error code (and pipeline step, when known)
+      const decision = this.retryPolicy.decideForCode(this.toErrorCode(errorType), {
+        attempt: errorLog.retryCount + 1,
+        step: context?.step,
+      });
 
-        await this.scheduleRetry(errorId, retryDelay);
+      if (decision.retry) {
+        await this.scheduleRetry(errorId, decision.delayMs);
       }
 
     } catch (error) {
@@ -58,31 +60,12 @@ export class ErrorRecoveryService {
   }
 
   private isRetryableError(errorType: string): boolean {
-    const retryableErrors = [
-      'network_error',
-      'rate_limit',
-      'timeout',
-      'service_unavailable',
-      'transient_error',
-    ];
-
-    return retryableErrors.includes(errorType.toLowerCase());
+    return this.retryPolicy.isRetryable(this.toErrorCode(errorType));
   }
 
-  private calculateRetryDelay(retryCount: number): number {
-    // Exponential backoff with jitter
-    const baseDelay = 1000; // 1 second
-    const maxDelay = 300000; // 5 minutes
-    
-    const delay = Math.min(
-      baseDelay * Math.pow(2, retryCount),
-      maxDelay
-    );
-
-    // Add jitter (randomness) to prevent thundering herd
-    const jitter = delay * 0.2 * Math.random();
-
-    return delay + jitter;
+  // Error types are logged as lower-case error codes ('rate_limit', 'timeout', ...)
+  private toErrorCode(errorType: string): string {
+    return errorType.toUpperCase();
   }
 
   private async scheduleRetry(errorId: string, delayMs: number): Promise<void> {
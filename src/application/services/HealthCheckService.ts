@@ -6,6 +6,7 @@ import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRe
 import { IQueueManager } from '@/core/ports/queue/IQueueManager';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { IErrorLogRepository } from '@/core/ports/repositories/IErrorLogRepository';
+import { CollectStorageGarbageUseCase } from '@/core/domain/use-cases/storage/CollectStorageGarbageUseCase';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
 export class HealthCheckService {
@@ -14,7 +15,8 @@ export class HealthCheckService {
     private readonly contentItemRepository: IContentItemRepository,
     private readonly queueManager: IQueueManager,
     private readonly eventBus: IEventBus,
-    private readonly errorLogRepository: IErrorLogRepository
+    private readonly errorLogRepository: IErrorLogRepository,
+    private readonly storageGarbageCollector?: CollectStorageGarbageUseCase
   ) {}
 
   public async performHealthCheck(): Promise<{
@@ -45,6 +47,11 @@ export class HealthCheckService {
       // Check error logs
       components.errorLogs = await this.checkErrorLogs();
 
+      // Check storage GC
+      if (this.storageGarbageCollector) {
+        components.storage = await this.checkStorage(this.storageGarbageCollector);
+      }
+
       // Overall health status
       const healthy = Object.values(components).every(c => c.healthy);
 
@@ -249,6 +256,40 @@ export class HealthCheckService {
     }
   }
 
+  private async checkStorage(garbageCollector: CollectStorageGarbageUseCase): Promise<{ healthy: boolean; message?: string; details?: Record<string, unknown> }> {
+    try {
+      const report = await garbageCollector.getLastReport();
+      if (!report) {
+        return {
+          healthy: true,
+          message: 'Storage GC has not run yet',
+        };
+      }
+
+      // Failed deletes are retried by the next run: reported, not unhealthy
+      return {
+        healthy: true,
+        message: `Last GC ${report.finishedAt}: ${report.deletedObjects} objects, ${report.reclaimedBytes} bytes reclaimed`,
+        details: {
+          lastRunAt: report.finishedAt,
+          scannedObjects: report.scannedObjects,
+          scannedBytes: report.scannedBytes,
+          deletedObjects: report.deletedObjects,
+          droppedChunkFiles: report.droppedChunkFiles,
+          reclaimedBytes: report.reclaimedBytes,
+          totalReclaimedBytes: report.totalReclaimedBytes,
+          errors: report.errors.length,
+        },
+      };
+
+    } catch (error) {
+      return {
+        healthy: false,
+        message: error instanceof Error ? error.message : 'Storage check failed',
+      };
+    }
+  }
+
   public async getSystemMetrics(): Promise<{
     jobs: {
       total: number;
@@ -270,6 +311,11 @@ export class HealthCheckService {
       audio: number;
       merge: number;
     };
+    storage?: {
+      lastGcAt: string;
+      reclaimedBytes: number;
+      totalReclaimedBytes: number;
+    };
     timestamp: Date;
   }> {
     try {
@@ -293,6 +339,9 @@ export class HealthCheckService {
       const audioQueueStatus = await this.queueManager.getQueueStatus('audio');
       const mergeQueueStatus = await this.queueManager.getQueueStatus('merge');
 
+      // Get storage GC metrics
+      const gcReport = await this.storageGarbageCollector?.getLastReport();
+
       return {
         jobs: {
           total: jobs.length,
@@ -314,6 +363,13 @@ export class HealthCheckService {
           audio: audioQueueStatus.pending,
           merge: mergeQueueStatus.pending,
         },
+        storage: gcReport
+          ? {
+              lastGcAt: gcReport.finishedAt,
+              reclaimedBytes: gcReport.reclaimedBytes,
+              totalReclaimedBytes: gcReport.totalReclaimedBytes,
+            }
+          : undefined,
         timestamp: new Date(),
       };
 
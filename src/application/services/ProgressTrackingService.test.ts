@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PROGRESS_EVENT_TYPES, ProgressTrackingService } from './ProgressTrackingService';
+import { DomainEvent } from '@/core/domain/events/base/DomainEvent';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { ChunkStatus } from '@/core/domain/value-objects/ChunkStatus';
+import { IEventStore } from '@/core/ports/events/IEventStore';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { InMemoryEventBus } from '@/infrastructure/events/InMemoryEventBus';
+import { NotFoundError } from '@/shared/utils/errors/AppError';
+
+const OCCURRED_AT = new Date('2024-01-01T00:00:00Z');
+
+function event(eventType: string, payload: Record<string, unknown>): DomainEvent {
+  return { eventId: `${eventType}-1`, eventType, occurredAt: OCCURRED_AT, metadata: { timestamp: OCCURRED_AT }, payload };
+}
+
+function createService(eventBus = new InMemoryEventBus()) {
+  return new ProgressTrackingService(
+    {} as IJobRepository,
+    {} as IContentItemRepository,
+    { findById: vi.fn().mockResolvedValue(null) } as unknown as IAudioChunkRepository,
+    eventBus
+  );
+}
+
+// Feeds the events to the handler the way PrismaEventStore.replay does
+function stubEventStore(events: DomainEvent[]): IEventStore & { replay: ReturnType<typeof vi.fn> } {
+  return {
+    replay: vi.fn(async (handler, query) => {
+      const matching = events.filter((e) => query.eventTypes.includes(e.eventType));
+      for (const e of matching) {
+        await handler.handle(e);
+      }
+      return matching.length;
+    }),
+  } as unknown as IEventStore & { replay: ReturnType<typeof vi.fn> };
+}
+
+describe('ProgressTrackingService', () => {
+  it('tracks job, item and chunk progress from the published events', async () => {
+    const eventBus = new InMemoryEventBus();
+    const service = createService(eventBus);
+
+    await eventBus.publish(event('job.progress.updated', {
+      jobId: 'job-1', totalItems: 4, completedItems: 1, failedItems: 1, progressPercentage: 25,
+    }));
+    await eventBus.publish(event('item.text.chunking.completed', { jobId: 'job-1', itemId: 'item-1', totalChunks: 3 }));
+    await eventBus.publish(event('chunk.processing.started', { jobId: 'job-1', itemId: 'item-1', chunkId: 'chunk-1' }));
+
+    expect(await service.getJobProgress('job-1')).toMatchObject({
+      totalItems: 4, completedItems: 1, failedItems: 1, progress: 0.25,
+    });
+    // Chunking is the third of six steps
+    expect(await service.getItemProgress('item-1')).toEqual({
+      currentStep: PipelineStep.CHUNKING, stepProgress: 1, overallProgress: 0.5, lastUpdated: OCCURRED_AT,
+    });
+    expect(await service.getChunkProgress('chunk-1')).toMatchObject({ status: ChunkStatus.PROCESSING, progress: 0.5 });
+  });
+
+  it('reads text generation progress from its percentage', async () => {
+    const service = createService();
+
+    await service.handle(event('item.text.generation.progress', { itemId: 'item-1', progressPercentage: 50 }));
+
+    expect(await service.getItemProgress('item-1')).toMatchObject({
+      currentStep: PipelineStep.TEXT_GENERATION, stepProgress: 0.5, overallProgress: 1.5 / 6,
+    });
+  });
+
+  it('rebuilds every projection from the event store', async () => {
+    const service = createService();
+    await service.handle(event('chunk.created', { chunkId: 'stale-chunk' }));
+    const eventStore = stubEventStore([
+      event('job.progress.updated', { jobId: 'job-1', totalItems: 2, completedItems: 2, failedItems: 0 }),
+      event('item.audio.merge.started', { itemId: 'item-1' }),
+      event('item.completed', { itemId: 'item-1' }),
+      event('chunk.created', { chunkId: 'chunk-1' }),
+      event('chunk.processing.completed', { chunkId: 'chunk-1' }),
+      event('job.started', { jobId: 'job-1' }),
+    ]);
+    const since = new Date('2023-12-31T00:00:00Z');
+
+    const replayed = await service.rebuildFromEventStore(eventStore, since);
+
+    expect(replayed).toBe(5);
+    expect(eventStore.replay).toHaveBeenCalledWith(service, { eventTypes: PROGRESS_EVENT_TYPES, since });
+    expect(await service.getJobProgress('job-1')).toMatchObject({ progress: 1 });
+    expect(await service.getItemProgress('item-1')).toMatchObject({
+      currentStep: PipelineStep.UPLOAD, overallProgress: 1,
+    });
+    expect(await service.getChunkProgress('chunk-1')).toMatchObject({ status: ChunkStatus.COMPLETED, progress: 1 });
+    // Tracking is reset first: the chunk reported before the rebuild is looked up in the repository
+    await expect(service.getChunkProgress('stale-chunk')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -5,15 +5,56 @@ import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
 import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
 import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
+import { IEventHandler } from '@/core/ports/events/IEventHandler';
+import { IEventStore } from '@/core/ports/events/IEventStore';
+import { DomainEvent } from '@/core/domain/events/base/DomainEvent';
 import { JobProgressUpdatedEvent } from '@/core/domain/events/job/JobProgressUpdatedEvent';
-import { ItemProgressUpdatedEvent } from '@/core/domain/events/item/ItemProgressUpdatedEvent';
-import { ChunkProgressUpdatedEvent } from '@/core/domain/events/chunk/ChunkProgressUpdatedEvent';
-import { Job } from '@/core/domain/entities/Job';
-import { ContentItem } from '@/core/domain/entities/ContentItem';
-import { AudioChunk } from '@/core/domain/entities/AudioChunk';
+import { TextGenerationProgressPayload } from '@/core/domain/events/item/TextGenerationProgressEvent';
+import { ContentItem, PipelineStep } from '@/core/domain/entities/ContentItem';
+import { ChunkStatus } from '@/core/domain/value-objects/ChunkStatus';
+import { ItemStatus } from '@/core/domain/value-objects/ItemStatus';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
-export class ProgressTrackingService {
+const JOB_PROGRESS_EVENT = 'job.progress.updated';
+const TEXT_GENERATION_PROGRESS_EVENT = 'item.text.generation.progress';
+
+// Item events that start or finish a pipeline step
+const ITEM_STEP_EVENTS: Record<string, { step: PipelineStep; stepProgress: number }> = {
+  'item.validation.started': { step: PipelineStep.VALIDATION, stepProgress: 0 },
+  'item.validation.completed': { step: PipelineStep.VALIDATION, stepProgress: 1 },
+  'item.text.generation.started': { step: PipelineStep.TEXT_GENERATION, stepProgress: 0 },
+  'item.text.generation.completed': { step: PipelineStep.TEXT_GENERATION, stepProgress: 1 },
+  'item.text.chunking.completed': { step: PipelineStep.CHUNKING, stepProgress: 1 },
+  'item.audio.generation.started': { step: PipelineStep.AUDIO_GENERATION, stepProgress: 0 },
+  'item.audio.merge.started': { step: PipelineStep.AUDIO_MERGE, stepProgress: 0 },
+  'item.audio.merge.completed': { step: PipelineStep.AUDIO_MERGE, stepProgress: 1 },
+  'item.completed': { step: PipelineStep.UPLOAD, stepProgress: 1 },
+};
+
+const CHUNK_PROGRESS: Record<ChunkStatus, number> = {
+  [ChunkStatus.PENDING]: 0,
+  [ChunkStatus.PROCESSING]: 0.5,
+  [ChunkStatus.COMPLETED]: 1,
+  [ChunkStatus.FAILED]: 0,
+};
+
+const CHUNK_STATUS_EVENTS: Record<string, ChunkStatus> = {
+  'chunk.created': ChunkStatus.PENDING,
+  'chunk.processing.started': ChunkStatus.PROCESSING,
+  'chunk.processing.completed': ChunkStatus.COMPLETED,
+  'chunk.failed': ChunkStatus.FAILED,
+};
+
+export const PROGRESS_EVENT_TYPES = [
+  JOB_PROGRESS_EVENT,
+  TEXT_GENERATION_PROGRESS_EVENT,
+  ...Object.keys(ITEM_STEP_EVENTS),
+  ...Object.keys(CHUNK_STATUS_EVENTS),
+];
+
+const PIPELINE_STEPS = Object.values(PipelineStep);
+
+export class ProgressTrackingService implements IEventHandler {
   private readonly jobProgress: Map<string, {
     totalItems: number;
     completedItems: number;
@@ -45,24 +86,31 @@ export class ProgressTrackingService {
   }
 
   private setupEventListeners(): void {
-    // Listen for job progress updates
-    this.eventBus.subscribe(JobProgressUpdatedEvent.name, async (event: JobProgressUpdatedEvent) => {
-      await this.handleJobProgressUpdated(event);
-    });
-
-    // Listen for item progress updates
-    this.eventBus.subscribe(ItemProgressUpdatedEvent.name, async (event: ItemProgressUpdatedEvent) => {
-      await this.handleItemProgressUpdated(event);
-    });
+    for (const eventType of PROGRESS_EVENT_TYPES) {
+      this.eventBus.subscribe(eventType, this);
+    }
+  }
 
-    // Listen for chunk progress updates
-    this.eventBus.subscribe(ChunkProgressUpdatedEvent.name, async (event: ChunkProgressUpdatedEvent) => {
-      await this.handleChunkProgressUpdated(event);
-    });
+  // Same projection for live events and for events replayed from the store
+  async handle(event: DomainEvent): Promise<void> {
+    if (event.eventType === JOB_PROGRESS_EVENT) {
+      await this.handleJobProgressUpdated(event as JobProgressUpdatedEvent);
+    } else if (event.eventType === TEXT_GENERATION_PROGRESS_EVENT) {
+      const { itemId, progressPercentage } = event.payload as TextGenerationProgressPayload;
+      this.setItemProgress(itemId, PipelineStep.TEXT_GENERATION, progressPercentage / 100, event.occurredAt);
+    } else if (ITEM_STEP_EVENTS[event.eventType]) {
+      const { step, stepProgress } = ITEM_STEP_EVENTS[event.eventType];
+      const { itemId } = event.payload as { itemId: string };
+      this.setItemProgress(itemId, step, stepProgress, event.occurredAt);
+    } else if (CHUNK_STATUS_EVENTS[event.eventType]) {
+      const status = CHUNK_STATUS_EVENTS[event.eventType];
+      const { chunkId } = event.payload as { chunkId: string };
+      this.chunkProgress.set(chunkId, { status, progress: CHUNK_PROGRESS[status], lastUpdated: event.occurredAt });
+    }
   }
 
   private async handleJobProgressUpdated(event: JobProgressUpdatedEvent): Promise<void> {
-    const { jobId, completedItems, totalItems, failedItems } = event;
+    const { jobId, completedItems, totalItems, failedItems } = event.payload;
 
     try {
       // Update job progress tracking
@@ -73,7 +121,7 @@ export class ProgressTrackingService {
         completedItems,
         failedItems,
         progress,
-        lastUpdated: new Date(),
+        lastUpdated: event.occurredAt,
       });
 
     } catch (error) {
@@ -81,37 +129,15 @@ export class ProgressTrackingService {
     }
   }
 
-  private async handleItemProgressUpdated(event: ItemProgressUpdatedEvent): Promise<void> {
-    const { itemId, currentStep, stepProgress, overallProgress } = event;
+  private setItemProgress(itemId: string, step: PipelineStep, stepProgress: number, occurredAt: Date): void {
+    const stepIndex = PIPELINE_STEPS.indexOf(step);
 
-    try {
-      // Update item progress tracking
-      this.itemProgress.set(itemId, {
-        currentStep,
-        stepProgress,
-        overallProgress,
-        lastUpdated: new Date(),
-      });
-
-    } catch (error) {
-      console.error(`Failed to handle item progress update for item ${itemId}:`, error);
-    }
-  }
-
-  private async handleChunkProgressUpdated(event: ChunkProgressUpdatedEvent): Promise<void> {
-    const { chunkId, status, progress } = event;
-
-    try {
-      // Update chunk progress tracking
-      this.chunkProgress.set(chunkId, {
-        status,
-        progress,
-        lastUpdated: new Date(),
-      });
-
-    } catch (error) {
-      console.error(`Failed to handle chunk progress update for chunk ${chunkId}:`, error);
-    }
+    this.itemProgress.set(itemId, {
+      currentStep: step,
+      stepProgress,
+      overallProgress: (stepIndex + stepProgress) / PIPELINE_STEPS.length,
+      lastUpdated: occurredAt,
+    });
   }
 
   public async getJobProgress(jobId: string): Promise<{
@@ -131,7 +157,7 @@ export class ProgressTrackingService {
       // If not in memory, fetch from database
       const job = await this.jobRepository.findById(jobId);
       if (!job) {
-        throw ErrorFactory.notFound(`Job with id ${jobId} not found`);
+        throw ErrorFactory.notFound('Job', jobId);
       }
 
       const progress = job.completedItems / Math.max(job.totalItems, 1);
@@ -155,7 +181,7 @@ export class ProgressTrackingService {
 
     } catch (error) {
       console.error(`Failed to get job progress for job ${jobId}:`, error);
-      throw ErrorFactory.progressTrackingError('Failed to get job progress', error);
+      throw error;
     }
   }
 
@@ -175,7 +201,7 @@ export class ProgressTrackingService {
       // If not in memory, fetch from database
       const item = await this.contentItemRepository.findById(itemId);
       if (!item) {
-        throw ErrorFactory.notFound(`Content item with id ${itemId} not found`);
+        throw ErrorFactory.notFound('ContentItem', itemId);
       }
 
       // Calculate progress based on current step
@@ -203,38 +229,29 @@ export class ProgressTrackingService {
 
     } catch (error) {
       console.error(`Failed to get item progress for item ${itemId}:`, error);
-      throw ErrorFactory.progressTrackingError('Failed to get item progress', error);
+      throw error;
     }
   }
 
   private calculateStepProgress(item: ContentItem): number {
-    // Progress calculation would depend on the specific step
-    // This is a simplified version
+    // Only the item row is at hand: a step counts as half done until its output is stored
     switch (item.currentStep) {
-      case 'validation':
-        return item.status === 'validated' ? 1 : 0.5;
-      case 'text_generation':
+      case PipelineStep.TEXT_GENERATION:
         return item.generatedText ? 1 : 0.5;
-      case 'audio_generation':
-        return item.audioChunks?.length > 0 ? 1 : 0.5;
-      case 'merge':
+      case PipelineStep.AUDIO_MERGE:
         return item.finalAudioPath ? 1 : 0.5;
       default:
-        return 0;
+        return item.status === ItemStatus.COMPLETED ? 1 : 0.5;
     }
   }
 
   private calculateOverallProgress(item: ContentItem): number {
     // Overall progress based on pipeline steps
-    const steps = ['validation', 'text_generation', 'audio_generation', 'merge'];
-    const currentStepIndex = steps.indexOf(item.currentStep);
+    const currentStepIndex = PIPELINE_STEPS.indexOf(item.currentStep);
 
     if (currentStepIndex === -1) return 0;
 
-    const stepProgress = this.calculateStepProgress(item);
-    const completedSteps = currentStepIndex;
-
-    return (completedSteps + stepProgress) / steps.length;
+    return (currentStepIndex + this.calculateStepProgress(item)) / PIPELINE_STEPS.length;
   }
 
   public async getChunkProgress(chunkId: string): Promise<{
@@ -252,25 +269,11 @@ export class ProgressTrackingService {
       // If not in memory, fetch from database
       const chunk = await this.audioChunkRepository.findById(chunkId);
       if (!chunk) {
-        throw ErrorFactory.notFound(`Audio chunk with id ${chunkId} not found`);
+        throw ErrorFactory.notFound('AudioChunk', chunkId);
       }
 
       // Calculate progress based on status
-      let progress = 0;
-      switch (chunk.status) {
-        case 'pending':
-          progress = 0;
-          break;
-        case 'processing':
-          progress = 0.5;
-          break;
-        case 'completed':
-          progress = 1;
-          break;
-        case 'failed':
-          progress = 0;
-          break;
-      }
+      const progress = CHUNK_PROGRESS[chunk.status] ?? 0;
 
       // Calculate estimated completion time
       let estimatedCompletion: Date | undefined;
@@ -289,7 +292,7 @@ export class ProgressTrackingService {
 
     } catch (error) {
       console.error(`Failed to get chunk progress for chunk ${chunkId}:`, error);
-      throw ErrorFactory.progressTrackingError('Failed to get chunk progress', error);
+      throw error;
     }
   }
 
@@ -317,7 +320,7 @@ export class ProgressTrackingService {
       // Get job
       const job = await this.jobRepository.findById(jobId);
       if (!job) {
-        throw ErrorFactory.notFound(`Job with id ${jobId} not found`);
+        throw ErrorFactory.notFound('Job', jobId);
       }
 
       // Get items for this job
@@ -327,16 +330,13 @@ export class ProgressTrackingService {
       const itemsWithChunks = await Promise.all(
         items.map(async (item) => {
           const chunks = await this.audioChunkRepository.findByItemId(item.id);
-          return {
-            ...item,
-            chunks,
-          };
+          return { item, chunks };
         })
       );
 
       // Calculate overall progress
-      const totalItems = itemsWithChunks.length;
-      const completedItems = itemsWithChunks.filter(item => item.status === 'completed').length;
+      const totalItems = items.length;
+      const completedItems = items.filter(item => item.status === ItemStatus.COMPLETED).length;
       const overallProgress = completedItems / Math.max(totalItems, 1);
 
       return {
@@ -346,15 +346,15 @@ export class ProgressTrackingService {
           status: job.status,
           progress: overallProgress,
         },
-        items: itemsWithChunks.map(item => ({
+        items: itemsWithChunks.map(({ item, chunks }) => ({
           id: item.id,
           title: item.titre,
           status: item.status,
           progress: this.calculateOverallProgress(item),
-          chunks: item.chunks.map(chunk => ({
+          chunks: chunks.map(chunk => ({
             id: chunk.id,
             status: chunk.status,
-            progress: chunk.status === 'completed' ? 1 : chunk.status === 'processing' ? 0.5 : 0,
+            progress: CHUNK_PROGRESS[chunk.status] ?? 0,
           })),
         })),
         overallProgress,
@@ -362,10 +362,18 @@ export class ProgressTrackingService {
 
     } catch (error) {
       console.error(`Failed to get pipeline progress for job ${jobId}:`, error);
-      throw ErrorFactory.progressTrackingError('Failed to get pipeline progress', error);
+      throw error;
     }
   }
 
+  // Rebuilds the job, item and chunk projections from the persisted events, e.g. after a restart.
+  // Progress older than `since` is left to the repositories
+  public async rebuildFromEventStore(eventStore: IEventStore, since?: Date): Promise<number> {
+    await this.resetTracking();
+
+    return await eventStore.replay(this, { eventTypes: PROGRESS_EVENT_TYPES, since });
+  }
+
   public async resetTracking(): Promise<void> {
     // Clear all in-memory tracking
     this.jobProgress.clear();
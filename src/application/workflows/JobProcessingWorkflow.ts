@@ -4,11 +4,14 @@
 import { PipelineOrchestrator } from '../orchestrators/PipelineOrchestrator';
 import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
 import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { StartJobProcessingUseCase } from '@/core/domain/use-cases/job/StartJobProcessingUseCase';
-import { ProcessItemUseCase } from '@/core/domain/use-cases/content/ProcessItemUseCase';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { ItemJobPayload, JOB_TYPES, QUEUE_NAMES, pipelineJobId } from '@/shared/constants/queues';
 import { logger } from '@/shared/lib/logger';
 import { JobStatus } from '@/core/domain/value-objects/JobStatus';
+import { PriorityHelper } from '@/core/domain/value-objects/Priority';
 import { Job } from '@/core/domain/entities/Job';
 import { CSVRow } from '@/core/domain/value-objects/CSVRow';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
@@ -45,7 +48,8 @@ export class JobProcessingWorkflow {
     private readonly itemRepository: IContentItemRepository,
     private readonly eventBus: IEventBus,
     private readonly startJobProcessing: StartJobProcessingUseCase,
-    private readonly processItem: ProcessItemUseCase
+    private readonly queueManager: IQueueManager,
+    private readonly settingsRepository: IUserSettingsRepository
   ) {}
 
   async executeWorkflow(context: JobProcessingContext): Promise<JobProcessingResult> {
@@ -141,41 +145,53 @@ export class JobProcessingWorkflow {
     logger.info('Job started successfully', { jobId, queuedItems: result.queuedItems });
   }
 
+  // Items enter the pipeline through the validation queue; workers chain the
+  // remaining steps, so items are processed concurrently
   private async processItems(jobId: string, result: JobProcessingResult): Promise<void> {
-    logger.debug('Processing items for job', { jobId });
+    logger.debug('Queueing items for job', { jobId });
     
+    const job = await this.jobRepository.findById(jobId);
+    if (!job) {
+      throw ErrorFactory.notFound('Job', jobId);
+    }
+
+    // Attempt budget of every step of the job's items, read once when the job starts
+    const settings = await this.settingsRepository.getOrCreateDefault();
+    const maxAttempts = settings.defaultAutoRetry + 1;
+
     const items = await this.itemRepository.findByJobId(jobId);
-    logger.info(`Found ${items.length} items to process`, { jobId });
+    logger.info(`Found ${items.length} items to process`, { jobId, maxAttempts });
+
+    const validationQueue = this.queueManager.getQueue<ItemJobPayload>(QUEUE_NAMES.VALIDATION);
 
     for (const item of items) {
       try {
-        // Process each item through the pipeline
-        await this.processItem.execute({
-          itemId: item.id,
-          jobId: jobId,
-          forceRegenerate: false,
-        });
+        await validationQueue.enqueue(
+          JOB_TYPES.VALIDATE_ITEM,
+          { jobId, itemId: item.id },
+          {
+            jobId: pipelineJobId(JOB_TYPES.VALIDATE_ITEM, item.id),
+            // Items of a job share one fairness group, so jobs get workers in turn
+            priority: PriorityHelper.getWeight(PriorityHelper.resolve(job.priority, item.priority)),
+            fairnessKey: jobId,
+            maxAttempts,
+          }
+        );
 
         result.processedItems++;
-        logger.debug(`Item processed successfully`, { 
-          itemId: item.id,
-          jobId, 
-          processedSoFar: result.processedItems 
-        });
-
       } catch (error) {
         result.failedItems++;
         result.errors.push({
           itemId: item.id,
           error: error instanceof Error ? error.message : 'Unknown error',
-          step: 'item-processing',
+          step: 'item-queueing',
         });
 
-        logger.error(`Item processing failed`, {
-          itemId: item.id,
-          jobId,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+        logger.error(
+          'Item queueing failed',
+          error instanceof Error ? error : undefined,
+          { itemId: item.id, jobId }
+        );
       }
     }
   }
@@ -160,6 +160,12 @@ export class AudioChunk {
     this.updatedAt = new Date();
   }
 
+  // The merged item audio replaces the chunk file (storage GC); duration and size are kept for captions
+  public releaseAudio(): void {
+    this.audioPath = undefined;
+    this.updatedAt = new Date();
+  }
+
   public updateVoice(voiceId: string): void {
     if (this._status === ChunkStatus.PROCESSING) {
       throw ErrorFactory.invalidConfig(
@@ -4,6 +4,7 @@
 
 import { ItemStatus, ItemStatusHelper } from '../value-objects/ItemStatus';
 import { CSVRow, ContentCategory } from '../value-objects/CSVRow';
+import { Priority } from '../value-objects/Priority';
 import { ValidationError } from '@/shared/utils/errors/AppError';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
@@ -22,6 +23,7 @@ export interface ContentItemData {
   rowIndex: number;
   status: ItemStatus;
   currentStep: PipelineStep;
+  priority?: Priority;
   titre: string;
   details: string;
   category: ContentCategory;
@@ -56,7 +58,9 @@ export class ContentItem {
     public readonly createdAt: Date,
     public updatedAt: Date,
     public startedAt: Date | undefined,
-    public completedAt: Date | undefined
+    public completedAt: Date | undefined,
+    // Overrides the job priority when set
+    public priority?: Priority
   ) {}
 
   static create(csvRow: CSVRow, jobId: string, rowIndex: number): ContentItem {
@@ -104,7 +108,8 @@ export class ContentItem {
       data.createdAt,
       data.updatedAt,
       data.startedAt,
-      data.completedAt
+      data.completedAt,
+      data.priority
     );
   }
 
@@ -155,6 +160,15 @@ export class ContentItem {
     }
   }
 
+  // Sends the item back to an earlier step, whatever its status (e.g. a completed item whose
+  // script is re-run); unlike setStatus, terminal statuses are left
+  public restartAt(step: PipelineStep, status: ItemStatus): void {
+    this._currentStep = step;
+    this._status = status;
+    this.completedAt = undefined;
+    this.updatedAt = new Date();
+  }
+
   public setGeneratedText(text: string): void {
     if (!text || text.trim().length === 0) {
       throw new ValidationError('Generated text cannot be empty');
@@ -178,6 +192,11 @@ export class ContentItem {
     this.updatedAt = new Date();
   }
 
+  public setPriority(priority: Priority | undefined): void {
+    this.priority = priority;
+    this.updatedAt = new Date();
+  }
+
   public incrementRetry(): void {
     if (this.retryCount >= this.maxRetries) {
       throw ErrorFactory.invalidConfig(
@@ -225,6 +244,7 @@ export class ContentItem {
       rowIndex: this.rowIndex,
       status: this._status,
       currentStep: this._currentStep,
+      priority: this.priority,
       titre: this.titre,
       details: this.details,
       category: this.category,
@@ -11,6 +11,11 @@ export interface GeneratedTextData {
   estimatedDuration?: number; // Estimated audio duration in seconds
   metadata?: {
     model: string;
+    provider?: string;
+    // Produced by a fallback of the requested model
+    usedFallback?: boolean;
+    // What the provider stripped from its raw answer (preambles, markdown, stage directions...)
+    removed?: Array<{ kind: string; text: string }>;
     temperature?: number;
     maxTokens?: number;
   };
@@ -5,6 +5,8 @@
 import { JobStatus, JobStatusHelper } from '../value-objects/JobStatus';
 import { VoiceSettings } from '../value-objects/VoiceSettings';
 import { PromptTemplate } from '../value-objects/PromptTemplate';
+import { Priority } from '../value-objects/Priority';
+import { ScriptStage } from '../value-objects/ScriptStage';
 import { ValidationError } from '@/shared/utils/errors/AppError';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
@@ -15,8 +17,14 @@ export interface JobData {
   voiceSettings?: VoiceSettings;
   systemPrompt?: string;
   userPromptTemplate?: PromptTemplate;
+  // LLM used for the scripts (default provider/model when unset)
+  aiProvider?: string;
+  aiModel?: string;
+  // Ordered LLM stages replacing the single prompt when not empty
+  scriptStages?: ScriptStage[];
   maxChunkSize: number;
   silenceBetweenChunks: number;
+  priority: Priority;
   totalItems: number;
   completedItems: number;
   failedItems: number;
@@ -36,13 +44,17 @@ export class Job {
     public userPromptTemplate: PromptTemplate | null,
     public maxChunkSize: number,
     public silenceBetweenChunks: number,
+    public priority: Priority,
     public totalItems: number,
     public completedItems: number,
     public failedItems: number,
     public readonly createdAt: Date,
     public updatedAt: Date,
     public startedAt?: Date,
-    public completedAt?: Date
+    public completedAt?: Date,
+    public aiProvider?: string,
+    public aiModel?: string,
+    public scriptStages: ScriptStage[] = []
   ) {}
 
   static create(data: {
@@ -50,8 +62,12 @@ export class Job {
     voiceSettings?: VoiceSettings;
     systemPrompt?: string;
     userPromptTemplate?: PromptTemplate;
+    aiProvider?: string;
+    aiModel?: string;
+    scriptStages?: ScriptStage[];
     maxChunkSize?: number;
     silenceBetweenChunks?: number;
+    priority?: Priority;
   }): Job {
     if (!data.name || data.name.trim().length === 0) {
       throw new ValidationError('Job name is required');
@@ -69,11 +85,17 @@ export class Job {
       data.userPromptTemplate || null,
       data.maxChunkSize || 2000,
       data.silenceBetweenChunks || 500,
+      data.priority || Priority.NORMAL,
       0,
       0,
       0,
       now,
-      now
+      now,
+      undefined,
+      undefined,
+      data.aiProvider,
+      data.aiModel,
+      data.scriptStages || []
     );
   }
 
@@ -87,13 +109,17 @@ export class Job {
       data.userPromptTemplate || null,
       data.maxChunkSize,
       data.silenceBetweenChunks,
+      data.priority,
       data.totalItems,
       data.completedItems,
       data.failedItems,
       data.createdAt,
       data.updatedAt,
       data.startedAt,
-      data.completedAt
+      data.completedAt,
+      data.aiProvider,
+      data.aiModel,
+      data.scriptStages || []
     );
   }
 
@@ -237,6 +263,49 @@ export class Job {
     this.updatedAt = new Date();
   }
 
+  // Takes effect for the items generated after the change; a model without provider
+  // is one of the default provider's
+  public updateAIModel(aiProvider?: string, aiModel?: string): void {
+    if (!this.canModify()) {
+      throw ErrorFactory.invalidConfig(
+        'job.status',
+        'Cannot modify completed or cancelled job'
+      );
+    }
+    this.aiProvider = aiProvider;
+    this.aiModel = aiModel;
+    this.updatedAt = new Date();
+  }
+
+  // Takes effect for the items generated after the change; an empty list goes back
+  // to the single system/user prompt
+  public updateScriptStages(scriptStages: ScriptStage[]): void {
+    if (!this.canModify()) {
+      throw ErrorFactory.invalidConfig(
+        'job.status',
+        'Cannot modify completed or cancelled job'
+      );
+    }
+    this.scriptStages = scriptStages;
+    this.updatedAt = new Date();
+  }
+
+  public hasScriptStages(): boolean {
+    return this.scriptStages.length > 0;
+  }
+
+  // Takes effect for the items queued after the change
+  public updatePriority(priority: Priority): void {
+    if (!this.canModify()) {
+      throw ErrorFactory.invalidConfig(
+        'job.status',
+        'Cannot modify completed or cancelled job'
+      );
+    }
+    this.priority = priority;
+    this.updatedAt = new Date();
+  }
+
   public toPersistence(): JobData {
     return {
       id: this.id,
@@ -245,8 +314,12 @@ export class Job {
       voiceSettings: this.voiceSettings || undefined,
       systemPrompt: this.systemPrompt,
       userPromptTemplate: this.userPromptTemplate || undefined,
+      aiProvider: this.aiProvider,
+      aiModel: this.aiModel,
+      scriptStages: this.scriptStages,
       maxChunkSize: this.maxChunkSize,
       silenceBetweenChunks: this.silenceBetweenChunks,
+      priority: this.priority,
       totalItems: this.totalItems,
       completedItems: this.completedItems,
       failedItems: this.failedItems,
@@ -260,6 +333,7 @@ export class Job {
   public toJSON() {
     return {
       ...this.toPersistence(),
+      scriptStages: this.scriptStages.map((stage) => stage.toJSON()),
       status: this._status,
       progressPercentage: this.getProgressPercentage(),
       isComplete: this.isComplete(),
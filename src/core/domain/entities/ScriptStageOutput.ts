@@ -0,0 +1,116 @@
+// src/core/domain/entities/ScriptStageOutput.ts
+// Output of one script stage for an item - kept so editors can see where a script went wrong
+// Written by RunScriptStagesUseCase, one per stage and item
+
+import { ValidationError } from '@/shared/utils/errors/AppError';
+
+export interface ScriptStageOutputData {
+  id: string;
+  itemId: string;
+  stageIndex: number;
+  stageName: string;
+  content: string;
+  provider?: string;
+  model?: string;
+  usedFallback: boolean;
+  temperature?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  createdAt: Date;
+}
+
+export class ScriptStageOutput {
+  private constructor(
+    public readonly id: string,
+    public readonly itemId: string,
+    public readonly stageIndex: number,
+    public readonly stageName: string,
+    public readonly content: string,
+    public readonly provider: string | undefined,
+    public readonly model: string | undefined,
+    public readonly usedFallback: boolean,
+    public readonly temperature: number | undefined,
+    public readonly inputTokens: number | undefined,
+    public readonly outputTokens: number | undefined,
+    public readonly createdAt: Date
+  ) {}
+
+  static create(params: {
+    itemId: string;
+    stageIndex: number;
+    stageName: string;
+    content: string;
+    provider?: string;
+    model?: string;
+    usedFallback?: boolean;
+    temperature?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+  }): ScriptStageOutput {
+    if (!params.content || params.content.trim().length === 0) {
+      throw new ValidationError(`Script stage '${params.stageName}' produced an empty output`);
+    }
+
+    if (!Number.isInteger(params.stageIndex) || params.stageIndex < 0) {
+      throw new ValidationError('Script stage index must be a non-negative integer');
+    }
+
+    const id = `stage_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+    return new ScriptStageOutput(
+      id,
+      params.itemId,
+      params.stageIndex,
+      params.stageName,
+      params.content.trim(),
+      params.provider,
+      params.model,
+      params.usedFallback ?? false,
+      params.temperature,
+      params.inputTokens,
+      params.outputTokens,
+      new Date()
+    );
+  }
+
+  static fromPersistence(data: ScriptStageOutputData): ScriptStageOutput {
+    return new ScriptStageOutput(
+      data.id,
+      data.itemId,
+      data.stageIndex,
+      data.stageName,
+      data.content,
+      data.provider,
+      data.model,
+      data.usedFallback,
+      data.temperature,
+      data.inputTokens,
+      data.outputTokens,
+      data.createdAt
+    );
+  }
+
+  public toPersistence(): ScriptStageOutputData {
+    return {
+      id: this.id,
+      itemId: this.itemId,
+      stageIndex: this.stageIndex,
+      stageName: this.stageName,
+      content: this.content,
+      provider: this.provider,
+      model: this.model,
+      usedFallback: this.usedFallback,
+      temperature: this.temperature,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      createdAt: this.createdAt,
+    };
+  }
+
+  public toJSON() {
+    return {
+      ...this.toPersistence(),
+      charCount: this.content.length,
+    };
+  }
+}
@@ -1,12 +1,17 @@
 // src/core/domain/events/base/EventMetadata.ts
-// Metadata for domain events (timestamp, correlationId)
+// Metadata for domain events (timestamp, correlationId, aggregate)
 // Used by DomainEvent
 
+export type AggregateType = 'job' | 'item' | 'chunk';
+
 export interface EventMetadata {
   timestamp: Date;
   correlationId?: string;
   causationId?: string;
   userId?: string;
+  // Entity the event belongs to (derived from the payload ids when not set)
+  aggregateType?: AggregateType;
+  aggregateId?: string;
   [key: string]: unknown;
 }
 
@@ -36,6 +41,12 @@ export class EventMetadataBuilder {
     return this;
   }
 
+  withAggregate(aggregateType: AggregateType, aggregateId: string): this {
+    this.metadata.aggregateType = aggregateType;
+    this.metadata.aggregateId = aggregateId;
+    return this;
+  }
+
   withCustomData(key: string, value: unknown): this {
     this.metadata[key] = value;
     return this;
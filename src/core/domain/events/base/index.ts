@@ -2,5 +2,5 @@
 export type { DomainEvent } from './DomainEvent';
 export { BaseDomainEvent } from './DomainEvent';
 
-export type { EventMetadata } from './EventMetadata';
+export type { EventMetadata, AggregateType } from './EventMetadata';
 export { EventMetadataBuilder } from './EventMetadata';
@@ -7,6 +7,7 @@ export interface RateLimitHitPayload {
   jobId?: string;
   itemId?: string;
   service: string; // e.g., 'anthropic', 'elevenlabs'
+  keyId?: string; // hashed API key when limits are tracked per key
   endpoint?: string;
   limit: number;
   remaining: number;
@@ -1,12 +1,16 @@
 // src/core/domain/use-cases/content/ChunkTextUseCase.ts
 // Use case: Split generated text into chunks (max 2000 chars)
+// Chunks carry the spoken form of the text (numbers, dates, abbreviations written out in the
+// channel's language); item.generatedText keeps the original for display
 
 import { z } from 'zod';
 import { ContentItem } from '../../entities/ContentItem';
 import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
 import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
 import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
 import { ITextChunkingService } from '@/core/ports/services/audio/ITextChunkingService';
+import { ITextNormalizerService } from '@/core/ports/services/parsing/ITextNormalizerService';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { TextChunkingCompletedEvent } from '../../events/item/TextChunkingCompletedEvent';
 import { AudioChunk } from '../../entities/AudioChunk';
@@ -29,7 +33,10 @@ export class ChunkTextUseCase {
     private readonly audioChunkRepository: IAudioChunkRepository,
     private readonly jobRepository: IJobRepository,
     private readonly textChunkingService: ITextChunkingService,
-    private readonly eventBus: IEventBus
+    private readonly eventBus: IEventBus,
+    // Both required for normalization; without them chunks hold the text as generated
+    private readonly textNormalizer?: ITextNormalizerService,
+    private readonly userSettingsRepository?: IUserSettingsRepository
   ) {}
 
   async execute(input: ChunkTextInput): Promise<ChunkTextOutput> {
@@ -56,9 +63,11 @@ export class ChunkTextUseCase {
     }
 
     try {
+      const spokenText = await this.toSpokenText(item.generatedText);
+
       // Split text into chunks
       const textChunks = await this.textChunkingService.chunkText(
-        item.generatedText,
+        spokenText,
         job.maxChunkSize
       );
 
@@ -105,4 +114,13 @@ export class ChunkTextUseCase {
       );
     }
   }
+
+  private async toSpokenText(text: string): Promise<string> {
+    if (!this.textNormalizer || !this.userSettingsRepository) {
+      return text;
+    }
+
+    const settings = await this.userSettingsRepository.getOrCreateDefault();
+    return this.textNormalizer.normalize(text, { language: settings.channelLanguage });
+  }
 }
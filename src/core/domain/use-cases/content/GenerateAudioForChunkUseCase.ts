@@ -4,7 +4,7 @@
 import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { IStorageService } from '@/core/ports/services/storage/IStorageService';
-import { ITTSService } from '@/core/ports/Services/tts/ITTSService';
+import { ITTSProviderRegistry } from '@/core/ports/services/tts/ITTSProviderRegistry';
 import { AudioChunkGeneratedEvent } from '../../events/item/AudioChunkGeneratedEvent';
 import { ChunkProcessingStartedEvent } from '../../events/chunk/ChunkProcessingStartedEvent';
 import { ChunkProcessingCompletedEvent } from '../../events/chunk/ChunkProcessingCompletedEvent';
@@ -28,12 +28,14 @@ export interface GenerateAudioForChunkOutput {
   audioUrl: string;
   duration: number;
   fileSize: number;
+  provider: string;
+  voiceId: string;
 }
 
 export class GenerateAudioForChunkUseCase {
   constructor(
     private readonly chunkRepository: IAudioChunkRepository,
-    private readonly ttsService: ITTSService,
+    private readonly ttsRegistry: ITTSProviderRegistry,
     private readonly storageService: IStorageService,
     private readonly eventBus: IEventBus
   ) {}
@@ -57,27 +59,28 @@ export class GenerateAudioForChunkUseCase {
     );
 
     try {
-      // Convert text to speech using TTS service
-      const audioBuffer = await this.ttsService.generateSpeech({
+      // Dispatch to the job's TTS provider (falls back per registry config)
+      const ttsResult = await this.ttsRegistry.generateAudio(
         text,
-        voiceId: voiceSettings?.voiceId,
-        stability: voiceSettings?.stability,
-        similarityBoost: voiceSettings?.similarityBoost,
-        style: voiceSettings?.style,
-        useSpeakerBoost: voiceSettings?.useSpeakerBoost,
-      });
+        voiceSettings || VoiceSettings.default()
+      );
+      const audioBuffer = ttsResult.audio;
+      const contentType = ttsResult.contentType || 'audio/mpeg';
 
       // Generate unique filename
-      const fileName = `audio_${jobId}_${itemId}_${chunkId}_${Date.now()}.mp3`;
+      const extension = contentType === 'audio/wav' ? 'wav' : 'mp3';
+      const fileName = `audio_${jobId}_${itemId}_${chunkId}_${Date.now()}.${extension}`;
       
       // Upload audio to storage
       const audioUrl = await this.storageService.uploadAudio(fileName, audioBuffer, {
-        contentType: 'audio/mpeg',
+        contentType,
         metadata: {
           itemId,
           jobId,
           chunkId,
           sequence,
+          provider: ttsResult.provider,
+          voiceId: ttsResult.voiceId,
         },
       });
 
@@ -95,6 +98,7 @@ export class GenerateAudioForChunkUseCase {
         sequence,
         audioUrl,
         duration,
+        voiceId: ttsResult.voiceId,
         status: 'completed',
         createdAt: new Date(),
       };
@@ -129,6 +133,8 @@ export class GenerateAudioForChunkUseCase {
         audioUrl,
         duration,
         fileSize: audioBuffer.length,
+        provider: ttsResult.provider,
+        voiceId: ttsResult.voiceId,
       };
     } catch (error) {
       // Emit chunk processing completed event with failure
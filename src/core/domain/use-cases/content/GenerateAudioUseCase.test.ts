@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GenerateAudioUseCase } from './GenerateAudioUseCase';
+import { AudioChunk } from '../../entities/AudioChunk';
+import { ChunkStatus } from '../../value-objects/ChunkStatus';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { ITTSProviderRegistry, TTSDispatchResult } from '@/core/ports/services/tts/ITTSProviderRegistry';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { IAudioMetadataService } from '@/core/ports/services/audio/IAudioMetadataService';
+import { IEventBus } from '@/core/ports/events/IEventBus';
+import { ErrorCode, FileError } from '@/shared/utils/errors/AppError';
+
+function setup(ttsResult: Partial<TTSDispatchResult>, probedDuration: number | Error = 4.2) {
+  const chunk = AudioChunk.create('item-1', 'text-1', 0, 'voice-1');
+  const deps = {
+    chunkRepository: {
+      findById: vi.fn(async () => chunk),
+      findByItemIdWithText: vi.fn(async () => [{ chunk, text: 'Une phrase assez longue pour durer.' }]),
+      save: vi.fn(async () => undefined),
+    },
+    itemRepository: { findById: vi.fn(async () => ({ id: 'item-1', jobId: 'job-1' })) },
+    jobRepository: { findById: vi.fn(async () => ({ id: 'job-1' })) },
+    ttsRegistry: {
+      generateAudio: vi.fn(async () => ({
+        audio: Buffer.from('audio'),
+        contentType: 'audio/mpeg',
+        provider: 'elevenlabs',
+        voiceId: 'voice-1',
+        usedFallback: false,
+        ...ttsResult,
+      })),
+    },
+    storageService: { putObject: vi.fn(async () => undefined) },
+    eventBus: { publish: vi.fn<IEventBus['publish']>(async () => undefined) },
+    audioMetadataService: {
+      getMetadataFromBuffer: vi.fn(async () => {
+        if (probedDuration instanceof Error) throw probedDuration;
+        return { duration: probedDuration, fileSize: 5 };
+      }),
+    },
+  };
+  const useCase = new GenerateAudioUseCase(
+    deps.chunkRepository as unknown as IAudioChunkRepository,
+    deps.itemRepository as unknown as IContentItemRepository,
+    deps.jobRepository as unknown as IJobRepository,
+    deps.ttsRegistry as unknown as ITTSProviderRegistry,
+    deps.storageService as unknown as IStorageService,
+    deps.eventBus as unknown as IEventBus,
+    deps.audioMetadataService as unknown as IAudioMetadataService
+  );
+  return { useCase, deps, chunk };
+}
+
+describe('GenerateAudioUseCase', () => {
+  it('completes the chunk with the duration measured on the generated audio', async () => {
+    const { useCase, deps, chunk } = setup({});
+
+    const result = await useCase.execute({ chunkId: chunk.id });
+
+    expect(deps.audioMetadataService.getMetadataFromBuffer).toHaveBeenCalledWith(Buffer.from('audio'));
+    expect(result.duration).toBe(4.2);
+    expect(chunk).toMatchObject({ status: ChunkStatus.COMPLETED, duration: 4.2, fileSize: 5 });
+    expect(deps.eventBus.publish.mock.calls[0][0]).toMatchObject({ payload: { duration: 4.2 } });
+  });
+
+  it('trusts the duration reported by the provider', async () => {
+    const { useCase, deps, chunk } = setup({ duration: 2.5 });
+
+    await useCase.execute({ chunkId: chunk.id });
+
+    expect(deps.audioMetadataService.getMetadataFromBuffer).not.toHaveBeenCalled();
+    expect(chunk.duration).toBe(2.5);
+  });
+
+  it('fails the chunk, before storing anything, when the audio cannot be measured', async () => {
+    const { useCase, deps, chunk } = setup({}, new FileError('Failed to probe audio file', ErrorCode.INVALID_FILE_TYPE));
+
+    await expect(useCase.execute({ chunkId: chunk.id })).rejects.toMatchObject({ code: ErrorCode.INVALID_FILE_TYPE });
+
+    expect(deps.storageService.putObject).not.toHaveBeenCalled();
+    expect(chunk).toMatchObject({ status: ChunkStatus.FAILED, duration: undefined });
+  });
+});
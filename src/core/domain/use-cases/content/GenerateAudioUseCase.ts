@@ -1,14 +1,18 @@
 // src/core/domain/use-cases/content/GenerateAudioUseCase.ts
-// Use case: Convert text chunks to audio via ElevenLabs
+// Use case: Convert a text chunk to audio with the job's TTS provider
 
 import { z } from 'zod';
 import { AudioChunk } from '../../entities/AudioChunk';
 import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
 import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
-import { ITTSService } from '@/core/ports/services/tts/ITTSService';
+import { ITTSProviderRegistry } from '@/core/ports/services/tts/ITTSProviderRegistry';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { IAudioMetadataService } from '@/core/ports/services/audio/IAudioMetadataService';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { AudioChunkGeneratedEvent } from '../../events/item/AudioChunkGeneratedEvent';
-import { ChunkStatus } from '../../value-objects/ChunkStatus';
+import { VoiceSettings } from '../../value-objects/VoiceSettings';
+import { AppError } from '@/shared/utils/errors/AppError';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
 const GenerateAudioSchema = z.object({
@@ -26,9 +30,12 @@ export interface GenerateAudioOutput {
 export class GenerateAudioUseCase {
   constructor(
     private readonly audioChunkRepository: IAudioChunkRepository,
+    private readonly contentItemRepository: IContentItemRepository,
     private readonly jobRepository: IJobRepository,
-    private readonly ttsService: ITTSService,
-    private readonly eventBus: IEventBus
+    private readonly ttsRegistry: ITTSProviderRegistry,
+    private readonly storageService: IStorageService,
+    private readonly eventBus: IEventBus,
+    private readonly audioMetadataService: IAudioMetadataService
   ) {}
 
   async execute(input: GenerateAudioInput): Promise<GenerateAudioOutput> {
@@ -41,61 +48,88 @@ export class GenerateAudioUseCase {
       throw ErrorFactory.notFound('AudioChunk', chunkId);
     }
 
-    // Get item to retrieve job
-    const item = await this.audioChunkRepository.findById(chunk.itemId);
+    // A redelivered queue job finds the chunk already done
+    if (chunk.isComplete() && chunk.audioPath) {
+      return { chunk, audioPath: chunk.audioPath, duration: chunk.duration ?? 0 };
+    }
+
+    const item = await this.contentItemRepository.findById(chunk.itemId);
     if (!item) {
       throw ErrorFactory.notFound('ContentItem', chunk.itemId);
     }
 
-    try {
-      // Mark chunk as processing
-      chunk.startProcessing();
-      await this.audioChunkRepository.save(chunk);
+    // Job for voice settings (provider and voice chosen per job)
+    const job = await this.jobRepository.findById(item.jobId);
+    if (!job) {
+      throw ErrorFactory.notFound('Job', item.jobId);
+    }
+
+    // The chunk only references its text chunk
+    const text = (await this.audioChunkRepository.findByItemIdWithText(item.id))
+      .find((entry) => entry.chunk.id === chunk.id)?.text;
+    if (!text) {
+      throw ErrorFactory.notFound('TextChunk', chunk.textChunkId);
+    }
 
-      // Get job for voice settings
-      const job = await this.jobRepository.findById(chunk.itemId);
-      if (!job) {
-        throw ErrorFactory.notFound('Job', 'unknown');
+    try {
+      // Mark chunk as processing (already is when a lease expired mid-generation)
+      if (!chunk.isProcessing()) {
+        chunk.startProcessing();
+        await this.audioChunkRepository.save(chunk);
       }
 
-      // Generate audio
-      const result = await this.ttsService.textToSpeech({
-        text: chunk.text,
-        voiceSettings: job.voiceSettings || undefined,
+      // Dispatch to the job's TTS provider (falls back per registry config)
+      const result = await this.ttsRegistry.generateAudio(text, job.voiceSettings ?? VoiceSettings.default());
+
+      // Captions are timed on it: the provider's figure, else the length of the audio itself
+      const duration = result.duration ?? (await this.audioMetadataService.getMetadataFromBuffer(result.audio)).duration;
+
+      const contentType = result.contentType || 'audio/mpeg';
+      const extension = contentType === 'audio/wav' ? 'wav' : 'mp3';
+
+      const audioPath = `audio/chunks/${item.id}/${String(chunk.index).padStart(4, '0')}_${Date.now()}.${extension}`;
+      await this.storageService.putObject(audioPath, result.audio, {
+        contentType,
+        metadata: {
+          itemId: item.id,
+          jobId: job.id,
+          chunkId: chunk.id,
+          provider: result.provider,
+          voiceId: result.voiceId,
+        },
       });
 
-      // Update chunk
-      chunk.audioPath = result.audioPath;
-      chunk.audioDuration = result.duration;
-      chunk.markCompleted();
+      chunk.complete(audioPath, duration, result.audio.length);
       await this.audioChunkRepository.save(chunk);
 
       // Emit event
       await this.eventBus.publish(
-        new AudioChunkGeneratedEvent({
-          chunkId: chunk.id,
-          itemId: chunk.itemId,
-          chunkIndex: chunk.chunkIndex,
-          duration: result.duration,
-          timestamp: new Date(),
-        })
+        new AudioChunkGeneratedEvent(
+          {
+            itemId: item.id,
+            jobId: job.id,
+            chunkId: chunk.id,
+            chunkIndex: chunk.index,
+            generatedAt: new Date(),
+            audioPath,
+            duration,
+            fileSize: result.audio.length,
+          },
+          { timestamp: new Date() }
+        )
       );
 
-      return {
-        chunk,
-        audioPath: result.audioPath,
-        duration: result.duration,
-      };
+      return { chunk, audioPath, duration };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      chunk.markFailed(errorMessage);
+      chunk.fail(errorMessage);
       await this.audioChunkRepository.save(chunk);
 
-      throw ErrorFactory.externalService(
-        'TTS',
-        errorMessage,
-        { chunkId: chunk.id }
-      );
+      // Keep the provider's error code so the retry policy can tell retryable failures apart
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw ErrorFactory.audioGenerationError(errorMessage, chunk.id);
     }
   }
 }
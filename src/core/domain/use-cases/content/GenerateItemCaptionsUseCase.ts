@@ -0,0 +1,86 @@
+// src/core/domain/use-cases/content/GenerateItemCaptionsUseCase.ts
+// Use case: SRT/WebVTT captions for an item's merged audio, timed from its audio chunks
+
+import { z } from 'zod';
+import { ContentItem } from '../../entities/ContentItem';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { CaptionTrack } from '../../value-objects/CaptionTrack';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+
+const GenerateItemCaptionsSchema = z.object({
+  itemId: z.string().min(1, 'Item ID is required'),
+  format: z.enum(['srt', 'vtt']).default('srt'),
+});
+
+export type GenerateItemCaptionsInput = z.input<typeof GenerateItemCaptionsSchema>;
+
+export interface GenerateItemCaptionsOutput {
+  item: ContentItem;
+  format: 'srt' | 'vtt';
+  content: string;
+  contentType: string;
+  cueCount: number;
+  duration: number;
+}
+
+const CONTENT_TYPES = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+} as const;
+
+export class GenerateItemCaptionsUseCase {
+  constructor(
+    private readonly contentItemRepository: IContentItemRepository,
+    private readonly audioChunkRepository: IAudioChunkRepository,
+    private readonly jobRepository: IJobRepository
+  ) {}
+
+  async execute(input: GenerateItemCaptionsInput): Promise<GenerateItemCaptionsOutput> {
+    const { itemId, format } = GenerateItemCaptionsSchema.parse(input);
+
+    const item = await this.contentItemRepository.findById(itemId);
+    if (!item) {
+      throw ErrorFactory.itemNotFound(itemId);
+    }
+
+    // Same gap as the merge so the cues line up with the final audio
+    const job = await this.jobRepository.findById(item.jobId);
+    if (!job) {
+      throw ErrorFactory.jobNotFound(item.jobId);
+    }
+
+    const track = await this.buildTrack(item, job.silenceBetweenChunks);
+    const content = track.format(format);
+
+    return {
+      item,
+      format,
+      content,
+      contentType: CONTENT_TYPES[format],
+      cueCount: track.cues.length,
+      duration: track.getDuration(),
+    };
+  }
+
+  private async buildTrack(item: ContentItem, silenceBetweenChunksMs: number): Promise<CaptionTrack> {
+    const chunks = await this.audioChunkRepository.findByItemIdWithText(item.id);
+    if (chunks.length === 0) {
+      throw ErrorFactory.validation(`Item ${item.id} has no audio chunks`, { itemId: item.id });
+    }
+
+    const untimed = chunks.filter(({ chunk }) => !chunk.isComplete() || chunk.duration === undefined);
+    if (untimed.length > 0) {
+      throw ErrorFactory.validation(
+        `${untimed.length} audio chunks of item ${item.id} have no measured duration yet`,
+        { itemId: item.id, chunkIndexes: untimed.map(({ chunk }) => chunk.index) }
+      );
+    }
+
+    return CaptionTrack.fromSegments(
+      chunks.map(({ chunk, text }) => ({ text, duration: chunk.duration ?? 0 })),
+      { gapBetweenSegmentsMs: silenceBetweenChunksMs }
+    );
+  }
+}
@@ -11,6 +11,7 @@ import { ITextGenerationService } from '@/core/ports/services/ai/ITextGeneration
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { TextGenerationStartedEvent } from '../../events/item/TextGenerationStartedEvent';
 import { TextGenerationCompletedEvent } from '../../events/item/TextGenerationCompletedEvent';
+import { RunScriptStagesUseCase } from './RunScriptStagesUseCase';
 import { ItemStatus } from '../../value-objects/ItemStatus';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
@@ -20,7 +21,7 @@ const GenerateTextSchema = z.object({
   temperature: z.number().min(0).max(1).optional().default(0.7),
 });
 
-export type GenerateTextInput = z.infer<typeof GenerateTextSchema>;
+export type GenerateTextInput = z.input<typeof GenerateTextSchema>;
 
 export interface GenerateTextOutput {
   item: ContentItem;
@@ -33,7 +34,9 @@ export class GenerateTextUseCase {
     private readonly generatedTextRepository: IGeneratedTextRepository,
     private readonly jobRepository: IJobRepository,
     private readonly textGenerationService: ITextGenerationService,
-    private readonly eventBus: IEventBus
+    private readonly eventBus: IEventBus,
+    // Runs the job's script stages instead of the single prompt when it defines some
+    private readonly runScriptStages?: RunScriptStagesUseCase
   ) {}
 
   async execute(input: GenerateTextInput): Promise<GenerateTextOutput> {
@@ -62,42 +65,54 @@ export class GenerateTextUseCase {
     );
 
     try {
-      // Build user prompt from template
-      let userPrompt = job.userPromptTemplate?.template || 'Generate content based on: {{details}}';
-      
-      // Replace template variables
-      userPrompt = userPrompt
-        .replace(/\{\{titre\}\}/g, item.titre)
-        .replace(/\{\{details\}\}/g, item.details)
-        .replace(/\{\{category\}\}/g, item.category)
-        .replace(/\{\{reference\}\}/g, item.reference || '');
-
-      // Call AI service
-      const result = await this.textGenerationService.generateText({
-        systemPrompt: job.systemPrompt,
-        userPrompt,
-        options: {
-          maxTokens: validatedInput.maxTokens,
+      let generatedText: GeneratedText;
+      let tokensUsed: number | undefined;
+
+      if (this.runScriptStages && job.hasScriptStages()) {
+        // Persists every stage output, the final script and the item text
+        ({ generatedText, tokensUsed } = await this.runScriptStages.run(item, job));
+      } else {
+        // Build user prompt from template
+        let userPrompt = job.userPromptTemplate?.template || 'Generate content based on: {{details}}';
+
+        // Replace template variables
+        userPrompt = userPrompt
+          .replace(/\{\{titre\}\}/g, item.titre)
+          .replace(/\{\{details\}\}/g, item.details)
+          .replace(/\{\{category\}\}/g, item.category)
+          .replace(/\{\{reference\}\}/g, item.reference || '');
+
+        // Call AI service
+        const result = await this.textGenerationService.generateText({
+          systemPrompt: job.systemPrompt,
+          userPrompt,
+          options: {
+            provider: job.aiProvider,
+            model: job.aiModel,
+            maxTokens: validatedInput.maxTokens,
+            temperature: validatedInput.temperature,
+          },
+        });
+
+        // Create GeneratedText entity, recording the model that actually answered (fallbacks included)
+        generatedText = GeneratedText.create(item.id, result.content, {
+          model: result.model ?? job.aiModel ?? 'unknown',
+          provider: result.provider,
+          usedFallback: result.usedFallback,
+          removed: result.removed,
           temperature: validatedInput.temperature,
-        },
-      });
+          maxTokens: validatedInput.maxTokens,
+        });
+        tokensUsed = result.usage?.totalTokens;
 
-      // Create GeneratedText entity
-      const generatedText = GeneratedText.create({
-        itemId: item.id,
-        content: result.text,
-        model: result.model,
-        promptTokens: result.usage.promptTokens,
-        completionTokens: result.usage.completionTokens,
-        totalTokens: result.usage.totalTokens,
-      });
+        item.setGeneratedText(generatedText.content);
+        await this.generatedTextRepository.save(generatedText);
+      }
 
       // Update item
-      item.generatedText = result.text;
       item.moveToNextStep();
 
       // Persist
-      await this.generatedTextRepository.save(generatedText);
       await this.contentItemRepository.save(item);
 
       // Emit completed event
@@ -105,8 +120,8 @@ export class GenerateTextUseCase {
         new TextGenerationCompletedEvent({
           itemId: item.id,
           jobId: item.jobId,
-          textLength: result.text.length,
-          tokensUsed: result.usage.totalTokens,
+          textLength: generatedText.charCount,
+          tokensUsed,
           timestamp: new Date(),
         })
       );
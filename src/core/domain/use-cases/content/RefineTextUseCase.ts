@@ -17,7 +17,7 @@ const RefineTextSchema = z.object({
   temperature: z.number().min(0).max(1).optional().default(0.5),
 });
 
-export type RefineTextInput = z.infer<typeof RefineTextSchema>;
+export type RefineTextInput = z.input<typeof RefineTextSchema>;
 
 export interface RefineTextOutput {
   item: ContentItem;
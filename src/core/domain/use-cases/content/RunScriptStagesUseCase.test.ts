@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RunScriptStagesUseCase } from './RunScriptStagesUseCase';
+import { ContentItem, PipelineStep } from '../../entities/ContentItem';
+import { Job } from '../../entities/Job';
+import { ScriptStageOutput } from '../../entities/ScriptStageOutput';
+import { UserSettings } from '../../entities/UserSettings';
+import { ContentCategory } from '../../value-objects/CSVRow';
+import { ItemStatus } from '../../value-objects/ItemStatus';
+import { ScriptStage } from '../../value-objects/ScriptStage';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IScriptStageOutputRepository } from '@/core/ports/repositories/IScriptStageOutputRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
+import { ITextGenerationService } from '@/core/ports/services/ai/ITextGenerationService';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+const STAGES = [
+  { name: 'outline', promptTemplate: 'Plan sur {{titre}}.' },
+  { name: 'draft', promptTemplate: 'Rédige à partir de : {{outline}}' },
+  { name: 'polish', promptTemplate: 'Relis : {{previous}}', provider: 'anthropic' },
+];
+
+function completedItem(): ContentItem {
+  const now = new Date();
+  return ContentItem.fromPersistence({
+    id: 'item-1',
+    jobId: 'job-1',
+    rowIndex: 0,
+    status: ItemStatus.COMPLETED,
+    currentStep: PipelineStep.UPLOAD,
+    titre: 'Volcans',
+    details: 'Les volcans dorment.',
+    category: ContentCategory.CORPS,
+    generatedText: 'Ancien script.',
+    finalAudioPath: 'output/item_item-1_final.mp3',
+    audioDuration: 120,
+    retryCount: 0,
+    maxRetries: 3,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: now,
+  });
+}
+
+function output(stageIndex: number, content: string, stageName = STAGES[stageIndex].name): ScriptStageOutput {
+  return ScriptStageOutput.create({ itemId: 'item-1', stageIndex, stageName, content });
+}
+
+function setup(stored: ScriptStageOutput[] = []) {
+  const item = completedItem();
+  const job = Job.create({ name: 'Volcans', aiProvider: 'mistral', scriptStages: ScriptStage.createList(STAGES) });
+  const outputs = [...stored];
+  const deps = {
+    contentItemRepository: {
+      findById: vi.fn(async () => item),
+      save: vi.fn(async () => undefined),
+    },
+    audioChunkRepository: { deleteByItemId: vi.fn(async () => undefined) },
+    generatedTextRepository: { save: vi.fn(async () => undefined) },
+    jobRepository: { findById: vi.fn(async () => job) },
+    scriptStageOutputRepository: {
+      findByItemId: vi.fn(async () => [...outputs]),
+      save: vi.fn(async (saved: ScriptStageOutput) => {
+        outputs.push(saved);
+      }),
+      deleteFromStage: vi.fn(async (_itemId: string, fromStageIndex: number) => {
+        const kept = outputs.filter((o) => o.stageIndex < fromStageIndex);
+        const deleted = outputs.length - kept.length;
+        outputs.splice(0, outputs.length, ...kept);
+        return deleted;
+      }),
+    },
+    userSettingsRepository: { getOrCreateDefault: vi.fn(async () => UserSettings.create()) },
+    textGenerationService: {
+      generateText: vi.fn<ITextGenerationService['generateText']>(async ({ options }) => ({
+        content: `Sortie ${options?.provider ?? 'défaut'}`,
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      })),
+    },
+  };
+  const useCase = new RunScriptStagesUseCase(
+    deps.contentItemRepository as unknown as IContentItemRepository,
+    deps.audioChunkRepository as unknown as IAudioChunkRepository,
+    deps.generatedTextRepository as unknown as IGeneratedTextRepository,
+    deps.jobRepository as unknown as IJobRepository,
+    deps.scriptStageOutputRepository as unknown as IScriptStageOutputRepository,
+    deps.userSettingsRepository as unknown as IUserSettingsRepository,
+    deps.textGenerationService as unknown as ITextGenerationService
+  );
+  return { useCase, deps, item, outputs };
+}
+
+const prompts = (deps: ReturnType<typeof setup>['deps']) =>
+  deps.textGenerationService.generateText.mock.calls.map(([params]) => params.userPrompt);
+
+describe('RunScriptStagesUseCase', () => {
+  it('runs every stage in order, feeding each output to the next ones', async () => {
+    const { useCase, deps, item } = setup();
+
+    const result = await useCase.execute({ itemId: 'item-1' });
+
+    expect(prompts(deps)).toEqual([
+      'Plan sur Volcans.',
+      'Rédige à partir de : Sortie mistral',
+      'Relis : Sortie mistral',
+    ]);
+    expect(result.outputs.map((o) => o.stageName)).toEqual(['outline', 'draft', 'polish']);
+    expect(result.tokensUsed).toBe(45);
+    expect(result.generatedText.content).toBe('Sortie anthropic');
+    expect(item.generatedText).toBe('Sortie anthropic');
+  });
+
+  it('resumes after the last stored output', async () => {
+    const { useCase, deps } = setup([output(0, 'Plan stocké')]);
+
+    const result = await useCase.execute({ itemId: 'item-1' });
+
+    expect(deps.scriptStageOutputRepository.deleteFromStage).toHaveBeenCalledWith('item-1', 1);
+    expect(prompts(deps)).toEqual(['Rédige à partir de : Plan stocké', 'Relis : Sortie mistral']);
+    // Reused outputs are not counted again
+    expect(result.tokensUsed).toBe(30);
+    expect(result.outputs.map((o) => o.content)).toEqual(['Plan stocké', 'Sortie mistral', 'Sortie anthropic']);
+  });
+
+  it('does not resume from the output of a stage since renamed', async () => {
+    const { useCase, deps } = setup([output(0, 'Ancien plan', 'summary')]);
+
+    await useCase.execute({ itemId: 'item-1' });
+
+    expect(deps.scriptStageOutputRepository.deleteFromStage).toHaveBeenCalledWith('item-1', 0);
+    expect(prompts(deps)[0]).toBe('Plan sur Volcans.');
+  });
+
+  describe('fromStage', () => {
+    it('replaces the output of that stage and the following ones, by index or name', async () => {
+      const stored = [output(0, 'Plan stocké'), output(1, 'Brouillon stocké'), output(2, 'Script stocké')];
+      const byName = setup(stored);
+      const byIndex = setup(stored);
+
+      const result = await byName.useCase.execute({ itemId: 'item-1', fromStage: 'draft' });
+      await byIndex.useCase.execute({ itemId: 'item-1', fromStage: 1 });
+
+      expect(prompts(byName.deps)).toEqual(['Rédige à partir de : Plan stocké', 'Relis : Sortie mistral']);
+      expect(prompts(byIndex.deps)).toEqual(prompts(byName.deps));
+      expect(byName.outputs.map((o) => o.content)).toEqual(['Plan stocké', 'Sortie mistral', 'Sortie anthropic']);
+      expect(result.generatedText.content).toBe('Sortie anthropic');
+    });
+
+    it('rejects stages that do not exist or have no input yet, without touching anything', async () => {
+      const { useCase, deps, item } = setup([output(0, 'Plan stocké')]);
+
+      await expect(useCase.execute({ itemId: 'item-1', fromStage: 'conclusion' })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+      await expect(useCase.execute({ itemId: 'item-1', fromStage: 2 })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+      });
+      expect(deps.scriptStageOutputRepository.deleteFromStage).not.toHaveBeenCalled();
+      expect(deps.audioChunkRepository.deleteByItemId).not.toHaveBeenCalled();
+      expect(item.status).toBe(ItemStatus.COMPLETED);
+    });
+  });
+
+  it('drops the chunks of the previous script and sends the item back to text generation', async () => {
+    const { useCase, deps, item } = setup([output(0, 'Plan stocké'), output(1, 'Brouillon stocké')]);
+
+    await useCase.execute({ itemId: 'item-1', fromStage: 'polish' });
+
+    expect(deps.audioChunkRepository.deleteByItemId).toHaveBeenCalledWith('item-1');
+    expect(item).toMatchObject({
+      status: ItemStatus.GENERATING_TEXT,
+      currentStep: PipelineStep.TEXT_GENERATION,
+      completedAt: undefined,
+    });
+    // Reset before the first stage runs, so a failed run does not leave the item completed
+    expect(deps.contentItemRepository.save.mock.invocationCallOrder[0]).toBeLessThan(
+      deps.textGenerationService.generateText.mock.invocationCallOrder[0]
+    );
+  });
+});
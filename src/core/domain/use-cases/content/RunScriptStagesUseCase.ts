@@ -0,0 +1,225 @@
+// src/core/domain/use-cases/content/RunScriptStagesUseCase.ts
+// Use case: Build an item script through the job's ordered LLM stages (outline → draft → polish → ...)
+// Every stage output is persisted as soon as it is produced, so a failed run resumes after the
+// last stored stage and editors can re-run from any stage. A run replaces the item's script, so
+// the chunks of the previous one are dropped and the item goes back to text generation
+
+import { z } from 'zod';
+import { ContentItem, PipelineStep } from '../../entities/ContentItem';
+import { GeneratedText } from '../../entities/GeneratedText';
+import { Job } from '../../entities/Job';
+import { ScriptStageOutput } from '../../entities/ScriptStageOutput';
+import { ItemStatus } from '../../value-objects/ItemStatus';
+import { ScriptStage } from '../../value-objects/ScriptStage';
+import { PromptVariables } from '../../value-objects/PromptTemplate';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IScriptStageOutputRepository } from '@/core/ports/repositories/IScriptStageOutputRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
+import { ITextGenerationService } from '@/core/ports/services/ai/ITextGenerationService';
+import { AIResponseRemoval } from '@/core/ports/services/ai/IAIService';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+
+// Same defaults as the single-prompt generation
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2000;
+
+const RunScriptStagesSchema = z.object({
+  itemId: z.string().min(1, 'Item ID is required'),
+  // Stage index or name to re-run from (its output and the following ones are replaced);
+  // resumes after the last stored output when unset
+  fromStage: z.union([z.number().int().min(0), z.string().min(1)]).optional(),
+});
+
+export type RunScriptStagesInput = z.input<typeof RunScriptStagesSchema>;
+
+export interface RunScriptStagesOutput {
+  item: ContentItem;
+  generatedText: GeneratedText;
+  outputs: ScriptStageOutput[];
+  // Tokens of the stages run by this call (stored outputs that were reused are not counted)
+  tokensUsed: number;
+}
+
+export class RunScriptStagesUseCase {
+  constructor(
+    private readonly contentItemRepository: IContentItemRepository,
+    private readonly audioChunkRepository: IAudioChunkRepository,
+    private readonly generatedTextRepository: IGeneratedTextRepository,
+    private readonly jobRepository: IJobRepository,
+    private readonly scriptStageOutputRepository: IScriptStageOutputRepository,
+    private readonly userSettingsRepository: IUserSettingsRepository,
+    private readonly textGenerationService: ITextGenerationService
+  ) {}
+
+  async execute(input: RunScriptStagesInput): Promise<RunScriptStagesOutput> {
+    const validatedInput = RunScriptStagesSchema.parse(input);
+
+    const item = await this.contentItemRepository.findById(validatedInput.itemId);
+    if (!item) {
+      throw ErrorFactory.notFound('ContentItem', validatedInput.itemId);
+    }
+
+    const job = await this.jobRepository.findById(item.jobId);
+    if (!job) {
+      throw ErrorFactory.notFound('Job', item.jobId);
+    }
+
+    return this.run(item, job, validatedInput.fromStage);
+  }
+
+  // Entry point for GenerateTextUseCase, which already holds the item and its job
+  async run(item: ContentItem, job: Job, fromStage?: number | string): Promise<RunScriptStagesOutput> {
+    const stages = job.scriptStages;
+    if (stages.length === 0) {
+      throw ErrorFactory.invalidConfig('job.scriptStages', `Job ${job.id} has no script stages`);
+    }
+
+    const stored = await this.scriptStageOutputRepository.findByItemId(item.id);
+    const resumeIndex = this.getResumeIndex(stages, stored);
+    const startIndex = fromStage === undefined ? resumeIndex : this.resolveStageIndex(stages, fromStage);
+
+    if (startIndex > resumeIndex) {
+      throw new ValidationError(
+        `Script stage '${stages[startIndex].name}' cannot run before '${stages[resumeIndex].name}' has an output`,
+        { itemId: item.id, fromStage }
+      );
+    }
+
+    await this.scriptStageOutputRepository.deleteFromStage(item.id, startIndex);
+    await this.resetChunks(item);
+
+    const outputs = stored.filter((output) => output.stageIndex < startIndex);
+    const variables = await this.buildVariables(item, outputs);
+    let tokensUsed = 0;
+    let removed: AIResponseRemoval[] | undefined;
+
+    for (let index = startIndex; index < stages.length; index++) {
+      const stage = stages[index];
+      // A stage model without provider is one of the default provider's, like the job's
+      const target = stage.provider || stage.model
+        ? { provider: stage.provider, model: stage.model }
+        : { provider: job.aiProvider, model: job.aiModel };
+      const temperature = stage.temperature ?? DEFAULT_TEMPERATURE;
+
+      const result = await this.textGenerationService.generateText({
+        systemPrompt: stage.systemPrompt ?? job.systemPrompt,
+        userPrompt: stage.render(variables),
+        options: {
+          ...target,
+          temperature,
+          maxTokens: stage.maxTokens ?? DEFAULT_MAX_TOKENS,
+          // Outlines and drafts may be lists; only the script read by TTS is cleaned up and checked
+          rawResponse: index < stages.length - 1,
+        },
+      });
+      removed = result.removed;
+
+      const output = ScriptStageOutput.create({
+        itemId: item.id,
+        stageIndex: index,
+        stageName: stage.name,
+        content: result.content,
+        provider: result.provider ?? target.provider,
+        model: result.model ?? target.model,
+        usedFallback: result.usedFallback,
+        temperature,
+        inputTokens: result.usage?.inputTokens,
+        outputTokens: result.usage?.outputTokens,
+      });
+
+      await this.scriptStageOutputRepository.save(output);
+      outputs.push(output);
+      tokensUsed += result.usage?.totalTokens ?? 0;
+
+      variables[stage.name] = output.content;
+      variables.previous = output.content;
+    }
+
+    // The last stage output is the script sent to TTS
+    const finalOutput = outputs[outputs.length - 1];
+    const finalStage = stages[stages.length - 1];
+    const generatedText = GeneratedText.create(item.id, finalOutput.content, {
+      model: finalOutput.model ?? 'unknown',
+      provider: finalOutput.provider,
+      usedFallback: outputs.some((output) => output.usedFallback),
+      removed,
+      temperature: finalOutput.temperature,
+      maxTokens: finalStage.maxTokens ?? DEFAULT_MAX_TOKENS,
+    });
+
+    item.setGeneratedText(generatedText.content);
+
+    await this.generatedTextRepository.save(generatedText);
+    await this.contentItemRepository.save(item);
+
+    return {
+      item,
+      generatedText,
+      outputs,
+      tokensUsed,
+    };
+  }
+
+  // Chunking starts over from the new script; the audio files of the dropped chunks are no longer
+  // referenced and go with the next storage GC sweep
+  private async resetChunks(item: ContentItem): Promise<void> {
+    await this.audioChunkRepository.deleteByItemId(item.id);
+
+    if (item.currentStep !== PipelineStep.TEXT_GENERATION || item.status !== ItemStatus.GENERATING_TEXT) {
+      item.restartAt(PipelineStep.TEXT_GENERATION, ItemStatus.GENERATING_TEXT);
+      await this.contentItemRepository.save(item);
+    }
+  }
+
+  // First stage without a stored output; outputs of a stage since renamed or moved do not count
+  private getResumeIndex(stages: ScriptStage[], stored: ScriptStageOutput[]): number {
+    let index = 0;
+    while (
+      index < stages.length &&
+      stored.some((output) => output.stageIndex === index && output.stageName === stages[index].name)
+    ) {
+      index++;
+    }
+    return index;
+  }
+
+  private resolveStageIndex(stages: ScriptStage[], fromStage: number | string): number {
+    const index = typeof fromStage === 'number'
+      ? fromStage
+      : stages.findIndex((stage) => stage.name === fromStage);
+
+    if (index < 0 || index >= stages.length) {
+      throw new ValidationError(`Unknown script stage '${fromStage}'`, {
+        stages: stages.map((stage) => stage.name),
+      });
+    }
+
+    return index;
+  }
+
+  private async buildVariables(item: ContentItem, outputs: ScriptStageOutput[]): Promise<PromptVariables> {
+    const settings = await this.userSettingsRepository.getOrCreateDefault();
+
+    const variables: PromptVariables = {
+      titre: item.titre,
+      details: item.details,
+      category: item.category,
+      reference: item.reference || '',
+      channelName: settings.channelName,
+      channelDescription: settings.channelDescription,
+      channelTone: settings.channelTone,
+      channelLanguage: settings.channelLanguage,
+      previous: outputs.length > 0 ? outputs[outputs.length - 1].content : '',
+    };
+
+    for (const output of outputs) {
+      variables[output.stageName] = output.content;
+    }
+
+    return variables;
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CreateJobUseCase } from './CreateJobUseCase';
+import { UpdateJobUseCase } from './UpdateJobUseCase';
+import { Job } from '../../entities/Job';
+import { UserSettings } from '../../entities/UserSettings';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
+import { IEventBus } from '@/core/ports/events/IEventBus';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+const PROVIDERS = ['anthropic', 'mistral'];
+
+function customPrompt(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: id,
+    template: 'Écris un script sur {{titre}}.',
+    description: '',
+    category: 'user' as const,
+    isActive: true,
+    aiProvider: 'mistral',
+    aiModel: 'mistral-large-latest',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    usageCount: 0,
+    ...overrides,
+  };
+}
+
+function setup(existingJob?: Job) {
+  const settings = UserSettings.create();
+  settings.customPrompts = [
+    customPrompt('prompt-user'),
+    customPrompt('prompt-system', { category: 'system', template: 'Tu es un narrateur.', aiProvider: undefined, aiModel: undefined }),
+    customPrompt('prompt-openai', { aiProvider: 'openai', aiModel: 'gpt-4o' }),
+  ];
+  const deps = {
+    jobRepository: {
+      save: vi.fn(async () => undefined),
+      findById: vi.fn(async () => existingJob ?? null),
+    },
+    eventBus: { publish: vi.fn(async () => undefined) },
+    userSettingsRepository: { getOrCreateDefault: vi.fn(async () => settings) },
+  };
+  const createJob = new CreateJobUseCase(
+    deps.jobRepository as unknown as IJobRepository,
+    deps.eventBus as unknown as IEventBus,
+    deps.userSettingsRepository as unknown as IUserSettingsRepository,
+    PROVIDERS
+  );
+  const updateJob = new UpdateJobUseCase(
+    deps.jobRepository as unknown as IJobRepository,
+    deps.eventBus as unknown as IEventBus,
+    PROVIDERS
+  );
+  return { createJob, updateJob, deps };
+}
+
+describe('CreateJobUseCase', () => {
+  it("copies the template's prompt and LLM into the job", async () => {
+    const { createJob, deps } = setup();
+
+    const { job } = await createJob.execute({ name: 'Volcans', promptTemplateId: 'prompt-user' });
+
+    expect(job.userPromptTemplate?.template).toBe('Écris un script sur {{titre}}.');
+    expect(job).toMatchObject({ aiProvider: 'mistral', aiModel: 'mistral-large-latest' });
+    expect(deps.jobRepository.save).toHaveBeenCalledWith(job);
+    expect(deps.eventBus.publish).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'job.created', payload: expect.objectContaining({ jobId: job.id, name: 'Volcans' }) })
+    );
+  });
+
+  it('uses system templates as the system prompt', async () => {
+    const { createJob } = setup();
+
+    const { job } = await createJob.execute({ name: 'Volcans', promptTemplateId: 'prompt-system' });
+
+    expect(job.systemPrompt).toBe('Tu es un narrateur.');
+    expect(job.userPromptTemplate).toBeNull();
+    expect(job.aiProvider).toBeUndefined();
+  });
+
+  it('lets the input override the template, without mixing providers and models', async () => {
+    const { createJob } = setup();
+
+    const otherProvider = await createJob.execute({
+      name: 'Volcans',
+      promptTemplateId: 'prompt-user',
+      aiProvider: 'anthropic',
+      userPromptTemplate: 'Raconte {{titre}}.',
+    });
+    const otherModel = await createJob.execute({
+      name: 'Volcans',
+      promptTemplateId: 'prompt-user',
+      aiModel: 'mistral-small-latest',
+    });
+
+    expect(otherProvider.job.userPromptTemplate?.template).toBe('Raconte {{titre}}.');
+    expect(otherProvider.job).toMatchObject({ aiProvider: 'anthropic', aiModel: undefined });
+    expect(otherModel.job).toMatchObject({ aiProvider: 'mistral', aiModel: 'mistral-small-latest' });
+  });
+
+  it('rejects unknown templates', async () => {
+    const { createJob, deps } = setup();
+
+    await expect(createJob.execute({ name: 'Volcans', promptTemplateId: 'prompt-missing' })).rejects.toMatchObject({
+      code: ErrorCode.NOT_FOUND,
+    });
+    expect(deps.jobRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects providers that are not configured, wherever they come from', async () => {
+    const { createJob, deps } = setup();
+    const stage = { name: 'plan', promptTemplate: 'Plan de {{titre}}.' };
+
+    for (const input of [
+      { name: 'Volcans', aiProvider: 'openai' },
+      { name: 'Volcans', promptTemplateId: 'prompt-openai' },
+      { name: 'Volcans', scriptStages: [{ ...stage, provider: 'openai' }] },
+    ]) {
+      await expect(createJob.execute(input)).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        metadata: { provider: 'openai', availableProviders: PROVIDERS },
+      });
+    }
+    expect(deps.jobRepository.save).not.toHaveBeenCalled();
+  });
+});
+
+describe('UpdateJobUseCase', () => {
+  it('rejects providers that are not configured, and accepts going back to the default', async () => {
+    const job = Job.create({ name: 'Volcans', aiProvider: 'anthropic', aiModel: 'claude-sonnet' });
+    const { updateJob, deps } = setup(job);
+
+    await expect(updateJob.execute({ jobId: job.id, aiProvider: 'openai' })).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+    expect(deps.jobRepository.save).not.toHaveBeenCalled();
+
+    await updateJob.execute({ jobId: job.id, aiProvider: null, aiModel: null });
+    expect(job).toMatchObject({ aiProvider: undefined, aiModel: undefined });
+  });
+});
@@ -3,28 +3,69 @@
 
 import { z } from 'zod';
 import { Job } from '../../entities/Job';
+import { UserSettings } from '../../entities/UserSettings';
 import { VoiceSettings } from '../../value-objects/VoiceSettings';
 import { PromptTemplate } from '../../value-objects/PromptTemplate';
+import { Priority } from '../../value-objects/Priority';
+import { ScriptStage } from '../../value-objects/ScriptStage';
 import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import { JobCreatedEvent } from '../../events/job/JobCreatedEvent';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
+// Checked further by ScriptStage.createList (names, variables, count)
+export const ScriptStageInputSchema = z.object({
+  name: z.string().min(1, 'Script stage name is required'),
+  promptTemplate: z.string().min(1, 'Script stage prompt template is required'),
+  systemPrompt: z.string().optional(),
+  provider: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  maxTokens: z.number().int().min(100).max(8000).optional(),
+});
+
 const CreateJobSchema = z.object({
   name: z.string().min(1, 'Job name is required').max(255, 'Job name too long'),
   voiceId: z.string().optional(),
+  voiceProvider: z.string().min(1).optional(),
   stability: z.number().min(0).max(1).optional(),
   similarityBoost: z.number().min(0).max(1).optional(),
   style: z.number().min(0).max(1).optional(),
   useSpeakerBoost: z.boolean().optional(),
   systemPrompt: z.string().optional(),
   userPromptTemplate: z.string().optional(),
+  // Custom prompt (settings) the job is created from: its text and LLM fill what the input leaves unset
+  promptTemplateId: z.string().min(1).optional(),
+  // Override the template's LLM; the provider must be configured
+  aiProvider: z.string().min(1).optional(),
+  aiModel: z.string().min(1).optional(),
+  // Ordered LLM stages building the script; the single user prompt is used when empty
+  scriptStages: z.array(ScriptStageInputSchema).optional(),
   maxChunkSize: z.number().int().min(100).max(5000).optional(),
   silenceBetweenChunks: z.number().int().min(0).max(5000).optional(),
+  priority: z.nativeEnum(Priority).optional(),
 });
 
 export type CreateJobInput = z.infer<typeof CreateJobSchema>;
 
+type CustomPrompt = NonNullable<UserSettings['customPrompts']>[number];
+
+// Checked when the job is saved rather than when its first item reaches text generation
+export function assertAIProvidersConfigured(
+  providers: Array<string | undefined>,
+  configuredProviders: string[]
+): void {
+  for (const provider of providers) {
+    if (provider !== undefined && !configuredProviders.includes(provider)) {
+      throw ErrorFactory.validation(`AI provider '${provider}' is not configured`, {
+        provider,
+        availableProviders: configuredProviders,
+      });
+    }
+  }
+}
+
 export interface CreateJobOutput {
   job: Job;
 }
@@ -32,18 +73,33 @@ export interface CreateJobOutput {
 export class CreateJobUseCase {
   constructor(
     private readonly jobRepository: IJobRepository,
-    private readonly eventBus: IEventBus
+    private readonly eventBus: IEventBus,
+    private readonly userSettingsRepository: IUserSettingsRepository,
+    private readonly aiProviders: string[]
   ) {}
 
   async execute(input: CreateJobInput): Promise<CreateJobOutput> {
     // Validate input
     const validatedInput = CreateJobSchema.parse(input);
 
+    const template = validatedInput.promptTemplateId
+      ? await this.findPromptTemplate(validatedInput.promptTemplateId)
+      : undefined;
+
+    // A provider given without a model uses that provider's default model, not the template's
+    const aiProvider = validatedInput.aiProvider ?? template?.aiProvider;
+    const aiModel = validatedInput.aiModel ?? (validatedInput.aiProvider ? undefined : template?.aiModel);
+    assertAIProvidersConfigured(
+      [aiProvider, ...(validatedInput.scriptStages ?? []).map((stage) => stage.provider)],
+      this.aiProviders
+    );
+
     // Create voice settings if provided
     let voiceSettings: VoiceSettings | undefined;
     if (validatedInput.voiceId) {
       voiceSettings = VoiceSettings.create({
         voiceId: validatedInput.voiceId,
+        provider: validatedInput.voiceProvider,
         stability: validatedInput.stability,
         similarityBoost: validatedInput.similarityBoost,
         style: validatedInput.style,
@@ -52,19 +108,25 @@ export class CreateJobUseCase {
     }
 
     // Create prompt template if provided
+    const userPromptText = validatedInput.userPromptTemplate
+      || (template?.category === 'user' ? template.template : undefined);
     let userPromptTemplate: PromptTemplate | undefined;
-    if (validatedInput.userPromptTemplate) {
-      userPromptTemplate = PromptTemplate.create(validatedInput.userPromptTemplate);
+    if (userPromptText) {
+      userPromptTemplate = PromptTemplate.create(userPromptText);
     }
 
     // Create job entity
     const job = Job.create({
       name: validatedInput.name,
       voiceSettings,
-      systemPrompt: validatedInput.systemPrompt,
+      systemPrompt: validatedInput.systemPrompt ?? (template?.category === 'system' ? template.template : undefined),
       userPromptTemplate,
+      aiProvider,
+      aiModel,
+      scriptStages: ScriptStage.createList(validatedInput.scriptStages ?? []),
       maxChunkSize: validatedInput.maxChunkSize,
       silenceBetweenChunks: validatedInput.silenceBetweenChunks,
+      priority: validatedInput.priority,
     });
 
     // Persist job
@@ -72,13 +134,26 @@ export class CreateJobUseCase {
 
     // Emit domain event
     await this.eventBus.publish(
-      new JobCreatedEvent({
-        jobId: job.id,
-        jobName: job.name,
-        timestamp: new Date(),
-      })
+      new JobCreatedEvent(
+        {
+          jobId: job.id,
+          name: job.name,
+          totalItems: job.totalItems,
+          voiceId: job.voiceSettings?.voiceId,
+        },
+        { timestamp: new Date() }
+      )
     );
 
     return { job };
   }
+
+  private async findPromptTemplate(promptTemplateId: string): Promise<CustomPrompt> {
+    const settings = await this.userSettingsRepository.getOrCreateDefault();
+    const template = settings.customPrompts?.find((prompt) => prompt.id === promptTemplateId);
+    if (!template) {
+      throw ErrorFactory.notFound('PromptTemplate', promptTemplateId);
+    }
+    return template;
+  }
 }
@@ -0,0 +1,287 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExportJobResultsUseCase } from './ExportJobResultsUseCase';
+import { Job } from '../../entities/Job';
+import { ContentItem } from '../../entities/ContentItem';
+import { JobStatus } from '../../value-objects/JobStatus';
+import { ItemStatus } from '../../value-objects/ItemStatus';
+import { ContentCategory } from '../../value-objects/CSVRow';
+import { ArchiveEntry, IArchiveService } from '@/core/ports/services/storage/IArchiveService';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { IErrorLogRepository } from '@/core/ports/repositories/IErrorLogRepository';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+const CREATED_AT = new Date('2024-01-01T00:00:00Z');
+
+function job(status: JobStatus = JobStatus.COMPLETED): Job {
+  return {
+    id: 'job-1',
+    name: 'Volcans',
+    status,
+    createdAt: CREATED_AT,
+    totalItems: 3,
+    completedItems: 2,
+    failedItems: 1,
+    silenceBetweenChunks: 500,
+    systemPrompt: 'Tu es un narrateur.',
+    voiceSettings: { provider: 'elevenlabs', voiceId: 'voice-1', voiceName: 'Narrateur' },
+  } as unknown as Job;
+}
+
+function item(rowIndex: number, overrides: Partial<Record<string, unknown>> = {}): ContentItem {
+  return {
+    id: `item-${rowIndex}`,
+    rowIndex,
+    titre: `Épisode ${rowIndex}`,
+    details: 'Détails',
+    category: ContentCategory.CORPS,
+    status: ItemStatus.COMPLETED,
+    generatedText: 'Script.',
+    finalAudioPath: `output/item-${rowIndex}.mp3`,
+    audioDuration: 12,
+    createdAt: CREATED_AT,
+    ...overrides,
+  } as unknown as ContentItem;
+}
+
+function setup(items: ContentItem[], jobStatus?: JobStatus) {
+  const entries: ArchiveEntry[] = [];
+  const chunks = [
+    { chunk: { id: 'chunk-1', index: 0, duration: 2, audioPath: 'audio/c1.mp3', voiceId: 'voice-1' }, text: 'Bonjour.' },
+    { chunk: { id: 'chunk-2', index: 1, duration: 3, audioPath: 'audio/c2.mp3', voiceId: 'voice-1' }, text: 'Au revoir.' },
+  ];
+  const deps = {
+    jobRepository: { findById: vi.fn().mockResolvedValue(job(jobStatus)) },
+    itemRepository: { findByJobId: vi.fn().mockResolvedValue(items) },
+    chunkRepository: {
+      findByItemId: vi.fn().mockResolvedValue(chunks.map(({ chunk }) => chunk)),
+      findByItemIdWithText: vi.fn().mockResolvedValue(chunks),
+    },
+    storageService: {
+      uploadExport: vi.fn<IStorageService['uploadExport']>(async (fileName) => `https://cdn/${fileName}`),
+    },
+    generatedTextRepository: {
+      findByItemId: vi.fn(async () => ({ content: 'Script final.', metadata: { model: 'claude', provider: 'anthropic' } })),
+    },
+    errorLogRepository: {
+      findByItemId: vi.fn(async () => [{ message: 'TTS refused', toJSON: () => ({ message: 'TTS refused' }) }]),
+    },
+    archiveService: {
+      createZip: vi.fn(async (key: string, source: AsyncIterable<ArchiveEntry>) => {
+        for await (const entry of source) entries.push(entry);
+        return { key, size: 2048, url: `https://cdn/${key}` };
+      }),
+    },
+  };
+  const useCase = new ExportJobResultsUseCase(
+    deps.jobRepository as unknown as IJobRepository,
+    deps.itemRepository as unknown as IContentItemRepository,
+    deps.chunkRepository as unknown as IAudioChunkRepository,
+    deps.storageService as unknown as IStorageService,
+    deps.generatedTextRepository as unknown as IGeneratedTextRepository,
+    deps.errorLogRepository as unknown as IErrorLogRepository,
+    deps.archiveService as unknown as IArchiveService
+  );
+  return { useCase, deps, entries };
+}
+
+const uploaded = (deps: ReturnType<typeof setup>['deps']) => String(deps.storageService.uploadExport.mock.calls[0]?.[1]);
+
+const content = (entries: ArchiveEntry[], name: string) => {
+  const entry = entries.find((e) => e.name === name);
+  return entry && 'content' in entry.source ? String(entry.source.content) : undefined;
+};
+
+describe('ExportJobResultsUseCase', () => {
+  describe('zip', () => {
+    it('bundles scripts, audio, captions and chunks named after the source rows', async () => {
+      const { useCase, entries } = setup([item(2), item(1)]);
+
+      const result = await useCase.execute({ jobId: 'job-1', format: 'zip', includeChunks: true });
+
+      expect(result).toMatchObject({
+        downloadUrl: 'https://cdn/exports/job-1/job_job-1_export.zip',
+        fileName: 'job_job-1_export.zip',
+        fileSize: 2048,
+        partial: false,
+        exportedItems: 2,
+      });
+      expect(entries.map((entry) => entry.name)).toEqual([
+        'scripts/0001_Episode_1.txt',
+        'audio/0001_Episode_1.mp3',
+        'captions/0001_Episode_1.srt',
+        'captions/0001_Episode_1.vtt',
+        'chunks/0001_Episode_1/001.mp3',
+        'chunks/0001_Episode_1/002.mp3',
+        'scripts/0002_Episode_2.txt',
+        'audio/0002_Episode_2.mp3',
+        'captions/0002_Episode_2.srt',
+        'captions/0002_Episode_2.vtt',
+        'chunks/0002_Episode_2/001.mp3',
+        'chunks/0002_Episode_2/002.mp3',
+        'manifest.json',
+        'manifest.csv',
+      ]);
+      expect(entries[1]).toMatchObject({ source: { storageKey: 'output/item-1.mp3' }, compress: false });
+      expect(content(entries, 'scripts/0001_Episode_1.txt')).toBe('Script final.');
+      // Second cue starts after the first chunk and the silence between chunks
+      expect(content(entries, 'captions/0001_Episode_1.srt')).toContain('00:00:02,500 --> 00:00:05,500');
+    });
+
+    it('writes a manifest describing every file, in JSON and CSV', async () => {
+      const { useCase, entries } = setup([item(1)]);
+
+      await useCase.execute({ jobId: 'job-1', format: 'zip', includeChunks: true });
+
+      const manifest = JSON.parse(content(entries, 'manifest.json')!);
+      expect(manifest).toMatchObject({
+        jobId: 'job-1',
+        partial: false,
+        totalAudioDuration: 12,
+        voice: { provider: 'elevenlabs', voiceId: 'voice-1' },
+        prompt: { systemPrompt: 'Tu es un narrateur.' },
+        missingItems: [],
+      });
+      expect(manifest.items[0]).toMatchObject({
+        rowIndex: 1,
+        audioFile: 'audio/0001_Episode_1.mp3',
+        scriptFile: 'scripts/0001_Episode_1.txt',
+        captionFiles: ['captions/0001_Episode_1.srt', 'captions/0001_Episode_1.vtt'],
+        model: 'claude',
+        provider: 'anthropic',
+        chunks: [
+          { index: 0, file: 'chunks/0001_Episode_1/001.mp3', duration: 2, voiceId: 'voice-1' },
+          { index: 1, file: 'chunks/0001_Episode_1/002.mp3', duration: 3, voiceId: 'voice-1' },
+        ],
+      });
+      expect(content(entries, 'manifest.csv')!.split('\n')[1]).toBe(
+        '1,Épisode 1,CORPS,,COMPLETED,audio/0001_Episode_1.mp3,12,2,scripts/0001_Episode_1.txt,voice-1,claude,anthropic,,'
+      );
+    });
+
+    it('adds the error log of failed items', async () => {
+      const { useCase, entries } = setup([item(1, { status: ItemStatus.FAILED, finalAudioPath: undefined })]);
+
+      await useCase.execute({ jobId: 'job-1', format: 'zip', filters: { statuses: [ItemStatus.FAILED] } });
+
+      expect(JSON.parse(content(entries, 'errors.json')!)).toEqual([
+        { rowIndex: 1, titre: 'Épisode 1', message: 'TTS refused' },
+      ]);
+      expect(JSON.parse(content(entries, 'manifest.json')!).items[0].error).toBe('TTS refused');
+    });
+
+    it('leaves captions out when a chunk has no measured duration', async () => {
+      const { useCase, deps, entries } = setup([item(1)]);
+      deps.chunkRepository.findByItemIdWithText.mockResolvedValue([
+        { chunk: { id: 'chunk-1', index: 0, duration: undefined }, text: 'Bonjour.' },
+      ]);
+
+      await useCase.execute({ jobId: 'job-1', format: 'zip' });
+
+      expect(entries.some((entry) => entry.name.startsWith('captions/'))).toBe(false);
+    });
+  });
+
+  describe('item selection', () => {
+    const items = () => [
+      item(1, { category: ContentCategory.OUVERTURE }),
+      item(2, { status: ItemStatus.FAILED, finalAudioPath: undefined }),
+      item(3, { status: ItemStatus.GENERATING_AUDIO, finalAudioPath: undefined }),
+      item(4, { status: ItemStatus.SKIPPED, finalAudioPath: undefined }),
+      item(5, { category: ContentCategory.FERMETURE }),
+    ];
+
+    // The JSON export as uploaded
+    async function exportJson(jobStatus: JobStatus, filters?: Parameters<ExportJobResultsUseCase['execute']>[0]['filters']) {
+      const { useCase, deps } = setup(items(), jobStatus);
+      const result = await useCase.execute({ jobId: 'job-1', format: 'json', filters });
+      const data = JSON.parse(uploaded(deps));
+      return {
+        result,
+        exported: data.items.map((i: { rowIndex: number }) => i.rowIndex),
+        missing: data.missingItems.map((i: { rowIndex: number; reason: string }) => [i.rowIndex, i.reason]),
+        partial: data.partial,
+      };
+    }
+
+    it('exports every item of a completed job', async () => {
+      const { result, exported, missing } = await exportJson(JobStatus.COMPLETED);
+
+      expect(exported).toEqual([1, 2, 3, 4, 5]);
+      expect(missing).toEqual([]);
+      expect(result).toMatchObject({ partial: false, exportedItems: 5, missingItems: 0 });
+    });
+
+    it('exports the completed items of an unfinished job and lists the others as missing', async () => {
+      const { result, exported, missing, partial } = await exportJson(JobStatus.PROCESSING);
+
+      expect(exported).toEqual([1, 5]);
+      expect(missing).toEqual([[2, 'failed'], [3, 'not_completed'], [4, 'filtered_out']]);
+      expect(partial).toBe(true);
+      expect(result).toMatchObject({ partial: true, exportedItems: 2, missingItems: 3 });
+    });
+
+    it('filters on status, and lists the selected items left out', async () => {
+      const { exported, missing, partial } = await exportJson(JobStatus.COMPLETED, {
+        statuses: [ItemStatus.FAILED],
+      });
+
+      expect(exported).toEqual([2]);
+      expect(missing).toEqual([[1, 'filtered_out'], [3, 'not_completed'], [4, 'filtered_out'], [5, 'filtered_out']]);
+      expect(partial).toBe(true);
+    });
+
+    it('keeps only the completed items with completedOnly, whatever the status filters', async () => {
+      const { exported } = await exportJson(JobStatus.COMPLETED, {
+        completedOnly: true,
+        statuses: [ItemStatus.FAILED],
+      });
+
+      expect(exported).toEqual([1, 5]);
+    });
+
+    it('narrows the selection by category and inclusive row range before the status filters', async () => {
+      const byCategory = await exportJson(JobStatus.COMPLETED, { categories: [ContentCategory.FERMETURE] });
+      const byRange = await exportJson(JobStatus.PROCESSING, { rowRange: { from: 2, to: 4 } });
+
+      // Items outside the selection are neither exported nor missing
+      expect(byCategory).toMatchObject({ exported: [5], missing: [], partial: false });
+      expect(byRange).toMatchObject({
+        exported: [],
+        missing: [[2, 'failed'], [3, 'not_completed'], [4, 'filtered_out']],
+      });
+    });
+
+    it('keeps the missing rows in the CSV, in source order', async () => {
+      const { useCase, deps } = setup(items(), JobStatus.PROCESSING);
+
+      await useCase.execute({ jobId: 'job-1', format: 'csv', filters: { rowRange: { to: 3 } } });
+
+      const csv = uploaded(deps);
+      expect(csv.split('\n').slice(1, 4).map((line) => [line.split(',')[0], line.split(',').pop()])).toEqual([
+        ['1', ''],
+        ['2', 'failed'],
+        ['3', 'not_completed'],
+      ]);
+    });
+
+    it('marks partial ZIP exports in the file name', async () => {
+      const { useCase } = setup(items(), JobStatus.PAUSED);
+
+      const result = await useCase.execute({ jobId: 'job-1', format: 'zip' });
+
+      expect(result).toMatchObject({ fileName: 'job_job-1_export_partial.zip', partial: true, missingItems: 3 });
+    });
+  });
+
+  it('refuses jobs that never started', async () => {
+    const { useCase } = setup([item(1)], JobStatus.DRAFT);
+
+    await expect(useCase.execute({ jobId: 'job-1', format: 'zip' })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_STATE,
+    });
+  });
+});
@@ -4,17 +4,40 @@
 import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
 import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
 import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { IErrorLogRepository } from '@/core/ports/repositories/IErrorLogRepository';
 import { Job } from '../../entities/Job';
 import { ContentItem } from '../../entities/ContentItem';
-import { IStorageService } from '@/core/ports/Services/storage/IStorageService';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { ArchiveEntry, IArchiveService } from '@/core/ports/services/storage/IArchiveService';
 import { JobStatus } from '../../value-objects/JobStatus';
+import { ItemStatus } from '../../value-objects/ItemStatus';
+import { ContentCategory } from '../../value-objects/CSVRow';
+import { CaptionTrack } from '../../value-objects/CaptionTrack';
+import { ErrorCode, JobError } from '@/shared/utils/errors/AppError';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 
+// Items are selected by category and row range, then exported when they match the status filters.
+// Selected items left out are listed as missing so a partial export is never mistaken for a full one
+export interface ExportFilters {
+  statuses?: ItemStatus[];
+  categories?: ContentCategory[];
+  // Inclusive bounds on the source CSV rowIndex
+  rowRange?: { from?: number; to?: number };
+  // Only the items finished so far, whatever the job status
+  completedOnly?: boolean;
+}
+
 export interface ExportJobResultsInput {
   jobId: string;
   format: 'json' | 'csv' | 'zip';
   includeAudio?: boolean;
+  // ZIP only: the per-chunk audio next to each merged file
+  includeChunks?: boolean;
+  // ZIP only: SRT and WebVTT files timed on each merged audio
+  includeCaptions?: boolean;
   includeMetadata?: boolean;
+  filters?: ExportFilters;
 }
 
 export interface ExportJobResultsOutput {
@@ -22,38 +45,138 @@ export interface ExportJobResultsOutput {
   downloadUrl: string;
   fileName: string;
   fileSize: number;
+  // True when the job is not completed or selected items were left out
+  partial: boolean;
+  exportedItems: number;
+  missingItems: number;
+}
+
+// A selected item that is not part of the export, and why
+interface MissingExportItem {
+  rowIndex: number;
+  itemId: string;
+  titre: string;
+  category: ContentCategory;
+  status: ItemStatus;
+  reason: 'not_completed' | 'failed' | 'filtered_out';
+}
+
+interface ExportSelection {
+  items: ContentItem[];
+  missing: MissingExportItem[];
+  partial: boolean;
+}
+
+interface ExportItemData {
+  rowIndex: number;
+  itemId: string;
+  titre: string;
+  details: string;
+  category: ContentCategory;
+  reference?: string;
+  status: ItemStatus;
+  generatedText?: string;
+  // Model that produced generatedText, fallbacks included
+  model?: string;
+  provider?: string;
+  usedFallback?: boolean;
+  audioPath?: string;
+  audioDuration?: number;
+  chunks?: Array<{ chunkId: string; index: number; audioPath?: string; duration?: number }>;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+interface ExportData {
+  jobId: string;
+  jobName: string;
+  status: JobStatus;
+  partial: boolean;
+  filters: ExportFilters;
+  createdAt: Date;
+  completedAt?: Date;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  items: ExportItemData[];
+  missingItems: MissingExportItem[];
+}
+
+// One entry of the ZIP manifest (manifest.json / manifest.csv)
+interface ZipManifestItem {
+  rowIndex: number;
+  itemId: string;
+  titre: string;
+  category: string;
+  reference?: string;
+  status: ItemStatus;
+  audioFile?: string;
+  audioDuration?: number;
+  scriptFile?: string;
+  captionFiles?: string[];
+  model?: string;
+  provider?: string;
+  usedFallback?: boolean;
+  chunks: Array<{ index: number; file: string; duration?: number; voiceId?: string }>;
+  error?: string;
 }
 
+// Nothing has been generated before the job starts
+const EXPORTABLE_JOB_STATUSES = [
+  JobStatus.PROCESSING,
+  JobStatus.PAUSED,
+  JobStatus.COMPLETED,
+  JobStatus.FAILED,
+  JobStatus.CANCELLED,
+];
+
 export class ExportJobResultsUseCase {
   constructor(
     private readonly jobRepository: IJobRepository,
     private readonly itemRepository: IContentItemRepository,
     private readonly chunkRepository: IAudioChunkRepository,
-    private readonly storageService: IStorageService
+    private readonly storageService: IStorageService,
+    private readonly generatedTextRepository: IGeneratedTextRepository,
+    private readonly errorLogRepository: IErrorLogRepository,
+    private readonly archiveService: IArchiveService
   ) {}
 
   async execute(input: ExportJobResultsInput): Promise<ExportJobResultsOutput> {
-    const { jobId, format, includeAudio = true, includeMetadata = true } = input;
+    const {
+      jobId,
+      format,
+      includeAudio = true,
+      includeChunks = false,
+      includeCaptions = true,
+      filters = {},
+    } = input;
 
     // Find job
     const job = await this.jobRepository.findById(jobId);
     if (!job) {
-      throw ErrorFactory.notFound(`Job with id ${jobId} not found`);
+      throw ErrorFactory.jobNotFound(jobId);
     }
 
-    // Check if job is completed
-    if (job.status !== JobStatus.COMPLETED) {
-      throw ErrorFactory.invalidTransition(
-        'job.status',
-        `Cannot export results for job in ${job.status} status. Job must be completed.`
+    // Jobs still running or ended in FAILED/CANCELLED export what is finished so far
+    if (!EXPORTABLE_JOB_STATUSES.includes(job.status)) {
+      throw new JobError(
+        `Cannot export results for job in ${job.status} status. Job must have been started.`,
+        ErrorCode.INVALID_STATE,
+        { jobId, status: job.status }
       );
     }
 
     // Get all items for the job
     const items = await this.itemRepository.findByJobId(jobId);
+    const selection = this.selectItems(job, items, filters);
+
+    // Audio can weigh several GB: the archive is streamed to storage, never buffered
+    if (format === 'zip') {
+      return await this.generateZip(job, selection, filters, { includeAudio, includeChunks, includeCaptions });
+    }
     
     // Prepare export data
-    const exportData = await this.prepareExportData(job, items, includeAudio);
+    const exportData = await this.prepareExportData(job, selection, filters, includeAudio);
     
     // Generate file based on format
     const fileName = `job_${jobId}_export.${format}`;
@@ -71,13 +194,8 @@ export class ExportJobResultsUseCase {
         contentType = 'text/csv';
         break;
       
-      case 'zip':
-        fileContent = await this.generateZip(exportData, jobId);
-        contentType = 'application/zip';
-        break;
-      
       default:
-        throw ErrorFactory.validationError(`Unsupported export format: ${format}`);
+        throw ErrorFactory.validation(`Unsupported export format: ${format}`);
     }
 
     // Store file and get download URL
@@ -93,51 +211,109 @@ export class ExportJobResultsUseCase {
       downloadUrl,
       fileName,
       fileSize: fileBuffer.length,
+      partial: selection.partial,
+      exportedItems: selection.items.length,
+      missingItems: selection.missing.length,
+    };
+  }
+
+  // Without status filters, a completed job exports every item and a partial one its COMPLETED items
+  private selectItems(job: Job, items: ContentItem[], filters: ExportFilters): ExportSelection {
+    const { statuses, categories, rowRange, completedOnly } = filters;
+    const exportedStatuses = completedOnly
+      ? [ItemStatus.COMPLETED]
+      : statuses ?? (job.status === JobStatus.COMPLETED ? undefined : [ItemStatus.COMPLETED]);
+
+    const selected = [...items]
+      .sort((a, b) => a.rowIndex - b.rowIndex)
+      .filter((item) => !categories || categories.includes(item.category))
+      .filter((item) => rowRange?.from === undefined || item.rowIndex >= rowRange.from)
+      .filter((item) => rowRange?.to === undefined || item.rowIndex <= rowRange.to);
+
+    const exported: ContentItem[] = [];
+    const missing: MissingExportItem[] = [];
+
+    for (const item of selected) {
+      if (!exportedStatuses || exportedStatuses.includes(item.status)) {
+        exported.push(item);
+        continue;
+      }
+
+      missing.push({
+        rowIndex: item.rowIndex,
+        itemId: item.id,
+        titre: item.titre,
+        category: item.category,
+        status: item.status,
+        reason: item.status === ItemStatus.FAILED
+          ? 'failed'
+          : item.status === ItemStatus.COMPLETED || item.status === ItemStatus.SKIPPED
+            ? 'filtered_out'
+            : 'not_completed',
+      });
+    }
+
+    return {
+      items: exported,
+      missing,
+      partial: job.status !== JobStatus.COMPLETED || missing.length > 0,
     };
   }
 
   private async prepareExportData(
     job: Job,
-    items: ContentItem[],
+    selection: ExportSelection,
+    filters: ExportFilters,
     includeAudio: boolean
-  ): Promise<any> {
-    const exportData: any = {
+  ): Promise<ExportData> {
+    const exportData: ExportData = {
       jobId: job.id,
       jobName: job.name,
+      status: job.status,
+      partial: selection.partial,
+      filters,
       createdAt: job.createdAt,
       completedAt: job.completedAt,
       totalItems: job.totalItems,
       completedItems: job.completedItems,
       failedItems: job.failedItems,
       items: [],
+      missingItems: selection.missing,
     };
 
-    for (const item of items) {
-      const itemData: any = {
+    for (const item of selection.items) {
+      const generatedText = item.generatedText
+        ? await this.generatedTextRepository.findByItemId(item.id)
+        : null;
+      const itemData: ExportItemData = {
+        rowIndex: item.rowIndex,
         itemId: item.id,
-        originalText: item.originalText,
-        generatedText: item.generatedText,
+        titre: item.titre,
+        details: item.details,
+        category: item.category,
+        reference: item.reference,
         status: item.status,
-        metadata: item.metadata,
+        generatedText: item.generatedText,
+        model: generatedText?.metadata?.model,
+        provider: generatedText?.metadata?.provider,
+        usedFallback: generatedText?.metadata?.usedFallback,
         createdAt: item.createdAt,
         completedAt: item.completedAt,
       };
 
-      if (includeAudio && item.audioUrl) {
-        itemData.audioUrl = item.audioUrl;
+      if (includeAudio && item.finalAudioPath) {
+        itemData.audioPath = item.finalAudioPath;
         itemData.audioDuration = item.audioDuration;
-        
-        // Get chunks if needed
-        if (item.status === 'COMPLETED') {
-          const chunks = await this.chunkRepository.findByItemId(item.id);
-          itemData.chunks = chunks.map(chunk => ({
+
+        const chunks = await this.chunkRepository.findByItemId(item.id);
+        itemData.chunks = [...chunks]
+          .sort((a, b) => a.index - b.index)
+          .map((chunk) => ({
             chunkId: chunk.id,
-            text: chunk.text,
-            audioUrl: chunk.audioUrl,
+            index: chunk.index,
+            audioPath: chunk.audioPath,
             duration: chunk.duration,
-            sequence: chunk.sequence,
           }));
-        }
       }
 
       exportData.items.push(itemData);
@@ -146,29 +322,243 @@ export class ExportJobResultsUseCase {
     return exportData;
   }
 
-  private generateCSV(data: any): string {
-    const headers = ['Item ID', 'Original Text', 'Generated Text', 'Status', 'Created At', 'Completed At'];
-    let csv = headers.join(',') + '\n';
-
-    for (const item of data.items) {
-      const row = [
-        item.itemId,
-        `"${(item.originalText || '').toString().replace(/"/g, '""')}"`,
-        `"${(item.generatedText || '').toString().replace(/"/g, '""')}"`,
+  // Same columns as the source CSV, then the generation results. Missing items keep their
+  // row (no results, the reason in "missing") so the file lines up with the source
+  private generateCSV(data: ExportData): string {
+    const headers = [
+      'rowIndex', 'titre', 'details', 'category', 'reference', 'status', 'generatedText',
+      'model', 'provider', 'audioPath', 'audioDuration', 'completedAt', 'missing',
+    ];
+    const exported = data.items.map((item) => ({
+      rowIndex: item.rowIndex,
+      row: [
+        item.rowIndex,
+        item.titre,
+        item.details,
+        item.category,
+        item.reference,
         item.status,
-        item.createdAt,
-        item.completedAt || '',
-      ];
-      csv += row.join(',') + '\n';
+        item.generatedText,
+        item.model,
+        item.provider,
+        item.audioPath,
+        item.audioDuration,
+        item.completedAt?.toISOString(),
+        '',
+      ],
+    }));
+    const missing = data.missingItems.map((item) => ({
+      rowIndex: item.rowIndex,
+      row: [item.rowIndex, item.titre, '', item.category, '', item.status, '', '', '', '', '', '', item.reason],
+    }));
+
+    const rows = [...exported, ...missing]
+      .sort((a, b) => a.rowIndex - b.rowIndex)
+      .map(({ row }) => row);
+
+    return [headers, ...rows].map((row) => row.map((cell) => this.toCSVCell(cell)).join(',')).join('\n') + '\n';
+  }
+
+  private async generateZip(
+    job: Job,
+    selection: ExportSelection,
+    filters: ExportFilters,
+    options: { includeAudio: boolean; includeChunks: boolean; includeCaptions: boolean }
+  ): Promise<ExportJobResultsOutput> {
+    const fileName = `job_${job.id}_export${selection.partial ? '_partial' : ''}.zip`;
+    const key = `exports/${job.id}/${fileName}`;
+
+    const info = await this.archiveService.createZip(key, this.zipEntries(job, selection, filters, options), {
+      metadata: { jobId: job.id },
+    });
+    const downloadUrl = info.url ?? (await this.storageService.getPublicUrl?.(key)) ?? key;
+
+    return {
+      success: true,
+      downloadUrl,
+      fileName,
+      fileSize: info.size ?? 0,
+      partial: selection.partial,
+      exportedItems: selection.items.length,
+      missingItems: selection.missing.length,
+    };
+  }
+
+  // Layout: audio/, captions/, chunks/, scripts/, manifest.json, manifest.csv and errors.json.
+  // Files are named "<rowIndex>_<titre>" so they sort like the source CSV
+  private async *zipEntries(
+    job: Job,
+    selection: ExportSelection,
+    filters: ExportFilters,
+    options: { includeAudio: boolean; includeChunks: boolean; includeCaptions: boolean }
+  ): AsyncGenerator<ArchiveEntry> {
+    const manifestItems: ZipManifestItem[] = [];
+    const errors: Array<Record<string, unknown>> = [];
+
+    for (const item of selection.items) {
+      const baseName = `${String(item.rowIndex).padStart(4, '0')}_${this.toFileName(item.titre)}`;
+      const generatedText = await this.generatedTextRepository.findByItemId(item.id);
+      const script = generatedText?.content ?? item.generatedText;
+      const entry: ZipManifestItem = {
+        rowIndex: item.rowIndex,
+        itemId: item.id,
+        titre: item.titre,
+        category: item.category,
+        reference: item.reference,
+        status: item.status,
+        audioDuration: item.audioDuration,
+        model: generatedText?.metadata?.model,
+        provider: generatedText?.metadata?.provider,
+        usedFallback: generatedText?.metadata?.usedFallback,
+        chunks: [],
+      };
+
+      if (script) {
+        entry.scriptFile = `scripts/${baseName}.txt`;
+        yield { name: entry.scriptFile, source: { content: script }, modifiedAt: generatedText?.updatedAt };
+      }
+
+      if (options.includeAudio && item.finalAudioPath) {
+        entry.audioFile = `audio/${baseName}${this.getExtension(item.finalAudioPath)}`;
+        yield {
+          name: entry.audioFile,
+          source: { storageKey: item.finalAudioPath },
+          compress: false,
+          modifiedAt: item.completedAt,
+        };
+      }
+
+      if (options.includeCaptions && item.finalAudioPath) {
+        const track = await this.buildCaptionTrack(job, item);
+        if (track) {
+          entry.captionFiles = [`captions/${baseName}.srt`, `captions/${baseName}.vtt`];
+          yield { name: entry.captionFiles[0], source: { content: track.toSRT() } };
+          yield { name: entry.captionFiles[1], source: { content: track.toWebVTT() } };
+        }
+      }
+
+      if (options.includeChunks) {
+        const chunks = await this.chunkRepository.findByItemId(item.id);
+
+        for (const chunk of [...chunks].sort((a, b) => a.index - b.index)) {
+          if (!chunk.audioPath) continue;
+
+          const file = `chunks/${baseName}/${String(chunk.index + 1).padStart(3, '0')}${this.getExtension(chunk.audioPath)}`;
+          entry.chunks.push({ index: chunk.index, file, duration: chunk.duration, voiceId: chunk.voiceId });
+          yield { name: file, source: { storageKey: chunk.audioPath }, compress: false, modifiedAt: chunk.completedAt };
+        }
+      }
+
+      if (item.status === ItemStatus.FAILED) {
+        const itemErrors = await this.errorLogRepository.findByItemId(item.id);
+        entry.error = itemErrors[0]?.message;
+        errors.push(...itemErrors.map((error) => ({ rowIndex: item.rowIndex, titre: item.titre, ...error.toJSON() })));
+      }
+
+      manifestItems.push(entry);
     }
 
-    return csv;
+    const manifest = {
+      jobId: job.id,
+      jobName: job.name,
+      status: job.status,
+      partial: selection.partial,
+      filters,
+      exportedAt: new Date().toISOString(),
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      totalItems: job.totalItems,
+      completedItems: job.completedItems,
+      failedItems: job.failedItems,
+      totalAudioDuration: manifestItems.reduce((sum, item) => sum + (item.audioDuration ?? 0), 0),
+      voice: job.voiceSettings
+        ? {
+            provider: job.voiceSettings.provider,
+            voiceId: job.voiceSettings.voiceId,
+            voiceName: job.voiceSettings.voiceName,
+          }
+        : null,
+      prompt: {
+        systemPrompt: job.systemPrompt,
+        userPromptTemplate: job.userPromptTemplate?.template ?? null,
+      },
+      items: manifestItems,
+      missingItems: selection.missing,
+    };
+
+    yield { name: 'manifest.json', source: { content: JSON.stringify(manifest, null, 2) } };
+    yield {
+      name: 'manifest.csv',
+      source: { content: this.generateManifestCSV(job, manifestItems, selection.missing) },
+    };
+
+    if (errors.length > 0) {
+      yield { name: 'errors.json', source: { content: JSON.stringify(errors, null, 2) } };
+    }
+  }
+
+  // Items whose chunks lack a measured duration (older jobs) are exported without captions
+  private async buildCaptionTrack(job: Job, item: ContentItem): Promise<CaptionTrack | null> {
+    const chunks = await this.chunkRepository.findByItemIdWithText(item.id);
+    if (chunks.length === 0 || chunks.some(({ chunk }) => chunk.duration === undefined)) {
+      return null;
+    }
+
+    return CaptionTrack.fromSegments(
+      chunks.map(({ chunk, text }) => ({ text, duration: chunk.duration ?? 0 })),
+      { gapBetweenSegmentsMs: job.silenceBetweenChunks }
+    );
+  }
+
+  private generateManifestCSV(job: Job, items: ZipManifestItem[], missing: MissingExportItem[]): string {
+    const headers = [
+      'rowIndex', 'titre', 'category', 'reference', 'status', 'audioFile', 'audioDuration',
+      'chunkCount', 'scriptFile', 'voiceId', 'model', 'provider', 'error', 'missing',
+    ];
+    const exported = items.map((item) => [
+      item.rowIndex,
+      item.titre,
+      item.category,
+      item.reference,
+      item.status,
+      item.audioFile,
+      item.audioDuration,
+      item.chunks.length,
+      item.scriptFile,
+      job.voiceSettings?.voiceId,
+      item.model,
+      item.provider,
+      item.error,
+      '',
+    ]);
+    const missingRows = missing.map((item) => [
+      item.rowIndex, item.titre, item.category, '', item.status, '', '', '', '', '', '', '', '', item.reason,
+    ]);
+    const rows = [...exported, ...missingRows].sort((a, b) => Number(a[0]) - Number(b[0]));
+
+    return [headers, ...rows].map((row) => row.map((cell) => this.toCSVCell(cell)).join(',')).join('\n') + '\n';
+  }
+
+  private toCSVCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // ASCII-only names: not every unzip tool honours the UTF-8 flag
+  private toFileName(titre: string): string {
+    const name = titre
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 60);
+    return name || 'item';
   }
 
-  private async generateZip(data: any, jobId: string): Promise<Buffer> {
-    // In a real implementation, this would create a ZIP file with json data and audio files
-    // For this implementation, we'll return a placeholder
-    throw ErrorFactory.notImplemented('ZIP export is not implemented yet');
+  private getExtension(path: string): string {
+    const match = /\.[a-zA-Z0-9]{1,5}$/.exec(path);
+    return match ? match[0].toLowerCase() : '.mp3';
   }
 }
 
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GeneratePodcastFeedUseCase } from './GeneratePodcastFeedUseCase';
+import { ContentItem } from '../../entities/ContentItem';
+import { ItemStatus } from '../../value-objects/ItemStatus';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+const SIZES: Record<string, number> = {
+  'output/item-1.mp3': 48000,
+  'output/item-2.m4a': 96000,
+};
+
+function item(rowIndex: number, finalAudioPath?: string, status: ItemStatus = ItemStatus.COMPLETED): ContentItem {
+  return {
+    id: `item-${rowIndex}`,
+    jobId: 'job-1',
+    rowIndex,
+    titre: `Épisode ${rowIndex}`,
+    details: 'Détails',
+    status,
+    finalAudioPath,
+    audioDuration: 90,
+    completedAt: new Date(Date.UTC(2024, 0, rowIndex)),
+    updatedAt: new Date(Date.UTC(2024, 0, rowIndex)),
+  } as unknown as ContentItem;
+}
+
+function setup(items: ContentItem[]) {
+  const deps = {
+    jobRepository: { findById: vi.fn(async () => ({ id: 'job-1', name: 'Volcans' })) },
+    contentItemRepository: {
+      findByJobId: vi.fn(async () => items.filter((i) => i.status === ItemStatus.COMPLETED)),
+      findById: vi.fn(async (id: string) => items.find((i) => i.id === id) ?? null),
+    },
+    generatedTextRepository: { findByItemId: vi.fn(async () => null) },
+    userSettingsRepository: {
+      getOrCreateDefault: vi.fn(async () => ({
+        channelName: 'Mon podcast',
+        channelDescription: 'Des histoires.',
+        channelLanguage: 'fr',
+      })),
+    },
+    storageService: {
+      exists: vi.fn(async () => false),
+      putObject: vi.fn(async (key: string) => ({ key })),
+      headObject: vi.fn(async (key: string) => (key in SIZES ? { key, size: SIZES[key] } : null)),
+      getPublicUrl: vi.fn(async (key: string) => `/api/audio/download/${key}?expires=1&signature=abc`),
+    },
+  };
+  const useCase = new GeneratePodcastFeedUseCase(
+    deps.jobRepository as unknown as IJobRepository,
+    deps.contentItemRepository as unknown as IContentItemRepository,
+    deps.generatedTextRepository as unknown as IGeneratedTextRepository,
+    deps.userSettingsRepository as unknown as IUserSettingsRepository,
+    deps.storageService as unknown as IStorageService,
+    { baseUrl: 'https://podcast.example.com', category: 'Education', explicit: false, maxEpisodes: 10 }
+  );
+  return { useCase, deps };
+}
+
+describe('GeneratePodcastFeedUseCase', () => {
+  it('points enclosures at the stable episode route, with the stored size as length', async () => {
+    const { useCase, deps } = setup([item(1, 'output/item-1.mp3'), item(2, 'output/item-2.m4a')]);
+
+    const { xml, episodeCount } = await useCase.execute({ jobId: 'job-1', regenerate: true });
+
+    expect(episodeCount).toBe(2);
+    expect(xml).toContain(
+      '<enclosure url="https://podcast.example.com/api/feeds/podcast/episodes/item-2.m4a" length="96000" type="audio/mp4"/>'
+    );
+    expect(xml).toContain(
+      '<enclosure url="https://podcast.example.com/api/feeds/podcast/episodes/item-1.mp3" length="48000" type="audio/mpeg"/>'
+    );
+    // Nothing in the stored feed expires
+    expect(deps.storageService.getPublicUrl).not.toHaveBeenCalled();
+    expect(xml).not.toContain('signature');
+  });
+
+  it('leaves out episodes whose audio is missing from storage', async () => {
+    const { useCase } = setup([item(1, 'output/item-1.mp3'), item(3, 'output/item-3.mp3')]);
+
+    const { xml, episodeCount } = await useCase.execute({ jobId: 'job-1', regenerate: true });
+
+    expect(episodeCount).toBe(1);
+    expect(xml).not.toContain('item-3');
+  });
+
+  describe('getEpisodeAudioUrl', () => {
+    it('signs the audio URL on request', async () => {
+      const { useCase, deps } = setup([item(1, 'output/item-1.mp3')]);
+
+      await expect(useCase.getEpisodeAudioUrl('item-1')).resolves.toBe(
+        'https://podcast.example.com/api/audio/download/output/item-1.mp3?expires=1&signature=abc'
+      );
+      expect(deps.storageService.getPublicUrl).toHaveBeenCalledWith('output/item-1.mp3');
+    });
+
+    it('only serves the audio of completed items', async () => {
+      const { useCase } = setup([item(1, 'output/item-1.mp3', ItemStatus.FAILED), item(2)]);
+
+      await expect(useCase.getEpisodeAudioUrl('item-1')).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+      await expect(useCase.getEpisodeAudioUrl('item-2')).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+      await expect(useCase.getEpisodeAudioUrl('item-9')).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+    });
+  });
+});
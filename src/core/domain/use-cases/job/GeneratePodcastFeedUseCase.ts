@@ -0,0 +1,204 @@
+// src/core/domain/use-cases/job/GeneratePodcastFeedUseCase.ts
+// Use case: podcast RSS feed of the completed items of a job, or of every job (channel feed)
+// Feeds are stored next to the audio and rebuilt when an item completes
+
+import { z } from 'zod';
+import { Job } from '../../entities/Job';
+import { ContentItem } from '../../entities/ContentItem';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IGeneratedTextRepository } from '@/core/ports/repositories/IGeneratedTextRepository';
+import { IUserSettingsRepository } from '@/core/ports/repositories/IUserSettingsRepository';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { PodcastEpisode, PodcastFeed } from '../../value-objects/PodcastFeed';
+import { ItemStatus } from '../../value-objects/ItemStatus';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+
+const GeneratePodcastFeedSchema = z.object({
+  // Omitted: the channel feed, across every job
+  jobId: z.string().min(1).optional(),
+  // false serves the stored feed when there is one
+  regenerate: z.boolean().default(false),
+});
+
+export type GeneratePodcastFeedInput = z.input<typeof GeneratePodcastFeedSchema>;
+
+export interface GeneratePodcastFeedOutput {
+  key: string;
+  xml: string;
+  episodeCount?: number;
+}
+
+export interface PodcastFeedSettings {
+  baseUrl: string;
+  imageUrl?: string;
+  category: string;
+  ownerEmail?: string;
+  explicit: boolean;
+  maxEpisodes: number;
+}
+
+const FEED_CONTENT_TYPE = 'application/rss+xml; charset=utf-8';
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+};
+
+export class GeneratePodcastFeedUseCase {
+  constructor(
+    private readonly jobRepository: IJobRepository,
+    private readonly contentItemRepository: IContentItemRepository,
+    private readonly generatedTextRepository: IGeneratedTextRepository,
+    private readonly userSettingsRepository: IUserSettingsRepository,
+    private readonly storageService: IStorageService,
+    private readonly settings: PodcastFeedSettings
+  ) {}
+
+  static getFeedKey(jobId?: string): string {
+    return jobId ? `feeds/jobs/${jobId}.xml` : 'feeds/channel.xml';
+  }
+
+  // Stable enclosure URL, redirected to the audio by /api/feeds/podcast/episodes/[id]
+  static getEpisodePath(itemId: string, extension: string): string {
+    return `/api/feeds/podcast/episodes/${encodeURIComponent(itemId)}${AUDIO_TYPES[extension] ? `.${extension}` : ''}`;
+  }
+
+  async execute(input: GeneratePodcastFeedInput = {}): Promise<GeneratePodcastFeedOutput> {
+    const { jobId, regenerate } = GeneratePodcastFeedSchema.parse(input);
+    const key = GeneratePodcastFeedUseCase.getFeedKey(jobId);
+
+    if (!regenerate && await this.storageService.exists(key)) {
+      const stored = await this.storageService.getObject(key);
+      return { key, xml: stored.data.toString('utf8') };
+    }
+
+    const feed = jobId ? await this.buildJobFeed(jobId) : await this.buildChannelFeed();
+    const xml = feed.toRSS();
+
+    await this.storageService.putObject(key, Buffer.from(xml, 'utf8'), {
+      contentType: FEED_CONTENT_TYPE,
+      cacheControl: 'public, max-age=300',
+    });
+
+    return { key, xml, episodeCount: feed.episodeCount };
+  }
+
+  // Download URL of an episode, signed now (the storage's own URLs expire)
+  async getEpisodeAudioUrl(itemId: string): Promise<string> {
+    const item = await this.contentItemRepository.findById(itemId);
+    if (!item || item.status !== ItemStatus.COMPLETED || !item.finalAudioPath) {
+      throw ErrorFactory.notFound('Episode', itemId);
+    }
+
+    const url = await this.storageService.getPublicUrl?.(item.finalAudioPath);
+    if (!url) {
+      throw ErrorFactory.notFound('Episode audio', itemId);
+    }
+
+    return this.toAbsoluteUrl(url);
+  }
+
+  private async buildJobFeed(jobId: string): Promise<PodcastFeed> {
+    const job = await this.jobRepository.findById(jobId);
+    if (!job) {
+      throw ErrorFactory.jobNotFound(jobId);
+    }
+
+    const settings = await this.userSettingsRepository.getOrCreateDefault();
+    const items = await this.findEpisodeItems([job]);
+
+    return PodcastFeed.create({
+      ...this.getChannelDefaults(settings.channelName),
+      title: job.name,
+      description: settings.channelDescription,
+      link: this.toAbsoluteUrl(`/jobs/${job.id}`),
+      selfUrl: this.toAbsoluteUrl(`/api/feeds/podcast?jobId=${encodeURIComponent(job.id)}`),
+      language: settings.channelLanguage,
+      episodes: await this.toEpisodes(items, true),
+    });
+  }
+
+  private async buildChannelFeed(): Promise<PodcastFeed> {
+    const settings = await this.userSettingsRepository.getOrCreateDefault();
+    const jobs = await this.jobRepository.findAll({ orderByCreatedAt: 'desc' });
+    const items = await this.findEpisodeItems(jobs);
+
+    return PodcastFeed.create({
+      ...this.getChannelDefaults(settings.channelName),
+      title: settings.channelName,
+      description: settings.channelDescription,
+      link: this.toAbsoluteUrl('/'),
+      selfUrl: this.toAbsoluteUrl('/api/feeds/podcast'),
+      language: settings.channelLanguage,
+      episodes: await this.toEpisodes(items, false),
+    });
+  }
+
+  private getChannelDefaults(author: string) {
+    return {
+      author,
+      imageUrl: this.settings.imageUrl,
+      category: this.settings.category,
+      ownerEmail: this.settings.ownerEmail,
+      explicit: this.settings.explicit,
+    };
+  }
+
+  // Most recently completed first, capped before the generated texts are loaded
+  private async findEpisodeItems(jobs: Job[]): Promise<ContentItem[]> {
+    const items: ContentItem[] = [];
+
+    for (const job of jobs) {
+      const completed = await this.contentItemRepository.findByJobId(job.id, { status: ItemStatus.COMPLETED });
+      items.push(...completed.filter((item) => item.finalAudioPath));
+    }
+
+    return items
+      .sort((a, b) => this.getPublishedAt(b).getTime() - this.getPublishedAt(a).getTime())
+      .slice(0, this.settings.maxEpisodes);
+  }
+
+  private async toEpisodes(items: ContentItem[], numbered: boolean): Promise<PodcastEpisode[]> {
+    const episodes: PodcastEpisode[] = [];
+
+    for (const item of items) {
+      const audioPath = item.finalAudioPath as string;
+      // Enclosures must carry the byte length; audio gone from storage is left out of the feed
+      const audio = await this.storageService.headObject(audioPath);
+      if (audio?.size === undefined) {
+        continue;
+      }
+
+      const extension = audioPath.split('.').pop()?.toLowerCase() ?? '';
+      const generatedText = await this.generatedTextRepository.findByItemId(item.id);
+
+      episodes.push({
+        guid: item.id,
+        title: item.titre,
+        description: generatedText?.content ?? item.generatedText ?? item.details,
+        // Feeds outlive signed storage URLs: the episode route signs on each request
+        audioUrl: this.toAbsoluteUrl(GeneratePodcastFeedUseCase.getEpisodePath(item.id, extension)),
+        audioType: AUDIO_TYPES[extension] ?? 'audio/mpeg',
+        audioLength: audio.size,
+        duration: item.audioDuration,
+        publishedAt: this.getPublishedAt(item),
+        episodeNumber: numbered ? item.rowIndex + 1 : undefined,
+      });
+    }
+
+    return episodes;
+  }
+
+  private getPublishedAt(item: ContentItem): Date {
+    return item.completedAt ?? item.updatedAt;
+  }
+
+  private toAbsoluteUrl(url: string): string {
+    return new URL(url, this.settings.baseUrl.endsWith('/') ? this.settings.baseUrl : `${this.settings.baseUrl}/`).toString();
+  }
+}
@@ -4,10 +4,12 @@
 import { z } from 'zod';
 import { Job } from '../../entities/Job';
 import { JobStatus } from '../../value-objects/JobStatus';
+import { Priority } from '../../value-objects/Priority';
 import { IJobRepository, JobListOptions } from '@/core/ports/repositories/IJobRepository';
 
 const ListJobsSchema = z.object({
   status: z.nativeEnum(JobStatus).optional(),
+  priority: z.nativeEnum(Priority).optional(),
   limit: z.number().int().min(1).max(100).optional().default(20),
   offset: z.number().int().min(0).optional().default(0),
   orderByCreatedAt: z.enum(['asc', 'desc']).optional().default('desc'),
@@ -32,6 +34,7 @@ export class ListJobsUseCase {
     // Build options
     const options: JobListOptions = {
       status: validatedInput.status,
+      priority: validatedInput.priority,
       limit: validatedInput.limit,
       offset: validatedInput.offset,
       orderByCreatedAt: validatedInput.orderByCreatedAt,
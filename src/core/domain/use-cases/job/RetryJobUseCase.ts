@@ -14,6 +14,8 @@ import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
 const RetryJobSchema = z.object({
   jobId: z.string().min(1, 'Job ID is required'),
   retryFailedOnly: z.boolean().optional().default(true),
+  // Restricts the retry to these items (e.g. retry a single item)
+  itemIds: z.array(z.string().min(1)).min(1).optional(),
 });
 
 export type RetryJobInput = z.infer<typeof RetryJobSchema>;
@@ -32,7 +34,7 @@ export class RetryJobUseCase {
 
   async execute(input: RetryJobInput): Promise<RetryJobOutput> {
     // Validate input
-    const { jobId, retryFailedOnly } = RetryJobSchema.parse(input);
+    const { jobId, retryFailedOnly, itemIds } = RetryJobSchema.parse(input);
 
     // Retrieve job
     const job = await this.jobRepository.findById(jobId);
@@ -54,6 +56,10 @@ export class RetryJobUseCase {
 
     // Reset failed items (and optionally cancelled items)
     for (const item of items) {
+      if (itemIds && !itemIds.includes(item.id)) {
+        continue;
+      }
+
       const shouldRetry = retryFailedOnly
         ? item.status === ItemStatus.FAILED
         : item.status === ItemStatus.FAILED || item.status === ItemStatus.CANCELLED;
@@ -72,9 +78,9 @@ export class RetryJobUseCase {
       );
     }
 
-    // Reset job counters
-    job.failedItems = 0;
-    job.completedItems = job.totalItems - retriedItemsCount;
+    // Reset job counters (items left out of a partial retry stay failed)
+    job.failedItems = items.filter((item) => item.status === ItemStatus.FAILED).length;
+    job.completedItems = job.totalItems - retriedItemsCount - job.failedItems;
 
     // Resume job processing
     if (job.status === JobStatus.FAILED) {
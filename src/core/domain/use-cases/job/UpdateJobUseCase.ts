@@ -1,13 +1,15 @@
 // src/core/domain/use-cases/job/UpdateJobUseCase.ts
-// Use case: Update job properties (name, voice settings, prompts)
+// Use case: Update job properties (name, voice settings, prompts, LLM provider/model, script stages)
 
 import { z } from 'zod';
 import { Job } from '../../entities/Job';
 import { VoiceSettings } from '../../value-objects/VoiceSettings';
 import { PromptTemplate } from '../../value-objects/PromptTemplate';
+import { ScriptStage } from '../../value-objects/ScriptStage';
 import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
 import { IEventBus } from '@/core/ports/events/IEventBus';
 import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { ScriptStageInputSchema, assertAIProvidersConfigured } from './CreateJobUseCase';
 
 const UpdateJobSchema = z.object({
   jobId: z.string().min(1, 'Job ID is required'),
@@ -19,6 +21,11 @@ const UpdateJobSchema = z.object({
   useSpeakerBoost: z.boolean().optional(),
   systemPrompt: z.string().optional(),
   userPromptTemplate: z.string().optional(),
+  // null goes back to the default provider/model
+  aiProvider: z.string().min(1).nullable().optional(),
+  aiModel: z.string().min(1).nullable().optional(),
+  // Replaces the whole list; [] goes back to the single user prompt
+  scriptStages: z.array(ScriptStageInputSchema).optional(),
 });
 
 export type UpdateJobInput = z.infer<typeof UpdateJobSchema>;
@@ -30,12 +37,17 @@ export interface UpdateJobOutput {
 export class UpdateJobUseCase {
   constructor(
     private readonly jobRepository: IJobRepository,
-    private readonly eventBus: IEventBus
+    private readonly eventBus: IEventBus,
+    private readonly aiProviders: string[]
   ) {}
 
   async execute(input: UpdateJobInput): Promise<UpdateJobOutput> {
     // Validate input
     const validatedInput = UpdateJobSchema.parse(input);
+    assertAIProvidersConfigured(
+      [validatedInput.aiProvider ?? undefined, ...(validatedInput.scriptStages ?? []).map((stage) => stage.provider)],
+      this.aiProviders
+    );
 
     // Retrieve job
     const job = await this.jobRepository.findById(validatedInput.jobId);
@@ -81,6 +93,19 @@ export class UpdateJobUseCase {
       job.updatePrompts(systemPrompt, userPromptTemplate);
     }
 
+    // Update LLM provider/model if provided
+    if (validatedInput.aiProvider !== undefined || validatedInput.aiModel !== undefined) {
+      job.updateAIModel(
+        validatedInput.aiProvider === undefined ? job.aiProvider : validatedInput.aiProvider ?? undefined,
+        validatedInput.aiModel === undefined ? job.aiModel : validatedInput.aiModel ?? undefined
+      );
+    }
+
+    // Update script stages if provided
+    if (validatedInput.scriptStages !== undefined) {
+      job.updateScriptStages(ScriptStage.createList(validatedInput.scriptStages));
+    }
+
     // Persist changes
     await this.jobRepository.save(job);
 
@@ -15,6 +15,9 @@ const CreateCustomPromptSchema = z.object({
   description: z.string().optional(),
   category: z.enum(['system', 'user', 'assistant']).default('user'),
   isActive: z.boolean().default(true),
+  // LLM preferred for this template, copied to the jobs created from it
+  aiProvider: z.string().min(1).optional(),
+  aiModel: z.string().min(1).optional(),
 });
 
 export type CreateCustomPromptInput = z.infer<typeof CreateCustomPromptSchema>;
@@ -43,6 +46,8 @@ export class CreateCustomPromptUseCase {
       description,
       category,
       isActive,
+      aiProvider,
+      aiModel,
     } = validatedInput;
 
     // Get or create user settings
@@ -73,6 +78,8 @@ export class CreateCustomPromptUseCase {
       description: description || '',
       category,
       isActive,
+      aiProvider,
+      aiModel,
       createdAt: new Date(),
       updatedAt: new Date(),
       usageCount: 0,
@@ -146,6 +153,8 @@ declare module '../../entities/UserSettings' {
       description: string;
       category: 'system' | 'user' | 'assistant';
       isActive: boolean;
+      aiProvider?: string;
+      aiModel?: string;
       createdAt: Date;
       updatedAt: Date;
       usageCount: number;
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CollectStorageGarbageUseCase,
+  STORAGE_GC_REPORT_KEY,
+  StorageGarbageCollectionSettings,
+  StorageGarbageReport,
+} from './CollectStorageGarbageUseCase';
+import { AudioChunk } from '../../entities/AudioChunk';
+import { ChunkStatus } from '../../value-objects/ChunkStatus';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IStorageService, StorageObjectInfo } from '@/core/ports/services/storage/IStorageService';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const SETTINGS: StorageGarbageCollectionSettings = {
+  gracePeriodMs: 24 * HOUR,
+  prefixes: ['audio/', 'output/', 'uploads/'],
+  dropMergedChunks: false,
+};
+
+const ago = (hours: number) => new Date(NOW.getTime() - hours * HOUR);
+
+function mergedChunk(id: string, audioPath: string): AudioChunk {
+  return AudioChunk.fromPersistence({
+    id,
+    itemId: 'item-1',
+    textChunkId: `text-${id}`,
+    index: 0,
+    status: ChunkStatus.COMPLETED,
+    audioPath,
+    duration: 2,
+    fileSize: 100,
+    retryCount: 0,
+    createdAt: ago(72),
+    updatedAt: ago(72),
+  });
+}
+
+function setup(
+  objects: StorageObjectInfo[],
+  references: { chunks?: string[]; items?: string[]; merged?: AudioChunk[] } = {},
+  settings: Partial<StorageGarbageCollectionSettings> = {}
+) {
+  const stored = new Map(objects.map((object) => [object.key, object]));
+  const reports = new Map<string, Buffer>();
+  const deps = {
+    audioChunkRepository: {
+      findReferencedAudioPaths: vi.fn(async (paths: string[]) => paths.filter((p) => references.chunks?.includes(p))),
+      findMergedWithAudio: vi.fn(async (_before: Date, _limit: number, afterId?: string) =>
+        afterId ? [] : references.merged ?? []
+      ),
+      save: vi.fn(async () => undefined),
+    },
+    contentItemRepository: {
+      findReferencedFinalAudioPaths: vi.fn(async (paths: string[]) => paths.filter((p) => references.items?.includes(p))),
+    },
+    storageService: {
+      listObjects: vi.fn(async function* (prefix: string) {
+        for (const object of stored.values()) {
+          if (object.key.startsWith(prefix)) yield object;
+        }
+      }),
+      deleteObject: vi.fn(async (key: string) => {
+        stored.delete(key);
+      }),
+      exists: vi.fn(async (key: string) => reports.has(key)),
+      getObject: vi.fn(async (key: string) => ({ data: reports.get(key) as Buffer })),
+      putObject: vi.fn(async (key: string, data: Buffer) => {
+        reports.set(key, data);
+        return { key };
+      }),
+    },
+  };
+  const useCase = new CollectStorageGarbageUseCase(
+    deps.audioChunkRepository as unknown as IAudioChunkRepository,
+    deps.contentItemRepository as unknown as IContentItemRepository,
+    deps.storageService as unknown as IStorageService,
+    { ...SETTINGS, ...settings }
+  );
+  return { useCase, deps, stored };
+}
+
+describe('CollectStorageGarbageUseCase', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('sweep', () => {
+    it('deletes unreferenced audio under every prefix, and keeps what chunks and items point at', async () => {
+      const { useCase, stored } = setup(
+        [
+          { key: 'audio/chunks/item-1/0000.mp3', size: 10, lastModified: ago(48) },
+          { key: 'audio/chunks/item-1/0001.mp3', size: 20, lastModified: ago(48) },
+          { key: 'output/item_item-1_final.mp3', size: 30, lastModified: ago(48) },
+          { key: 'output/item_item-2_final.mp3', size: 40, lastModified: ago(48) },
+          { key: 'uploads/upload_job-1_item-3.mp3', size: 50, lastModified: ago(48) },
+          { key: 'uploads/preview_voice-1.mp3', size: 60, lastModified: ago(48) },
+          { key: 'exports/job_job-1_export.zip', size: 70, lastModified: ago(48) },
+        ],
+        {
+          chunks: ['audio/chunks/item-1/0000.mp3'],
+          items: ['output/item_item-1_final.mp3', 'uploads/upload_job-1_item-3.mp3'],
+        }
+      );
+
+      const report = await useCase.execute();
+
+      expect([...stored.keys()]).toEqual([
+        'audio/chunks/item-1/0000.mp3',
+        'output/item_item-1_final.mp3',
+        'uploads/upload_job-1_item-3.mp3',
+        'exports/job_job-1_export.zip',
+      ]);
+      expect(report).toMatchObject({
+        scannedObjects: 6,
+        scannedBytes: 210,
+        orphanedObjects: 3,
+        deletedObjects: 3,
+        reclaimedBytes: 120,
+        errors: [],
+      });
+    });
+
+    it('checks references in batches', async () => {
+      const objects = Array.from({ length: 1200 }, (_, i) => ({
+        key: `audio/${String(i).padStart(4, '0')}.mp3`,
+        size: 1,
+        lastModified: ago(48),
+      }));
+      const { useCase, deps } = setup(objects, { chunks: objects.map((object) => object.key) }, { prefixes: ['audio/'] });
+
+      const report = await useCase.execute();
+
+      expect(deps.audioChunkRepository.findReferencedAudioPaths.mock.calls.map(([paths]) => paths.length)).toEqual([
+        500, 500, 200,
+      ]);
+      expect(report).toMatchObject({ scannedObjects: 1200, orphanedObjects: 0 });
+    });
+
+    it('reports failed deletes and carries on', async () => {
+      const { useCase, deps, stored } = setup([
+        { key: 'audio/a.mp3', size: 10, lastModified: ago(48) },
+        { key: 'audio/b.mp3', size: 20, lastModified: ago(48) },
+      ]);
+      deps.storageService.deleteObject.mockRejectedValueOnce(new Error('EACCES'));
+
+      const report = await useCase.execute();
+
+      expect([...stored.keys()]).toEqual(['audio/a.mp3']);
+      expect(report).toMatchObject({
+        orphanedObjects: 2,
+        deletedObjects: 1,
+        reclaimedBytes: 20,
+        errors: [{ key: 'audio/a.mp3', message: 'EACCES' }],
+      });
+    });
+
+    it('only reports what it would delete in a dry run', async () => {
+      const { useCase, deps, stored } = setup([{ key: 'audio/a.mp3', size: 10, lastModified: ago(48) }]);
+
+      const report = await useCase.execute({ dryRun: true });
+
+      expect(stored.has('audio/a.mp3')).toBe(true);
+      expect(report).toMatchObject({ dryRun: true, orphanedObjects: 1, deletedObjects: 0, reclaimedBytes: 10 });
+      expect(deps.storageService.putObject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('grace period', () => {
+    it('keeps unreferenced objects written within the grace period, or of unknown age', async () => {
+      const { useCase, stored } = setup([
+        { key: 'audio/old.mp3', size: 10, lastModified: ago(25) },
+        { key: 'audio/recent.mp3', size: 10, lastModified: ago(23) },
+        { key: 'audio/undated.mp3', size: 10 },
+      ]);
+
+      const report = await useCase.execute();
+
+      expect([...stored.keys()]).toEqual(['audio/recent.mp3', 'audio/undated.mp3']);
+      expect(report).toMatchObject({ graceCutoff: ago(24).toISOString(), scannedObjects: 3, deletedObjects: 1 });
+    });
+
+    it('drops the chunk files of items merged before the cutoff, reference first', async () => {
+      const chunk = mergedChunk('chunk-1', 'audio/chunks/item-1/0000.mp3');
+      const { useCase, deps, stored } = setup(
+        [{ key: 'audio/chunks/item-1/0000.mp3', size: 100, lastModified: ago(72) }],
+        { chunks: ['audio/chunks/item-1/0000.mp3'], merged: [chunk] },
+        { dropMergedChunks: true }
+      );
+
+      const report = await useCase.execute();
+
+      expect(deps.audioChunkRepository.findMergedWithAudio).toHaveBeenCalledWith(ago(24), 500, undefined);
+      expect(deps.audioChunkRepository.save).toHaveBeenCalledWith(chunk);
+      expect(chunk.audioPath).toBeUndefined();
+      expect(stored.size).toBe(0);
+      expect(report).toMatchObject({ droppedChunkFiles: 1, reclaimedBytes: 100 });
+    });
+  });
+
+  it('stores the report of real runs with the running total', async () => {
+    const { useCase, deps, stored } = setup([{ key: 'audio/a.mp3', size: 10, lastModified: ago(48) }]);
+    await useCase.execute();
+
+    stored.set('audio/b.mp3', { key: 'audio/b.mp3', size: 5, lastModified: ago(48) });
+    await useCase.execute({ dryRun: true });
+    await useCase.execute();
+
+    const last = (await useCase.getLastReport()) as StorageGarbageReport;
+    expect(deps.storageService.putObject).toHaveBeenCalledTimes(2);
+    expect(deps.storageService.putObject.mock.calls[1][0]).toBe(STORAGE_GC_REPORT_KEY);
+    expect(last).toMatchObject({ dryRun: false, reclaimedBytes: 5, totalReclaimedBytes: 15 });
+  });
+
+  it('joins a run already in progress', async () => {
+    const { useCase, deps } = setup([{ key: 'audio/a.mp3', size: 10, lastModified: ago(48) }]);
+
+    const [first, second] = await Promise.all([useCase.execute(), useCase.execute()]);
+
+    expect(second).toBe(first);
+    expect(deps.storageService.listObjects).toHaveBeenCalledTimes(3);
+  });
+});
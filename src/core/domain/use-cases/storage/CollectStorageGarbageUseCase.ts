@@ -0,0 +1,200 @@
+// src/core/domain/use-cases/storage/CollectStorageGarbageUseCase.ts
+// Use case: delete stored audio no chunk or item references anymore (regenerated items, deleted jobs)
+// Objects under the GC prefixes are reconciled against AudioChunk.audioPath and
+// ContentItem.finalAudioPath; the report of the last run is stored for the health view
+
+import { z } from 'zod';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { IStorageService, StorageObjectInfo } from '@/core/ports/services/storage/IStorageService';
+
+const CollectStorageGarbageSchema = z.object({
+  // Reports what would be deleted without deleting anything
+  dryRun: z.boolean().default(false),
+});
+
+export type CollectStorageGarbageInput = z.input<typeof CollectStorageGarbageSchema>;
+
+export interface StorageGarbageReport {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  // Objects last modified after this date were kept whatever their references
+  graceCutoff: string;
+  scannedObjects: number;
+  scannedBytes: number;
+  orphanedObjects: number;
+  deletedObjects: number;
+  reclaimedBytes: number;
+  // Chunk files of merged items (dropMergedChunks)
+  droppedChunkFiles: number;
+  // Sum of reclaimedBytes over every non-dry run
+  totalReclaimedBytes: number;
+  errors: Array<{ key: string; message: string }>;
+}
+
+export interface StorageGarbageCollectionSettings {
+  gracePeriodMs: number;
+  prefixes: string[];
+  dropMergedChunks: boolean;
+}
+
+export const STORAGE_GC_REPORT_KEY = 'system/storage-gc-report.json';
+
+// Keys checked against the database per query
+const BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 50;
+
+export class CollectStorageGarbageUseCase {
+  private running?: Promise<StorageGarbageReport>;
+
+  constructor(
+    private readonly audioChunkRepository: IAudioChunkRepository,
+    private readonly contentItemRepository: IContentItemRepository,
+    private readonly storageService: IStorageService,
+    private readonly settings: StorageGarbageCollectionSettings
+  ) {}
+
+  // A run already in progress in this process is joined rather than started twice
+  async execute(input: CollectStorageGarbageInput = {}): Promise<StorageGarbageReport> {
+    const { dryRun } = CollectStorageGarbageSchema.parse(input);
+
+    if (!this.running) {
+      this.running = this.collect(dryRun).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return await this.running;
+  }
+
+  async getLastReport(): Promise<StorageGarbageReport | null> {
+    if (!(await this.storageService.exists(STORAGE_GC_REPORT_KEY))) {
+      return null;
+    }
+    const stored = await this.storageService.getObject(STORAGE_GC_REPORT_KEY);
+    return JSON.parse(stored.data.toString('utf8')) as StorageGarbageReport;
+  }
+
+  private async collect(dryRun: boolean): Promise<StorageGarbageReport> {
+    const startedAt = new Date();
+    const graceCutoff = new Date(startedAt.getTime() - this.settings.gracePeriodMs);
+    const previous = await this.getLastReport().catch(() => null);
+
+    const report: StorageGarbageReport = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: startedAt.toISOString(),
+      dryRun,
+      graceCutoff: graceCutoff.toISOString(),
+      scannedObjects: 0,
+      scannedBytes: 0,
+      orphanedObjects: 0,
+      deletedObjects: 0,
+      reclaimedBytes: 0,
+      droppedChunkFiles: 0,
+      totalReclaimedBytes: previous?.totalReclaimedBytes ?? 0,
+      errors: [],
+    };
+
+    // Before the sweep, which then picks up chunk files whose delete failed
+    if (this.settings.dropMergedChunks) {
+      await this.dropMergedChunkFiles(graceCutoff, dryRun, report);
+    }
+
+    for (const prefix of this.settings.prefixes) {
+      let batch: StorageObjectInfo[] = [];
+
+      for await (const object of this.storageService.listObjects(prefix)) {
+        report.scannedObjects++;
+        report.scannedBytes += object.size ?? 0;
+
+        // Objects without a date are kept: their age cannot be checked
+        if (!object.lastModified || object.lastModified > graceCutoff) continue;
+
+        batch.push(object);
+        if (batch.length >= BATCH_SIZE) {
+          await this.sweep(batch, dryRun, report);
+          batch = [];
+        }
+      }
+      await this.sweep(batch, dryRun, report);
+    }
+
+    report.finishedAt = new Date().toISOString();
+
+    // Dry runs neither add to the total nor replace the report of the last real collection
+    if (!dryRun) {
+      report.totalReclaimedBytes += report.reclaimedBytes;
+      await this.storageService.putObject(STORAGE_GC_REPORT_KEY, Buffer.from(JSON.stringify(report, null, 2), 'utf8'), {
+        contentType: 'application/json',
+      });
+    }
+
+    return report;
+  }
+
+  private async sweep(objects: StorageObjectInfo[], dryRun: boolean, report: StorageGarbageReport): Promise<void> {
+    if (objects.length === 0) return;
+
+    const keys = objects.map((object) => object.key);
+    const [chunkPaths, itemPaths] = await Promise.all([
+      this.audioChunkRepository.findReferencedAudioPaths(keys),
+      this.contentItemRepository.findReferencedFinalAudioPaths(keys),
+    ]);
+    const referenced = new Set([...chunkPaths, ...itemPaths]);
+
+    for (const object of objects) {
+      if (referenced.has(object.key)) continue;
+
+      report.orphanedObjects++;
+      if (dryRun) {
+        report.reclaimedBytes += object.size ?? 0;
+        continue;
+      }
+
+      try {
+        await this.storageService.deleteObject(object.key);
+        report.deletedObjects++;
+        report.reclaimedBytes += object.size ?? 0;
+      } catch (error) {
+        this.recordError(report, object.key, error);
+      }
+    }
+  }
+
+  private async dropMergedChunkFiles(mergedBefore: Date, dryRun: boolean, report: StorageGarbageReport): Promise<void> {
+    let afterId: string | undefined;
+
+    for (;;) {
+      const chunks = await this.audioChunkRepository.findMergedWithAudio(mergedBefore, BATCH_SIZE, afterId);
+      if (chunks.length === 0) break;
+      afterId = chunks[chunks.length - 1].id;
+
+      for (const chunk of chunks) {
+        const key = chunk.audioPath as string;
+        if (dryRun) {
+          report.droppedChunkFiles++;
+          report.reclaimedBytes += chunk.fileSize ?? 0;
+          continue;
+        }
+
+        try {
+          // The reference goes first: a failed delete leaves an orphan for the sweep,
+          // never a chunk pointing at a missing file
+          chunk.releaseAudio();
+          await this.audioChunkRepository.save(chunk);
+          await this.storageService.deleteObject(key);
+          report.droppedChunkFiles++;
+          report.reclaimedBytes += chunk.fileSize ?? 0;
+        } catch (error) {
+          this.recordError(report, key, error);
+        }
+      }
+    }
+  }
+
+  private recordError(report: StorageGarbageReport, key: string, error: unknown): void {
+    if (report.errors.length < MAX_REPORTED_ERRORS) {
+      report.errors.push({ key, message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { CaptionTrack } from './CaptionTrack';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+
+describe('CaptionTrack', () => {
+  it('places each chunk after the previous one and the silence between them', () => {
+    const track = CaptionTrack.fromSegments(
+      [
+        { text: 'Bonjour à tous.', duration: 2 },
+        { text: 'Bienvenue.', duration: 1.5 },
+      ],
+      { gapBetweenSegmentsMs: 500 }
+    );
+
+    expect(track.cues).toEqual([
+      { index: 1, start: 0, end: 2, text: 'Bonjour à tous.' },
+      { index: 2, start: 2.5, end: 4, text: 'Bienvenue.' },
+    ]);
+    expect(track.getDuration()).toBe(4);
+  });
+
+  it('splits a chunk into sentences timed by their length', () => {
+    const track = CaptionTrack.fromSegments(
+      [{ text: 'Un deux trois. « Quatre cinq six ! » Sept huit.', duration: 9 }],
+      { gapBetweenSegmentsMs: 0 }
+    );
+
+    expect(track.cues.map((cue) => cue.text)).toEqual(['Un deux trois.', '« Quatre cinq six ! »', 'Sept huit.']);
+    expect(track.cues[0].end).toBeCloseTo((9 * 14) / 45);
+    // The last cue ends with the chunk
+    expect(track.cues[2].end).toBe(9);
+  });
+
+  it('keeps a closing quote with the sentence it ends', () => {
+    const track = CaptionTrack.fromSegments(
+      [{ text: 'Il a dit « bonjour. » Puis il est parti.', duration: 4 }],
+      { gapBetweenSegmentsMs: 0 }
+    );
+
+    expect(track.cues.map((cue) => cue.text)).toEqual(['Il a dit « bonjour. »', 'Puis il est parti.']);
+  });
+
+  it('cuts long sentences at clauses, then between words', () => {
+    const track = CaptionTrack.fromSegments(
+      [{ text: 'alpha beta gamma, delta epsilon zeta eta theta iota kappa', duration: 6 }],
+      { gapBetweenSegmentsMs: 0, maxCueLength: 20, maxLineLength: 100 }
+    );
+
+    expect(track.cues.map((cue) => cue.text)).toEqual([
+      'alpha beta gamma,',
+      'delta epsilon zeta',
+      'eta theta iota kappa',
+    ]);
+    expect(track.cues.every((cue) => cue.text.length <= 20)).toBe(true);
+  });
+
+  it('wraps a cue on two balanced lines', () => {
+    const track = CaptionTrack.fromSegments(
+      [{ text: 'Une phrase assez longue pour tenir sur deux lignes.', duration: 3 }],
+      { gapBetweenSegmentsMs: 0 }
+    );
+
+    expect(track.cues[0].text).toBe('Une phrase assez longue\npour tenir sur deux lignes.');
+  });
+
+  it('formats SRT cues with comma milliseconds', () => {
+    const track = CaptionTrack.fromSegments(
+      [
+        { text: 'Premier.', duration: 1.2345 },
+        { text: 'Second.', duration: 3600 },
+      ],
+      { gapBetweenSegmentsMs: 250 }
+    );
+
+    expect(track.format('srt')).toBe(
+      '1\n00:00:00,000 --> 00:00:01,235\nPremier.\n\n' +
+        '2\n00:00:01,485 --> 01:00:01,485\nSecond.\n'
+    );
+  });
+
+  it('formats WebVTT with its header, dot milliseconds and escaped markup', () => {
+    const track = CaptionTrack.fromSegments(
+      [{ text: 'Q&A <live>', duration: 2 }],
+      { gapBetweenSegmentsMs: 0 }
+    );
+
+    expect(track.format('vtt')).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:02.000\nQ&amp;A &lt;live&gt;\n');
+  });
+
+  it('rejects negative gaps and invalid durations', () => {
+    expect(() => CaptionTrack.fromSegments([], { gapBetweenSegmentsMs: -1 })).toThrow(ValidationError);
+    expect(() =>
+      CaptionTrack.fromSegments([{ text: 'a', duration: Number.NaN }], { gapBetweenSegmentsMs: 0 })
+    ).toThrow(ValidationError);
+    expect(() => CaptionTrack.fromSegments([{ text: 'a', duration: -1 }], { gapBetweenSegmentsMs: 0 })).toThrow(
+      'Segment 0 has an invalid duration'
+    );
+  });
+
+  it('is empty without segments', () => {
+    const track = CaptionTrack.fromSegments([], { gapBetweenSegmentsMs: 500 });
+
+    expect(track.cues).toEqual([]);
+    expect(track.getDuration()).toBe(0);
+    expect(track.toWebVTT()).toBe('WEBVTT\n');
+  });
+});
@@ -0,0 +1,178 @@
+// src/core/domain/value-objects/CaptionTrack.ts
+// Timed captions (SRT/WebVTT) for a merged item audio
+// Built from the audio chunks in order: each chunk lasts its measured duration and the
+// merge inserts silenceBetweenChunks between two chunks, never before the first one
+
+import { ValidationError } from '@/shared/utils/errors/AppError';
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+// One audio chunk and the text it reads
+export interface CaptionSegment {
+  text: string;
+  // Seconds
+  duration: number;
+}
+
+export interface CaptionCue {
+  index: number;
+  // Seconds from the start of the merged audio
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CaptionTrackOptions {
+  gapBetweenSegmentsMs: number;
+  // Longer sentences are split at punctuation, then between words
+  maxCueLength?: number;
+  maxLineLength?: number;
+}
+
+// Two lines of 42 characters: the usual broadcast and YouTube limits
+const DEFAULT_MAX_CUE_LENGTH = 84;
+const DEFAULT_MAX_LINE_LENGTH = 42;
+
+// A closing quote stays with the sentence it ends ("… bonjour. » Puis")
+const SENTENCE_END = /(?<=[.!?…](?:\s*[»"])?)\s+(?![»"])/u;
+const CLAUSE_END = /(?<=[,;:—–])\s+/u;
+
+export class CaptionTrack {
+  private constructor(public readonly cues: CaptionCue[]) {}
+
+  // Inside a chunk, cue durations are proportional to their character count
+  static fromSegments(segments: CaptionSegment[], options: CaptionTrackOptions): CaptionTrack {
+    this.validate(segments, options);
+
+    const maxCueLength = options.maxCueLength ?? DEFAULT_MAX_CUE_LENGTH;
+    const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+    const gap = options.gapBetweenSegmentsMs / 1000;
+
+    const cues: CaptionCue[] = [];
+    let offset = 0;
+
+    segments.forEach((segment, segmentIndex) => {
+      if (segmentIndex > 0) offset += gap;
+
+      const parts = this.splitText(segment.text, maxCueLength);
+      const totalChars = parts.reduce((sum, part) => sum + part.length, 0);
+      let start = offset;
+
+      parts.forEach((part, partIndex) => {
+        // The last cue ends exactly with the chunk so rounding never drifts across chunks
+        const end = partIndex === parts.length - 1
+          ? offset + segment.duration
+          : start + (segment.duration * part.length) / totalChars;
+
+        cues.push({
+          index: cues.length + 1,
+          start,
+          end,
+          text: this.wrapLines(part, maxLineLength),
+        });
+        start = end;
+      });
+
+      offset += segment.duration;
+    });
+
+    return new CaptionTrack(cues);
+  }
+
+  private static validate(segments: CaptionSegment[], options: CaptionTrackOptions): void {
+    if (options.gapBetweenSegmentsMs < 0) {
+      throw new ValidationError('Gap between segments cannot be negative');
+    }
+
+    segments.forEach((segment, index) => {
+      if (!Number.isFinite(segment.duration) || segment.duration < 0) {
+        throw new ValidationError(`Segment ${index} has an invalid duration`);
+      }
+    });
+  }
+
+  // Sentences first; a sentence longer than a cue is cut at clauses, then between words
+  private static splitText(text: string, maxCueLength: number): string[] {
+    const sentences = text
+      .replace(/\s+/g, ' ')
+      .trim()
+      .split(SENTENCE_END)
+      .filter((sentence) => sentence.length > 0);
+
+    return sentences.flatMap((sentence) => {
+      if (sentence.length <= maxCueLength) return [sentence];
+
+      return this.pack(sentence.split(CLAUSE_END), maxCueLength).flatMap((clause) =>
+        clause.length <= maxCueLength ? [clause] : this.pack(clause.split(' '), maxCueLength)
+      );
+    });
+  }
+
+  // Greedily joins consecutive pieces while they fit
+  private static pack(pieces: string[], maxLength: number): string[] {
+    const packed: string[] = [];
+
+    for (const piece of pieces) {
+      const last = packed[packed.length - 1];
+      if (last !== undefined && last.length + 1 + piece.length <= maxLength) {
+        packed[packed.length - 1] = `${last} ${piece}`;
+      } else {
+        packed.push(piece);
+      }
+    }
+
+    return packed;
+  }
+
+  // Balanced break near the middle rather than a full first line and a short second one
+  private static wrapLines(text: string, maxLineLength: number): string {
+    if (text.length <= maxLineLength) return text;
+
+    const middle = text.length / 2;
+    let breakAt = -1;
+
+    for (let i = text.indexOf(' '); i !== -1; i = text.indexOf(' ', i + 1)) {
+      if (breakAt === -1 || Math.abs(i - middle) < Math.abs(breakAt - middle)) {
+        breakAt = i;
+      }
+    }
+
+    return breakAt === -1 ? text : `${text.slice(0, breakAt)}\n${text.slice(breakAt + 1)}`;
+  }
+
+  public format(format: CaptionFormat): string {
+    return format === 'srt' ? this.toSRT() : this.toWebVTT();
+  }
+
+  public toSRT(): string {
+    return this.cues
+      .map((cue) => `${cue.index}\n${this.formatTime(cue.start, ',')} --> ${this.formatTime(cue.end, ',')}\n${cue.text}\n`)
+      .join('\n');
+  }
+
+  public toWebVTT(): string {
+    const cues = this.cues.map(
+      (cue) => `${cue.index}\n${this.formatTime(cue.start, '.')} --> ${this.formatTime(cue.end, '.')}\n${this.escapeVTT(cue.text)}\n`
+    );
+    return ['WEBVTT\n', ...cues].join('\n');
+  }
+
+  public getDuration(): number {
+    return this.cues.length > 0 ? this.cues[this.cues.length - 1].end : 0;
+  }
+
+  // HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+  private formatTime(seconds: number, separator: ',' | '.'): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+  }
+
+  private escapeVTT(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,142 @@
+// src/core/domain/value-objects/PodcastFeed.ts
+// RSS 2.0 podcast feed with the iTunes tags Apple Podcasts and Spotify read
+// Episodes are merged item audio files
+
+import { ValidationError } from '@/shared/utils/errors/AppError';
+
+export interface PodcastEpisode {
+  // Stable across regenerations so podcast apps never list an episode twice
+  guid: string;
+  title: string;
+  description: string;
+  audioUrl: string;
+  audioType: string;
+  // Bytes; 0 when unknown (accepted by the directories)
+  audioLength: number;
+  // Seconds
+  duration?: number;
+  publishedAt: Date;
+  episodeNumber?: number;
+}
+
+export interface PodcastFeedData {
+  title: string;
+  description: string;
+  link: string;
+  // URL the feed itself is served from (atom:link rel="self")
+  selfUrl: string;
+  language: string;
+  author: string;
+  imageUrl?: string;
+  category: string;
+  ownerEmail?: string;
+  explicit: boolean;
+  episodes: PodcastEpisode[];
+}
+
+// Longer descriptions are truncated by the directories anyway
+const MAX_DESCRIPTION_LENGTH = 4000;
+
+export class PodcastFeed {
+  private constructor(private readonly data: PodcastFeedData) {}
+
+  // Episodes are listed newest first
+  static create(data: PodcastFeedData): PodcastFeed {
+    this.validate(data);
+
+    return new PodcastFeed({
+      ...data,
+      episodes: [...data.episodes].sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime()),
+    });
+  }
+
+  private static validate(data: PodcastFeedData): void {
+    if (data.title.trim().length === 0) {
+      throw new ValidationError('Podcast feed title cannot be empty');
+    }
+
+    for (const url of [data.link, data.selfUrl, ...data.episodes.map((episode) => episode.audioUrl)]) {
+      if (!/^https?:\/\//.test(url)) {
+        throw new ValidationError(`Podcast feed URLs must be absolute (got ${url})`);
+      }
+    }
+  }
+
+  get episodeCount(): number {
+    return this.data.episodes.length;
+  }
+
+  public toRSS(): string {
+    const { data } = this;
+    const lastBuildDate = data.episodes[0]?.publishedAt ?? new Date();
+
+    const channel = [
+      this.element('title', data.title),
+      this.element('link', data.link),
+      `<atom:link href="${this.escape(data.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+      this.element('description', this.truncate(data.description || data.title)),
+      this.element('language', data.language),
+      this.element('lastBuildDate', lastBuildDate.toUTCString()),
+      this.element('itunes:author', data.author),
+      this.element('itunes:summary', this.truncate(data.description || data.title)),
+      `<itunes:category text="${this.escape(data.category)}"/>`,
+      this.element('itunes:explicit', data.explicit ? 'true' : 'false'),
+      this.element('itunes:type', 'episodic'),
+      data.imageUrl ? `<itunes:image href="${this.escape(data.imageUrl)}"/>` : '',
+      data.imageUrl
+        ? `<image>${this.element('url', data.imageUrl)}${this.element('title', data.title)}${this.element('link', data.link)}</image>`
+        : '',
+      data.ownerEmail
+        ? `<itunes:owner>${this.element('itunes:name', data.author)}${this.element('itunes:email', data.ownerEmail)}</itunes:owner>`
+        : '',
+      ...data.episodes.map((episode) => this.toItem(episode)),
+    ].filter((line) => line.length > 0);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+      '<channel>',
+      ...channel,
+      '</channel>',
+      '</rss>',
+      '',
+    ].join('\n');
+  }
+
+  private toItem(episode: PodcastEpisode): string {
+    const description = this.truncate(episode.description || episode.title);
+
+    return [
+      '<item>',
+      this.element('title', episode.title),
+      this.element('description', description),
+      this.element('itunes:summary', description),
+      `<enclosure url="${this.escape(episode.audioUrl)}" length="${episode.audioLength}" type="${this.escape(episode.audioType)}"/>`,
+      `<guid isPermaLink="false">${this.escape(episode.guid)}</guid>`,
+      this.element('pubDate', episode.publishedAt.toUTCString()),
+      episode.duration !== undefined ? this.element('itunes:duration', String(Math.round(episode.duration))) : '',
+      episode.episodeNumber !== undefined ? this.element('itunes:episode', String(episode.episodeNumber)) : '',
+      this.element('itunes:episodeType', 'full'),
+      '</item>',
+    ].filter((line) => line.length > 0).join('\n');
+  }
+
+  private element(name: string, value: string): string {
+    return `<${name}>${this.escape(value)}</${name}>`;
+  }
+
+  // Also drops the control characters XML 1.0 forbids (they break strict feed parsers)
+  private escape(value: string): string {
+    return value
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private truncate(text: string): string {
+    return text.length <= MAX_DESCRIPTION_LENGTH ? text : `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`;
+  }
+}
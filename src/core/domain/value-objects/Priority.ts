@@ -0,0 +1,48 @@
+// src/core/domain/value-objects/Priority.ts
+// Enum + helpers for job/item scheduling priority
+// Imported by Job and ContentItem entities
+
+export enum Priority {
+  LOW = 'LOW',
+  NORMAL = 'NORMAL',
+  HIGH = 'HIGH',
+  URGENT = 'URGENT',
+}
+
+export class PriorityHelper {
+  // Queue weight: share of the workers a job gets relative to the other active jobs
+  static getWeight(priority: Priority): number {
+    switch (priority) {
+      case Priority.LOW:
+        return 1;
+      case Priority.NORMAL:
+        return 2;
+      case Priority.HIGH:
+        return 4;
+      case Priority.URGENT:
+        return 8;
+      default:
+        return 2;
+    }
+  }
+
+  // An item-level priority overrides the priority of its job
+  static resolve(jobPriority: Priority, itemPriority?: Priority): Priority {
+    return itemPriority ?? jobPriority;
+  }
+
+  static isValid(value: string): value is Priority {
+    return Object.values(Priority).includes(value as Priority);
+  }
+
+  // Get display label for priority
+  static getLabel(priority: Priority): string {
+    const labels: Record<Priority, string> = {
+      [Priority.LOW]: 'Low',
+      [Priority.NORMAL]: 'Normal',
+      [Priority.HIGH]: 'High',
+      [Priority.URGENT]: 'Urgent',
+    };
+    return labels[priority];
+  }
+}
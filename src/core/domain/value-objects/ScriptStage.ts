@@ -0,0 +1,111 @@
+// src/core/domain/value-objects/ScriptStage.ts
+// One LLM stage of a job's script pipeline (outline → draft → polish → TTS pass, ...)
+// Each stage renders its own template with the item fields, the channel settings and the
+// output of the previous stages, and may use its own provider, model and temperature
+
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { PromptTemplate, PromptVariables } from './PromptTemplate';
+
+export interface ScriptStageData {
+  name: string;
+  promptTemplate: string;
+  systemPrompt?: string;
+  // The job's provider/model when unset
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Jobs rarely need more; every stage is one LLM call per item
+export const MAX_SCRIPT_STAGES = 8;
+
+// Available to every stage; each stage also sees the output of the earlier ones by name,
+// and {{previous}} is the output of the stage right before (empty for the first)
+export const SCRIPT_STAGE_VARIABLES = [
+  'titre', 'details', 'category', 'reference',
+  'channelName', 'channelDescription', 'channelTone', 'channelLanguage',
+  'previous',
+];
+
+const STAGE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export class ScriptStage {
+  private constructor(
+    public readonly name: string,
+    public readonly promptTemplate: PromptTemplate,
+    public readonly systemPrompt: string | undefined,
+    public readonly provider: string | undefined,
+    public readonly model: string | undefined,
+    public readonly temperature: number | undefined,
+    public readonly maxTokens: number | undefined
+  ) {}
+
+  static create(data: ScriptStageData): ScriptStage {
+    this.validate(data);
+
+    return new ScriptStage(
+      data.name,
+      PromptTemplate.create(data.promptTemplate),
+      data.systemPrompt || undefined,
+      data.provider || undefined,
+      data.model || undefined,
+      data.temperature,
+      data.maxTokens
+    );
+  }
+
+  // Stage names become template variables ({{outline}}), so they must be unique identifiers,
+  // and a stage may only reference the stages before it
+  static createList(stages: ScriptStageData[]): ScriptStage[] {
+    if (stages.length > MAX_SCRIPT_STAGES) {
+      throw new ValidationError(`A job cannot have more than ${MAX_SCRIPT_STAGES} script stages`);
+    }
+
+    const available = new Set(SCRIPT_STAGE_VARIABLES);
+    return stages.map((data) => {
+      if (available.has(data.name)) {
+        throw new ValidationError(`Script stage name '${data.name}' is already used by a stage or variable`);
+      }
+
+      const stage = ScriptStage.create(data);
+      const unknown = stage.promptTemplate.getRequiredVariables().filter((name) => !available.has(name));
+      if (unknown.length > 0) {
+        throw new ValidationError(`Script stage '${data.name}' uses unknown variables: ${unknown.join(', ')}`);
+      }
+
+      available.add(data.name);
+      return stage;
+    });
+  }
+
+  private static validate(data: ScriptStageData): void {
+    if (!data.name || !STAGE_NAME_PATTERN.test(data.name)) {
+      throw new ValidationError('Script stage name must be a lowercase identifier (e.g. "outline")');
+    }
+
+    if (data.temperature !== undefined && (data.temperature < 0 || data.temperature > 1)) {
+      throw new ValidationError('Script stage temperature must be between 0 and 1');
+    }
+
+    if (data.maxTokens !== undefined && (!Number.isInteger(data.maxTokens) || data.maxTokens < 100 || data.maxTokens > 8000)) {
+      throw new ValidationError('Script stage maxTokens must be an integer between 100 and 8000');
+    }
+  }
+
+  public render(variables: PromptVariables): string {
+    return this.promptTemplate.render(variables);
+  }
+
+  public toJSON(): ScriptStageData {
+    return {
+      name: this.name,
+      promptTemplate: this.promptTemplate.template,
+      systemPrompt: this.systemPrompt,
+      provider: this.provider,
+      model: this.model,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+    };
+  }
+}
@@ -6,6 +6,7 @@ import { ValidationError } from '@/shared/utils/errors/AppError';
 
 export interface VoiceSettingsData {
   voiceId: string;
+  provider?: string;
   voiceName?: string;
   stability?: number;
   similarityBoost?: number;
@@ -15,6 +16,8 @@ export interface VoiceSettingsData {
 export class VoiceSettings {
   private constructor(
     public readonly voiceId: string,
+    // Unset: the TTS registry's default provider (TTS_DEFAULT_PROVIDER)
+    public readonly provider: string | undefined,
     public readonly voiceName: string,
     public readonly stability: number,
     public readonly similarityBoost: number,
@@ -26,6 +29,7 @@ export class VoiceSettings {
 
     return new VoiceSettings(
       data.voiceId,
+      data.provider || undefined,
       data.voiceName || 'Unknown Voice',
       data.stability ?? 0.5,
       data.similarityBoost ?? 0.75,
@@ -36,6 +40,7 @@ export class VoiceSettings {
   static default(): VoiceSettings {
     return new VoiceSettings(
       'default',
+      undefined,
       'Default Voice',
       0.5,
       0.75,
@@ -48,6 +53,10 @@ export class VoiceSettings {
       throw new ValidationError('Voice ID is required');
     }
 
+    if (data.provider !== undefined && data.provider.trim().length === 0) {
+      throw new ValidationError('Voice provider cannot be empty');
+    }
+
     if (data.stability !== undefined && (data.stability < 0 || data.stability > 1)) {
       throw new ValidationError('Stability must be between 0 and 1');
     }
@@ -64,6 +73,21 @@ export class VoiceSettings {
   public withVoiceId(voiceId: string): VoiceSettings {
     return new VoiceSettings(
       voiceId,
+      this.provider,
+      this.voiceName,
+      this.stability,
+      this.similarityBoost,
+      this.speed
+    );
+  }
+
+  public withProvider(provider: string, voiceId: string = this.voiceId): VoiceSettings {
+    if (!provider || provider.trim().length === 0) {
+      throw new ValidationError('Voice provider cannot be empty');
+    }
+    return new VoiceSettings(
+      voiceId,
+      provider,
       this.voiceName,
       this.stability,
       this.similarityBoost,
@@ -77,6 +101,7 @@ export class VoiceSettings {
     }
     return new VoiceSettings(
       this.voiceId,
+      this.provider,
       this.voiceName,
       stability,
       this.similarityBoost,
@@ -90,6 +115,7 @@ export class VoiceSettings {
     }
     return new VoiceSettings(
       this.voiceId,
+      this.provider,
       this.voiceName,
       this.stability,
       this.similarityBoost,
@@ -100,6 +126,7 @@ export class VoiceSettings {
   public toJSON() {
     return {
       voiceId: this.voiceId,
+      provider: this.provider,
       voiceName: this.voiceName,
       stability: this.stability,
       similarityBoost: this.similarityBoost,
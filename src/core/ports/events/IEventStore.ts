@@ -2,18 +2,39 @@
 // Event store port (optional persistence/replay)
 
 import type { DomainEvent } from '../../domain/events/base/DomainEvent';
+import type { AggregateType } from '../../domain/events/base/EventMetadata';
+import type { IEventHandler } from './IEventHandler';
 
 export interface EventStoreQuery {
   eventType?: string;
+  eventTypes?: string[];
+  aggregateType?: AggregateType;
+  aggregateId?: string;
+  // Every event of a job, including those of its items and chunks
+  jobId?: string;
+  correlationId?: string;
   since?: Date;
   until?: Date;
+  // Events appended after this sequence number
+  afterSequence?: number;
   limit?: number;
   offset?: number;
 }
 
+// Event as read back from the store, with its append position
+export interface StoredEvent<T = unknown> extends DomainEvent<T> {
+  readonly sequence: number;
+}
+
 export interface IEventStore {
   append(event: DomainEvent): Promise<void>;
   appendMany(events: DomainEvent[]): Promise<void>;
 
-  getEvents(query?: EventStoreQuery): Promise<DomainEvent[]>;
+  // Events in append order
+  getEvents(query?: EventStoreQuery): Promise<StoredEvent[]>;
+  getStream(aggregateType: AggregateType, aggregateId: string): Promise<StoredEvent[]>;
+
+  // Feeds the matching events, in append order, to a handler; returns the count.
+  // Pages on the sequence number: resume with afterSequence rather than offset
+  replay(handler: IEventHandler, query?: EventStoreQuery): Promise<number>;
 }
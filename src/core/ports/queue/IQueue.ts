@@ -9,12 +9,32 @@ export interface QueueJob<TPayload = unknown> {
   maxAttempts: number;
   createdAt: Date;
   availableAt?: Date;
+  priority?: number;
+  fairnessKey?: string;
+}
+
+// Job that exhausted maxAttempts (kept by durable backends for inspection)
+export interface DeadLetterJob<TPayload = unknown> extends QueueJob<TPayload> {
+  lastError?: string;
+  failedAt?: Date;
 }
 
 export interface EnqueueOptions {
   jobId?: string;
   delayMs?: number;
   maxAttempts?: number;
+  // Weight (>= 1) of the job's fairness group, and its order inside the group
+  priority?: number;
+  // Jobs sharing a key form one group; dequeue round-robins between groups
+  fairnessKey?: string;
+}
+
+// Outcome chosen by a retry policy; without it the queue retries until maxAttempts
+export interface FailOptions {
+  // false moves the job to the dead-letter list right away, true re-queues it
+  retry?: boolean;
+  // Backoff before the re-queued job becomes visible again
+  delayMs?: number;
 }
 
 export interface IQueue<TPayload = unknown> {
@@ -23,8 +43,13 @@ export interface IQueue<TPayload = unknown> {
   enqueue(type: string, payload: TPayload, options?: EnqueueOptions): Promise<string>;
   dequeue(): Promise<QueueJob<TPayload> | null>;
 
-  ack(jobId: string): Promise<void>;
-  fail(jobId: string, error: unknown): Promise<void>;
+  // lease is the job's attempts when dequeued: once a lease expired and the job was
+  // reclaimed it no longer matches, so a stalled worker cannot ack or fail it
+  ack(jobId: string, lease?: number): Promise<void>;
+  fail(jobId: string, error: unknown, options?: FailOptions, lease?: number): Promise<void>;
 
   size(): Promise<number>;
+
+  // Pushes the lease deadline of a long-running job (backends with visibility timeouts)
+  extendVisibility?(jobId: string, lease?: number): Promise<void>;
 }
@@ -0,0 +1,25 @@
+// src/core/ports/queue/IRetryPolicy.ts
+// Retry policy port (whether and when a failed operation runs again)
+
+export interface RetryContext {
+  // Attempt that just failed (1 = first run)
+  attempt: number;
+  // PipelineStep of the failed operation, selects the step policy
+  step?: string;
+  // Per-job attempt budget (UserSettings.defaultAutoRetry + 1): caps the policy
+  maxAttempts?: number;
+}
+
+export interface RetryDecision {
+  retry: boolean;
+  delayMs: number;
+  reason: 'retryable' | 'non_retryable' | 'attempts_exhausted';
+  maxAttempts: number;
+}
+
+export interface IRetryPolicy {
+  isRetryable(code: string): boolean;
+
+  decide(error: unknown, context: RetryContext): RetryDecision;
+  decideForCode(code: string, context: RetryContext, retryAfterMs?: number): RetryDecision;
+}
@@ -11,10 +11,22 @@ export interface AudioChunkListOptions {
   orderByIndex?: 'asc' | 'desc';
 }
 
+// An audio chunk with the text it was generated from (captions)
+export interface AudioChunkWithText {
+  chunk: AudioChunk;
+  text: string;
+}
+
 export interface IAudioChunkRepository {
   findById(id: string): Promise<AudioChunk | null>;
   findByItemId(itemId: string, options?: AudioChunkListOptions): Promise<AudioChunk[]>;
   findByTextChunkId(textChunkId: string): Promise<AudioChunk | null>;
+  // Ordered by index
+  findByItemIdWithText(itemId: string): Promise<AudioChunkWithText[]>;
+  // Storage GC: the given storage keys that are still the audioPath of a chunk
+  findReferencedAudioPaths(paths: string[]): Promise<string[]>;
+  // Chunks still holding an audio file although their item was merged before the date; ordered by id
+  findMergedWithAudio(mergedBefore: Date, limit: number, afterId?: string): Promise<AudioChunk[]>;
 
   save(chunk: AudioChunk): Promise<void>;
   saveMany(chunks: AudioChunk[]): Promise<void>;
@@ -16,6 +16,8 @@ export interface ContentItemListOptions {
 export interface IContentItemRepository {
   findById(id: string): Promise<ContentItem | null>;
   findByJobId(jobId: string, options?: ContentItemListOptions): Promise<ContentItem[]>;
+  // Storage GC: the given storage keys that are still the finalAudioPath of an item
+  findReferencedFinalAudioPaths(paths: string[]): Promise<string[]>;
 
   save(item: ContentItem): Promise<void>;
   saveMany(items: ContentItem[]): Promise<void>;
@@ -3,9 +3,11 @@
 
 import { Job } from '../../domain/entities/Job';
 import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { Priority } from '../../domain/value-objects/Priority';
 
 export interface JobListOptions {
   status?: JobStatus;
+  priority?: Priority;
   limit?: number;
   offset?: number;
   orderByCreatedAt?: 'asc' | 'desc';
@@ -0,0 +1,13 @@
+// src/core/ports/repositories/IScriptStageOutputRepository.ts
+// Repository port for ScriptStageOutput persistence
+
+import { ScriptStageOutput } from '../../domain/entities/ScriptStageOutput';
+
+export interface IScriptStageOutputRepository {
+  // Ordered by stage index
+  findByItemId(itemId: string): Promise<ScriptStageOutput[]>;
+  // Replaces the item's output of the same stage index
+  save(output: ScriptStageOutput): Promise<void>;
+  // Drops the outputs of the given stage and the ones after it (re-run from that stage)
+  deleteFromStage(itemId: string, fromStageIndex: number): Promise<number>;
+}
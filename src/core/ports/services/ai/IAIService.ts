@@ -9,11 +9,15 @@ export interface AIChatMessage {
 }
 
 export interface AIRequestOptions {
+  // Provider the call is routed to (default provider when unset); model is that provider's
+  provider?: string;
   model?: string;
   temperature?: number;
   maxTokens?: number;
   topP?: number;
   stop?: string[];
+  // Skips the provider's script cleanup and checks (intermediate outputs such as outlines)
+  rawResponse?: boolean;
 }
 
 export interface AIUsage {
@@ -22,10 +26,22 @@ export interface AIUsage {
   totalTokens?: number;
 }
 
+// Something a provider's response parser took out of (or rewrote in) the raw completion
+export interface AIResponseRemoval {
+  // e.g. 'preamble', 'heading', 'emoji', 'stage_direction'
+  kind: string;
+  text: string;
+}
+
 export interface AICompletionResult {
   content: string;
   model?: string;
   usage?: AIUsage;
+  // Set by the provider routing: who produced the content, and whether it was a fallback
+  provider?: string;
+  usedFallback?: boolean;
+  // Set when the provider cleaned the completion up before returning it
+  removed?: AIResponseRemoval[];
 }
 
 export interface AIStreamChunk {
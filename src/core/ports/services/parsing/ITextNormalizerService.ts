@@ -1,6 +1,13 @@
 // src/core/ports/services/parsing/ITextNormalizerService.ts
-// Text normalization port (whitespace, punctuation, etc.)
+// Text normalization port: rewrites a script in its spoken form before TTS
+// (numbers, dates, currencies, percentages, units, Roman numerals, abbreviations)
+
+export interface TextNormalizerOptions {
+  // 2-letter code (UserSettings.channelLanguage); unsupported languages only get whitespace cleanup
+  language?: string;
+}
 
 export interface ITextNormalizerService {
-  normalize(text: string): string;
+  normalize(text: string, options?: TextNormalizerOptions): string;
+  supportsLanguage(language: string): boolean;
 }
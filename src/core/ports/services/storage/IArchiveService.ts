@@ -0,0 +1,27 @@
+// src/core/ports/services/storage/IArchiveService.ts
+// Archive port: bundles stored files and generated content into a single object
+
+import type { StorageObjectInfo, StoragePutOptions } from './IStorageService';
+
+export type ArchiveEntrySource =
+  | { content: string | Buffer }
+  // Object read from IStorageService (e.g. AudioChunk.audioPath, ContentItem.finalAudioPath)
+  | { storageKey: string };
+
+export interface ArchiveEntry {
+  // Path inside the archive
+  name: string;
+  source: ArchiveEntrySource;
+  // Already-compressed media (MP3) is stored as is
+  compress?: boolean;
+  modifiedAt?: Date;
+}
+
+export interface IArchiveService {
+  // Entries are pulled and written one at a time so the archive never sits in memory
+  createZip(
+    key: string,
+    entries: AsyncIterable<ArchiveEntry>,
+    options?: StoragePutOptions
+  ): Promise<StorageObjectInfo>;
+}
@@ -1,6 +1,8 @@
 // src/core/ports/services/storage/IStorageService.ts
 // Storage port (local disk, S3/R2, etc.)
 
+import type { Readable } from 'stream';
+
 export type StorageData = Buffer | Uint8Array | ArrayBuffer;
 
 export interface StoragePutOptions {
@@ -15,6 +17,13 @@ export interface StorageObjectInfo {
   contentType?: string;
   url?: string;
   etag?: string;
+  lastModified?: Date;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface StorageRange {
+  start: number;
+  end?: number;
 }
 
 export interface StorageGetResult {
@@ -28,7 +37,17 @@ export interface IStorageService {
   getObject(key: string): Promise<StorageGetResult>;
   deleteObject(key: string): Promise<void>;
 
+  // Streaming variants for objects too large to hold in memory (merged audio, exports)
+  getObjectStream(key: string, range?: StorageRange): Promise<Readable>;
+  putObjectStream(key: string, stream: Readable, options?: StoragePutOptions): Promise<StorageObjectInfo>;
+
   exists(key: string): Promise<boolean>;
+  // null when the object does not exist
+  headObject(key: string): Promise<StorageObjectInfo | null>;
+  // Every object whose key starts with the prefix, with size and lastModified (storage GC)
+  listObjects(prefix: string): AsyncIterable<StorageObjectInfo>;
 
   getPublicUrl?(key: string): string | Promise<string>;
+  // Expiring download URL for private objects
+  getSignedUrl?(key: string, expiresInSeconds?: number): Promise<string>;
 }
@@ -0,0 +1,26 @@
+// src/core/ports/services/tts/ITTSProviderRegistry.ts
+// Registry of TTS providers (dispatch by provider name, with fallback)
+
+import type { VoiceSettings } from '../../../domain/value-objects/VoiceSettings';
+import type { ITTSService, TTSOptions, TTSResult } from './ITTSService';
+
+export interface TTSFallbackTarget {
+  provider: string;
+  voiceId: string;
+}
+
+export interface TTSDispatchResult extends TTSResult {
+  provider: string;
+  voiceId: string;
+  usedFallback: boolean;
+}
+
+export interface ITTSProviderRegistry {
+  register(service: ITTSService): void;
+  get(provider: string): ITTSService;
+  has(provider: string): boolean;
+  listProviders(): string[];
+  getDefaultProvider(): string;
+
+  generateAudio(text: string, voiceSettings: VoiceSettings, options?: TTSOptions): Promise<TTSDispatchResult>;
+}
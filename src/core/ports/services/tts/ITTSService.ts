@@ -10,8 +10,11 @@ export interface TTSOptions {
 export interface TTSResult {
   audio: Buffer;
   contentType?: string;
+  // Playback length in seconds, when the provider knows it
+  duration?: number;
 }
 
 export interface ITTSService {
+  getProviderName(): string;
   generateAudio(text: string, voiceSettings: VoiceSettings, options?: TTSOptions): Promise<TTSResult>;
 }
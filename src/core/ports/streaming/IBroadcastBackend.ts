@@ -0,0 +1,21 @@
+// src/core/ports/streaming/IBroadcastBackend.ts
+// Fan-out port: carries stream events between the processes serving subscribers
+
+import type { SSEChannel, SSEEvent } from './ISSEService';
+import type { UnsubscribeStreamFn } from './IStreamManager';
+
+export interface BroadcastMessage<T = unknown> {
+  // Instance that published the message (it already delivered it locally)
+  origin: string;
+  channel: SSEChannel;
+  event: SSEEvent<T>;
+}
+
+export type BroadcastListener = (message: BroadcastMessage) => void;
+
+export interface IBroadcastBackend {
+  publish(message: BroadcastMessage): Promise<void>;
+  // Receives the messages published by every instance, its own included
+  subscribe(listener: BroadcastListener): UnsubscribeStreamFn;
+  close(): Promise<void>;
+}
@@ -9,7 +9,21 @@ export interface UnsubscribeStreamFn {
   (): void;
 }
 
+export interface StreamSubscribeOptions {
+  // Id of the last event the client received (Last-Event-ID): buffered events
+  // broadcast after it are delivered before the live ones
+  lastEventId?: string;
+}
+
 export interface IStreamManager {
-  subscribe<T>(channel: SSEChannel, subscriber: StreamSubscriber<T>): UnsubscribeStreamFn;
+  subscribe<T>(
+    channel: SSEChannel,
+    subscriber: StreamSubscriber<T>,
+    options?: StreamSubscribeOptions
+  ): UnsubscribeStreamFn;
   broadcast<T>(channel: SSEChannel, event: SSEEvent<T>): Promise<void>;
+  // Whether every event after lastEventId is still buffered
+  canResume(channel: SSEChannel, lastEventId: string): boolean;
+  // Current position: events delivered afterwards have greater ids
+  getCursor(): string;
 }
@@ -6,9 +6,11 @@ import { PrismaClient } from '@prisma/client';
 import {
   IAudioChunkRepository,
   AudioChunkListOptions,
+  AudioChunkWithText,
 } from '@/core/ports/repositories/IAudioChunkRepository';
 import { AudioChunk } from '@/core/domain/entities/AudioChunk';
 import { ChunkStatus } from '@/core/domain/value-objects/ChunkStatus';
+import { ItemStatus } from '@/core/domain/value-objects/ItemStatus';
 import { AudioMetadata } from '@/core/domain/value-objects/AudioMetadata';
 import { DatabaseError } from '@/shared/utils/errors/AppError';
 
@@ -75,6 +77,60 @@ export class PrismaAudioChunkRepository implements IAudioChunkRepository {
     }
   }
 
+  async findByItemIdWithText(itemId: string): Promise<AudioChunkWithText[]> {
+    try {
+      const data = await this.prisma.audioChunk.findMany({
+        where: { itemId },
+        orderBy: { index: 'asc' },
+        include: { textChunk: { select: { text: true } } },
+      });
+
+      return data.map((d: any) => ({
+        chunk: this.mapToEntity(d),
+        text: d.textChunk.text,
+      }));
+    } catch (error) {
+      throw new DatabaseError(`Failed to find audio chunks with text for item: ${error}`);
+    }
+  }
+
+  async findReferencedAudioPaths(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    try {
+      const data = await this.prisma.audioChunk.findMany({
+        where: { audioPath: { in: paths } },
+        select: { audioPath: true },
+      });
+
+      return data.map((d: any) => d.audioPath as string);
+    } catch (error) {
+      throw new DatabaseError(`Failed to find referenced audio paths: ${error}`);
+    }
+  }
+
+  async findMergedWithAudio(mergedBefore: Date, limit: number, afterId?: string): Promise<AudioChunk[]> {
+    try {
+      const data = await this.prisma.audioChunk.findMany({
+        where: {
+          audioPath: { not: null },
+          item: {
+            status: ItemStatus.COMPLETED,
+            finalAudioPath: { not: null },
+            completedAt: { lt: mergedBefore },
+          },
+          ...(afterId ? { id: { gt: afterId } } : {}),
+        } as any,
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+
+      return data.map((d: any) => this.mapToEntity(d));
+    } catch (error) {
+      throw new DatabaseError(`Failed to find merged audio chunks: ${error}`);
+    }
+  }
+
   async save(chunk: AudioChunk): Promise<void> {
     try {
       const data = chunk.toPersistence();
@@ -10,6 +10,7 @@ import {
 import { ContentItem } from '@/core/domain/entities/ContentItem';
 import { ItemStatus } from '@/core/domain/value-objects/ItemStatus';
 import { ContentCategory } from '@/core/domain/value-objects/CSVRow';
+import { Priority } from '@/core/domain/value-objects/Priority';
 import { DatabaseError } from '@/shared/utils/errors/AppError';
 
 export class PrismaContentItemRepository implements IContentItemRepository {
@@ -61,6 +62,21 @@ export class PrismaContentItemRepository implements IContentItemRepository {
     }
   }
 
+  async findReferencedFinalAudioPaths(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    try {
+      const data = await this.prisma.contentItem.findMany({
+        where: { finalAudioPath: { in: paths } },
+        select: { finalAudioPath: true },
+      });
+
+      return data.map((d: any) => d.finalAudioPath as string);
+    } catch (error) {
+      throw new DatabaseError(`Failed to find referenced final audio paths: ${error}`);
+    }
+  }
+
   async save(item: ContentItem): Promise<void> {
     try {
       const data = item.toPersistence();
@@ -70,6 +86,7 @@ export class PrismaContentItemRepository implements IContentItemRepository {
         update: {
           status: data.status,
           currentStep: data.currentStep,
+          priority: data.priority ?? null,
           titre: data.titre,
           details: data.details,
           category: data.category as any,
@@ -87,6 +104,7 @@ export class PrismaContentItemRepository implements IContentItemRepository {
           rowIndex: data.rowIndex,
           status: data.status,
           currentStep: data.currentStep,
+          priority: data.priority,
           titre: data.titre,
           details: data.details,
           category: data.category as any,
@@ -117,6 +135,7 @@ export class PrismaContentItemRepository implements IContentItemRepository {
           rowIndex: d.rowIndex,
           status: d.status,
           currentStep: d.currentStep,
+          priority: d.priority,
           titre: d.titre,
           details: d.details,
           category: d.category,
@@ -181,6 +200,7 @@ export class PrismaContentItemRepository implements IContentItemRepository {
       rowIndex: data.rowIndex,
       status: data.status as ItemStatus,
       currentStep: data.currentStep,
+      priority: (data.priority as Priority | null) || undefined,
       titre: data.titre,
       details: data.details,
       category: data.category as ContentCategory,
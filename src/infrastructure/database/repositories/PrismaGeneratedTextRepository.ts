@@ -13,7 +13,7 @@ export class PrismaGeneratedTextRepository implements IGeneratedTextRepository {
     try {
       const item = await this.prisma.contentItem.findUnique({
         where: { id: itemId },
-        select: { generatedText: true },
+        select: { generatedText: true, textProvider: true, textModel: true, textUsedFallback: true, textRemoved: true },
       });
 
       if (!item || !item.generatedText) {
@@ -26,7 +26,14 @@ export class PrismaGeneratedTextRepository implements IGeneratedTextRepository {
         content: item.generatedText,
         charCount: item.generatedText.length,
         estimatedDuration: undefined,
-        metadata: undefined,
+        metadata: item.textModel
+          ? {
+              model: item.textModel,
+              provider: item.textProvider ?? undefined,
+              usedFallback: item.textUsedFallback,
+              removed: item.textRemoved ? JSON.parse(item.textRemoved) : undefined,
+            }
+          : undefined,
         createdAt: new Date(), // We don't have separate timestamp in schema
         updatedAt: new Date(),
       };
@@ -46,6 +53,10 @@ export class PrismaGeneratedTextRepository implements IGeneratedTextRepository {
         where: { id: data.itemId },
         data: {
           generatedText: data.content,
+          textProvider: data.metadata?.provider ?? null,
+          textModel: data.metadata?.model ?? null,
+          textUsedFallback: data.metadata?.usedFallback ?? false,
+          textRemoved: data.metadata?.removed ? JSON.stringify(data.metadata.removed) : null,
         },
       });
     } catch (error) {
@@ -59,6 +70,10 @@ export class PrismaGeneratedTextRepository implements IGeneratedTextRepository {
         where: { id: itemId },
         data: {
           generatedText: null,
+          textProvider: null,
+          textModel: null,
+          textUsedFallback: false,
+          textRemoved: null,
         },
       });
     } catch (error) {
@@ -7,7 +7,9 @@ import { IJobRepository, JobListOptions } from '@/core/ports/repositories/IJobRe
 import { Job } from '@/core/domain/entities/Job';
 import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
 import { PromptTemplate } from '@/core/domain/value-objects/PromptTemplate';
+import { ScriptStage } from '@/core/domain/value-objects/ScriptStage';
 import { JobStatus } from '@/core/domain/value-objects/JobStatus';
+import { Priority } from '@/core/domain/value-objects/Priority';
 import { DatabaseError } from '@/shared/utils/errors/AppError';
 
 export class PrismaJobRepository implements IJobRepository {
@@ -37,6 +39,10 @@ export class PrismaJobRepository implements IJobRepository {
         where.status = options.status;
       }
 
+      if (options?.priority) {
+        where.priority = options.priority;
+      }
+
       const orderBy: Record<string, 'asc' | 'desc'> = {};
       if (options?.orderByCreatedAt) {
         orderBy.createdAt = options.orderByCreatedAt;
@@ -64,6 +70,7 @@ export class PrismaJobRepository implements IJobRepository {
       // Prepare voice settings for Prisma
       const voiceSettings = data.voiceSettings
         ? {
+            voiceProvider: data.voiceSettings.provider ?? null,
             voiceId: data.voiceSettings.voiceId,
             voiceName: data.voiceSettings.voiceName,
           }
@@ -73,6 +80,9 @@ export class PrismaJobRepository implements IJobRepository {
       const prompts = {
         systemPrompt: data.systemPrompt,
         userPromptTemplate: data.userPromptTemplate?.template || '',
+        aiProvider: data.aiProvider ?? null,
+        aiModel: data.aiModel ?? null,
+        scriptStages: JSON.stringify((data.scriptStages ?? []).map((stage) => stage.toJSON())),
       };
 
       await this.prisma.job.upsert({
@@ -80,6 +90,7 @@ export class PrismaJobRepository implements IJobRepository {
         update: {
           name: data.name,
           status: data.status,
+          priority: data.priority,
           ...voiceSettings,
           ...prompts,
           maxChunkSize: data.maxChunkSize,
@@ -94,6 +105,7 @@ export class PrismaJobRepository implements IJobRepository {
           id: data.id,
           name: data.name,
           status: data.status,
+          priority: data.priority,
           ...voiceSettings,
           ...prompts,
           maxChunkSize: data.maxChunkSize,
@@ -143,6 +155,7 @@ export class PrismaJobRepository implements IJobRepository {
       voiceSettings: data.voiceId
         ? VoiceSettings.create({
             voiceId: data.voiceId,
+            provider: data.voiceProvider || undefined,
             voiceName: data.voiceName || undefined,
           })
         : undefined,
@@ -150,8 +163,12 @@ export class PrismaJobRepository implements IJobRepository {
       userPromptTemplate: data.userPromptTemplate
         ? PromptTemplate.create(data.userPromptTemplate)
         : undefined,
+      aiProvider: data.aiProvider || undefined,
+      aiModel: data.aiModel || undefined,
+      scriptStages: ScriptStage.createList(JSON.parse(data.scriptStages || '[]')),
       maxChunkSize: data.maxChunkSize,
       silenceBetweenChunks: data.silenceBetweenChunks,
+      priority: data.priority as Priority,
       totalItems: data.totalItems,
       completedItems: data.completedItems,
       failedItems: data.failedItems,
@@ -0,0 +1,97 @@
+// src/infrastructure/database/repositories/PrismaScriptStageOutputRepository.ts
+// Prisma implementation of IScriptStageOutputRepository
+
+import { PrismaClient } from '@prisma/client';
+import { IScriptStageOutputRepository } from '@/core/ports/repositories/IScriptStageOutputRepository';
+import { ScriptStageOutput } from '@/core/domain/entities/ScriptStageOutput';
+import { DatabaseError } from '@/shared/utils/errors/AppError';
+
+interface ScriptStageOutputRow {
+  id: string;
+  itemId: string;
+  stageIndex: number;
+  stageName: string;
+  content: string;
+  provider: string | null;
+  model: string | null;
+  usedFallback: boolean;
+  temperature: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  createdAt: Date;
+}
+
+export class PrismaScriptStageOutputRepository implements IScriptStageOutputRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByItemId(itemId: string): Promise<ScriptStageOutput[]> {
+    try {
+      const data: ScriptStageOutputRow[] = await this.prisma.scriptStageOutput.findMany({
+        where: { itemId },
+        orderBy: { stageIndex: 'asc' },
+      });
+
+      return data.map((d) => this.mapToEntity(d));
+    } catch (error) {
+      throw new DatabaseError(`Failed to find script stage outputs: ${error}`);
+    }
+  }
+
+  async save(output: ScriptStageOutput): Promise<void> {
+    try {
+      const data = output.toPersistence();
+      const values = {
+        stageName: data.stageName,
+        content: data.content,
+        provider: data.provider ?? null,
+        model: data.model ?? null,
+        usedFallback: data.usedFallback,
+        temperature: data.temperature ?? null,
+        inputTokens: data.inputTokens ?? null,
+        outputTokens: data.outputTokens ?? null,
+      };
+
+      await this.prisma.scriptStageOutput.upsert({
+        where: { itemId_stageIndex: { itemId: data.itemId, stageIndex: data.stageIndex } },
+        update: { ...values, createdAt: data.createdAt },
+        create: {
+          id: data.id,
+          itemId: data.itemId,
+          stageIndex: data.stageIndex,
+          ...values,
+          createdAt: data.createdAt,
+        },
+      });
+    } catch (error) {
+      throw new DatabaseError(`Failed to save script stage output: ${error}`);
+    }
+  }
+
+  async deleteFromStage(itemId: string, fromStageIndex: number): Promise<number> {
+    try {
+      const result = await this.prisma.scriptStageOutput.deleteMany({
+        where: { itemId, stageIndex: { gte: fromStageIndex } },
+      });
+      return result.count;
+    } catch (error) {
+      throw new DatabaseError(`Failed to delete script stage outputs: ${error}`);
+    }
+  }
+
+  private mapToEntity(data: ScriptStageOutputRow): ScriptStageOutput {
+    return ScriptStageOutput.fromPersistence({
+      id: data.id,
+      itemId: data.itemId,
+      stageIndex: data.stageIndex,
+      stageName: data.stageName,
+      content: data.content,
+      provider: data.provider || undefined,
+      model: data.model || undefined,
+      usedFallback: data.usedFallback,
+      temperature: data.temperature ?? undefined,
+      inputTokens: data.inputTokens ?? undefined,
+      outputTokens: data.outputTokens ?? undefined,
+      createdAt: data.createdAt,
+    });
+  }
+}
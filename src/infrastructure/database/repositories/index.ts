@@ -9,3 +9,4 @@ export { PrismaChatSessionRepository } from './PrismaChatSessionRepository';
 export { PrismaChatMessageRepository } from './PrismaChatMessageRepository';
 export { PrismaErrorLogRepository } from './PrismaErrorLogRepository';
 export { PrismaUserSettingsRepository } from './PrismaUserSettingsRepository';
+export { PrismaScriptStageOutputRepository } from './PrismaScriptStageOutputRepository';
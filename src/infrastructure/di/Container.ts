@@ -12,21 +12,44 @@ import { PrismaChatSessionRepository } from '../persistence/repositories/PrismaC
 import { PrismaChatMessageRepository } from '../persistence/repositories/PrismaChatMessageRepository';
 import { PrismaErrorLogRepository } from '../persistence/repositories/PrismaErrorLogRepository';
 import { PrismaUserSettingsRepository } from '../persistence/repositories/PrismaUserSettingsRepository';
+import { PrismaScriptStageOutputRepository } from '../database/repositories/PrismaScriptStageOutputRepository';
 
 // Services
-import { AnthropicTextGenerationService } from '../external/anthropic/AnthropicTextGenerationService';
-import { AnthropicChatService } from '../external/anthropic/AnthropicChatService';
-import { ElevenLabsTTSService } from '../external/elevenlabs/ElevenLabsTTSService';
+import { createAIServices } from '../services/ai/createAIServices';
+import { createTTSProviderRegistry } from '../services/tts/TTSProviderRegistry';
+import { createAIConfig } from '@/shared/config/ai.config';
+import { createTTSConfig } from '@/shared/config/tts.config';
+import { createRateLimitConfig } from '@/shared/config/ratelimit.config';
+import { createRetryConfig } from '@/shared/config/retry.config';
 import { PapaParseCSVService } from '../external/papaparse/PapaParseCSVService';
 import { CSVValidationService } from '../services/CSVValidationService';
 import { TextChunkingService } from '../services/TextChunkingService';
+import { TextNormalizer } from '../services/parsing/text/TextNormalizer';
 import { AudioMergeService } from '../services/AudioMergeService';
+import { FFmpegAudioMetadataService } from '../services/audio/ffmpeg/FFmpegAudioMetadataService';
+import { ZipArchiveService } from '../services/storage/ZipArchiveService';
+import { createLocalUrlSigner, createStorageService } from '../services/storage/createStorageService';
 
 // Event System
 import { InMemoryEventBus } from '../events/InMemoryEventBus';
+import { PrismaEventStore } from '../events/EventStore';
+
+// Streaming
+import { SSEManager } from '../streaming/SSEManager';
+import { JobChannel } from '../streaming/channels/JobChannel';
+import { ItemChannel } from '../streaming/channels/ItemChannel';
+import { ChatChannel } from '../streaming/channels/ChatChannel';
+import { createBroadcastBackend } from '../streaming/backends/createBroadcastBackend';
+import { createStreamingConfig } from '@/shared/config/streaming.config';
+import { createPodcastConfig } from '@/shared/config/podcast.config';
+import { createStorageConfig, createStorageGcConfig } from '@/shared/config/storage.config';
+import { createTextNormalizerConfig } from '@/shared/config/normalizer.config';
 
 // Queue System
 import { InMemoryJobQueue } from '../queue/InMemoryJobQueue';
+import { QueueManager } from '../queue/QueueManager';
+import { RateLimitStrategy } from '../queue/strategies/RateLimitStrategy';
+import { RetryStrategy } from '../queue/strategies/RetryStrategy';
 
 // Use Cases - Job
 import { CreateJobUseCase } from '@/core/domain/use-cases/job/CreateJobUseCase';
@@ -35,20 +58,31 @@ import { ListJobsUseCase } from '@/core/domain/use-cases/job/ListJobsUseCase';
 import { UpdateJobUseCase } from '@/core/domain/use-cases/job/UpdateJobUseCase';
 import { CancelJobUseCase } from '@/core/domain/use-cases/job/CancelJobUseCase';
 import { RetryJobUseCase } from '@/core/domain/use-cases/job/RetryJobUseCase';
+import { ExportJobResultsUseCase } from '@/core/domain/use-cases/job/ExportJobResultsUseCase';
+import { GeneratePodcastFeedUseCase } from '@/core/domain/use-cases/job/GeneratePodcastFeedUseCase';
+import { PauseJobUseCase } from '@/core/domain/use-cases/job/PauseJobUseCase';
+import { ResumeJobUseCase } from '@/core/domain/use-cases/job/ResumeJobUseCase';
 
 // Use Cases - Content
 import { ProcessItemUseCase } from '@/core/domain/use-cases/content/ProcessItemUseCase';
 import { GenerateTextUseCase } from '@/core/domain/use-cases/content/GenerateTextUseCase';
 import { RefineTextUseCase } from '@/core/domain/use-cases/content/RefineTextUseCase';
+import { RunScriptStagesUseCase } from '@/core/domain/use-cases/content/RunScriptStagesUseCase';
 import { ChunkTextUseCase } from '@/core/domain/use-cases/content/ChunkTextUseCase';
 import { GenerateAudioUseCase } from '@/core/domain/use-cases/content/GenerateAudioUseCase';
 import { MergeAudioChunksUseCase } from '@/core/domain/use-cases/content/MergeAudioChunksUseCase';
+import { GenerateItemCaptionsUseCase } from '@/core/domain/use-cases/content/GenerateItemCaptionsUseCase';
+import { ValidateContentItemUseCase } from '@/core/domain/use-cases/content/ValidateContentItemUseCase';
+import { UploadAudioUseCase } from '@/core/domain/use-cases/content/UploadAudioUseCase';
 
 // Use Cases - Chat
 import { CreateChatSessionUseCase } from '@/core/domain/use-cases/chat/CreateChatSessionUseCase';
 import { SendChatMessageUseCase } from '@/core/domain/use-cases/chat/SendChatMessageUseCase';
 import { GetChatHistoryUseCase } from '@/core/domain/use-cases/chat/GetChatHistoryUseCase';
 
+// Use Cases - Storage
+import { CollectStorageGarbageUseCase } from '@/core/domain/use-cases/storage/CollectStorageGarbageUseCase';
+
 // Use Cases - CSV
 import { ValidateCSVUseCase } from '@/core/domain/use-cases/csv/ValidateCSVUseCase';
 import { ParseCSVUseCase } from '@/core/domain/use-cases/csv/ParseCSVUseCase';
@@ -56,6 +90,10 @@ import { ParseCSVUseCase } from '@/core/domain/use-cases/csv/ParseCSVUseCase';
 // Orchestrators
 import { PipelineOrchestrator } from '@/application/orchestrators/PipelineOrchestrator';
 
+// Application Services
+import { HealthCheckService } from '@/application/services/HealthCheckService';
+import { ProgressTrackingService } from '@/application/services/ProgressTrackingService';
+
 export class Container {
   private static instance: Container;
   private services = new Map<string, unknown>();
@@ -84,32 +122,73 @@ export class Container {
     this.services.set('IChatMessageRepository', new PrismaChatMessageRepository(prisma));
     this.services.set('IErrorLogRepository', new PrismaErrorLogRepository(prisma));
     this.services.set('IUserSettingsRepository', new PrismaUserSettingsRepository(prisma));
+    this.services.set('IScriptStageOutputRepository', new PrismaScriptStageOutputRepository(prisma));
+
+    // Event System
+    const eventBus = new InMemoryEventBus();
+    this.services.set('IEventBus', eventBus);
+    this.services.set('IEventStore', new PrismaEventStore(prisma));
+
+    // Streaming (job/item/chat events pushed to the SSE routes of every instance)
+    const streamingConfig = createStreamingConfig();
+    const sseManager = new SSEManager(streamingConfig, createBroadcastBackend(streamingConfig));
+    this.services.set('SSEManager', sseManager);
+    this.services.set('JobChannel', new JobChannel(sseManager));
+    this.services.set('ItemChannel', new ItemChannel(sseManager));
+    this.services.set('ChatChannel', new ChatChannel(sseManager));
 
-    // External Services
-    this.services.set('ITextGenerationService', new AnthropicTextGenerationService());
-    this.services.set('IChatService', new AnthropicChatService());
-    this.services.set('ITTSService', new ElevenLabsTTSService());
+    // Rate limiting shared by the external services and the workers
+    const rateLimiter = new RateLimitStrategy(createRateLimitConfig(), eventBus);
+    this.services.set('RateLimitStrategy', rateLimiter);
+
+    // Retry policies shared by the workers and the error recovery services
+    this.services.set('RetryStrategy', new RetryStrategy(createRetryConfig()));
+
+    // External Services (LLM calls routed to the job's provider, or the configured default)
+    const aiServices = createAIServices(createAIConfig(), rateLimiter);
+    this.services.set('ITextGenerationService', aiServices.textGeneration);
+    this.services.set('IChatService', aiServices.chat);
+    const ttsConfig = createTTSConfig();
+    const ttsRegistry = createTTSProviderRegistry(ttsConfig, rateLimiter);
+    this.services.set('ITTSProviderRegistry', ttsRegistry);
+    if (ttsRegistry.has(ttsRegistry.getDefaultProvider())) {
+      this.services.set('ITTSService', ttsRegistry.get(ttsRegistry.getDefaultProvider()));
+    }
     this.services.set('ICSVParsingService', new PapaParseCSVService());
 
+    // Storage (the download route checks local signed URLs with the same signer)
+    const storageConfig = createStorageConfig();
+    if (storageConfig.backend === 'local') {
+      this.services.set('LocalUrlSigner', createLocalUrlSigner(storageConfig));
+    }
+    this.services.set('IStorageService', createStorageService(
+      storageConfig,
+      this.has('LocalUrlSigner') ? this.get('LocalUrlSigner') : undefined
+    ));
+
     // Internal Services
     this.services.set('ICSVValidationService', new CSVValidationService(
       this.get('ICSVParsingService')
     ));
     this.services.set('ITextChunkingService', new TextChunkingService());
+    const normalizerConfig = createTextNormalizerConfig();
+    if (normalizerConfig.enabled) {
+      this.services.set('ITextNormalizerService', new TextNormalizer(normalizerConfig.abbreviations));
+    }
     this.services.set('IAudioMergeService', new AudioMergeService());
-
-    // Event System
-    const eventBus = new InMemoryEventBus();
-    this.services.set('IEventBus', eventBus);
+    this.services.set('IAudioMetadataService', new FFmpegAudioMetadataService({ ffprobePath: ttsConfig.ffprobePath }));
 
     // Queue System
     const jobQueue = new InMemoryJobQueue();
     this.services.set('IJobQueue', jobQueue);
+    this.services.set('IQueueManager', new QueueManager());
 
     // Use Cases - Job
     this.services.set('CreateJobUseCase', new CreateJobUseCase(
       this.get('IJobRepository'),
-      this.get('IEventBus')
+      this.get('IEventBus'),
+      this.get('IUserSettingsRepository'),
+      aiServices.textGeneration.listProviders()
     ));
     this.services.set('GetJobUseCase', new GetJobUseCase(
       this.get('IJobRepository')
@@ -119,7 +198,8 @@ export class Container {
     ));
     this.services.set('UpdateJobUseCase', new UpdateJobUseCase(
       this.get('IJobRepository'),
-      this.get('IEventBus')
+      this.get('IEventBus'),
+      aiServices.textGeneration.listProviders()
     ));
     this.services.set('CancelJobUseCase', new CancelJobUseCase(
       this.get('IJobRepository'),
@@ -131,18 +211,36 @@ export class Container {
       this.get('IContentItemRepository'),
       this.get('IEventBus')
     ));
+    this.services.set('PauseJobUseCase', new PauseJobUseCase(
+      this.get('IJobRepository'),
+      this.get('IEventBus')
+    ));
+    this.services.set('ResumeJobUseCase', new ResumeJobUseCase(
+      this.get('IJobRepository'),
+      this.get('IEventBus')
+    ));
 
     // Use Cases - Content
     this.services.set('ProcessItemUseCase', new ProcessItemUseCase(
       this.get('IContentItemRepository'),
       this.get('IEventBus')
     ));
+    this.services.set('RunScriptStagesUseCase', new RunScriptStagesUseCase(
+      this.get('IContentItemRepository'),
+      this.get('IAudioChunkRepository'),
+      this.get('IGeneratedTextRepository'),
+      this.get('IJobRepository'),
+      this.get('IScriptStageOutputRepository'),
+      this.get('IUserSettingsRepository'),
+      this.get('ITextGenerationService')
+    ));
     this.services.set('GenerateTextUseCase', new GenerateTextUseCase(
       this.get('IContentItemRepository'),
       this.get('IGeneratedTextRepository'),
       this.get('IJobRepository'),
       this.get('ITextGenerationService'),
-      this.get('IEventBus')
+      this.get('IEventBus'),
+      this.get('RunScriptStagesUseCase')
     ));
     this.services.set('RefineTextUseCase', new RefineTextUseCase(
       this.get('IContentItemRepository'),
@@ -154,13 +252,18 @@ export class Container {
       this.get('IAudioChunkRepository'),
       this.get('IJobRepository'),
       this.get('ITextChunkingService'),
-      this.get('IEventBus')
+      this.get('IEventBus'),
+      this.has('ITextNormalizerService') ? this.get('ITextNormalizerService') : undefined,
+      this.get('IUserSettingsRepository')
     ));
     this.services.set('GenerateAudioUseCase', new GenerateAudioUseCase(
       this.get('IAudioChunkRepository'),
+      this.get('IContentItemRepository'),
       this.get('IJobRepository'),
-      this.get('ITTSService'),
-      this.get('IEventBus')
+      this.get('ITTSProviderRegistry'),
+      this.get('IStorageService'),
+      this.get('IEventBus'),
+      this.get('IAudioMetadataService')
     ));
     this.services.set('MergeAudioChunksUseCase', new MergeAudioChunksUseCase(
       this.get('IContentItemRepository'),
@@ -169,6 +272,51 @@ export class Container {
       this.get('IAudioMergeService'),
       this.get('IEventBus')
     ));
+    this.services.set('GenerateItemCaptionsUseCase', new GenerateItemCaptionsUseCase(
+      this.get('IContentItemRepository'),
+      this.get('IAudioChunkRepository'),
+      this.get('IJobRepository')
+    ));
+    if (this.has('IValidationService')) {
+      this.services.set('ValidateContentItemUseCase', new ValidateContentItemUseCase(
+        this.get('IContentItemRepository'),
+        this.get('IValidationService'),
+        this.get('IEventBus')
+      ));
+    }
+    if (this.has('IStorageService')) {
+      this.services.set('UploadAudioUseCase', new UploadAudioUseCase(
+        this.get('IContentItemRepository'),
+        this.get('IStorageService'),
+        this.get('IEventBus')
+      ));
+      this.services.set('IArchiveService', new ZipArchiveService(this.get('IStorageService')));
+      this.services.set('ExportJobResultsUseCase', new ExportJobResultsUseCase(
+        this.get('IJobRepository'),
+        this.get('IContentItemRepository'),
+        this.get('IAudioChunkRepository'),
+        this.get('IStorageService'),
+        this.get('IGeneratedTextRepository'),
+        this.get('IErrorLogRepository'),
+        this.get('IArchiveService')
+      ));
+      this.services.set('GeneratePodcastFeedUseCase', new GeneratePodcastFeedUseCase(
+        this.get('IJobRepository'),
+        this.get('IContentItemRepository'),
+        this.get('IGeneratedTextRepository'),
+        this.get('IUserSettingsRepository'),
+        this.get('IStorageService'),
+        createPodcastConfig()
+      ));
+
+      // Use Cases - Storage
+      this.services.set('CollectStorageGarbageUseCase', new CollectStorageGarbageUseCase(
+        this.get('IAudioChunkRepository'),
+        this.get('IContentItemRepository'),
+        this.get('IStorageService'),
+        createStorageGcConfig()
+      ));
+    }
 
     // Use Cases - Chat
     this.services.set('CreateChatSessionUseCase', new CreateChatSessionUseCase(
@@ -202,6 +350,22 @@ export class Container {
       this.get('IEventBus'),
       this.get('IJobQueue')
     ));
+
+    // Application Services
+    this.services.set('HealthCheckService', new HealthCheckService(
+      this.get('IJobRepository'),
+      this.get('IContentItemRepository'),
+      this.get('IQueueManager'),
+      this.get('IEventBus'),
+      this.get('IErrorLogRepository'),
+      this.has('CollectStorageGarbageUseCase') ? this.get('CollectStorageGarbageUseCase') : undefined
+    ));
+    this.services.set('ProgressTrackingService', new ProgressTrackingService(
+      this.get('IJobRepository'),
+      this.get('IContentItemRepository'),
+      this.get('IAudioChunkRepository'),
+      this.get('IEventBus')
+    ));
   }
 
   get<T>(serviceName: string): T {
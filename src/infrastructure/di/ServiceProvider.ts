@@ -6,12 +6,30 @@ import { initializeQueues } from './config/queue.config';
 import { createServiceConfig, initializeServices } from './config/services.config';
 import { logger } from '@/shared/lib/logger';
 import { IEventBus } from '@/core/ports/events/IEventBus';
+import { QueueManager } from '../queue/QueueManager';
+import { WorkerManager, createPipelineWorkerManager } from '../queue/WorkerManager';
+import { RateLimitStrategy } from '../queue/strategies/RateLimitStrategy';
+import { ErrorEventHandlers } from '../events/handlers/ErrorEventHandlers';
+import { PodcastFeedEventHandlers } from '../events/handlers/PodcastFeedEventHandlers';
+import { PrismaEventStore } from '../events/EventStore';
+import { ProgressTrackingService } from '@/application/services/ProgressTrackingService';
+import { SSEManager } from '../streaming/SSEManager';
+import { ITTSProviderRegistry } from '@/core/ports/services/tts/ITTSProviderRegistry';
+import { GeneratePodcastFeedUseCase } from '@/core/domain/use-cases/job/GeneratePodcastFeedUseCase';
+import { CollectStorageGarbageUseCase } from '@/core/domain/use-cases/storage/CollectStorageGarbageUseCase';
+import { envConfig } from '@/shared/config/env';
+import { createStorageGcConfig } from '@/shared/config/storage.config';
+
+// Progress replayed into memory on startup; older progress is read from the repositories
+const PROGRESS_REPLAY_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 export class ServiceProvider {
   private static instance: ServiceProvider;
   private initialized = false;
   private servicesInitialized = false;
   private queuesInitialized = false;
+  private workerManager?: WorkerManager;
+  private storageGcTimer?: NodeJS.Timeout;
 
   private constructor() {}
 
@@ -40,8 +58,13 @@ export class ServiceProvider {
       // Initialize event handlers
       await this.initializeEventHandlers();
       
-      // Initialize queue workers
-      await this.initializeWorkers();
+      // Queue workers run in the dedicated worker process (startWorkers) and
+      // the web process only enqueues, except on the in-memory backend whose
+      // jobs are only visible to the process that enqueued them
+      if (envConfig.getConfig().QUEUE_BACKEND === 'memory') {
+        logger.warn('QUEUE_BACKEND=memory: running queue workers in this process');
+        this.startWorkers();
+      }
       
       this.initialized = true;
       logger.info('All services initialized successfully');
@@ -100,38 +123,92 @@ export class ServiceProvider {
       logger.info('Completion event received', { event: event.type });
     });
     
+    new ErrorEventHandlers(container.get<RateLimitStrategy>('RateLimitStrategy')).registerHandlers(eventBus);
+
+    // Podcast feeds are stored, so only kept up to date when a storage service is configured
+    if (container.has('GeneratePodcastFeedUseCase')) {
+      new PodcastFeedEventHandlers(
+        container.get<GeneratePodcastFeedUseCase>('GeneratePodcastFeedUseCase')
+      ).registerHandlers(eventBus);
+    }
+
+    // Persist every published event (replayable through IEventStore)
+    if (envConfig.getConfig().EVENT_STORE_ENABLED) {
+      const eventStore = container.get<PrismaEventStore>('IEventStore');
+      eventBus.subscribeAll(eventStore);
+
+      // Before any worker runs, so replayed progress never overwrites newer live events
+      const replayed = await container.get<ProgressTrackingService>('ProgressTrackingService')
+        .rebuildFromEventStore(eventStore, new Date(Date.now() - PROGRESS_REPLAY_WINDOW_MS));
+      logger.info('Progress tracking rebuilt from the event store', { replayed });
+    }
+    
     logger.info('Event handlers registered');
   }
 
-  private async initializeWorkers(): Promise<void> {
-    logger.info('Initializing queue workers...');
-    
-    const jobQueue = container.get('IJobQueue');
-    const itemQueue = container.get('IItemQueue');
-    const processItemQueue = container.get('IProcessItemQueue');
-    
-    // Start job queue worker
-    jobQueue.startWorker(async (job) => {
-      logger.debug('Processing job from queue', { jobId: job.id });
-      // Job processing logic would go here
-      return { success: true };
-    });
-    
-    // Start item queue worker
-    itemQueue.startWorker(async (item) => {
-      logger.debug('Processing item from queue', { itemId: item.id });
-      // Item processing logic would go here
-      return { success: true };
-    });
-    
-    // Start process item queue worker
-    processItemQueue.startWorker(async (processItem) => {
-      logger.debug('Processing process item from queue', { itemId: processItem.id });
-      // Process item logic would go here
-      return { success: true };
+  // Starts one worker per pipeline queue (called by the worker entrypoint, or on initialize with the memory backend)
+  startWorkers(): WorkerManager {
+    if (this.workerManager) {
+      return this.workerManager;
+    }
+
+    logger.info('Starting queue workers...');
+
+    this.workerManager = createPipelineWorkerManager(container.get('IQueueManager'), {
+      validateContentItem: container.has('ValidateContentItemUseCase')
+        ? container.get('ValidateContentItemUseCase')
+        : undefined,
+      generateText: container.get('GenerateTextUseCase'),
+      refineText: container.get('RefineTextUseCase'),
+      runScriptStages: container.get('RunScriptStagesUseCase'),
+      chunkText: container.get('ChunkTextUseCase'),
+      generateAudio: container.get('GenerateAudioUseCase'),
+      mergeAudioChunks: container.get('MergeAudioChunksUseCase'),
+      uploadAudio: container.get('UploadAudioUseCase'),
+      audioChunkRepository: container.get('IAudioChunkRepository'),
+      jobRepository: container.get('IJobRepository'),
+      rateLimiter: container.get('RateLimitStrategy'),
+      retryStrategy: container.get('RetryStrategy'),
+      defaultAIProvider: envConfig.getConfig().AI_PROVIDER,
+      defaultTTSProvider: container.get<ITTSProviderRegistry>('ITTSProviderRegistry').getDefaultProvider(),
     });
-    
-    logger.info('Queue workers started');
+    this.workerManager.start();
+    this.scheduleStorageGc();
+
+    return this.workerManager;
+  }
+
+  // Periodic storage GC, run by the worker process only
+  private scheduleStorageGc(): void {
+    const gcConfig = createStorageGcConfig();
+    if (!gcConfig.enabled || !container.has('CollectStorageGarbageUseCase')) return;
+
+    const garbageCollector = container.get<CollectStorageGarbageUseCase>('CollectStorageGarbageUseCase');
+    this.storageGcTimer = setInterval(() => {
+      garbageCollector.execute()
+        .then((report) => logger.info('Storage GC finished', {
+          scannedObjects: report.scannedObjects,
+          deletedObjects: report.deletedObjects,
+          droppedChunkFiles: report.droppedChunkFiles,
+          reclaimedBytes: report.reclaimedBytes,
+          errors: report.errors.length,
+        }))
+        .catch((error) => logger.error('Storage GC failed', error instanceof Error ? error : undefined));
+    }, gcConfig.intervalMs);
+    this.storageGcTimer.unref();
+
+    logger.info('Storage GC scheduled', { intervalMs: gcConfig.intervalMs, prefixes: gcConfig.prefixes });
+  }
+
+  // Stops polling and waits for in-flight jobs to be acked/failed
+  async stopWorkers(): Promise<void> {
+    clearInterval(this.storageGcTimer);
+    this.storageGcTimer = undefined;
+    if (!this.workerManager) return;
+
+    logger.info('Draining queue workers...', { workers: this.workerManager.getStatus() });
+    await this.workerManager.stop();
+    this.workerManager = undefined;
   }
 
   async shutdown(): Promise<void> {
@@ -143,6 +220,11 @@ export class ServiceProvider {
     logger.info('Shutting down services...');
     
     try {
+      // Drain pipeline workers before closing their connections
+      await this.stopWorkers();
+      await container.get<QueueManager>('IQueueManager').close();
+      await container.get<SSEManager>('SSEManager').close();
+
       // Stop queue workers
       if (this.queuesInitialized) {
         const jobQueue = container.get('IJobQueue');
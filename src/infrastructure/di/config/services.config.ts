@@ -1,8 +1,9 @@
 // src/infrastructure/di/config/services.config.ts
 // Configuration for external and internal services
 
-import { AnthropicTextGenerationService } from '@/infrastructure/services/ai/mistral/MistralService';
-import { ElevenLabsTTSService } from '@/infrastructure/services/tts/elevenlabs/ElevenLabsService';
+import { createAIServices } from '@/infrastructure/services/ai/createAIServices';
+import { createTTSProviderRegistry } from '@/infrastructure/services/tts/TTSProviderRegistry';
+import { createTTSConfig } from '@/shared/config/tts.config';
 import { PapaParseCSVService } from '@/infrastructure/services/parsing/csv/PapaParseService';
 import { SmartTextChunker } from '@/infrastructure/services/parsing/text/SmartTextChunker';
 import { FFmpegMergeService } from '@/infrastructure/services/audio/ffmpeg/FFmpegMergeService';
@@ -17,7 +18,7 @@ import { env } from '@/shared/config/env';
 export interface ServiceConfig {
   // Text Generation
   textGeneration: {
-    provider: 'anthropic' | 'openai' | 'mistral';
+    provider: 'anthropic' | 'openai' | 'mistral' | 'fake';
     apiKey: string;
     model: string;
     maxTokens: number;
@@ -26,7 +27,7 @@ export interface ServiceConfig {
   
   // TTS Service
   tts: {
-    provider: 'elevenlabs' | 'openai';
+    provider: 'elevenlabs' | 'inworld' | 'openai' | 'local';
     apiKey: string;
     model: string;
     voiceId: string;
@@ -54,7 +55,7 @@ export interface ServiceConfig {
 export function createServiceConfig(): ServiceConfig {
   return {
     textGeneration: {
-      provider: (env.AI_PROVIDER || 'mistral') as 'anthropic' | 'openai' | 'mistral',
+      provider: (env.AI_PROVIDER || 'mistral') as 'anthropic' | 'openai' | 'mistral' | 'fake',
       apiKey: env.MISTRAL_API_KEY || env.ANTHROPIC_API_KEY || env.OPENAI_API_KEY || '',
       model: env.MODEL_ID || 'mistral-small-latest',
       maxTokens: parseInt(env.MAX_TOKENS || '2000', 10),
@@ -62,7 +63,7 @@ export function createServiceConfig(): ServiceConfig {
     },
     
     tts: {
-      provider: 'elevenlabs',
+      provider: env.TTS_DEFAULT_PROVIDER || 'elevenlabs',
       apiKey: env.ELEVENLABS_API_KEY || '',
       model: env.TTS_MODEL_ID || 'eleven_multilingual_v2',
       voiceId: env.DEFAULT_VOICE_ID || 'default',
@@ -89,27 +90,16 @@ export function createServiceConfig(): ServiceConfig {
 export function initializeServices(config: ServiceConfig) {
   // Register services in container
   
-  // Text Generation Service
-  if (config.textGeneration.provider === 'mistral' || config.textGeneration.provider === 'anthropic') {
-    const mistralService = new AnthropicTextGenerationService(
-      config.textGeneration.apiKey,
-      config.textGeneration.model,
-      {
-        maxTokens: config.textGeneration.maxTokens,
-        temperature: config.textGeneration.temperature,
-      }
-    );
-    container.bind('ITextGenerationService').toConstantValue(mistralService);
-  }
+  // Text Generation and Chat Services (one adapter per configured LLM provider, fake for offline runs)
+  const aiServices = createAIServices();
+  container.bind('ITextGenerationService').toConstantValue(aiServices.textGeneration);
+  container.bind('IChatService').toConstantValue(aiServices.chat);
   
-  // TTS Service
-  if (config.tts.provider === 'elevenlabs') {
-    const elevenLabsService = new ElevenLabsTTSService(
-      config.tts.apiKey,
-      config.tts.model,
-      config.tts.voiceId
-    );
-    container.bind('ITTSService').toConstantValue(elevenLabsService);
+  // TTS Services (one adapter per configured provider)
+  const ttsRegistry = createTTSProviderRegistry(createTTSConfig());
+  container.bind('ITTSProviderRegistry').toConstantValue(ttsRegistry);
+  if (ttsRegistry.has(config.tts.provider)) {
+    container.bind('ITTSService').toConstantValue(ttsRegistry.get(config.tts.provider));
   }
   
   // CSV Parsing Service
@@ -143,7 +133,7 @@ export function initializeServices(config: ServiceConfig) {
   
   return {
     textGeneration: container.get('ITextGenerationService'),
-    tts: container.get('ITTSService'),
+    tts: container.get('ITTSProviderRegistry'),
     csvParsing: container.get('ICSVParsingService'),
     textChunking: container.get('ITextChunkingService'),
     audioMerge: container.get('IAudioMergeService'),
@@ -95,7 +95,7 @@ export function registerUseCases(container: Container): void {
   container.register('GenerateAudioForChunkUseCase', () => 
     new GenerateAudioForChunkUseCase(
       container.resolve('IAudioChunkRepository'),
-      container.resolve('ITTSService'),
+      container.resolve('ITTSProviderRegistry'),
       container.resolve('IStorageService'),
       container.resolve('IEventBus')
     )
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { PrismaEventStore } from './EventStore';
+import { DomainEvent } from '@/core/domain/events/base/DomainEvent';
+import { DatabaseError } from '@/shared/utils/errors/AppError';
+
+const OCCURRED_AT = new Date('2024-01-01T00:00:00.000Z');
+
+type Row = Record<string, unknown> & { sequence: number };
+
+interface Where {
+  eventType?: string | { in: string[] };
+  jobId?: string;
+  sequence?: { gt: number };
+}
+
+// In-memory storedEvent table answering the filters the store issues
+function stubPrisma() {
+  const rows: Row[] = [];
+  const storedEvent = {
+    createMany: vi.fn(async ({ data }: { data: Record<string, unknown>[] }) => {
+      for (const record of data) {
+        if (!rows.some((row) => row.id === record.id)) {
+          rows.push({ ...record, sequence: rows.length + 1 });
+        }
+      }
+      return { count: data.length };
+    }),
+    findMany: vi.fn(async ({ where, take }: { where: Where; take?: number }) => {
+      const matching = rows.filter((row) =>
+        (where.eventType === undefined ||
+          (typeof where.eventType === 'string'
+            ? row.eventType === where.eventType
+            : where.eventType.in.includes(row.eventType as string))) &&
+        (where.jobId === undefined || row.jobId === where.jobId) &&
+        (!where.sequence || row.sequence > where.sequence.gt)
+      );
+      return matching.slice(0, take);
+    }),
+  };
+  return { prisma: { storedEvent }, rows };
+}
+
+function event(eventType: string, payload: Record<string, unknown>, eventId = `${eventType}-1`): DomainEvent {
+  return {
+    eventId,
+    eventType,
+    occurredAt: OCCURRED_AT,
+    metadata: { timestamp: OCCURRED_AT, correlationId: 'corr-1' },
+    payload,
+  };
+}
+
+describe('PrismaEventStore', () => {
+  it('stores each event under its most specific aggregate and its job', async () => {
+    const { prisma, rows } = stubPrisma();
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+
+    await store.appendMany([
+      event('job.started', { jobId: 'job-1' }),
+      event('item.completed', { jobId: 'job-1', itemId: 'item-1' }),
+      event('chunk.created', { jobId: 'job-1', itemId: 'item-1', chunkId: 'chunk-1' }),
+    ]);
+
+    expect(rows.map((row) => [row.aggregateType, row.aggregateId, row.jobId])).toEqual([
+      ['job', 'job-1', 'job-1'],
+      ['item', 'item-1', 'job-1'],
+      ['chunk', 'chunk-1', 'job-1'],
+    ]);
+    expect(rows[0]).toMatchObject({ correlationId: 'corr-1', occurredAt: OCCURRED_AT });
+    expect(prisma.storedEvent.createMany).toHaveBeenCalledWith(expect.objectContaining({ skipDuplicates: true }));
+  });
+
+  it('prefers the aggregate set in the metadata', async () => {
+    const { prisma, rows } = stubPrisma();
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+    const stored = event('item.completed', { jobId: 'job-1', itemId: 'item-1' });
+
+    await store.append({ ...stored, metadata: { ...stored.metadata, aggregateType: 'job', aggregateId: 'job-1' } });
+
+    expect(rows[0]).toMatchObject({ aggregateType: 'job', aggregateId: 'job-1' });
+  });
+
+  it('reads events back with their sequence and dates restored', async () => {
+    const { prisma } = stubPrisma();
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+
+    await store.append(event('item.completed', { jobId: 'job-1', itemId: 'item-1', completedAt: OCCURRED_AT }));
+    const [stored] = await store.getEvents({ jobId: 'job-1' });
+
+    expect(stored).toMatchObject({ eventId: 'item.completed-1', sequence: 1, eventType: 'item.completed' });
+    expect(stored.payload).toEqual({ jobId: 'job-1', itemId: 'item-1', completedAt: OCCURRED_AT });
+    expect(stored.metadata.timestamp).toEqual(OCCURRED_AT);
+  });
+
+  it('builds the filter from the query', async () => {
+    const { prisma } = stubPrisma();
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+    const since = new Date('2023-12-01T00:00:00Z');
+
+    await store.getEvents({ eventTypes: ['item.completed', 'item.failed'], since, afterSequence: 4 });
+
+    expect(prisma.storedEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        eventType: { in: ['item.completed', 'item.failed'] },
+        occurredAt: { gte: since },
+        sequence: { gt: 4 },
+      },
+      orderBy: { sequence: 'asc' },
+    }));
+  });
+
+  it('replays every matching event in order, page by page', async () => {
+    const { prisma } = stubPrisma();
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+    await store.appendMany(Array.from({ length: 1200 }, (_, i) =>
+      event(i % 2 === 0 ? 'chunk.created' : 'job.started', { jobId: 'job-1' }, `event-${i}`)
+    ));
+    const handled: string[] = [];
+
+    const count = await store.replay(
+      { handle: async (replayed) => { handled.push(replayed.eventId); } },
+      { eventType: 'chunk.created' }
+    );
+
+    expect(count).toBe(600);
+    expect(handled).toEqual(Array.from({ length: 600 }, (_, i) => `event-${i * 2}`));
+    // Two full pages of 500, then the remainder
+    expect(prisma.storedEvent.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops a replay at the query limit', async () => {
+    const { prisma } = stubPrisma();
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+    await store.appendMany(Array.from({ length: 10 }, (_, i) => event('job.started', { jobId: 'job-1' }, `event-${i}`)));
+    const handle = vi.fn().mockResolvedValue(undefined);
+
+    expect(await store.replay({ handle }, { limit: 3 })).toBe(3);
+    expect(handle).toHaveBeenCalledTimes(3);
+  });
+
+  it('wraps database failures', async () => {
+    const { prisma } = stubPrisma();
+    prisma.storedEvent.createMany.mockRejectedValueOnce(new Error('connection lost'));
+    const store = new PrismaEventStore(prisma as unknown as PrismaClient);
+
+    await expect(store.append(event('job.started', { jobId: 'job-1' }))).rejects.toThrow(DatabaseError);
+  });
+});
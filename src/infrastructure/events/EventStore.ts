@@ -0,0 +1,175 @@
+// src/infrastructure/events/EventStore.ts
+// Prisma implementation of IEventStore: persists every published DomainEvent
+// and replays them into handlers (e.g. to rebuild projections after a restart)
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { PrismaClient } from '@prisma/client';
+import { IEventStore, EventStoreQuery, StoredEvent } from '@/core/ports/events/IEventStore';
+import { IEventHandler } from '@/core/ports/events/IEventHandler';
+import { DomainEvent } from '@/core/domain/events/base/DomainEvent';
+import { AggregateType, EventMetadata } from '@/core/domain/events/base/EventMetadata';
+import { DatabaseError } from '@/shared/utils/errors/AppError';
+
+// Page size when replaying, so large histories are never loaded at once
+const REPLAY_BATCH_SIZE = 500;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export class PrismaEventStore implements IEventStore, IEventHandler {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  // Subscribed to every event type on the event bus
+  async handle(event: DomainEvent): Promise<void> {
+    await this.append(event);
+  }
+
+  async append(event: DomainEvent): Promise<void> {
+    await this.appendMany([event]);
+  }
+
+  async appendMany(events: DomainEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    try {
+      // Re-published events (same eventId) are stored once
+      await this.prisma.storedEvent.createMany({
+        data: events.map((event) => this.toRecord(event)),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      throw new DatabaseError(`Failed to append events: ${error}`, {
+        eventTypes: [...new Set(events.map((event) => event.eventType))],
+      });
+    }
+  }
+
+  async getEvents(query?: EventStoreQuery): Promise<StoredEvent[]> {
+    try {
+      const records = await this.prisma.storedEvent.findMany({
+        where: this.buildWhere(query),
+        orderBy: { sequence: 'asc' },
+        take: query?.limit,
+        skip: query?.offset,
+      });
+
+      return records.map((record: any) => this.toEvent(record));
+    } catch (error) {
+      throw new DatabaseError(`Failed to read events: ${error}`);
+    }
+  }
+
+  async getStream(aggregateType: AggregateType, aggregateId: string): Promise<StoredEvent[]> {
+    return await this.getEvents({ aggregateType, aggregateId });
+  }
+
+  async replay(handler: IEventHandler, query?: EventStoreQuery): Promise<number> {
+    let afterSequence = query?.afterSequence ?? 0;
+    let remaining = query?.limit ?? Infinity;
+    let replayed = 0;
+
+    // Paginates on the sequence (not offset) so events appended meanwhile are picked up
+    while (remaining > 0) {
+      const batch = await this.getEvents({
+        ...query,
+        afterSequence,
+        offset: undefined,
+        limit: Math.min(REPLAY_BATCH_SIZE, remaining),
+      });
+
+      for (const event of batch) {
+        await handler.handle(event);
+      }
+
+      replayed += batch.length;
+      remaining -= batch.length;
+
+      if (batch.length < REPLAY_BATCH_SIZE) break;
+      afterSequence = batch[batch.length - 1].sequence;
+    }
+
+    return replayed;
+  }
+
+  private buildWhere(query?: EventStoreQuery): Record<string, unknown> {
+    const where: Record<string, unknown> = {};
+    if (!query) return where;
+
+    if (query.eventType) {
+      where.eventType = query.eventType;
+    } else if (query.eventTypes) {
+      where.eventType = { in: query.eventTypes };
+    }
+
+    if (query.aggregateType) where.aggregateType = query.aggregateType;
+    if (query.aggregateId) where.aggregateId = query.aggregateId;
+    if (query.jobId) where.jobId = query.jobId;
+    if (query.correlationId) where.correlationId = query.correlationId;
+
+    if (query.since || query.until) {
+      where.occurredAt = {
+        ...(query.since ? { gte: query.since } : {}),
+        ...(query.until ? { lte: query.until } : {}),
+      };
+    }
+
+    if (query.afterSequence !== undefined) {
+      where.sequence = { gt: query.afterSequence };
+    }
+
+    return where;
+  }
+
+  private toRecord(event: DomainEvent) {
+    const aggregate = this.resolveAggregate(event);
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+
+    return {
+      id: event.eventId,
+      eventType: event.eventType,
+      aggregateType: aggregate?.type ?? null,
+      aggregateId: aggregate?.id ?? null,
+      jobId: typeof payload.jobId === 'string' ? payload.jobId : aggregate?.type === 'job' ? aggregate.id : null,
+      correlationId: event.metadata?.correlationId ?? null,
+      causationId: event.metadata?.causationId ?? null,
+      payload: JSON.stringify(event.payload ?? null),
+      metadata: JSON.stringify(event.metadata ?? {}),
+      occurredAt: event.occurredAt,
+    };
+  }
+
+  // Explicit metadata wins; otherwise the most specific id found in the payload
+  private resolveAggregate(event: DomainEvent): { type: AggregateType; id: string } | null {
+    const { aggregateType, aggregateId } = event.metadata ?? {};
+    if (aggregateType && aggregateId) {
+      return { type: aggregateType, id: aggregateId };
+    }
+
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    if (typeof payload.chunkId === 'string') return { type: 'chunk', id: payload.chunkId };
+    if (typeof payload.itemId === 'string') return { type: 'item', id: payload.itemId };
+    if (typeof payload.jobId === 'string') return { type: 'job', id: payload.jobId };
+
+    return null;
+  }
+
+  private toEvent(record: any): StoredEvent {
+    const metadata = this.parse(record.metadata) as EventMetadata;
+
+    return {
+      eventId: record.id,
+      eventType: record.eventType,
+      sequence: record.sequence,
+      occurredAt: record.occurredAt,
+      metadata: { ...metadata, timestamp: new Date(metadata.timestamp ?? record.occurredAt) },
+      payload: this.parse(record.payload),
+    };
+  }
+
+  // Dates were serialized as ISO strings: restore them so replayed payloads match the originals
+  private parse(json: string): any {
+    return JSON.parse(json, (_key, value) =>
+      typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value
+    );
+  }
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
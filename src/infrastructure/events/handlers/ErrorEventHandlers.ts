@@ -0,0 +1,25 @@
+// src/infrastructure/events/handlers/ErrorEventHandlers.ts
+// Event handlers for error-related events
+
+import { IEventBus } from '@/core/ports/events/IEventBus';
+import { IEventHandler } from '@/core/ports/events/IEventHandler';
+import { RateLimitHitEvent } from '@/core/domain/events/error/RateLimitHitEvent';
+import { RateLimitStrategy } from '../../queue/strategies/RateLimitStrategy';
+
+export class ErrorEventHandlers {
+  constructor(private readonly rateLimiter: RateLimitStrategy) {}
+
+  // Pauses calls (and dequeuing) for the provider until the Retry-After has elapsed
+  handleRateLimitHit(): IEventHandler<RateLimitHitEvent> {
+    return {
+      handle: async (event: RateLimitHitEvent) => {
+        this.rateLimiter.handleRateLimitHit(event);
+      },
+    };
+  }
+
+  // Register all handlers with event bus
+  registerHandlers(eventBus: IEventBus): void {
+    eventBus.subscribe('error.ratelimit.hit', this.handleRateLimitHit());
+  }
+}
@@ -22,9 +22,7 @@ export class ItemEventHandlers {
 
         console.log('Item validation completed:', itemId);
 
-        // Add to text-generation queue
-        const textGenQueue = this.queueManager.getQueue<{ itemId: string }>('text-generation');
-        await textGenQueue.enqueue('generate_text', { itemId });
+        // Next step (text-generation) is queued by ValidationWorker
       },
     };
   }
@@ -36,9 +34,7 @@ export class ItemEventHandlers {
 
         console.log('Text generation completed:', itemId);
 
-        // Add to text-chunking queue
-        const chunkingQueue = this.queueManager.getQueue<{ itemId: string }>('text-chunking');
-        await chunkingQueue.enqueue('chunk_text', { itemId });
+        // Next step (text-chunking) is queued by TextGenerationWorker
       },
     };
   }
@@ -50,8 +46,7 @@ export class ItemEventHandlers {
 
         console.log('Text chunking completed:', itemId, `(${chunkCount} chunks)`);
 
-        // In a real implementation, we would fetch chunks and enqueue each one
-        // For now, we'll skip the audio queue assignment
+        // One audio-generation job per chunk is queued by TextChunkingWorker
       },
     };
   }
@@ -63,9 +58,7 @@ export class ItemEventHandlers {
 
         console.log('Audio chunk generated:', itemId, `chunk ${chunkIndex}`);
 
-        // In a real implementation, we would check if all chunks are done
-        // and then add to merge queue
-        // For now, this would be handled by tracking completed chunks
+        // AudioGenerationWorker queues the merge once every chunk is done
       },
     };
   }
@@ -77,9 +70,7 @@ export class ItemEventHandlers {
 
         console.log('Item completed:', itemId, `(job: ${jobId})`);
 
-        // Optionally upload final audio to storage
-        // const uploadQueue = this.queueManager.getQueue<{ itemId: string }>('upload');
-        // await uploadQueue.enqueue('upload_audio', { itemId });
+        // Final upload is queued by AudioMergeWorker
       },
     };
   }
@@ -0,0 +1,51 @@
+// src/infrastructure/events/handlers/PodcastFeedEventHandlers.ts
+// Rebuilds the job and channel podcast feeds when an item completes
+
+import { IEventBus } from '@/core/ports/events/IEventBus';
+import { IEventHandler } from '@/core/ports/events/IEventHandler';
+import { ItemCompletedEvent } from '@/core/domain/events/item/ItemCompletedEvent';
+import { GeneratePodcastFeedUseCase } from '@/core/domain/use-cases/job/GeneratePodcastFeedUseCase';
+import { logger } from '@/shared/lib/logger';
+
+// Items of a job complete in bursts: one rebuild per feed for the whole burst
+const REGENERATION_DELAY_MS = 5000;
+
+export class PodcastFeedEventHandlers {
+  private readonly pending: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(
+    private readonly generatePodcastFeed: GeneratePodcastFeedUseCase,
+    private readonly delayMs: number = REGENERATION_DELAY_MS
+  ) {}
+
+  handleItemCompleted(): IEventHandler<ItemCompletedEvent> {
+    return {
+      handle: async (event: ItemCompletedEvent) => {
+        this.scheduleRegeneration(event.payload.jobId);
+        this.scheduleRegeneration(undefined);
+      },
+    };
+  }
+
+  // Register all handlers with event bus
+  registerHandlers(eventBus: IEventBus): void {
+    eventBus.subscribe('item.completed', this.handleItemCompleted());
+  }
+
+  private scheduleRegeneration(jobId: string | undefined): void {
+    const key = GeneratePodcastFeedUseCase.getFeedKey(jobId);
+    if (this.pending.has(key)) return;
+
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      this.generatePodcastFeed.execute({ jobId, regenerate: true }).catch((error) => {
+        // The stale feed keeps being served until the next completion
+        logger.error('Failed to regenerate podcast feed', error instanceof Error ? error : undefined, { key });
+      });
+    }, this.delayMs);
+    // Never keeps a worker process alive on shutdown
+    timer.unref?.();
+
+    this.pending.set(key, timer);
+  }
+}
@@ -5,9 +5,21 @@ export * from './database/repositories';
 export * from './services';
 export { QueueManager } from './queue/QueueManager';
 export { InMemoryQueue } from './queue/InMemoryQueue';
+export { RedisQueue } from './queue/RedisQueue';
+export { PostgresQueue } from './queue/PostgresQueue';
+export { WorkerManager, createPipelineWorkerManager } from './queue/WorkerManager';
+export { RateLimitStrategy } from './queue/strategies/RateLimitStrategy';
+export { RetryStrategy } from './queue/strategies/RetryStrategy';
+export { PrismaEventStore } from './events/EventStore';
 export { InMemoryEventBus } from './events/InMemoryEventBus';
 export { SSEManager } from './streaming/SSEManager';
 export { JobChannel } from './streaming/channels/JobChannel';
 export { ItemChannel } from './streaming/channels/ItemChannel';
+export { ChatChannel } from './streaming/channels/ChatChannel';
+export { InMemoryBroadcastBackend } from './streaming/backends/InMemoryBroadcastBackend';
+export { PostgresBroadcastBackend } from './streaming/backends/PostgresBroadcastBackend';
+export { WebSocketGateway } from './streaming/websocket/WebSocketGateway';
+export { createSSEResponse } from './streaming/SSEStream';
 export { JobEventHandlers } from './events/handlers/JobEventHandlers';
 export { ItemEventHandlers } from './events/handlers/ItemEventHandlers';
+export { ErrorEventHandlers } from './events/handlers/ErrorEventHandlers';
@@ -5,15 +5,21 @@ import {
   IQueue,
   QueueJob,
   EnqueueOptions,
+  FailOptions,
 } from '@/core/ports/queue/IQueue';
 import { ValidationError } from '@/shared/utils/errors/AppError';
+import { PriorityStrategy, normalizePriority } from './strategies/PriorityStrategy';
 
 export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
   private readonly jobs: Map<string, QueueJob<TPayload>> = new Map();
-  private readonly queue: string[] = [];
+  // Ready job IDs per fairness group, highest priority first
+  private readonly groups: Map<string, string[]> = new Map();
   private readonly name: string;
 
-  constructor(name: string) {
+  constructor(
+    name: string,
+    private readonly priorityStrategy: PriorityStrategy = new PriorityStrategy()
+  ) {
     if (!name || name.trim().length === 0) {
       throw new ValidationError('Queue name cannot be empty');
     }
@@ -29,9 +35,14 @@ export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
     payload: TPayload,
     options?: EnqueueOptions
   ): Promise<string> {
-    const id = `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const id = options?.jobId || `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
     const now = new Date();
 
+    // Same jobId still queued: enqueue is idempotent
+    if (this.jobs.has(id)) {
+      return id;
+    }
+
     const job: QueueJob<TPayload> = {
       id,
       type,
@@ -42,12 +53,14 @@ export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
       availableAt: options?.delayMs
         ? new Date(now.getTime() + options.delayMs)
         : undefined,
+      priority: normalizePriority(options?.priority),
+      fairnessKey: options?.fairnessKey ?? '',
     };
 
     this.jobs.set(id, job);
 
     if (!options?.delayMs || options.delayMs <= 0) {
-      this.queue.push(id);
+      this.pushReady(job);
     } else {
       // Delayed job - schedule it
       this.scheduleDelayedJob(id, options.delayMs);
@@ -57,18 +70,30 @@ export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
   }
 
   async dequeue(): Promise<QueueJob<TPayload> | null> {
-    const jobId = this.queue.shift();
+    const candidates = Array.from(this.groups.entries()).map(([fairnessKey, ids]) => ({
+      fairnessKey,
+      priority: this.jobs.get(ids[0])?.priority ?? 1,
+    }));
 
-    if (!jobId) {
+    const selected = this.priorityStrategy.select(candidates);
+    if (!selected) {
       return null;
     }
 
+    const ids = this.groups.get(selected.fairnessKey)!;
+    const jobId = ids.shift()!;
+    if (ids.length === 0) {
+      this.groups.delete(selected.fairnessKey);
+    }
+
     const job = this.jobs.get(jobId);
 
     if (!job) {
       return null;
     }
 
+    this.priorityStrategy.charge(selected);
+
     return job;
   }
 
@@ -82,7 +107,7 @@ export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
     this.jobs.delete(jobId);
   }
 
-  async fail(jobId: string, error: unknown): Promise<void> {
+  async fail(jobId: string, error: unknown, options?: FailOptions): Promise<void> {
     const job = this.jobs.get(jobId);
 
     if (!job) {
@@ -91,9 +116,15 @@ export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
 
     job.attempts++;
 
-    if (job.attempts < job.maxAttempts) {
+    const retry = options?.retry ?? job.attempts < job.maxAttempts;
+
+    if (retry && options?.delayMs && options.delayMs > 0) {
+      // Re-queue for retry after the backoff
+      job.availableAt = new Date(Date.now() + options.delayMs);
+      this.scheduleDelayedJob(jobId, options.delayMs);
+    } else if (retry) {
       // Re-queue for retry
-      this.queue.push(jobId);
+      this.pushReady(job);
     } else {
       // Max attempts reached, remove from queue
       this.jobs.delete(jobId);
@@ -106,13 +137,34 @@ export class InMemoryQueue<TPayload = unknown> implements IQueue<TPayload> {
   }
 
   async size(): Promise<number> {
-    return this.queue.length;
+    let size = 0;
+    for (const ids of this.groups.values()) {
+      size += ids.length;
+    }
+    return size;
+  }
+
+  // Inserts after every job of the same or higher priority (FIFO within a priority)
+  private pushReady(job: QueueJob<TPayload>): void {
+    const key = job.fairnessKey ?? '';
+    const ids = this.groups.get(key) ?? [];
+    const priority = job.priority ?? 1;
+
+    const index = ids.findIndex((id) => (this.jobs.get(id)?.priority ?? 1) < priority);
+    if (index === -1) {
+      ids.push(job.id);
+    } else {
+      ids.splice(index, 0, job.id);
+    }
+
+    this.groups.set(key, ids);
   }
 
   private scheduleDelayedJob(jobId: string, delayMs: number): void {
     setTimeout(() => {
-      if (this.jobs.has(jobId)) {
-        this.queue.push(jobId);
+      const job = this.jobs.get(jobId);
+      if (job) {
+        this.pushReady(job);
       }
     }, delayMs);
   }
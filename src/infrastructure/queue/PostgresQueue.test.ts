@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { PostgresQueue } from './PostgresQueue';
+import { MAX_QUEUE_PRIORITY } from './strategies/PriorityStrategy';
+import { DatabaseError, ValidationError } from '@/shared/utils/errors/AppError';
+
+// The SQL needs a real Postgres: these tests cover the queries the queue issues and
+// how it reads their results, with a Prisma stub answering like the database
+const NOW = new Date('2024-01-01T00:00:00Z');
+
+type RawHandler = (sql: string, values: unknown[]) => unknown;
+
+function stubPrisma(raw: RawHandler = () => []) {
+  const queueJob = {
+    deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
+    createMany: vi.fn().mockResolvedValue({ count: 1 }),
+    updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    count: vi.fn().mockResolvedValue(0),
+    findMany: vi.fn().mockResolvedValue([]),
+  };
+  const prisma = {
+    queueJob,
+    $transaction: vi.fn(async (operations: Promise<unknown>[]) => await Promise.all(operations)),
+    $queryRaw: vi.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => raw(strings.join('?'), values)),
+    $executeRaw: vi.fn().mockResolvedValue(0),
+  };
+  return prisma;
+}
+
+function createQueue(prisma: ReturnType<typeof stubPrisma>): PostgresQueue<{ itemId: string }> {
+  return new PostgresQueue('audio', prisma as unknown as PrismaClient, { visibilityTimeoutMs: 30_000 });
+}
+
+function row(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    queue: 'audio',
+    type: 'generate_audio',
+    payload: JSON.stringify({ itemId: 'item-1' }),
+    status: 'PROCESSING',
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: null,
+    priority: 4,
+    fairnessKey: 'job-a',
+    availableAt: NOW,
+    lockedUntil: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('PostgresQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replaces a dead-lettered job and skips a pending duplicate in one transaction', async () => {
+    const prisma = stubPrisma();
+
+    const id = await createQueue(prisma).enqueue(
+      'generate_audio',
+      { itemId: 'item-1' },
+      { jobId: 'job-1', priority: 1000, fairnessKey: 'job-a', delayMs: 5000 }
+    );
+
+    expect(id).toBe('job-1');
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.queueJob.deleteMany).toHaveBeenCalledWith({ where: { queue: 'audio', id: 'job-1', status: 'DEAD' } });
+    expect(prisma.queueJob.createMany).toHaveBeenCalledWith({
+      data: [{
+        id: 'job-1',
+        queue: 'audio',
+        type: 'generate_audio',
+        payload: JSON.stringify({ itemId: 'item-1' }),
+        maxAttempts: 3,
+        priority: MAX_QUEUE_PRIORITY,
+        fairnessKey: 'job-a',
+        availableAt: new Date(NOW.getTime() + 5000),
+        createdAt: NOW,
+      }],
+      skipDuplicates: true,
+    });
+  });
+
+  it('wraps database failures in a DatabaseError', async () => {
+    const prisma = stubPrisma();
+    prisma.$transaction.mockRejectedValue(new Error('connection refused'));
+
+    await expect(createQueue(prisma).enqueue('generate_audio', { itemId: 'item-1' })).rejects.toBeInstanceOf(DatabaseError);
+  });
+
+  it('dequeues from the selected group and falls back to the next one when it was drained', async () => {
+    const prisma = stubPrisma((sql, values) => {
+      if (sql.includes('GROUP BY')) return [{ fairnessKey: 'job-a', priority: 5 }, { fairnessKey: 'job-b', priority: 1 }];
+      return values.includes('job-b') ? [row('job-2', { fairnessKey: 'job-b' })] : [];
+    });
+
+    const job = await createQueue(prisma).dequeue();
+
+    expect(job).toEqual({
+      id: 'job-2',
+      type: 'generate_audio',
+      payload: { itemId: 'item-1' },
+      attempts: 1,
+      maxAttempts: 3,
+      createdAt: NOW,
+      availableAt: NOW,
+      priority: 4,
+      fairnessKey: 'job-b',
+    });
+    const dequeues = prisma.$queryRaw.mock.calls.filter(([strings]) => strings.join('').includes('SKIP LOCKED'));
+    expect(dequeues).toHaveLength(2);
+    // The lease deadline is one visibility timeout away
+    expect(dequeues[0]).toContainEqual(new Date(NOW.getTime() + 30_000));
+  });
+
+  it('reclaims expired leases at most once per reclaim interval', async () => {
+    const prisma = stubPrisma();
+    const queue = createQueue(prisma);
+
+    await queue.dequeue();
+    await queue.dequeue();
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW.getTime() + 5000);
+    await queue.dequeue();
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('acks only the lease it holds', async () => {
+    const prisma = stubPrisma();
+    const queue = createQueue(prisma);
+
+    await queue.ack('job-1', 2);
+    await queue.ack('job-1');
+
+    expect(prisma.queueJob.deleteMany.mock.calls.map(([args]) => args.where)).toEqual([
+      { queue: 'audio', id: 'job-1', status: 'PROCESSING', attempts: 2 },
+      { queue: 'audio', id: 'job-1' },
+    ]);
+  });
+
+  it('tells a lost lease from a missing job', async () => {
+    const prisma = stubPrisma();
+    prisma.queueJob.deleteMany.mockResolvedValue({ count: 0 });
+    const queue = createQueue(prisma);
+
+    prisma.queueJob.count.mockResolvedValueOnce(1);
+    await expect(queue.ack('job-1', 2)).rejects.toThrow('Job job-1 lease was lost');
+
+    prisma.queueJob.count.mockResolvedValueOnce(0);
+    await expect(queue.ack('job-1', 2)).rejects.toThrow('Job job-1 not found');
+    await expect(queue.ack('job-1')).rejects.toThrow('Job job-1 not found');
+  });
+
+  it('fails a job with the retry decision, the backoff and the lease', async () => {
+    const prisma = stubPrisma(() => [{ status: 'PENDING', attempts: 2 }]);
+
+    await createQueue(prisma).fail('job-1', new Error('Bad gateway'), { retry: true, delayMs: 1500 }, 1);
+
+    const values = prisma.$queryRaw.mock.calls[0].slice(1);
+    expect(values).toEqual(expect.arrayContaining([true, 'Bad gateway', new Date(NOW.getTime() + 1500), 'job-1', 1]));
+  });
+
+  it('rejects failing a job whose lease was lost', async () => {
+    const prisma = stubPrisma(() => []);
+    prisma.queueJob.count.mockResolvedValue(1);
+
+    const failed = createQueue(prisma).fail('job-1', new Error('late'), undefined, 1);
+
+    await expect(failed).rejects.toBeInstanceOf(ValidationError);
+    await expect(failed).rejects.toThrow('lease was lost');
+  });
+
+  it('extends the lease of a job it is processing', async () => {
+    const prisma = stubPrisma();
+    const queue = createQueue(prisma);
+
+    await queue.extendVisibility('job-1', 1);
+    expect(prisma.queueJob.updateMany).toHaveBeenCalledWith({
+      where: { queue: 'audio', id: 'job-1', status: 'PROCESSING', attempts: 1 },
+      data: { lockedUntil: new Date(NOW.getTime() + 30_000) },
+    });
+
+    prisma.queueJob.updateMany.mockResolvedValue({ count: 0 });
+    await expect(queue.extendVisibility('job-1', 1)).rejects.toThrow('Job job-1 is not being processed');
+  });
+});
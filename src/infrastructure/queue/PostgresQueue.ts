@@ -0,0 +1,336 @@
+// src/infrastructure/queue/PostgresQueue.ts
+// Durable queue stored in the Prisma QueueJob table (dequeue via FOR UPDATE SKIP LOCKED)
+
+import { PrismaClient } from '@prisma/client';
+import {
+  IQueue,
+  QueueJob,
+  EnqueueOptions,
+  DeadLetterJob,
+  FailOptions,
+} from '@/core/ports/queue/IQueue';
+import { DatabaseError, ValidationError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+import { FairShareCandidate, PriorityStrategy, normalizePriority } from './strategies/PriorityStrategy';
+
+export interface PostgresQueueOptions {
+  visibilityTimeoutMs: number;
+  // Minimum delay between two sweeps for expired leases
+  reclaimIntervalMs?: number;
+}
+
+interface QueueJobRow {
+  id: string;
+  queue: string;
+  type: string;
+  payload: string;
+  status: 'PENDING' | 'PROCESSING' | 'DEAD';
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  priority: number;
+  fairnessKey: string;
+  availableAt: Date;
+  lockedUntil: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class PostgresQueue<TPayload = unknown> implements IQueue<TPayload> {
+  private readonly name: string;
+  private lastReclaimAt = 0;
+
+  constructor(
+    name: string,
+    private readonly prisma: PrismaClient,
+    private readonly options: PostgresQueueOptions,
+    private readonly priorityStrategy: PriorityStrategy = new PriorityStrategy()
+  ) {
+    if (!name || name.trim().length === 0) {
+      throw new ValidationError('Queue name cannot be empty');
+    }
+    this.name = name;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async enqueue(
+    type: string,
+    payload: TPayload,
+    options?: EnqueueOptions
+  ): Promise<string> {
+    const id = options?.jobId || `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const now = new Date();
+
+    try {
+      // skipDuplicates makes enqueue idempotent for a caller-supplied jobId while the
+      // job is pending or in flight (acked jobs are deleted); a dead-lettered job with
+      // the same id is replaced, so a step can be queued again under its fixed id
+      await this.prisma.$transaction([
+        this.prisma.queueJob.deleteMany({
+          where: { queue: this.name, id, status: 'DEAD' },
+        }),
+        this.prisma.queueJob.createMany({
+          data: [
+            {
+              id,
+              queue: this.name,
+              type,
+              payload: JSON.stringify(payload),
+              maxAttempts: options?.maxAttempts || 3,
+              priority: normalizePriority(options?.priority),
+              fairnessKey: options?.fairnessKey ?? '',
+              availableAt: options?.delayMs && options.delayMs > 0
+                ? new Date(now.getTime() + options.delayMs)
+                : now,
+              createdAt: now,
+            },
+          ],
+          skipDuplicates: true,
+        }),
+      ]);
+    } catch (error) {
+      throw new DatabaseError(`Failed to enqueue job: ${error}`, { queue: this.name, jobId: id });
+    }
+
+    return id;
+  }
+
+  async dequeue(): Promise<QueueJob<TPayload> | null> {
+    await this.reclaimExpiredLeases();
+
+    const candidates = await this.getCandidates();
+
+    // Another worker may drain the selected group between the two queries:
+    // fall back to the next group rather than returning empty-handed
+    while (candidates.length > 0) {
+      const selected = this.priorityStrategy.select(candidates);
+      if (!selected) break;
+
+      const job = await this.dequeueFromGroup(selected.fairnessKey);
+      if (job) {
+        this.priorityStrategy.charge(selected);
+        return job;
+      }
+
+      candidates.splice(candidates.indexOf(selected), 1);
+    }
+
+    return null;
+  }
+
+  async ack(jobId: string, lease?: number): Promise<void> {
+    let count: number;
+
+    try {
+      ({ count } = await this.prisma.queueJob.deleteMany({
+        where: { queue: this.name, id: jobId, ...this.leaseFilter(lease) },
+      }));
+    } catch (error) {
+      throw new DatabaseError(`Failed to ack job: ${error}`, { queue: this.name, jobId });
+    }
+
+    if (count === 0) {
+      throw await this.missingJobError(jobId, lease);
+    }
+  }
+
+  async fail(jobId: string, error: unknown, options?: FailOptions, lease?: number): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date();
+    const retry = options?.retry ?? null;
+    const availableAt = new Date(now.getTime() + Math.max(0, options?.delayMs ?? 0));
+    let rows: Pick<QueueJobRow, 'status' | 'attempts'>[];
+
+    try {
+      // SET expressions see the pre-update row, so attempts + 1 is the new count;
+      // an explicit retry decision takes precedence over maxAttempts
+      rows = await this.prisma.$queryRaw<Pick<QueueJobRow, 'status' | 'attempts'>[]>`
+        UPDATE "QueueJob"
+        SET "attempts" = "attempts" + 1,
+            "status" = (CASE
+              WHEN ${retry}::boolean IS NOT NULL THEN (CASE WHEN ${retry}::boolean THEN 'PENDING' ELSE 'DEAD' END)
+              WHEN "attempts" + 1 >= "maxAttempts" THEN 'DEAD'
+              ELSE 'PENDING'
+            END)::"QueueJobStatus",
+            "lastError" = ${message},
+            "lockedUntil" = NULL,
+            "availableAt" = ${availableAt},
+            "updatedAt" = ${now}
+        WHERE "queue" = ${this.name} AND "id" = ${jobId}
+          AND (${lease ?? null}::int IS NULL OR ("status" = 'PROCESSING'::"QueueJobStatus" AND "attempts" = ${lease ?? null}::int))
+        RETURNING "status", "attempts"
+      `;
+    } catch (dbError) {
+      throw new DatabaseError(`Failed to fail job: ${dbError}`, { queue: this.name, jobId });
+    }
+
+    if (rows.length === 0) {
+      throw await this.missingJobError(jobId, lease);
+    }
+
+    if (rows[0].status === 'DEAD') {
+      logger.error(
+        `Job ${jobId} moved to dead-letter list`,
+        error instanceof Error ? error : undefined,
+        { queue: this.name, attempts: rows[0].attempts, error: message }
+      );
+    }
+  }
+
+  async size(): Promise<number> {
+    return await this.prisma.queueJob.count({
+      where: {
+        queue: this.name,
+        status: 'PENDING',
+        availableAt: { lte: new Date() },
+      },
+    });
+  }
+
+  // Pushes the lease deadline of a long-running job so it is not reclaimed
+  async extendVisibility(
+    jobId: string,
+    lease?: number,
+    visibilityTimeoutMs: number = this.options.visibilityTimeoutMs
+  ): Promise<void> {
+    const { count } = await this.prisma.queueJob.updateMany({
+      where: { queue: this.name, id: jobId, status: 'PROCESSING', ...this.leaseFilter(lease) },
+      data: { lockedUntil: new Date(Date.now() + visibilityTimeoutMs) },
+    });
+
+    if (count === 0) {
+      throw new ValidationError(`Job ${jobId} is not being processed`);
+    }
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<DeadLetterJob<TPayload>[]> {
+    const rows: QueueJobRow[] = await this.prisma.queueJob.findMany({
+      where: { queue: this.name, status: 'DEAD' },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+
+    return rows.map((row) => ({
+      ...this.toJob(row),
+      lastError: row.lastError ?? undefined,
+      failedAt: row.updatedAt,
+    }));
+  }
+
+  async deadLetterSize(): Promise<number> {
+    return await this.prisma.queueJob.count({
+      where: { queue: this.name, status: 'DEAD' },
+    });
+  }
+
+  // A lease is the attempts count the job was dequeued with; reclaiming an expired
+  // lease increments it, so only the worker holding the current lease matches
+  private leaseFilter(lease?: number): { status?: 'PROCESSING'; attempts?: number } {
+    return lease === undefined ? {} : { status: 'PROCESSING', attempts: lease };
+  }
+
+  private async missingJobError(jobId: string, lease?: number): Promise<ValidationError> {
+    if (lease !== undefined) {
+      const exists = await this.prisma.queueJob.count({ where: { queue: this.name, id: jobId } });
+      if (exists > 0) {
+        return new ValidationError(`Job ${jobId} lease was lost`, { jobId, lease });
+      }
+    }
+    return new ValidationError(`Job ${jobId} not found`);
+  }
+
+  // Fairness groups with ready jobs, with the priority of their next job
+  private async getCandidates(): Promise<FairShareCandidate[]> {
+    const now = new Date();
+
+    try {
+      return await this.prisma.$queryRaw<FairShareCandidate[]>`
+        SELECT "fairnessKey", MAX("priority")::int AS "priority"
+        FROM "QueueJob"
+        WHERE "queue" = ${this.name}
+          AND "status" = 'PENDING'::"QueueJobStatus"
+          AND "availableAt" <= ${now}
+        GROUP BY "fairnessKey"
+      `;
+    } catch (error) {
+      throw new DatabaseError(`Failed to list ready job groups: ${error}`, { queue: this.name });
+    }
+  }
+
+  private async dequeueFromGroup(fairnessKey: string): Promise<QueueJob<TPayload> | null> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + this.options.visibilityTimeoutMs);
+
+    try {
+      // Timestamps come from the app, like every other Prisma write, so the
+      // comparison does not depend on the database session time zone
+      const rows = await this.prisma.$queryRaw<QueueJobRow[]>`
+        UPDATE "QueueJob"
+        SET "status" = 'PROCESSING'::"QueueJobStatus",
+            "lockedUntil" = ${lockedUntil},
+            "updatedAt" = ${now}
+        WHERE ("queue", "id") = (
+          SELECT "queue", "id" FROM "QueueJob"
+          WHERE "queue" = ${this.name}
+            AND "status" = 'PENDING'::"QueueJobStatus"
+            AND "fairnessKey" = ${fairnessKey}
+            AND "availableAt" <= ${now}
+          ORDER BY "priority" DESC, "availableAt" ASC, "createdAt" ASC
+          FOR UPDATE SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING *
+      `;
+
+      return rows.length > 0 ? this.toJob(rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to dequeue job: ${error}`, { queue: this.name });
+    }
+  }
+
+  // Lease expired: the worker crashed or stalled, count it as a failed attempt
+  private async reclaimExpiredLeases(): Promise<void> {
+    const now = new Date();
+    if (now.getTime() - this.lastReclaimAt < (this.options.reclaimIntervalMs ?? 5000)) {
+      return;
+    }
+    this.lastReclaimAt = now.getTime();
+
+    try {
+      const reclaimed = await this.prisma.$executeRaw`
+        UPDATE "QueueJob"
+        SET "attempts" = "attempts" + 1,
+            "status" = (CASE WHEN "attempts" + 1 >= "maxAttempts" THEN 'DEAD' ELSE 'PENDING' END)::"QueueJobStatus",
+            "lastError" = 'Visibility timeout expired',
+            "lockedUntil" = NULL,
+            "updatedAt" = ${now}
+        WHERE "queue" = ${this.name}
+          AND "status" = 'PROCESSING'::"QueueJobStatus"
+          AND "lockedUntil" < ${now}
+      `;
+
+      if (reclaimed > 0) {
+        logger.queueLog(this.name, 'Reclaimed jobs with expired leases', { count: reclaimed });
+      }
+    } catch (error) {
+      throw new DatabaseError(`Failed to reclaim expired jobs: ${error}`, { queue: this.name });
+    }
+  }
+
+  private toJob(row: QueueJobRow): QueueJob<TPayload> {
+    return {
+      id: row.id,
+      type: row.type,
+      payload: JSON.parse(row.payload) as TPayload,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      createdAt: row.createdAt,
+      availableAt: row.availableAt,
+      priority: row.priority,
+      fairnessKey: row.fairnessKey,
+    };
+  }
+}
@@ -3,12 +3,20 @@
 
 import { IQueueManager } from '@/core/ports/queue/IQueueManager';
 import { IQueue } from '@/core/ports/queue/IQueue';
+import { QueueConfig, createQueueConfig } from '@/shared/config/queue.config';
+import { QUEUE_NAMES } from '@/shared/constants/queues';
+import { logger } from '@/shared/lib/logger';
+import { prisma } from '@/shared/lib/prisma';
+import Redis from 'ioredis';
 import { InMemoryQueue } from './InMemoryQueue';
+import { RedisQueue } from './RedisQueue';
+import { PostgresQueue } from './PostgresQueue';
 
 export class QueueManager implements IQueueManager {
   private readonly queues: Map<string, IQueue> = new Map();
+  private redis?: Redis;
 
-  constructor() {
+  constructor(private readonly config: QueueConfig = createQueueConfig()) {
     // Initialize default queues
     this.initializeDefaultQueues();
   }
@@ -18,7 +26,7 @@ export class QueueManager implements IQueueManager {
 
     if (!queue) {
       // Create queue on demand
-      queue = new InMemoryQueue<TPayload>(name);
+      queue = this.createQueue<TPayload>(name);
       this.queues.set(name, queue);
     }
 
@@ -49,20 +57,49 @@ export class QueueManager implements IQueueManager {
     return sizes;
   }
 
+  // Closes the shared Redis connection (no-op for the in-memory backend)
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+      this.redis = undefined;
+    }
+  }
+
+  private createQueue<TPayload>(name: string): IQueue<TPayload> {
+    switch (this.config.backend) {
+      case 'redis':
+        return new RedisQueue<TPayload>(name, this.getRedisClient(), {
+          keyPrefix: this.config.redis!.keyPrefix,
+          visibilityTimeoutMs: this.config.visibilityTimeoutMs,
+        });
+      case 'postgres':
+        // Reuses the application's Prisma connection, no extra infrastructure
+        return new PostgresQueue<TPayload>(name, prisma, {
+          visibilityTimeoutMs: this.config.visibilityTimeoutMs,
+        });
+      case 'memory':
+      default:
+        return new InMemoryQueue<TPayload>(name);
+    }
+  }
+
+  // One connection shared by every queue, opened on first command
+  private getRedisClient(): Redis {
+    if (!this.redis) {
+      this.redis = new Redis(this.config.redis!.url, { lazyConnect: true });
+      this.redis.on('error', (error) => {
+        logger.error('Redis queue connection error', error);
+      });
+    }
+    return this.redis;
+  }
+
   private initializeDefaultQueues(): void {
     // Pre-create common queues used in the pipeline
-    const defaultQueues = [
-      'validation',
-      'text-generation',
-      'text-chunking',
-      'audio-generation',
-      'audio-merge',
-      'upload',
-      'metrics',
-    ];
+    const defaultQueues = Object.values(QUEUE_NAMES);
 
     for (const queueName of defaultQueues) {
-      this.queues.set(queueName, new InMemoryQueue(queueName));
+      this.queues.set(queueName, this.createQueue(queueName));
     }
   }
 }
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type Redis from 'ioredis';
+import { RedisQueue } from './RedisQueue';
+import { MAX_QUEUE_PRIORITY } from './strategies/PriorityStrategy';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+
+// The Lua scripts need a real Redis: these tests cover what the queue sends and
+// how it reads the replies, with `eval` answering like the scripts do
+const NOW = new Date('2024-01-01T00:00:00Z').getTime();
+const RANK_SCALE = 1e13;
+
+function stubRedis(...replies: unknown[]): Redis & { eval: ReturnType<typeof vi.fn> } {
+  const evalFn = vi.fn();
+  replies.forEach((reply) => evalFn.mockResolvedValueOnce(reply));
+  return { eval: evalFn } as unknown as Redis & { eval: ReturnType<typeof vi.fn> };
+}
+
+function createQueue(redis: Redis): RedisQueue<{ itemId: string }> {
+  return new RedisQueue('audio', redis, { keyPrefix: 'test', visibilityTimeoutMs: 30_000 });
+}
+
+// HGETALL reply of a job hash, plus the id the dequeue script appends
+function jobHash(id: string, fields: Record<string, string | number> = {}): string[] {
+  const hash = {
+    data: JSON.stringify({ type: 'generate_audio', payload: { itemId: 'item-1' } }),
+    attempts: 1,
+    maxAttempts: 3,
+    createdAt: NOW,
+    availableAt: 0,
+    priority: 4,
+    fairnessKey: 'job-a',
+    ...fields,
+    id,
+  };
+  return Object.entries(hash).flatMap(([key, value]) => [key, String(value)]);
+}
+
+const rank = (priority: number) => String((MAX_QUEUE_PRIORITY - priority) * RANK_SCALE + NOW);
+
+describe('RedisQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects an empty queue name', () => {
+    expect(() => createQueue(stubRedis()).getName()).not.toThrow();
+    expect(() => new RedisQueue(' ', stubRedis(), { keyPrefix: 'test', visibilityTimeoutMs: 1 })).toThrow(ValidationError);
+  });
+
+  it('keeps every key of a queue under one cluster hash tag', async () => {
+    const redis = stubRedis(1);
+
+    await createQueue(redis).enqueue('generate_audio', { itemId: 'item-1' }, { jobId: 'job-1' });
+
+    const [, keyCount, ...args] = redis.eval.mock.calls[0];
+    const keys = args.slice(0, keyCount as number);
+    expect(keys).toEqual(['test:{audio}:job:job-1', 'test:{audio}:delayed', 'test:{audio}:groups', 'test:{audio}:dead']);
+  });
+
+  it('enqueues with the normalized priority, the default attempts and the delay', async () => {
+    const redis = stubRedis(1);
+
+    const id = await createQueue(redis).enqueue(
+      'generate_audio',
+      { itemId: 'item-1' },
+      { jobId: 'job-1', priority: 1000, fairnessKey: 'job-a', delayMs: 5000 }
+    );
+
+    expect(id).toBe('job-1');
+    expect(redis.eval.mock.calls[0].slice(6)).toEqual([
+      'job-1',
+      JSON.stringify({ type: 'generate_audio', payload: { itemId: 'item-1' } }),
+      3,
+      NOW,
+      NOW + 5000,
+      MAX_QUEUE_PRIORITY,
+      'job-a',
+      'test:{audio}:ready:',
+    ]);
+  });
+
+  it('returns the id of a job that was already queued', async () => {
+    const redis = stubRedis(0);
+
+    expect(await createQueue(redis).enqueue('generate_audio', { itemId: 'item-1' }, { jobId: 'job-1' })).toBe('job-1');
+  });
+
+  it('dequeues from the selected fairness group and reads the job hash', async () => {
+    const redis = stubRedis(['job-a', rank(4)], jobHash('job-1', { availableAt: NOW - 10 }));
+
+    const job = await createQueue(redis).dequeue();
+
+    expect(redis.eval.mock.calls[1].slice(4)).toEqual([
+      'job-a',
+      NOW,
+      30_000,
+      'test:{audio}:job:',
+      'test:{audio}:ready:',
+    ]);
+    expect(job).toEqual({
+      id: 'job-1',
+      type: 'generate_audio',
+      payload: { itemId: 'item-1' },
+      attempts: 1,
+      maxAttempts: 3,
+      createdAt: new Date(NOW),
+      availableAt: new Date(NOW - 10),
+      priority: 4,
+      fairnessKey: 'job-a',
+    });
+  });
+
+  it('moves on to the next group when the selected one was drained meanwhile', async () => {
+    const redis = stubRedis(['job-a', rank(5), 'job-b', rank(1)], null, jobHash('job-2', { fairnessKey: 'job-b' }));
+
+    const job = await createQueue(redis).dequeue();
+
+    expect(redis.eval.mock.calls[1][4]).toBe('job-a');
+    expect(redis.eval.mock.calls[2][4]).toBe('job-b');
+    expect(job?.id).toBe('job-2');
+  });
+
+  it('returns null when no group has a ready job', async () => {
+    expect(await createQueue(stubRedis([])).dequeue()).toBeNull();
+  });
+
+  it('acks with the lease and tells a missing job from a lost lease', async () => {
+    const redis = stubRedis(1, -1, 0);
+    const queue = createQueue(redis);
+
+    await queue.ack('job-1', 2);
+    expect(redis.eval.mock.calls[0].slice(4)).toEqual(['job-1', 2]);
+
+    await expect(queue.ack('job-1')).rejects.toThrow('Job job-1 not found');
+    expect(redis.eval.mock.calls[1].slice(4)).toEqual(['job-1', '']);
+
+    await expect(queue.ack('job-1', 2)).rejects.toThrow('Job job-1 lease was lost');
+  });
+
+  it('passes the retry decision, the rounded delay and the lease when failing a job', async () => {
+    const redis = stubRedis(1, 0, 1, -2);
+    const queue = createQueue(redis);
+
+    await queue.fail('job-1', new Error('Bad gateway'), { retry: true, delayMs: 1500.4 }, 1);
+    await queue.fail('job-1', 'Invalid API key', { retry: false }, 1);
+    await queue.fail('job-1', new Error('reset'));
+
+    expect(redis.eval.mock.calls.map((call) => call.slice(7))).toEqual([
+      ['job-1', 'Bad gateway', NOW, 'test:{audio}:ready:', '1', 1500, 1],
+      ['job-1', 'Invalid API key', NOW, 'test:{audio}:ready:', '0', 0, 1],
+      ['job-1', 'reset', NOW, 'test:{audio}:ready:', '', 0, ''],
+    ]);
+    await expect(queue.fail('job-1', new Error('late'), undefined, 1)).rejects.toThrow('lease was lost');
+  });
+
+  it('extends a lease by the visibility timeout and rejects a lease it no longer holds', async () => {
+    const redis = stubRedis(1, 0);
+    const queue = createQueue(redis);
+
+    await queue.extendVisibility('job-1', 1);
+    expect(redis.eval.mock.calls[0].slice(4)).toEqual(['job-1', 1, NOW + 30_000]);
+
+    await expect(queue.extendVisibility('job-1', 1)).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,479 @@
+// src/infrastructure/queue/RedisQueue.ts
+// Durable Redis queue: leases with visibility timeouts, crash recovery, delayed jobs and dead-letter list
+
+import type Redis from 'ioredis';
+import {
+  IQueue,
+  QueueJob,
+  EnqueueOptions,
+  DeadLetterJob,
+  FailOptions,
+} from '@/core/ports/queue/IQueue';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+import {
+  FairShareCandidate,
+  MAX_QUEUE_PRIORITY,
+  PriorityStrategy,
+  normalizePriority,
+} from './strategies/PriorityStrategy';
+
+export interface RedisQueueOptions {
+  keyPrefix: string;
+  visibilityTimeoutMs: number;
+}
+
+// Batch size when promoting delayed jobs / reclaiming expired leases on each dequeue
+const MAINTENANCE_BATCH = 100;
+
+// Ready jobs of a fairness group live in a sorted set ranked by priority, then age
+const RANK_SCALE = 1e13;
+
+// Shared Lua helper: (re)inserts a job into the ready set of its fairness group
+const PUSH_READY_FN = `
+local function push_ready(jobKey, id, readyPrefix, groupsKey)
+  local fields = redis.call('HMGET', jobKey, 'priority', 'fairnessKey', 'createdAt')
+  local priority = tonumber(fields[1]) or 1
+  local group = fields[2] or ''
+  local rank = (${MAX_QUEUE_PRIORITY} - priority) * ${RANK_SCALE} + tonumber(fields[3])
+  redis.call('ZADD', readyPrefix .. group, rank, id)
+  redis.call('SADD', groupsKey, group)
+end
+`;
+
+// Only a pending or in-flight job blocks its id; a dead-lettered one (acked jobs
+// are deleted) is replaced, so a step can be queued again under its fixed id
+// KEYS: jobKey, delayed, groups, dead
+// ARGV: id, data, maxAttempts, createdAt, availableAt (0 = immediately), priority, fairnessKey, readyPrefix
+const ENQUEUE_SCRIPT = PUSH_READY_FN + `
+local replaced = 1
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  if redis.call('HEXISTS', KEYS[1], 'failedAt') == 0 then
+    return 0
+  end
+  redis.call('LREM', KEYS[4], 0, ARGV[1])
+  redis.call('DEL', KEYS[1])
+  replaced = 2
+end
+redis.call('HSET', KEYS[1], 'data', ARGV[2], 'attempts', 0, 'maxAttempts', ARGV[3], 'createdAt', ARGV[4], 'availableAt', ARGV[5], 'priority', ARGV[6], 'fairnessKey', ARGV[7])
+if tonumber(ARGV[5]) > 0 then
+  redis.call('ZADD', KEYS[2], ARGV[5], ARGV[1])
+else
+  push_ready(KEYS[1], ARGV[1], ARGV[8], KEYS[3])
+end
+return replaced
+`;
+
+// Promotes due delayed jobs, reclaims expired leases, then lists the fairness
+// groups with ready jobs as [group, rank of its next job, ...]
+// KEYS: delayed, processing, dead, groups
+// ARGV: now, jobKeyPrefix, readyPrefix, batch
+const CANDIDATES_SCRIPT = PUSH_READY_FN + `
+local now = tonumber(ARGV[1])
+local batch = tonumber(ARGV[4])
+
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', now, 'LIMIT', 0, batch)
+for _, id in ipairs(due) do
+  redis.call('ZREM', KEYS[1], id)
+  local jobKey = ARGV[2] .. id
+  if redis.call('EXISTS', jobKey) == 1 then
+    push_ready(jobKey, id, ARGV[3], KEYS[4])
+  end
+end
+
+-- Lease expired: the worker crashed or stalled, count it as a failed attempt
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now, 'LIMIT', 0, batch)
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[2], id)
+  local jobKey = ARGV[2] .. id
+  if redis.call('EXISTS', jobKey) == 1 then
+    local attempts = redis.call('HINCRBY', jobKey, 'attempts', 1)
+    local maxAttempts = tonumber(redis.call('HGET', jobKey, 'maxAttempts'))
+    redis.call('HSET', jobKey, 'lastError', 'Visibility timeout expired')
+    if attempts >= maxAttempts then
+      redis.call('HSET', jobKey, 'failedAt', now)
+      redis.call('LPUSH', KEYS[3], id)
+    else
+      -- Keeps its original rank, so it goes back ahead of newer jobs
+      push_ready(jobKey, id, ARGV[3], KEYS[4])
+    end
+  end
+end
+
+local candidates = {}
+for _, group in ipairs(redis.call('SMEMBERS', KEYS[4])) do
+  local head = redis.call('ZRANGE', ARGV[3] .. group, 0, 0, 'WITHSCORES')
+  if #head == 0 then
+    redis.call('SREM', KEYS[4], group)
+  else
+    table.insert(candidates, group)
+    table.insert(candidates, head[2])
+  end
+end
+return candidates
+`;
+
+// KEYS: processing, groups
+// ARGV: fairnessKey, now, visibilityTimeoutMs, jobKeyPrefix, readyPrefix
+const DEQUEUE_SCRIPT = `
+local readyKey = ARGV[5] .. ARGV[1]
+while true do
+  local popped = redis.call('ZPOPMIN', readyKey)
+  if #popped == 0 then
+    redis.call('SREM', KEYS[2], ARGV[1])
+    return nil
+  end
+  local id = popped[1]
+  local jobKey = ARGV[4] .. id
+  if redis.call('EXISTS', jobKey) == 1 then
+    redis.call('ZADD', KEYS[1], tonumber(ARGV[2]) + tonumber(ARGV[3]), id)
+    if redis.call('ZCARD', readyKey) == 0 then
+      redis.call('SREM', KEYS[2], ARGV[1])
+    end
+    local job = redis.call('HGETALL', jobKey)
+    table.insert(job, 'id')
+    table.insert(job, id)
+    return job
+  end
+end
+`;
+
+// A lease is the attempts count the job was dequeued with; reclaiming an expired
+// lease increments it, so only the worker holding the current lease matches
+const LEASE_FN = `
+local function lease_lost(jobKey, processingKey, id, lease)
+  if lease == '' then
+    return false
+  end
+  return redis.call('ZSCORE', processingKey, id) == false or redis.call('HGET', jobKey, 'attempts') ~= lease
+end
+`;
+
+// KEYS: jobKey, processing
+// ARGV: id, lease ('' = any)
+const ACK_SCRIPT = LEASE_FN + `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return -1
+end
+if lease_lost(KEYS[1], KEYS[2], ARGV[1], ARGV[2]) then
+  return 0
+end
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('DEL', KEYS[1])
+return 1
+`;
+
+// KEYS: jobKey, processing
+// ARGV: id, lease ('' = any), lockedUntil
+const EXTEND_SCRIPT = LEASE_FN + `
+if redis.call('ZSCORE', KEYS[2], ARGV[1]) == false or lease_lost(KEYS[1], KEYS[2], ARGV[1], ARGV[2]) then
+  return 0
+end
+redis.call('ZADD', KEYS[2], 'XX', ARGV[3], ARGV[1])
+return 1
+`;
+
+// KEYS: jobKey, processing, dead, groups, delayed
+// ARGV: id, errorMessage, now, readyPrefix, retry ('' = until maxAttempts, '1' or '0'), delayMs, lease ('' = any)
+const FAIL_SCRIPT = PUSH_READY_FN + LEASE_FN + `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return -1
+end
+if lease_lost(KEYS[1], KEYS[2], ARGV[1], ARGV[7]) then
+  return -2
+end
+redis.call('ZREM', KEYS[2], ARGV[1])
+local attempts = redis.call('HINCRBY', KEYS[1], 'attempts', 1)
+local maxAttempts = tonumber(redis.call('HGET', KEYS[1], 'maxAttempts'))
+redis.call('HSET', KEYS[1], 'lastError', ARGV[2])
+local retry = attempts < maxAttempts
+if ARGV[5] ~= '' then
+  retry = ARGV[5] == '1'
+end
+if not retry then
+  redis.call('HSET', KEYS[1], 'failedAt', ARGV[3])
+  redis.call('LPUSH', KEYS[3], ARGV[1])
+  return 0
+end
+local delay = tonumber(ARGV[6])
+if delay > 0 then
+  local availableAt = tonumber(ARGV[3]) + delay
+  redis.call('HSET', KEYS[1], 'availableAt', availableAt)
+  redis.call('ZADD', KEYS[5], availableAt, ARGV[1])
+else
+  push_ready(KEYS[1], ARGV[1], ARGV[4], KEYS[4])
+end
+return 1
+`;
+
+// KEYS: groups
+// ARGV: readyPrefix
+const SIZE_SCRIPT = `
+local size = 0
+for _, group in ipairs(redis.call('SMEMBERS', KEYS[1])) do
+  size = size + redis.call('ZCARD', ARGV[1] .. group)
+end
+return size
+`;
+
+export class RedisQueue<TPayload = unknown> implements IQueue<TPayload> {
+  private readonly name: string;
+  private readonly keys: {
+    readyPrefix: string;
+    groups: string;
+    delayed: string;
+    processing: string;
+    dead: string;
+    jobPrefix: string;
+  };
+
+  constructor(
+    name: string,
+    private readonly redis: Redis,
+    private readonly options: RedisQueueOptions,
+    private readonly priorityStrategy: PriorityStrategy = new PriorityStrategy()
+  ) {
+    if (!name || name.trim().length === 0) {
+      throw new ValidationError('Queue name cannot be empty');
+    }
+    this.name = name;
+
+    // Hash tag keeps all keys of a queue on the same cluster slot (required by the Lua scripts)
+    const base = `${options.keyPrefix}:{${name}}`;
+    this.keys = {
+      readyPrefix: `${base}:ready:`,
+      groups: `${base}:groups`,
+      delayed: `${base}:delayed`,
+      processing: `${base}:processing`,
+      dead: `${base}:dead`,
+      jobPrefix: `${base}:job:`,
+    };
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async enqueue(
+    type: string,
+    payload: TPayload,
+    options?: EnqueueOptions
+  ): Promise<string> {
+    const id = options?.jobId || `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const now = Date.now();
+    const availableAt = options?.delayMs && options.delayMs > 0 ? now + options.delayMs : 0;
+
+    const created = await this.redis.eval(
+      ENQUEUE_SCRIPT,
+      4,
+      this.jobKey(id),
+      this.keys.delayed,
+      this.keys.groups,
+      this.keys.dead,
+      id,
+      JSON.stringify({ type, payload }),
+      options?.maxAttempts || 3,
+      now,
+      availableAt,
+      normalizePriority(options?.priority),
+      options?.fairnessKey ?? '',
+      this.keys.readyPrefix
+    );
+
+    // Same jobId already queued: enqueue is idempotent
+    if (created === 0) {
+      logger.debug('Job already enqueued, skipping duplicate', { queue: this.name, jobId: id });
+    } else if (created === 2) {
+      logger.debug('Replaced dead-lettered job with the same id', { queue: this.name, jobId: id });
+    }
+
+    return id;
+  }
+
+  async dequeue(): Promise<QueueJob<TPayload> | null> {
+    const candidates = await this.getCandidates();
+
+    // Another worker may drain the selected group in between: try the next one
+    while (candidates.length > 0) {
+      const selected = this.priorityStrategy.select(candidates);
+      if (!selected) break;
+
+      const result = (await this.redis.eval(
+        DEQUEUE_SCRIPT,
+        2,
+        this.keys.processing,
+        this.keys.groups,
+        selected.fairnessKey,
+        Date.now(),
+        this.options.visibilityTimeoutMs,
+        this.keys.jobPrefix,
+        this.keys.readyPrefix
+      )) as string[] | null;
+
+      if (result) {
+        this.priorityStrategy.charge(selected);
+        return this.toJob(this.toRecord(result));
+      }
+
+      candidates.splice(candidates.indexOf(selected), 1);
+    }
+
+    return null;
+  }
+
+  async ack(jobId: string, lease?: number): Promise<void> {
+    const result = await this.redis.eval(
+      ACK_SCRIPT,
+      2,
+      this.jobKey(jobId),
+      this.keys.processing,
+      jobId,
+      lease ?? ''
+    );
+
+    if (result === -1) {
+      throw new ValidationError(`Job ${jobId} not found`);
+    }
+    if (result === 0) {
+      throw new ValidationError(`Job ${jobId} lease was lost`, { jobId, lease });
+    }
+  }
+
+  async fail(jobId: string, error: unknown, options?: FailOptions, lease?: number): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = options?.retry === undefined ? '' : options.retry ? '1' : '0';
+
+    const result = await this.redis.eval(
+      FAIL_SCRIPT,
+      5,
+      this.jobKey(jobId),
+      this.keys.processing,
+      this.keys.dead,
+      this.keys.groups,
+      this.keys.delayed,
+      jobId,
+      message,
+      Date.now(),
+      this.keys.readyPrefix,
+      retry,
+      Math.max(0, Math.round(options?.delayMs ?? 0)),
+      lease ?? ''
+    );
+
+    if (result === -1) {
+      throw new ValidationError(`Job ${jobId} not found`);
+    }
+    if (result === -2) {
+      throw new ValidationError(`Job ${jobId} lease was lost`, { jobId, lease });
+    }
+
+    if (result === 0) {
+      logger.error(
+        `Job ${jobId} moved to dead-letter list`,
+        error instanceof Error ? error : undefined,
+        { queue: this.name, error: message }
+      );
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.redis.eval(SIZE_SCRIPT, 1, this.keys.groups, this.keys.readyPrefix)) as number;
+  }
+
+  // Pushes the lease deadline of a long-running job so it is not reclaimed
+  async extendVisibility(
+    jobId: string,
+    lease?: number,
+    visibilityTimeoutMs: number = this.options.visibilityTimeoutMs
+  ): Promise<void> {
+    const updated = await this.redis.eval(
+      EXTEND_SCRIPT,
+      2,
+      this.jobKey(jobId),
+      this.keys.processing,
+      jobId,
+      lease ?? '',
+      Date.now() + visibilityTimeoutMs
+    );
+
+    if (updated === 0) {
+      throw new ValidationError(`Job ${jobId} is not being processed`);
+    }
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<DeadLetterJob<TPayload>[]> {
+    const ids = await this.redis.lrange(this.keys.dead, 0, limit - 1);
+    const jobs: DeadLetterJob<TPayload>[] = [];
+
+    for (const id of ids) {
+      const record = await this.redis.hgetall(this.jobKey(id));
+      if (Object.keys(record).length === 0) continue;
+
+      jobs.push({
+        ...this.toJob({ ...record, id }),
+        lastError: record.lastError,
+        failedAt: record.failedAt ? new Date(Number(record.failedAt)) : undefined,
+      });
+    }
+
+    return jobs;
+  }
+
+  async deadLetterSize(): Promise<number> {
+    return await this.redis.llen(this.keys.dead);
+  }
+
+  private async getCandidates(): Promise<FairShareCandidate[]> {
+    const result = (await this.redis.eval(
+      CANDIDATES_SCRIPT,
+      4,
+      this.keys.delayed,
+      this.keys.processing,
+      this.keys.dead,
+      this.keys.groups,
+      Date.now(),
+      this.keys.jobPrefix,
+      this.keys.readyPrefix,
+      MAINTENANCE_BATCH
+    )) as string[];
+
+    const candidates: FairShareCandidate[] = [];
+    for (let i = 0; i < result.length; i += 2) {
+      candidates.push({
+        fairnessKey: result[i],
+        priority: MAX_QUEUE_PRIORITY - Math.floor(Number(result[i + 1]) / RANK_SCALE),
+      });
+    }
+    return candidates;
+  }
+
+  private jobKey(jobId: string): string {
+    return `${this.keys.jobPrefix}${jobId}`;
+  }
+
+  // HGETALL from Lua comes back as a flat [field, value, ...] array
+  private toRecord(values: string[]): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (let i = 0; i < values.length; i += 2) {
+      record[values[i]] = values[i + 1];
+    }
+    return record;
+  }
+
+  private toJob(record: Record<string, string>): QueueJob<TPayload> {
+    const { type, payload } = JSON.parse(record.data) as { type: string; payload: TPayload };
+    const availableAt = Number(record.availableAt);
+
+    return {
+      id: record.id,
+      type,
+      payload,
+      attempts: Number(record.attempts),
+      maxAttempts: Number(record.maxAttempts),
+      createdAt: new Date(Number(record.createdAt)),
+      availableAt: availableAt > 0 ? new Date(availableAt) : undefined,
+      priority: Number(record.priority ?? 1),
+      fairnessKey: record.fairnessKey ?? '',
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PipelineWorkerDependencies, WorkerManager, createPipelineWorkerManager } from './WorkerManager';
+import { RateLimitStrategy } from './strategies/RateLimitStrategy';
+import { IQueue, QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { QueueConfig } from '@/shared/config/queue.config';
+import { JOB_TYPES, QUEUE_NAMES } from '@/shared/constants/queues';
+
+const CONFIG: QueueConfig = {
+  backend: 'redis',
+  concurrency: 2,
+  concurrencyOverrides: { [QUEUE_NAMES.AUDIO_GENERATION]: 5 },
+  pollIntervalMs: 100,
+  visibilityTimeoutMs: 30000,
+};
+
+function job(type: string, jobId = 'generation-1'): QueueJob<unknown> {
+  return {
+    id: `${type}:item-1`,
+    type,
+    payload: { jobId, itemId: 'item-1' },
+    attempts: 1,
+    maxAttempts: 3,
+    createdAt: new Date(),
+  };
+}
+
+// One queue per name; each hands out its jobs once, then reports empty
+function stubQueueManager(jobs: Record<string, QueueJob<unknown>[]> = {}) {
+  const queues = new Map<string, IQueue<unknown> & { ack: ReturnType<typeof vi.fn> }>();
+  const manager = {
+    getQueue: (name: string) => {
+      if (!queues.has(name)) {
+        const pending = [...(jobs[name] ?? [])];
+        queues.set(name, {
+          getName: () => name,
+          enqueue: vi.fn().mockResolvedValue('next'),
+          dequeue: vi.fn(async () => pending.shift() ?? null),
+          ack: vi.fn().mockResolvedValue(undefined),
+          fail: vi.fn().mockResolvedValue(undefined),
+          size: vi.fn(async () => pending.length),
+          extendVisibility: vi.fn().mockResolvedValue(undefined),
+        });
+      }
+      return queues.get(name)!;
+    },
+  } as unknown as IQueueManager;
+  return { manager, queues };
+}
+
+function deps(overrides: Partial<PipelineWorkerDependencies> = {}): PipelineWorkerDependencies {
+  const stubUseCase = () => ({ execute: vi.fn().mockResolvedValue(undefined) });
+  return {
+    generateText: stubUseCase(),
+    refineText: stubUseCase(),
+    runScriptStages: stubUseCase(),
+    chunkText: stubUseCase(),
+    generateAudio: stubUseCase(),
+    mergeAudioChunks: stubUseCase(),
+    uploadAudio: stubUseCase(),
+    audioChunkRepository: {},
+    jobRepository: { findById: vi.fn().mockResolvedValue(null) },
+    ...overrides,
+  } as unknown as PipelineWorkerDependencies;
+}
+
+async function stop(manager: WorkerManager): Promise<void> {
+  const stopped = manager.stop();
+  await vi.advanceTimersByTimeAsync(CONFIG.pollIntervalMs);
+  await stopped;
+}
+
+describe('WorkerManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('derives worker options from the queue config', () => {
+    const manager = new WorkerManager(CONFIG);
+
+    expect(manager.getWorkerOptions(QUEUE_NAMES.TEXT_GENERATION)).toEqual({
+      concurrency: 2,
+      pollIntervalMs: 100,
+      heartbeatIntervalMs: 10000,
+    });
+    expect(manager.getWorkerOptions(QUEUE_NAMES.AUDIO_GENERATION).concurrency).toBe(5);
+  });
+
+  it('runs one worker per pipeline queue', async () => {
+    const { manager: queueManager } = stubQueueManager();
+    const manager = createPipelineWorkerManager(queueManager, deps(), CONFIG);
+
+    manager.start();
+
+    expect(manager.getStatus().map((status) => status.name)).toHaveLength(7);
+    expect(manager.getStatus().every((status) => status.running)).toBe(true);
+
+    await stop(manager);
+
+    expect(manager.getStatus().every((status) => !status.running)).toBe(true);
+  });
+
+  it('stop drains in-flight jobs before resolving', async () => {
+    let finish!: () => void;
+    const generateText = { execute: vi.fn(() => new Promise<void>((resolve) => { finish = resolve; })) };
+    const { manager: queueManager, queues } = stubQueueManager({
+      [QUEUE_NAMES.TEXT_GENERATION]: [job(JOB_TYPES.GENERATE_TEXT)],
+    });
+    const manager = createPipelineWorkerManager(
+      queueManager,
+      deps({ generateText } as unknown as Partial<PipelineWorkerDependencies>),
+      CONFIG
+    );
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.getStatus().find((s) => s.name === 'TextGenerationWorker')?.inFlight).toBe(1);
+
+    let stopped = false;
+    const stopping = manager.stop().then(() => { stopped = true; });
+    await vi.advanceTimersByTimeAsync(CONFIG.pollIntervalMs * 3);
+    expect(stopped).toBe(false);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(CONFIG.pollIntervalMs);
+    await stopping;
+
+    expect(queues.get(QUEUE_NAMES.TEXT_GENERATION)?.ack).toHaveBeenCalledWith(`${JOB_TYPES.GENERATE_TEXT}:item-1`, 1);
+  });
+
+  it('throttles AI and TTS workers on each job\'s provider, falling back to the defaults', async () => {
+    const getWaitTime = vi.fn(() => 0);
+    const jobRepository = {
+      findById: vi.fn(async (id: string) =>
+        id === 'generation-openai' ? { aiProvider: 'openai', voiceSettings: { provider: undefined } } : null
+      ),
+    } as unknown as IJobRepository;
+    const { manager: queueManager } = stubQueueManager({
+      [QUEUE_NAMES.TEXT_GENERATION]: [job(JOB_TYPES.GENERATE_TEXT, 'generation-openai')],
+      [QUEUE_NAMES.AUDIO_GENERATION]: [job(JOB_TYPES.GENERATE_AUDIO, 'generation-openai')],
+      [QUEUE_NAMES.TEXT_CHUNKING]: [job(JOB_TYPES.CHUNK_TEXT)],
+    });
+    const manager = createPipelineWorkerManager(
+      queueManager,
+      deps({
+        jobRepository,
+        rateLimiter: { getWaitTime } as unknown as RateLimitStrategy,
+        defaultAIProvider: 'anthropic',
+        defaultTTSProvider: 'elevenlabs',
+      }),
+      CONFIG
+    );
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await stop(manager);
+
+    // Chunking calls no provider, so only the two remote steps wait on the limiter
+    expect(getWaitTime.mock.calls).toEqual(expect.arrayContaining([['openai'], ['elevenlabs']]));
+    expect(getWaitTime).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,144 @@
+// src/infrastructure/queue/WorkerManager.ts
+// Runs one worker per pipeline queue with per-queue concurrency
+
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { ValidateContentItemUseCase } from '@/core/domain/use-cases/content/ValidateContentItemUseCase';
+import { GenerateTextUseCase } from '@/core/domain/use-cases/content/GenerateTextUseCase';
+import { RefineTextUseCase } from '@/core/domain/use-cases/content/RefineTextUseCase';
+import { RunScriptStagesUseCase } from '@/core/domain/use-cases/content/RunScriptStagesUseCase';
+import { ChunkTextUseCase } from '@/core/domain/use-cases/content/ChunkTextUseCase';
+import { GenerateAudioUseCase } from '@/core/domain/use-cases/content/GenerateAudioUseCase';
+import { MergeAudioChunksUseCase } from '@/core/domain/use-cases/content/MergeAudioChunksUseCase';
+import { UploadAudioUseCase } from '@/core/domain/use-cases/content/UploadAudioUseCase';
+import { QueueConfig, createQueueConfig, getQueueConcurrency } from '@/shared/config/queue.config';
+import { ItemJobPayload, QUEUE_NAMES } from '@/shared/constants/queues';
+import { logger } from '@/shared/lib/logger';
+import { BaseWorker, WorkerOptions } from './workers/BaseWorker';
+import { RateLimitStrategy } from './strategies/RateLimitStrategy';
+import { RetryStrategy } from './strategies/RetryStrategy';
+import { ValidationWorker } from './workers/ValidationWorker';
+import { TextGenerationWorker } from './workers/TextGenerationWorker';
+import { TextRefinementWorker } from './workers/TextRefinementWorker';
+import { TextChunkingWorker } from './workers/TextChunkingWorker';
+import { AudioGenerationWorker } from './workers/AudioGenerationWorker';
+import { AudioMergeWorker } from './workers/AudioMergeWorker';
+import { UploadWorker } from './workers/UploadWorker';
+
+export interface PipelineWorkerDependencies {
+  // Optional: the validation queue is still drained, items then skip the step
+  validateContentItem?: ValidateContentItemUseCase;
+  generateText: GenerateTextUseCase;
+  refineText: RefineTextUseCase;
+  runScriptStages: RunScriptStagesUseCase;
+  chunkText: ChunkTextUseCase;
+  generateAudio: GenerateAudioUseCase;
+  mergeAudioChunks: MergeAudioChunksUseCase;
+  uploadAudio: UploadAudioUseCase;
+  audioChunkRepository: IAudioChunkRepository;
+  jobRepository: IJobRepository;
+  // When set, the AI/TTS workers hold a job while the provider it calls is throttled
+  rateLimiter?: RateLimitStrategy;
+  // Providers of the jobs that do not choose one
+  defaultAIProvider?: string;
+  defaultTTSProvider?: string;
+  retryStrategy?: RetryStrategy;
+}
+
+export interface WorkerStatus {
+  name: string;
+  running: boolean;
+  inFlight: number;
+}
+
+export class WorkerManager {
+  private readonly workers: BaseWorker<unknown>[] = [];
+
+  constructor(private readonly config: QueueConfig = createQueueConfig()) {}
+
+  register(worker: BaseWorker<unknown>): void {
+    this.workers.push(worker);
+  }
+
+  getWorkerOptions(queueName: string): WorkerOptions {
+    return {
+      concurrency: getQueueConcurrency(this.config, queueName),
+      pollIntervalMs: this.config.pollIntervalMs,
+      // Several renewals fit in one visibility timeout, so one slow call does not lose the lease
+      heartbeatIntervalMs: Math.floor(this.config.visibilityTimeoutMs / 3),
+    };
+  }
+
+  start(): void {
+    for (const worker of this.workers) {
+      worker.start();
+    }
+
+    logger.info('Workers started', { workers: this.workers.map((w) => w.getName()) });
+  }
+
+  // Waits for every worker to finish its in-flight jobs
+  async stop(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.stop()));
+
+    logger.info('Workers stopped', { workers: this.workers.length });
+  }
+
+  getStatus(): WorkerStatus[] {
+    return this.workers.map((worker) => ({
+      name: worker.getName(),
+      running: worker.isRunning(),
+      inFlight: worker.getInFlightCount(),
+    }));
+  }
+}
+
+export function createPipelineWorkerManager(
+  queueManager: IQueueManager,
+  deps: PipelineWorkerDependencies,
+  config: QueueConfig = createQueueConfig()
+): WorkerManager {
+  const manager = new WorkerManager(config);
+  const options = (
+    queueName: string,
+    resolveProvider?: (job: QueueJob<unknown>) => Promise<string | undefined>
+  ): WorkerOptions => ({
+    ...manager.getWorkerOptions(queueName),
+    throttle: deps.rateLimiter && resolveProvider ? { limiter: deps.rateLimiter, resolveProvider } : undefined,
+    retryStrategy: deps.retryStrategy,
+  });
+
+  // Every item-level payload carries its generation job, which holds the provider choices
+  const findJob = (job: QueueJob<unknown>) =>
+    deps.jobRepository.findById((job.payload as ItemJobPayload).jobId);
+  const aiProviderOf = async (job: QueueJob<unknown>) =>
+    (await findJob(job))?.aiProvider || deps.defaultAIProvider;
+  const ttsProviderOf = async (job: QueueJob<unknown>) =>
+    (await findJob(job))?.voiceSettings?.provider || deps.defaultTTSProvider;
+
+  manager.register(new ValidationWorker(
+    queueManager, options(QUEUE_NAMES.VALIDATION), deps.validateContentItem
+  ));
+  manager.register(new TextGenerationWorker(
+    queueManager, options(QUEUE_NAMES.TEXT_GENERATION, aiProviderOf), deps.generateText
+  ));
+  manager.register(new TextRefinementWorker(
+    queueManager, options(QUEUE_NAMES.TEXT_REFINEMENT, aiProviderOf), deps.refineText, deps.runScriptStages
+  ));
+  manager.register(new TextChunkingWorker(
+    queueManager, options(QUEUE_NAMES.TEXT_CHUNKING), deps.chunkText
+  ));
+  manager.register(new AudioGenerationWorker(
+    queueManager, options(QUEUE_NAMES.AUDIO_GENERATION, ttsProviderOf), deps.generateAudio, deps.audioChunkRepository
+  ));
+  manager.register(new AudioMergeWorker(
+    queueManager, options(QUEUE_NAMES.AUDIO_MERGE), deps.mergeAudioChunks
+  ));
+  manager.register(new UploadWorker(
+    queueManager, options(QUEUE_NAMES.UPLOAD), deps.uploadAudio
+  ));
+
+  return manager;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_QUEUE_PRIORITY,
+  FairShareCandidate,
+  MAX_QUEUE_PRIORITY,
+  PriorityStrategy,
+  normalizePriority,
+} from './PriorityStrategy';
+
+// Dequeues `count` times from groups that always have jobs left
+function dequeueCounts(strategy: PriorityStrategy, candidates: FairShareCandidate[], count: number): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < count; i++) {
+    const selected = strategy.select(candidates)!;
+    strategy.charge(selected);
+    counts[selected.fairnessKey] = (counts[selected.fairnessKey] ?? 0) + 1;
+  }
+  return counts;
+}
+
+describe('normalizePriority', () => {
+  it('defaults missing and non-finite priorities', () => {
+    expect(normalizePriority()).toBe(DEFAULT_QUEUE_PRIORITY);
+    expect(normalizePriority(Number.NaN)).toBe(DEFAULT_QUEUE_PRIORITY);
+    expect(normalizePriority(Infinity)).toBe(DEFAULT_QUEUE_PRIORITY);
+  });
+
+  it('rounds and clamps into 1..MAX_QUEUE_PRIORITY', () => {
+    expect(normalizePriority(0)).toBe(1);
+    expect(normalizePriority(-5)).toBe(1);
+    expect(normalizePriority(2.6)).toBe(3);
+    expect(normalizePriority(1000)).toBe(MAX_QUEUE_PRIORITY);
+  });
+});
+
+describe('PriorityStrategy', () => {
+  it('returns null without candidates', () => {
+    expect(new PriorityStrategy().select([])).toBeNull();
+  });
+
+  it('alternates between groups of equal priority', () => {
+    const strategy = new PriorityStrategy();
+    const candidates = [
+      { fairnessKey: 'job-a', priority: 1 },
+      { fairnessKey: 'job-b', priority: 1 },
+    ];
+
+    const order = Array.from({ length: 4 }, () => {
+      const selected = strategy.select(candidates)!;
+      strategy.charge(selected);
+      return selected.fairnessKey;
+    });
+
+    expect(order).toEqual(['job-a', 'job-b', 'job-a', 'job-b']);
+  });
+
+  it('shares dequeues in proportion to the groups priorities', () => {
+    const counts = dequeueCounts(new PriorityStrategy(), [
+      { fairnessKey: 'urgent', priority: 3 },
+      { fairnessKey: 'normal', priority: 1 },
+    ], 40);
+
+    expect(counts).toEqual({ urgent: 30, normal: 10 });
+  });
+
+  it('serves a group that joins late right away instead of after the backlog', () => {
+    const strategy = new PriorityStrategy();
+    const large = { fairnessKey: 'large', priority: 1 };
+    dequeueCounts(strategy, [large], 50);
+
+    const small = { fairnessKey: 'small', priority: 1 };
+    expect(strategy.select([large, small])?.fairnessKey).toBe('small');
+  });
+
+  it('does not let an idle group bank credit', () => {
+    const strategy = new PriorityStrategy();
+    const a = { fairnessKey: 'a', priority: 1 };
+    const b = { fairnessKey: 'b', priority: 1 };
+    dequeueCounts(strategy, [a, b], 2);
+
+    // b has nothing ready while a is served, then comes back
+    dequeueCounts(strategy, [a], 10);
+    const counts = dequeueCounts(strategy, [a, b], 4);
+
+    expect(counts).toEqual({ a: 2, b: 2 });
+  });
+
+  it('prefers the higher priority group on a tie', () => {
+    const strategy = new PriorityStrategy();
+
+    const selected = strategy.select([
+      { fairnessKey: 'low', priority: 1 },
+      { fairnessKey: 'high', priority: 5 },
+    ]);
+
+    expect(selected?.fairnessKey).toBe('high');
+  });
+});
@@ -0,0 +1,70 @@
+// src/infrastructure/queue/strategies/PriorityStrategy.ts
+// Fair-share dequeue policy: weighted round-robin between fairness groups (pipeline jobs)
+// Used by every queue backend to pick the group the next job is taken from
+
+export const DEFAULT_QUEUE_PRIORITY = 1;
+export const MAX_QUEUE_PRIORITY = 100;
+
+export interface FairShareCandidate {
+  fairnessKey: string;
+  // Priority of the group's next job
+  priority: number;
+}
+
+export function normalizePriority(priority?: number): number {
+  if (priority === undefined || !Number.isFinite(priority)) {
+    return DEFAULT_QUEUE_PRIORITY;
+  }
+  return Math.min(MAX_QUEUE_PRIORITY, Math.max(1, Math.round(priority)));
+}
+
+// Stride scheduling: every dequeue advances the group's virtual time by
+// 1/priority and the group with the smallest virtual time goes next, so a
+// group gets a share of dequeues proportional to its priority no matter how
+// many jobs it has queued. Groups that (re)join start at the current virtual
+// time, so a small job started late is served right away instead of queuing
+// behind a large one, and an idle group cannot bank credit.
+// State is per process: with several worker processes, fairness holds per process.
+export class PriorityStrategy {
+  private readonly passes: Map<string, number> = new Map();
+  private virtualTime = 0;
+
+  select(candidates: FairShareCandidate[]): FairShareCandidate | null {
+    let selected: FairShareCandidate | null = null;
+    let selectedPass = Infinity;
+
+    for (const candidate of candidates) {
+      const pass = Math.max(this.passes.get(candidate.fairnessKey) ?? this.virtualTime, this.virtualTime);
+      if (
+        pass < selectedPass ||
+        (pass === selectedPass && selected && candidate.priority > selected.priority)
+      ) {
+        selected = candidate;
+        selectedPass = pass;
+      }
+    }
+
+    this.prune(candidates);
+
+    return selected;
+  }
+
+  // Records a dequeue from the group returned by select()
+  charge(candidate: FairShareCandidate): void {
+    const pass = Math.max(this.passes.get(candidate.fairnessKey) ?? this.virtualTime, this.virtualTime);
+    this.virtualTime = pass;
+    this.passes.set(candidate.fairnessKey, pass + 1 / normalizePriority(candidate.priority));
+  }
+
+  // Forget groups that no longer have ready jobs
+  private prune(candidates: FairShareCandidate[]): void {
+    if (this.passes.size <= candidates.length) return;
+
+    const active = new Set(candidates.map((candidate) => candidate.fairnessKey));
+    for (const key of this.passes.keys()) {
+      if (!active.has(key)) {
+        this.passes.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitStrategy } from './RateLimitStrategy';
+import { IEventBus } from '@/core/ports/events/IEventBus';
+import { RateLimitError } from '@/shared/utils/errors/AppError';
+import { RateLimitConfig } from '@/shared/config/ratelimit.config';
+
+function createStrategy(providers: RateLimitConfig['providers'], eventBus?: IEventBus): RateLimitStrategy {
+  return new RateLimitStrategy({ providers, defaultBackoffMs: 30_000 }, eventBus);
+}
+
+describe('RateLimitStrategy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets unlimited providers through', () => {
+    const strategy = createStrategy({});
+
+    expect(strategy.getWaitTime('inworld')).toBe(0);
+  });
+
+  it('waits for the request bucket to refill once the per-minute budget is spent', async () => {
+    const strategy = createStrategy({ mistral: { requestsPerMinute: 2 } });
+
+    (await strategy.acquire('mistral')).release();
+    (await strategy.acquire('mistral')).release();
+
+    expect(strategy.getWaitTime('mistral')).toBe(30_000);
+
+    vi.advanceTimersByTime(30_000);
+    expect(strategy.getWaitTime('mistral')).toBe(0);
+  });
+
+  it('charges characters and clamps a cost above the bucket capacity', async () => {
+    const strategy = createStrategy({ elevenlabs: { charactersPerMinute: 600 } });
+
+    (await strategy.acquire('elevenlabs', { characters: 5000 })).release();
+
+    // The whole bucket was taken, not more: one minute refills it
+    expect(strategy.getWaitTime('elevenlabs', undefined, { characters: 600 })).toBe(60_000);
+    expect(strategy.getWaitTime('elevenlabs', undefined, { characters: 60 })).toBe(6_000);
+  });
+
+  it('caps concurrent calls and hands the released slot to the next waiter', async () => {
+    const strategy = createStrategy({ elevenlabs: { maxConcurrent: 1 } });
+
+    const first = await strategy.acquire('elevenlabs');
+    expect(strategy.getWaitTime('elevenlabs')).toBe(Infinity);
+
+    let secondAcquired = false;
+    const second = strategy.acquire('elevenlabs').then((lease) => {
+      secondAcquired = true;
+      return lease;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(secondAcquired).toBe(false);
+
+    first.release();
+    // Releasing twice must not free a second slot
+    first.release();
+    (await second).release();
+
+    expect(secondAcquired).toBe(true);
+    expect(strategy.getWaitTime('elevenlabs')).toBe(0);
+  });
+
+  it('keeps one state per API key', async () => {
+    const strategy = createStrategy({ mistral: { requestsPerMinute: 1 } });
+
+    (await strategy.acquire('mistral', {}, 'key-a')).release();
+
+    expect(strategy.getWaitTime('mistral', 'key-a')).toBeGreaterThan(0);
+    expect(strategy.getWaitTime('mistral', 'key-b')).toBe(0);
+    // Without a key: the shortest wait across the keys seen so far
+    expect(strategy.getWaitTime('mistral')).toBe(0);
+  });
+
+  it('backs off for the Retry-After of a 429 and publishes a rate limit event', async () => {
+    const publish = vi.fn().mockResolvedValue(undefined);
+    const strategy = createStrategy({}, { publish } as unknown as IEventBus);
+
+    await expect(
+      strategy.schedule('openai', {}, () => Promise.reject(new RateLimitError('OpenAI', 12)), 'key')
+    ).rejects.toBeInstanceOf(RateLimitError);
+
+    expect(strategy.getWaitTime('openai', 'key')).toBe(12_000);
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish.mock.calls[0][0].payload).toMatchObject({
+      service: 'openai',
+      keyId: RateLimitStrategy.keyIdFor('key'),
+    });
+  });
+
+  it('falls back to the default backoff when a 429 has no Retry-After', async () => {
+    const strategy = createStrategy({});
+
+    await strategy.recordRateLimitHit('inworld', new RateLimitError('Inworld'));
+
+    expect(strategy.getWaitTime('inworld')).toBe(30_000);
+  });
+
+  it('never shortens a backoff already in place', () => {
+    const strategy = createStrategy({});
+
+    strategy.backoff('local', 10_000);
+    strategy.backoff('local', 1_000);
+
+    expect(strategy.getWaitTime('local')).toBe(10_000);
+  });
+
+  it('matches providers case-insensitively', async () => {
+    const strategy = createStrategy({ mistral: { requestsPerMinute: 1 } });
+
+    (await strategy.acquire('Mistral')).release();
+
+    expect(strategy.getWaitTime('MISTRAL')).toBeGreaterThan(0);
+  });
+});
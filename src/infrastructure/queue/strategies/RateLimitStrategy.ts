@@ -0,0 +1,254 @@
+// src/infrastructure/queue/strategies/RateLimitStrategy.ts
+// Token-bucket rate limiting per provider and per API key
+// Shared by the provider RateLimiters (before each call) and the workers (before processing each job)
+
+import { createHash } from 'crypto';
+import { IEventBus } from '@/core/ports/events/IEventBus';
+import { RateLimitHitEvent } from '@/core/domain/events/error/RateLimitHitEvent';
+import { EventMetadataBuilder } from '@/core/domain/events/base/EventMetadata';
+import { RateLimitError } from '@/shared/utils/errors/AppError';
+import { ProviderRateLimit, RateLimitConfig, createRateLimitConfig } from '@/shared/config/ratelimit.config';
+import { logger } from '@/shared/lib/logger';
+
+const MINUTE_MS = 60_000;
+
+export interface RateLimitCost {
+  characters?: number;
+  tokens?: number;
+}
+
+export interface RateLimitLease {
+  release(): void;
+}
+
+class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly capacity: number, private readonly refillPerMs: number) {
+    this.available = capacity;
+  }
+
+  // Milliseconds until `amount` can be taken (0 = now); a cost above the
+  // bucket capacity is clamped so a single large request cannot block forever
+  waitTime(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing <= 0 ? 0 : Math.ceil(missing / this.refillPerMs);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+interface LimiterState {
+  provider: string;
+  limits: ProviderRateLimit;
+  requests?: TokenBucket;
+  characters?: TokenBucket;
+  tokens?: TokenBucket;
+  active: number;
+  blockedUntil: number;
+  // Callers waiting for a concurrency slot
+  waiters: (() => void)[];
+}
+
+export class RateLimitStrategy {
+  private readonly states: Map<string, LimiterState> = new Map();
+
+  constructor(
+    private readonly config: RateLimitConfig = createRateLimitConfig(),
+    private readonly eventBus?: IEventBus
+  ) {}
+
+  // Short non-reversible identifier so raw API keys never end up in maps, logs or events
+  static keyIdFor(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+  }
+
+  getLimits(provider: string): ProviderRateLimit {
+    return this.config.providers[provider.toLowerCase()] ?? {};
+  }
+
+  // Milliseconds before a request of the given cost may start: 0 when it can
+  // start now, Infinity while every concurrency slot is taken.
+  // Without an API key, returns the shortest wait across the provider's keys
+  // (workers only know the provider, the services know the key)
+  getWaitTime(provider: string, apiKey?: string, cost: RateLimitCost = {}): number {
+    if (apiKey) {
+      return this.computeWait(this.getState(provider, this.toKeyId(apiKey)), cost);
+    }
+
+    const name = provider.toLowerCase();
+    const states = Array.from(this.states.values()).filter((state) => state.provider === name);
+    if (states.length === 0) {
+      return this.computeWait(this.getState(name), cost);
+    }
+
+    return Math.min(...states.map((state) => this.computeWait(state, cost)));
+  }
+
+  async acquire(provider: string, cost: RateLimitCost = {}, apiKey?: string): Promise<RateLimitLease> {
+    const state = this.getState(provider, this.toKeyId(apiKey));
+
+    for (;;) {
+      const waitMs = this.computeWait(state, cost);
+
+      if (waitMs === 0) {
+        state.requests?.take(1);
+        state.characters?.take(cost.characters ?? 0);
+        state.tokens?.take(cost.tokens ?? 0);
+        state.active++;
+        return this.createLease(state);
+      }
+
+      if (waitMs === Infinity) {
+        await new Promise<void>((resolve) => state.waiters.push(resolve));
+      } else {
+        await this.sleep(waitMs);
+      }
+    }
+  }
+
+  // Runs `fn` inside a lease and backs off for the Retry-After duration on a 429
+  async schedule<T>(
+    provider: string,
+    cost: RateLimitCost,
+    fn: () => Promise<T>,
+    apiKey?: string
+  ): Promise<T> {
+    const lease = await this.acquire(provider, cost, apiKey);
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        await this.recordRateLimitHit(provider, error, apiKey);
+      }
+      throw error;
+    } finally {
+      lease.release();
+    }
+  }
+
+  backoff(provider: string, delayMs: number, apiKey?: string): void {
+    this.backoffKey(provider, this.toKeyId(apiKey), delayMs);
+  }
+
+  // Applies the backoff carried by a RateLimitHitEvent (possibly raised by another component)
+  handleRateLimitHit(event: RateLimitHitEvent): void {
+    const { service, keyId, resetAt } = event.payload;
+    this.backoffKey(service, keyId, new Date(resetAt).getTime() - Date.now());
+  }
+
+  // Backs off for the error's Retry-After (or the default) and publishes a RateLimitHitEvent
+  async recordRateLimitHit(provider: string, error: RateLimitError, apiKey?: string): Promise<void> {
+    const retryAfter = error.metadata?.retryAfter;
+    const delayMs = typeof retryAfter === 'number' && retryAfter > 0
+      ? retryAfter * 1000
+      : this.config.defaultBackoffMs;
+    const keyId = this.toKeyId(apiKey);
+
+    this.backoffKey(provider, keyId, delayMs);
+
+    if (!this.eventBus) return;
+
+    const limits = this.getLimits(provider);
+    await this.eventBus.publish(new RateLimitHitEvent(
+      {
+        service: provider.toLowerCase(),
+        keyId,
+        limit: limits.requestsPerMinute ?? 0,
+        remaining: 0,
+        resetAt: new Date(Date.now() + delayMs),
+        occurredAt: new Date(),
+      },
+      EventMetadataBuilder.create().build()
+    ));
+  }
+
+  private backoffKey(provider: string, keyId: string | undefined, delayMs: number): void {
+    if (delayMs <= 0) return;
+
+    const state = this.getState(provider, keyId);
+    const blockedUntil = Date.now() + delayMs;
+
+    // Never shorten a backoff that is already in place
+    if (blockedUntil > state.blockedUntil) {
+      state.blockedUntil = blockedUntil;
+      logger.warn('Rate limit hit, backing off', { provider: state.provider, keyId, delayMs });
+    }
+  }
+
+  private computeWait(state: LimiterState, cost: RateLimitCost): number {
+    const blockedMs = Math.max(0, state.blockedUntil - Date.now());
+    if (blockedMs > 0) return blockedMs;
+
+    const { maxConcurrent } = state.limits;
+    if (maxConcurrent !== undefined && state.active >= maxConcurrent) {
+      return Infinity;
+    }
+
+    return Math.max(
+      state.requests?.waitTime(1) ?? 0,
+      state.characters?.waitTime(cost.characters ?? 0) ?? 0,
+      state.tokens?.waitTime(cost.tokens ?? 0) ?? 0
+    );
+  }
+
+  private createLease(state: LimiterState): RateLimitLease {
+    let released = false;
+
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        state.active--;
+        state.waiters.shift()?.();
+      },
+    };
+  }
+
+  private getState(provider: string, keyId?: string): LimiterState {
+    const name = provider.toLowerCase();
+    const key = keyId ? `${name}:${keyId}` : name;
+
+    let state = this.states.get(key);
+    if (!state) {
+      const limits = this.getLimits(name);
+      state = {
+        provider: name,
+        limits,
+        requests: this.createBucket(limits.requestsPerMinute),
+        characters: this.createBucket(limits.charactersPerMinute),
+        tokens: this.createBucket(limits.tokensPerMinute),
+        active: 0,
+        blockedUntil: 0,
+        waiters: [],
+      };
+      this.states.set(key, state);
+    }
+
+    return state;
+  }
+
+  private createBucket(perMinute?: number): TokenBucket | undefined {
+    return perMinute ? new TokenBucket(perMinute, perMinute / MINUTE_MS) : undefined;
+  }
+
+  private toKeyId(apiKey?: string): string | undefined {
+    return apiKey ? RateLimitStrategy.keyIdFor(apiKey) : undefined;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RetryStrategy } from './RetryStrategy';
+import { RetryConfig } from '@/shared/config/retry.config';
+import { APIError, ErrorCode, RateLimitError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+const config: RetryConfig = {
+  defaultPolicy: {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    multiplier: 2,
+    maxDelayMs: 10_000,
+    jitter: 0,
+    honorRetryAfter: true,
+  },
+  byStep: {
+    UPLOAD: { maxAttempts: 5 },
+  },
+  byErrorCode: {
+    [ErrorCode.RATE_LIMIT]: { maxAttempts: 6, baseDelayMs: 5000 },
+  },
+  nonRetryableCodes: [ErrorCode.INVALID_API_KEY, ErrorCode.VOICE_NOT_FOUND, ErrorCode.VALIDATION_ERROR],
+};
+
+describe('RetryStrategy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    const strategy = new RetryStrategy(config);
+    const error = new APIError('Mistral', 'Bad gateway', { status: 502 });
+
+    const delays = [1, 2, 3, 4, 5].map((attempt) =>
+      strategy.getDelay(strategy.getPolicy(ErrorCode.API_ERROR), attempt)
+    );
+
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 10_000]);
+    expect(strategy.decide(error, { attempt: 1 })).toEqual({
+      retry: true,
+      delayMs: 1000,
+      reason: 'retryable',
+      maxAttempts: 3,
+    });
+  });
+
+  it('stops once the attempts are exhausted', () => {
+    const strategy = new RetryStrategy(config);
+
+    const decision = strategy.decide(new Error('socket hang up'), { attempt: 3 });
+
+    expect(decision).toMatchObject({ retry: false, reason: 'attempts_exhausted', maxAttempts: 3 });
+  });
+
+  it('never retries invalid API keys or unknown voices', () => {
+    const strategy = new RetryStrategy(config);
+
+    expect(strategy.decide(ErrorFactory.invalidApiKey('ElevenLabs'), { attempt: 1 })).toMatchObject({
+      retry: false,
+      reason: 'non_retryable',
+    });
+    expect(strategy.decide(ErrorFactory.voiceNotFound('Inworld', 'v1'), { attempt: 1 }).retry).toBe(false);
+  });
+
+  it('treats errors that are not AppErrors as retryable', () => {
+    const strategy = new RetryStrategy(config);
+
+    expect(RetryStrategy.getErrorCode(new TypeError('fetch failed'))).toBe(ErrorCode.UNKNOWN_ERROR);
+    expect(strategy.decide(new TypeError('fetch failed'), { attempt: 1 }).retry).toBe(true);
+  });
+
+  it('applies the step policy, then the error code policy', () => {
+    const strategy = new RetryStrategy(config);
+
+    expect(strategy.getPolicy(undefined, 'UPLOAD').maxAttempts).toBe(5);
+    expect(strategy.getPolicy(ErrorCode.RATE_LIMIT, 'UPLOAD').maxAttempts).toBe(6);
+    expect(strategy.decide(new Error('reset'), { attempt: 4, step: 'UPLOAD' }).retry).toBe(true);
+  });
+
+  it('caps the policy attempts with the job budget', () => {
+    const strategy = new RetryStrategy(config);
+
+    const decision = strategy.decide(new Error('reset'), { attempt: 2, step: 'UPLOAD', maxAttempts: 2 });
+
+    expect(decision).toMatchObject({ retry: false, reason: 'attempts_exhausted', maxAttempts: 2 });
+  });
+
+  it('waits at least the Retry-After of a rate limited call', () => {
+    const strategy = new RetryStrategy(config);
+
+    expect(strategy.decide(new RateLimitError('Mistral', 30), { attempt: 1 }).delayMs).toBe(30_000);
+    // A shorter Retry-After does not shorten the backoff
+    expect(strategy.decide(new RateLimitError('Mistral', 1), { attempt: 1 }).delayMs).toBe(5000);
+  });
+
+  it('randomizes only the jittered part of the delay', () => {
+    const strategy = new RetryStrategy(config);
+    const policy = { ...config.defaultPolicy, jitter: 0.5 };
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(strategy.getDelay(policy, 1)).toBe(500);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(strategy.getDelay(policy, 1)).toBe(1000);
+  });
+});
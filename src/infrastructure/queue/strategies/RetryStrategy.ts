@@ -0,0 +1,77 @@
+// src/infrastructure/queue/strategies/RetryStrategy.ts
+// Retry policy engine: decides whether and when a failed operation runs again
+// Shared by the queue workers and the error recovery service/coordinator
+
+import { IRetryPolicy, RetryContext, RetryDecision } from '@/core/ports/queue/IRetryPolicy';
+import { AppError, ErrorCode } from '@/shared/utils/errors/AppError';
+import { RetryConfig, RetryPolicy, createRetryConfig } from '@/shared/config/retry.config';
+
+export class RetryStrategy implements IRetryPolicy {
+  constructor(private readonly config: RetryConfig = createRetryConfig()) {}
+
+  static getErrorCode(error: unknown): string {
+    return error instanceof AppError ? error.code : ErrorCode.UNKNOWN_ERROR;
+  }
+
+  // Default policy, refined by the step policy, then by the error code policy
+  getPolicy(code?: string, step?: string): RetryPolicy {
+    return {
+      ...this.config.defaultPolicy,
+      ...(step ? this.config.byStep[step] : undefined),
+      ...(code ? this.config.byErrorCode[code as ErrorCode] : undefined),
+    };
+  }
+
+  // Errors that are not AppErrors (network failures, crashes) are retryable
+  isRetryable(code: string): boolean {
+    return !this.config.nonRetryableCodes.includes(code as ErrorCode);
+  }
+
+  decide(error: unknown, context: RetryContext): RetryDecision {
+    return this.decideForCode(RetryStrategy.getErrorCode(error), context, this.getRetryAfterMs(error));
+  }
+
+  decideForCode(code: string, context: RetryContext, retryAfterMs?: number): RetryDecision {
+    const policy = this.getPolicy(code, context.step);
+    const maxAttempts = Math.min(policy.maxAttempts, context.maxAttempts ?? Infinity);
+
+    if (!this.isRetryable(code)) {
+      return { retry: false, delayMs: 0, reason: 'non_retryable', maxAttempts };
+    }
+
+    if (context.attempt >= maxAttempts) {
+      return { retry: false, delayMs: 0, reason: 'attempts_exhausted', maxAttempts };
+    }
+
+    return {
+      retry: true,
+      delayMs: this.getDelay(policy, context.attempt, retryAfterMs),
+      reason: 'retryable',
+      maxAttempts,
+    };
+  }
+
+  // Exponential backoff capped at maxDelayMs; the jittered part spreads
+  // retries of jobs that failed together so they do not hit the provider at once
+  getDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+    const exponential = Math.min(
+      policy.baseDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1)),
+      policy.maxDelayMs
+    );
+    const delay = exponential * (1 - policy.jitter) + exponential * policy.jitter * Math.random();
+
+    if (policy.honorRetryAfter && retryAfterMs !== undefined) {
+      return Math.round(Math.max(delay, retryAfterMs));
+    }
+    return Math.round(delay);
+  }
+
+  // RateLimitError carries the provider's Retry-After in seconds
+  private getRetryAfterMs(error: unknown): number | undefined {
+    if (!(error instanceof AppError) || error.code !== ErrorCode.RATE_LIMIT) {
+      return undefined;
+    }
+    const retryAfter = Number(error.metadata?.retryAfter);
+    return Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined;
+  }
+}
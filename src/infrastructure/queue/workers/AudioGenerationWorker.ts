@@ -0,0 +1,51 @@
+// src/infrastructure/queue/workers/AudioGenerationWorker.ts
+// Generates audio for one chunk; the worker that completes the last chunk of an item queues the merge
+
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { IAudioChunkRepository } from '@/core/ports/repositories/IAudioChunkRepository';
+import { GenerateAudioUseCase } from '@/core/domain/use-cases/content/GenerateAudioUseCase';
+import {
+  ChunkJobPayload,
+  ItemJobPayload,
+  JOB_TYPES,
+  QUEUE_NAMES,
+  pipelineJobId,
+} from '@/shared/constants/queues';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+export class AudioGenerationWorker extends BaseWorker<ChunkJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.AUDIO_GENERATION;
+  protected readonly jobTypes = [JOB_TYPES.GENERATE_AUDIO];
+  protected readonly pipelineStep = PipelineStep.AUDIO_GENERATION;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly generateAudio: GenerateAudioUseCase,
+    private readonly audioChunkRepository: IAudioChunkRepository
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<ChunkJobPayload>): Promise<void> {
+    const { jobId, itemId, chunkId } = job.payload;
+
+    await this.generateAudio.execute({ chunkId });
+
+    const chunks = await this.audioChunkRepository.findByItemId(itemId);
+    if (chunks.length === 0 || !chunks.every((chunk) => chunk.isComplete())) {
+      return;
+    }
+
+    // Several chunks can finish at once: the deterministic job ID dedupes the merge
+    await this.enqueueNext<ItemJobPayload>(
+      job,
+      QUEUE_NAMES.AUDIO_MERGE,
+      JOB_TYPES.MERGE_AUDIO,
+      { jobId, itemId },
+      { jobId: pipelineJobId(JOB_TYPES.MERGE_AUDIO, itemId) }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// src/infrastructure/queue/workers/AudioMergeWorker.ts
+// Merges the audio chunks of an item, then queues the final upload
+
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { MergeAudioChunksUseCase } from '@/core/domain/use-cases/content/MergeAudioChunksUseCase';
+import {
+  ItemJobPayload,
+  JOB_TYPES,
+  QUEUE_NAMES,
+  UploadJobPayload,
+  pipelineJobId,
+} from '@/shared/constants/queues';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+export class AudioMergeWorker extends BaseWorker<ItemJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.AUDIO_MERGE;
+  protected readonly jobTypes = [JOB_TYPES.MERGE_AUDIO];
+  protected readonly pipelineStep = PipelineStep.AUDIO_MERGE;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly mergeAudioChunks: MergeAudioChunksUseCase
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<ItemJobPayload>): Promise<void> {
+    const { jobId, itemId } = job.payload;
+
+    const { finalAudioPath } = await this.mergeAudioChunks.execute({ itemId });
+
+    await this.enqueueNext<UploadJobPayload>(
+      job,
+      QUEUE_NAMES.UPLOAD,
+      JOB_TYPES.UPLOAD_AUDIO,
+      { jobId, itemId, audioPath: finalAudioPath },
+      { jobId: pipelineJobId(JOB_TYPES.UPLOAD_AUDIO, itemId) }
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+import { ValidationWorker } from './ValidationWorker';
+import { IQueue, QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { RetryStrategy } from '../strategies/RetryStrategy';
+import { JOB_TYPES } from '@/shared/constants/queues';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+type StubQueue = IQueue<unknown> & {
+  enqueue: ReturnType<typeof vi.fn>;
+  ack: ReturnType<typeof vi.fn>;
+  fail: ReturnType<typeof vi.fn>;
+  extendVisibility: ReturnType<typeof vi.fn>;
+};
+
+// Hands out `jobs` once, then reports an empty queue
+function stubQueue(jobs: QueueJob<unknown>[]): StubQueue {
+  const pending = [...jobs];
+  return {
+    getName: () => 'test',
+    enqueue: vi.fn().mockResolvedValue('next'),
+    dequeue: vi.fn(async () => pending.shift() ?? null),
+    ack: vi.fn().mockResolvedValue(undefined),
+    fail: vi.fn().mockResolvedValue(undefined),
+    size: vi.fn(async () => pending.length),
+    extendVisibility: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function queueManager(queue: IQueue<unknown>): IQueueManager {
+  return { getQueue: () => queue } as unknown as IQueueManager;
+}
+
+function job(overrides: Partial<QueueJob<unknown>> = {}): QueueJob<unknown> {
+  return {
+    id: 'job-1',
+    type: 'test',
+    payload: { jobId: 'generation-1', itemId: 'item-1' },
+    attempts: 2,
+    maxAttempts: 5,
+    createdAt: new Date(),
+    priority: 3,
+    fairnessKey: 'generation-1',
+    ...overrides,
+  };
+}
+
+class TestWorker extends BaseWorker<unknown> {
+  protected readonly queueName = 'test';
+  protected readonly jobTypes = ['test'];
+
+  constructor(manager: IQueueManager, options: WorkerOptions, readonly run: (job: QueueJob<unknown>) => Promise<void>) {
+    super(manager, options);
+  }
+
+  async process(job: QueueJob<unknown>): Promise<void> {
+    await this.run(job);
+  }
+}
+
+const OPTIONS: WorkerOptions = { concurrency: 1, pollIntervalMs: 100, heartbeatIntervalMs: 1000 };
+
+// Idle slots sleep for a poll interval before they notice the stop
+async function stop(worker: BaseWorker<unknown>): Promise<void> {
+  const stopped = worker.stop();
+  await vi.advanceTimersByTimeAsync(OPTIONS.pollIntervalMs);
+  await stopped;
+}
+
+describe('BaseWorker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('acks a processed job with the lease it was dequeued with', async () => {
+    const queue = stubQueue([job()]);
+    const worker = new TestWorker(queueManager(queue), OPTIONS, async () => {});
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await stop(worker);
+
+    expect(queue.ack).toHaveBeenCalledWith('job-1', 2);
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+
+  it('fails a job with the retry decision of the retry strategy', async () => {
+    const queue = stubQueue([job()]);
+    const error = ErrorFactory.invalidApiKey('Inworld');
+    const worker = new TestWorker(
+      queueManager(queue),
+      { ...OPTIONS, retryStrategy: new RetryStrategy() },
+      async () => { throw error; }
+    );
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await stop(worker);
+
+    expect(queue.fail).toHaveBeenCalledWith('job-1', error, { retry: false, delayMs: 0 }, 2);
+    expect(queue.ack).not.toHaveBeenCalled();
+  });
+
+  it('fails job types it does not handle without processing them', async () => {
+    const queue = stubQueue([job({ type: 'other' })]);
+    const run = vi.fn();
+    const worker = new TestWorker(queueManager(queue), OPTIONS, run);
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await stop(worker);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(queue.fail.mock.calls[0][1]).toBeInstanceOf(ValidationError);
+  });
+
+  it('renews the lease while a slow job runs', async () => {
+    const queue = stubQueue([job()]);
+    const worker = new TestWorker(queueManager(queue), OPTIONS, () => new Promise((resolve) => setTimeout(resolve, 3500)));
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(3500);
+    await stop(worker);
+
+    expect(queue.extendVisibility).toHaveBeenCalledTimes(3);
+    expect(queue.extendVisibility).toHaveBeenCalledWith('job-1', 2);
+    expect(queue.ack).toHaveBeenCalledWith('job-1', 2);
+  });
+
+  it('neither acks nor fails a job whose lease was lost', async () => {
+    const queue = stubQueue([job(), job({ id: 'job-2' })]);
+    queue.extendVisibility.mockRejectedValue(new ValidationError('Job job-1 lease was lost'));
+    const worker = new TestWorker(queueManager(queue), OPTIONS, async (current) => {
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      if (current.id === 'job-2') throw new Error('reclaimed too');
+    });
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    await stop(worker);
+
+    expect(queue.ack).not.toHaveBeenCalled();
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+
+  it('waits for the in-flight job before stopping', async () => {
+    const queue = stubQueue([job()]);
+    const worker = new TestWorker(queueManager(queue), OPTIONS, () => new Promise((resolve) => setTimeout(resolve, 500)));
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(worker.getInFlightCount()).toBe(1);
+
+    const stopped = worker.stop();
+    await vi.advanceTimersByTimeAsync(500);
+    await stopped;
+
+    expect(queue.ack).toHaveBeenCalledTimes(1);
+    expect(worker.isRunning()).toBe(false);
+    expect(worker.getInFlightCount()).toBe(0);
+  });
+});
+
+describe('ValidationWorker', () => {
+  it('queues text generation directly without a validation use case', async () => {
+    const queue = stubQueue([]);
+    const worker = new ValidationWorker(queueManager(queue), OPTIONS);
+
+    await worker.process(job({ type: JOB_TYPES.VALIDATE_ITEM }) as QueueJob<{ jobId: string; itemId: string }>);
+
+    expect(queue.enqueue).toHaveBeenCalledWith(
+      JOB_TYPES.GENERATE_TEXT,
+      { jobId: 'generation-1', itemId: 'item-1' },
+      expect.objectContaining({ jobId: `${JOB_TYPES.GENERATE_TEXT}:item-1`, priority: 3, fairnessKey: 'generation-1' })
+    );
+  });
+});
@@ -0,0 +1,271 @@
+// src/infrastructure/queue/workers/BaseWorker.ts
+// Base worker: polls one named queue with N concurrent slots, acks/fails jobs
+// and chains the next pipeline step
+
+import { IWorker } from '@/core/ports/queue/IWorker';
+import { IQueue, QueueJob, EnqueueOptions, FailOptions } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { logger } from '@/shared/lib/logger';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { RateLimitStrategy } from '../strategies/RateLimitStrategy';
+import { RetryStrategy } from '../strategies/RetryStrategy';
+
+// Rate limit of the provider each job calls (the job's own choice, or the default one)
+export interface WorkerThrottle {
+  limiter: RateLimitStrategy;
+  resolveProvider: (job: QueueJob<unknown>) => Promise<string | undefined>;
+}
+
+export interface WorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  throttle?: WorkerThrottle;
+  // Decides retry/dead-letter and the backoff of failed jobs; without it the
+  // queue retries right away until maxAttempts
+  retryStrategy?: RetryStrategy;
+  // How often the lease of a running job is renewed (queues with visibility timeouts)
+  heartbeatIntervalMs?: number;
+}
+
+interface JobLease {
+  lost: boolean;
+}
+
+export abstract class BaseWorker<TPayload = unknown> implements IWorker<TPayload> {
+  protected abstract readonly queueName: string;
+  protected abstract readonly jobTypes: string[];
+  // Selects the step retry policy
+  protected readonly pipelineStep?: PipelineStep;
+
+  private running = false;
+  private slots: Promise<void>[] = [];
+  private readonly inFlight: Set<string> = new Set();
+
+  constructor(
+    protected readonly queueManager: IQueueManager,
+    protected readonly options: WorkerOptions
+  ) {}
+
+  getName(): string {
+    return this.constructor.name;
+  }
+
+  canHandle(type: string): boolean {
+    return this.jobTypes.includes(type);
+  }
+
+  abstract process(job: QueueJob<TPayload>): Promise<void>;
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const concurrency = Math.max(1, this.options.concurrency);
+    this.slots = Array.from({ length: concurrency }, (_, slot) => this.runSlot(slot));
+
+    logger.workerLog(this.getName(), 'Worker started', {
+      queue: this.queueName,
+      concurrency,
+    });
+  }
+
+  // Stops polling and resolves once every in-flight job has been acked or failed
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    await Promise.all(this.slots);
+    this.slots = [];
+
+    logger.workerLog(this.getName(), 'Worker stopped', { queue: this.queueName });
+  }
+
+  protected getQueue(): IQueue<TPayload> {
+    return this.queueManager.getQueue<TPayload>(this.queueName);
+  }
+
+  // Follow-up steps inherit the priority, fairness group and attempt budget of the job that queued them
+  protected async enqueueNext<TNext>(
+    parent: QueueJob<TPayload>,
+    queueName: string,
+    type: string,
+    payload: TNext,
+    options?: EnqueueOptions
+  ): Promise<string> {
+    return await this.queueManager.getQueue<TNext>(queueName).enqueue(type, payload, {
+      priority: parent.priority,
+      fairnessKey: parent.fairnessKey,
+      maxAttempts: parent.maxAttempts,
+      ...options,
+    });
+  }
+
+  private async runSlot(slot: number): Promise<void> {
+    const queue = this.getQueue();
+
+    while (this.running) {
+      let job: QueueJob<TPayload> | null = null;
+
+      try {
+        job = await queue.dequeue();
+      } catch (error) {
+        logger.error(
+          'Failed to dequeue job',
+          error instanceof Error ? error : undefined,
+          { worker: this.getName(), queue: this.queueName, slot }
+        );
+      }
+
+      if (!job) {
+        await this.sleep(this.options.pollIntervalMs);
+        continue;
+      }
+
+      await this.handle(queue, job);
+    }
+  }
+
+  // Holds the job (its lease renewed by the heartbeat) while the provider it calls
+  // is throttled; the other slots keep serving jobs for other providers
+  private async waitForProvider(job: QueueJob<TPayload>): Promise<void> {
+    const { throttle } = this.options;
+    if (!throttle) return;
+
+    const provider = await throttle.resolveProvider(job);
+    if (!provider) return;
+
+    let waitMs = throttle.limiter.getWaitTime(provider);
+    while (waitMs > 0) {
+      await this.sleep(Math.min(waitMs, this.options.pollIntervalMs));
+      waitMs = throttle.limiter.getWaitTime(provider);
+    }
+  }
+
+  private async handle(queue: IQueue<TPayload>, job: QueueJob<TPayload>): Promise<void> {
+    this.inFlight.add(job.id);
+    const startedAt = Date.now();
+    const lease: JobLease = { lost: false };
+    const heartbeat = this.startHeartbeat(queue, job, lease);
+
+    try {
+      if (!this.canHandle(job.type)) {
+        throw new ValidationError(`${this.getName()} cannot handle job type '${job.type}'`, {
+          jobType: job.type,
+        });
+      }
+
+      await this.waitForProvider(job);
+      await this.process(job);
+      if (lease.lost) {
+        this.logLostLease(job);
+        return;
+      }
+      await queue.ack(job.id, job.attempts);
+
+      logger.workerLog(this.getName(), 'Job completed', {
+        jobId: job.id,
+        type: job.type,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      if (lease.lost) {
+        this.logLostLease(job);
+        return;
+      }
+
+      const failOptions = this.getFailOptions(job, error);
+
+      logger.error(
+        `${this.getName()} job failed`,
+        error instanceof Error ? error : undefined,
+        {
+          jobId: job.id,
+          type: job.type,
+          attempt: job.attempts + 1,
+          maxAttempts: job.maxAttempts,
+          retry: failOptions?.retry,
+          retryDelayMs: failOptions?.delayMs,
+        }
+      );
+
+      try {
+        await queue.fail(job.id, error, failOptions, job.attempts);
+      } catch (failError) {
+        logger.error(
+          'Failed to mark job as failed',
+          failError instanceof Error ? failError : undefined,
+          { jobId: job.id, queue: this.queueName }
+        );
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.inFlight.delete(job.id);
+    }
+  }
+
+  // Renews the lease while the job runs so a slow provider call is not reclaimed
+  // and handed to another worker
+  private startHeartbeat(
+    queue: IQueue<TPayload>,
+    job: QueueJob<TPayload>,
+    lease: JobLease
+  ): NodeJS.Timeout | undefined {
+    const { heartbeatIntervalMs } = this.options;
+    if (!queue.extendVisibility || !heartbeatIntervalMs) return undefined;
+
+    const timer = setInterval(() => {
+      queue.extendVisibility?.(job.id, job.attempts).catch((error: unknown) => {
+        // The lease expired before this renewal: the job is back on the queue
+        if (error instanceof ValidationError) {
+          lease.lost = true;
+          clearInterval(timer);
+          return;
+        }
+        logger.error(
+          'Failed to extend job lease',
+          error instanceof Error ? error : undefined,
+          { jobId: job.id, queue: this.queueName }
+        );
+      });
+    }, heartbeatIntervalMs);
+    timer.unref();
+
+    return timer;
+  }
+
+  // The job was reclaimed and may be running elsewhere: neither ack nor fail it
+  private logLostLease(job: QueueJob<TPayload>): void {
+    logger.warn(`${this.getName()} lost the lease of job ${job.id}, leaving it to the queue`, {
+      jobId: job.id,
+      type: job.type,
+      attempt: job.attempts + 1,
+    });
+  }
+
+  private getFailOptions(job: QueueJob<TPayload>, error: unknown): FailOptions | undefined {
+    const { retryStrategy } = this.options;
+    if (!retryStrategy) return undefined;
+
+    // The queue job's maxAttempts carries the per-job budget
+    const decision = retryStrategy.decide(error, {
+      attempt: job.attempts + 1,
+      step: this.pipelineStep,
+      maxAttempts: job.maxAttempts,
+    });
+
+    return { retry: decision.retry, delayMs: decision.delayMs };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,45 @@
+// src/infrastructure/queue/workers/TextChunkingWorker.ts
+// Splits the generated script into chunks, then queues one audio job per chunk
+
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { ChunkTextUseCase } from '@/core/domain/use-cases/content/ChunkTextUseCase';
+import {
+  ChunkJobPayload,
+  ItemJobPayload,
+  JOB_TYPES,
+  QUEUE_NAMES,
+  pipelineJobId,
+} from '@/shared/constants/queues';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+export class TextChunkingWorker extends BaseWorker<ItemJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.TEXT_CHUNKING;
+  protected readonly jobTypes = [JOB_TYPES.CHUNK_TEXT];
+  protected readonly pipelineStep = PipelineStep.CHUNKING;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly chunkText: ChunkTextUseCase
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<ItemJobPayload>): Promise<void> {
+    const { jobId, itemId } = job.payload;
+
+    const { chunks } = await this.chunkText.execute({ itemId });
+
+    for (const chunk of chunks) {
+      await this.enqueueNext<ChunkJobPayload>(
+        job,
+        QUEUE_NAMES.AUDIO_GENERATION,
+        JOB_TYPES.GENERATE_AUDIO,
+        { jobId, itemId, chunkId: chunk.id },
+        { jobId: pipelineJobId(JOB_TYPES.GENERATE_AUDIO, chunk.id) }
+      );
+    }
+  }
+}
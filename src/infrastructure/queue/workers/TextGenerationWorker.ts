@@ -0,0 +1,37 @@
+// src/infrastructure/queue/workers/TextGenerationWorker.ts
+// Generates the item script via the AI provider, then queues chunking
+
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { GenerateTextUseCase } from '@/core/domain/use-cases/content/GenerateTextUseCase';
+import { ItemJobPayload, JOB_TYPES, QUEUE_NAMES, pipelineJobId } from '@/shared/constants/queues';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+export class TextGenerationWorker extends BaseWorker<ItemJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.TEXT_GENERATION;
+  protected readonly jobTypes = [JOB_TYPES.GENERATE_TEXT];
+  protected readonly pipelineStep = PipelineStep.TEXT_GENERATION;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly generateText: GenerateTextUseCase
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<ItemJobPayload>): Promise<void> {
+    const { jobId, itemId } = job.payload;
+
+    await this.generateText.execute({ itemId });
+
+    await this.enqueueNext<ItemJobPayload>(
+      job,
+      QUEUE_NAMES.TEXT_CHUNKING,
+      JOB_TYPES.CHUNK_TEXT,
+      { jobId, itemId },
+      { jobId: pipelineJobId(JOB_TYPES.CHUNK_TEXT, itemId) }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// src/infrastructure/queue/workers/TextRefinementWorker.ts
+// Refines an already generated script on request, or re-runs the job's script stages
+// from a given stage, then re-chunks it
+
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { RefineTextUseCase } from '@/core/domain/use-cases/content/RefineTextUseCase';
+import { RunScriptStagesUseCase } from '@/core/domain/use-cases/content/RunScriptStagesUseCase';
+import {
+  ItemJobPayload,
+  JOB_TYPES,
+  QUEUE_NAMES,
+  RefineTextJobPayload,
+  ScriptStagesJobPayload,
+  pipelineJobId,
+} from '@/shared/constants/queues';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+type TextRefinementJobPayload = RefineTextJobPayload | ScriptStagesJobPayload;
+
+export class TextRefinementWorker extends BaseWorker<TextRefinementJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.TEXT_REFINEMENT;
+  protected readonly jobTypes = [JOB_TYPES.REFINE_TEXT, JOB_TYPES.RUN_SCRIPT_STAGES];
+  protected readonly pipelineStep = PipelineStep.TEXT_GENERATION;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly refineText: RefineTextUseCase,
+    private readonly runScriptStages: RunScriptStagesUseCase
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<TextRefinementJobPayload>): Promise<void> {
+    const { jobId, itemId } = job.payload;
+
+    if (job.type === JOB_TYPES.RUN_SCRIPT_STAGES) {
+      // The first attempt dropped the outputs from that stage on: retries resume after the last stored one
+      const { fromStage } = job.payload as ScriptStagesJobPayload;
+      await this.runScriptStages.execute({ itemId, fromStage: job.attempts > 0 ? undefined : fromStage });
+    } else {
+      const { instructions } = job.payload as RefineTextJobPayload;
+      await this.refineText.execute({ itemId, refinementInstructions: instructions });
+    }
+
+    await this.enqueueNext<ItemJobPayload>(
+      job,
+      QUEUE_NAMES.TEXT_CHUNKING,
+      JOB_TYPES.CHUNK_TEXT,
+      { jobId, itemId },
+      { jobId: pipelineJobId(JOB_TYPES.CHUNK_TEXT, itemId) }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// src/infrastructure/queue/workers/UploadWorker.ts
+// Last pipeline step: stores the merged audio file of an item
+
+import { promises as fs } from 'fs';
+import { basename, extname } from 'path';
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { UploadAudioUseCase } from '@/core/domain/use-cases/content/UploadAudioUseCase';
+import { JOB_TYPES, QUEUE_NAMES, UploadJobPayload } from '@/shared/constants/queues';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+const MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.aac': 'audio/aac',
+};
+
+export class UploadWorker extends BaseWorker<UploadJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.UPLOAD;
+  protected readonly jobTypes = [JOB_TYPES.UPLOAD_AUDIO];
+  protected readonly pipelineStep = PipelineStep.UPLOAD;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly uploadAudio: UploadAudioUseCase
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<UploadJobPayload>): Promise<void> {
+    const { itemId, audioPath } = job.payload;
+
+    const buffer = await fs.readFile(audioPath);
+
+    await this.uploadAudio.execute({
+      itemId,
+      audioFile: {
+        buffer,
+        originalname: basename(audioPath),
+        mimetype: MIME_TYPES[extname(audioPath).toLowerCase()] || 'audio/mpeg',
+        size: buffer.length,
+      },
+    });
+  }
+}
@@ -0,0 +1,49 @@
+// src/infrastructure/queue/workers/ValidationWorker.ts
+// Validates content items, then queues text generation for the valid ones
+// Without a validation use case (no IValidationService configured) items go straight to text generation
+
+import { QueueJob } from '@/core/ports/queue/IQueue';
+import { IQueueManager } from '@/core/ports/queue/IQueueManager';
+import { PipelineStep } from '@/core/domain/entities/ContentItem';
+import { ValidateContentItemUseCase } from '@/core/domain/use-cases/content/ValidateContentItemUseCase';
+import { ItemJobPayload, JOB_TYPES, QUEUE_NAMES, pipelineJobId } from '@/shared/constants/queues';
+import { logger } from '@/shared/lib/logger';
+import { BaseWorker, WorkerOptions } from './BaseWorker';
+
+export class ValidationWorker extends BaseWorker<ItemJobPayload> {
+  protected readonly queueName = QUEUE_NAMES.VALIDATION;
+  protected readonly jobTypes = [JOB_TYPES.VALIDATE_ITEM];
+  protected readonly pipelineStep = PipelineStep.VALIDATION;
+
+  constructor(
+    queueManager: IQueueManager,
+    options: WorkerOptions,
+    private readonly validateContentItem?: ValidateContentItemUseCase
+  ) {
+    super(queueManager, options);
+  }
+
+  async process(job: QueueJob<ItemJobPayload>): Promise<void> {
+    const { jobId, itemId } = job.payload;
+
+    if (this.validateContentItem) {
+      const result = await this.validateContentItem.execute({ itemId });
+
+      if (result.item.isFailed()) {
+        logger.itemLog(itemId, 'Item failed validation, pipeline stopped', {
+          jobId,
+          validationErrors: result.validationErrors,
+        });
+        return;
+      }
+    }
+
+    await this.enqueueNext<ItemJobPayload>(
+      job,
+      QUEUE_NAMES.TEXT_GENERATION,
+      JOB_TYPES.GENERATE_TEXT,
+      { jobId, itemId },
+      { jobId: pipelineJobId(JOB_TYPES.GENERATE_TEXT, itemId) }
+    );
+  }
+}
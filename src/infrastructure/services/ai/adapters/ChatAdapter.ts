@@ -0,0 +1,58 @@
+// src/infrastructure/services/ai/adapters/ChatAdapter.ts
+// IChatService dispatching to the provider named by the request options, or to the chat provider
+
+import {
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  IChatService,
+} from '@/core/ports/services/ai/IChatService';
+import { AIChatMessage, AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+
+export class ChatAdapter implements IChatService {
+  private readonly providers: Map<string, IChatService> = new Map();
+
+  constructor(private readonly defaultProvider: string) {}
+
+  register(provider: string, service: IChatService): void {
+    this.providers.set(provider, service);
+  }
+
+  has(provider: string): boolean {
+    return this.providers.has(provider);
+  }
+
+  listProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  async completeChat(messages: AIChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    return await this.resolve(options).completeChat(messages, options);
+  }
+
+  streamChat(messages: AIChatMessage[], options?: ChatCompletionOptions): AsyncIterable<AIStreamChunk> {
+    return this.resolve(options).streamChat(messages, options);
+  }
+
+  // context.provider picks the service, like options.provider for completions
+  async executeTool(
+    name: string,
+    args: Record<string, unknown>,
+    context: Record<string, unknown>
+  ): Promise<unknown> {
+    const provider = typeof context.provider === 'string' ? context.provider : undefined;
+    return await this.resolve({ provider }).executeTool(name, args, context);
+  }
+
+  private resolve(options?: ChatCompletionOptions): IChatService {
+    const provider = options?.provider || this.defaultProvider;
+    const service = this.providers.get(provider);
+    if (!service) {
+      throw new ValidationError(`AI provider '${provider}' is not configured for chat`, {
+        provider,
+        availableProviders: this.listProviders(),
+      });
+    }
+    return service;
+  }
+}
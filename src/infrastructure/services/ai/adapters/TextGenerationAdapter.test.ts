@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TextGenerationAdapter } from './TextGenerationAdapter';
+import { ITextGenerationService } from '@/core/ports/services/ai/ITextGenerationService';
+import { AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { APIError, ErrorCode, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { AIFallbackErrorClass, AIFallbackTarget } from '@/shared/config/ai.config';
+
+vi.mock('@/shared/lib/logger', () => ({ logger: { warn: vi.fn() } }));
+
+const PARAMS = { userPrompt: 'Raconte les volcans.' };
+const CHAIN: AIFallbackTarget[] = [
+  { provider: 'anthropic', model: 'claude-small' },
+  { provider: 'mistral', model: 'mistral-large-latest' },
+];
+const ALL: AIFallbackErrorClass[] = ['rate_limit', 'timeout', 'server_error'];
+
+function provider(name: string, failures: unknown[] = []) {
+  return {
+    generateText: vi.fn<ITextGenerationService['generateText']>(async () => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return { content: `${name} text`, model: name === 'mistral' ? 'mistral-reported' : undefined };
+    }),
+    streamText: vi.fn<ITextGenerationService['streamText']>(async function* () {
+      yield { delta: `${name} ` };
+      const failure = failures.shift();
+      if (failure) throw failure;
+      yield { delta: 'fin', done: true };
+    }),
+  };
+}
+
+function setup(
+  failures: Record<string, unknown[]> = {},
+  { chain = CHAIN, fallbackOn = ALL }: { chain?: AIFallbackTarget[]; fallbackOn?: AIFallbackErrorClass[] } = {}
+) {
+  const adapter = new TextGenerationAdapter('openai', chain, fallbackOn);
+  const providers = {
+    openai: provider('openai', failures.openai),
+    anthropic: provider('anthropic', failures.anthropic),
+    mistral: provider('mistral', failures.mistral),
+  };
+  for (const [name, service] of Object.entries(providers)) adapter.register(name, service);
+  return { adapter, providers };
+}
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk.delta;
+  return text;
+}
+
+describe('TextGenerationAdapter', () => {
+  it('uses the requested provider and model, then the default provider', async () => {
+    const { adapter, providers } = setup();
+
+    const requested = await adapter.generateText({ ...PARAMS, options: { provider: 'anthropic', model: 'claude-big' } });
+    const byDefault = await adapter.generateText(PARAMS);
+
+    expect(providers.anthropic.generateText).toHaveBeenCalledWith({
+      ...PARAMS,
+      options: { provider: 'anthropic', model: 'claude-big' },
+    });
+    expect(requested).toMatchObject({ content: 'anthropic text', model: 'claude-big', provider: 'anthropic', usedFallback: false });
+    expect(byDefault).toMatchObject({ content: 'openai text', provider: 'openai', usedFallback: false });
+  });
+
+  it('rejects providers that are not configured', async () => {
+    const { adapter } = setup();
+
+    const error = await adapter.generateText({ ...PARAMS, options: { provider: 'gemini' } }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ metadata: { provider: 'gemini', availableProviders: ['openai', 'anthropic', 'mistral'] } });
+  });
+
+  describe('fallback', () => {
+    it.each([
+      ['rate limits', new RateLimitError('OpenAI', 10)],
+      ['timeouts', ErrorFactory.timeout('generateText', 30000)],
+      ['unavailable services', ErrorFactory.serviceUnavailable('OpenAI')],
+      ['server errors', new APIError('OpenAI', 'Internal error', { status: 502 })],
+      ['network failures', new APIError('OpenAI', 'fetch failed')],
+    ])('moves down the chain on %s', async (_label, error) => {
+      const { adapter, providers } = setup({ openai: [error] });
+
+      const result = await adapter.generateText(PARAMS);
+
+      expect(providers.anthropic.generateText).toHaveBeenCalledWith({
+        ...PARAMS,
+        options: { provider: 'anthropic', model: 'claude-small' },
+      });
+      expect(result).toMatchObject({ content: 'anthropic text', model: 'claude-small', provider: 'anthropic', usedFallback: true });
+    });
+
+    it('only falls back on the configured error classes', async () => {
+      const timeout = ErrorFactory.timeout('generateText', 30000);
+      const { adapter, providers } = setup({ openai: [timeout] }, { fallbackOn: ['rate_limit', 'server_error'] });
+
+      await expect(adapter.generateText(PARAMS)).rejects.toBe(timeout);
+      expect(providers.anthropic.generateText).not.toHaveBeenCalled();
+    });
+
+    it('does not fall back on request errors or unknown errors', async () => {
+      const badRequest = new APIError('OpenAI', 'Bad request', { status: 400 });
+      const invalidKey = ErrorFactory.invalidApiKey('OpenAI');
+      const unknown = new TypeError('undefined is not a function');
+      const { adapter, providers } = setup({ openai: [badRequest, invalidKey, unknown] });
+
+      await expect(adapter.generateText(PARAMS)).rejects.toBe(badRequest);
+      await expect(adapter.generateText(PARAMS)).rejects.toMatchObject({ code: ErrorCode.INVALID_API_KEY });
+      await expect(adapter.generateText(PARAMS)).rejects.toBe(unknown);
+      expect(providers.anthropic.generateText).not.toHaveBeenCalled();
+    });
+
+    it('keeps the model a fallback reports, and throws the last error once the chain is spent', async () => {
+      const last = new RateLimitError('Mistral');
+      const { adapter } = setup({ openai: [new RateLimitError('OpenAI')], anthropic: [new RateLimitError('Anthropic')] });
+
+      await expect(adapter.generateText(PARAMS)).resolves.toMatchObject({
+        model: 'mistral-reported',
+        provider: 'mistral',
+        usedFallback: true,
+      });
+
+      const spent = setup({
+        openai: [new RateLimitError('OpenAI')],
+        anthropic: [new RateLimitError('Anthropic')],
+        mistral: [last],
+      });
+      await expect(spent.adapter.generateText(PARAMS)).rejects.toBe(last);
+    });
+
+    it('skips unconfigured providers and the target that just failed', async () => {
+      const { adapter, providers } = setup(
+        { anthropic: [new RateLimitError('Anthropic')] },
+        {
+          chain: [
+            { provider: 'gemini', model: 'gemini-pro' },
+            { provider: 'anthropic', model: 'claude-small' },
+            { provider: 'anthropic' },
+            { provider: 'mistral' },
+          ],
+        }
+      );
+
+      const result = await adapter.generateText({ ...PARAMS, options: { provider: 'anthropic', model: 'claude-small' } });
+
+      // A model-less entry for the requested provider is that same target
+      expect(providers.anthropic.generateText).toHaveBeenCalledTimes(1);
+      expect(providers.mistral.generateText).toHaveBeenCalledWith({ ...PARAMS, options: { provider: 'mistral', model: undefined } });
+      expect(result).toMatchObject({ provider: 'mistral', usedFallback: true });
+    });
+  });
+
+  describe('streamText', () => {
+    it('falls back while nothing has been streamed', async () => {
+      const { adapter, providers } = setup();
+      providers.openai.streamText.mockImplementation(async function* () {
+        throw new RateLimitError('OpenAI');
+      });
+
+      await expect(collect(adapter.streamText(PARAMS))).resolves.toBe('anthropic fin');
+    });
+
+    it('does not splice two models into one stream', async () => {
+      const failure = new APIError('OpenAI', 'Connection reset');
+      const { adapter, providers } = setup({ openai: [failure] });
+
+      await expect(collect(adapter.streamText(PARAMS))).rejects.toBe(failure);
+      expect(providers.anthropic.streamText).not.toHaveBeenCalled();
+    });
+  });
+});
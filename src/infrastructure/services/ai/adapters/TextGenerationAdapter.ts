@@ -0,0 +1,162 @@
+// src/infrastructure/services/ai/adapters/TextGenerationAdapter.ts
+// ITextGenerationService dispatching to the provider named by the request options
+// (the job's or template's provider), or to the default provider, and falling back
+// along the configured chain when the error class allows it
+
+import {
+  ITextGenerationService,
+  TextGenerationParams,
+} from '@/core/ports/services/ai/ITextGenerationService';
+import { AICompletionResult, AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { AppError, ErrorCode, ValidationError } from '@/shared/utils/errors/AppError';
+import { AIFallbackErrorClass, AIFallbackTarget } from '@/shared/config/ai.config';
+import { logger } from '@/shared/lib/logger';
+
+export class TextGenerationAdapter implements ITextGenerationService {
+  private readonly providers: Map<string, ITextGenerationService> = new Map();
+
+  constructor(
+    private readonly defaultProvider: string,
+    private readonly fallbackChain: AIFallbackTarget[] = [],
+    private readonly fallbackOn: AIFallbackErrorClass[] = []
+  ) {}
+
+  register(provider: string, service: ITextGenerationService): void {
+    this.providers.set(provider, service);
+  }
+
+  has(provider: string): boolean {
+    return this.providers.has(provider);
+  }
+
+  listProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  getDefaultProvider(): string {
+    return this.defaultProvider;
+  }
+
+  async generateText(params: TextGenerationParams): Promise<AICompletionResult> {
+    const targets = this.getTargets(params);
+    let lastError: unknown;
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+
+      try {
+        const result = await this.get(target.provider).generateText(this.withTarget(params, target));
+        return {
+          ...result,
+          model: result.model ?? target.model,
+          provider: target.provider,
+          usedFallback: i > 0,
+        };
+      } catch (error) {
+        lastError = error;
+        if (!this.shouldFallback(error) || i === targets.length - 1) {
+          break;
+        }
+        this.logFallback(target, targets[i + 1], error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Falls back only while nothing has been yielded: a stream is never spliced from two models
+  async *streamText(params: TextGenerationParams): AsyncIterable<AIStreamChunk> {
+    const targets = this.getTargets(params);
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      let started = false;
+
+      try {
+        for await (const chunk of this.get(target.provider).streamText(this.withTarget(params, target))) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (started || !this.shouldFallback(error) || i === targets.length - 1) {
+          throw error;
+        }
+        this.logFallback(target, targets[i + 1], error);
+      }
+    }
+  }
+
+  private get(provider: string): ITextGenerationService {
+    const service = this.providers.get(provider);
+    if (!service) {
+      throw new ValidationError(`AI provider '${provider}' is not configured for text generation`, {
+        provider,
+        availableProviders: this.listProviders(),
+      });
+    }
+    return service;
+  }
+
+  // The requested provider/model first, then the chain minus that same target and unconfigured providers
+  private getTargets(params: TextGenerationParams): AIFallbackTarget[] {
+    const primary: AIFallbackTarget = {
+      provider: params.options?.provider || this.defaultProvider,
+      model: params.options?.model,
+    };
+
+    return [
+      primary,
+      ...this.fallbackChain.filter(
+        (target) =>
+          this.has(target.provider) &&
+          !(target.provider === primary.provider && (target.model ?? primary.model) === primary.model)
+      ),
+    ];
+  }
+
+  private withTarget(params: TextGenerationParams, target: AIFallbackTarget): TextGenerationParams {
+    return {
+      ...params,
+      options: { ...params.options, provider: target.provider, model: target.model },
+    };
+  }
+
+  private shouldFallback(error: unknown): boolean {
+    const errorClass = this.classify(error);
+    return errorClass !== null && this.fallbackOn.includes(errorClass);
+  }
+
+  // Network failures surface as API errors without status: counted as server errors
+  private classify(error: unknown): AIFallbackErrorClass | null {
+    if (!(error instanceof AppError)) {
+      return null;
+    }
+
+    switch (error.code) {
+      case ErrorCode.RATE_LIMIT:
+        return 'rate_limit';
+      case ErrorCode.TIMEOUT:
+        return 'timeout';
+      case ErrorCode.SERVICE_UNAVAILABLE:
+        return 'server_error';
+      case ErrorCode.API_ERROR: {
+        const status = error.metadata?.status;
+        return typeof status !== 'number' || status >= 500 ? 'server_error' : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private logFallback(target: AIFallbackTarget, next: AIFallbackTarget, error: unknown): void {
+    logger.warn('Text generation failed, falling back', {
+      provider: target.provider,
+      model: target.model,
+      nextProvider: next.provider,
+      nextModel: next.model,
+      errorClass: this.classify(error),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
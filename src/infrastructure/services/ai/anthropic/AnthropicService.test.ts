@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { AnthropicService } from './AnthropicService';
+import { AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { APIError, ErrorCode, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+
+const PARAMS = { systemPrompt: 'Tu es un narrateur.', userPrompt: 'Raconte les volcans.' };
+
+function apiError(status: number, type: string, headers: Record<string, string> = {}) {
+  return Anthropic.APIError.generate(status, errorBody(type), undefined, new Headers(headers));
+}
+
+function errorBody(type: string) {
+  return { type: 'error', error: { type, message: `${type} message` } };
+}
+
+function createService(create: (...args: unknown[]) => unknown) {
+  const service = new AnthropicService({ apiKey: 'sk-test', defaultModel: 'claude-default' });
+  vi.spyOn(service['client'].messages, 'create').mockImplementation(create as never);
+  return service;
+}
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('AnthropicService', () => {
+  describe('error mapping', () => {
+    it('maps 429s to rate limit errors carrying retry-after', async () => {
+      const service = createService(async () => {
+        throw apiError(429, 'rate_limit_error', { 'retry-after': '12' });
+      });
+
+      const error = await service.generateText(PARAMS).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ metadata: { service: 'Anthropic', retryAfter: 12, overloaded: false } });
+    });
+
+    it('treats an overloaded API as rate limited, by status or by error type inside a stream', async () => {
+      const overloaded = createService(async () => {
+        throw apiError(529, 'overloaded_error');
+      });
+      const streamed = createService(async () => ({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'message_start', message: { model: 'claude-default', usage: { input_tokens: 3 } } };
+          // How the SDK reports an error event sent inside the stream
+          throw new Anthropic.APIError(undefined, errorBody('overloaded_error'), undefined, new Headers());
+        },
+      }));
+
+      await expect(overloaded.generateText(PARAMS)).rejects.toMatchObject({
+        code: ErrorCode.RATE_LIMIT,
+        metadata: { overloaded: true, retryAfter: undefined },
+      });
+      await expect(collect(streamed.streamText(PARAMS))).rejects.toMatchObject({
+        code: ErrorCode.RATE_LIMIT,
+        metadata: { overloaded: true },
+      });
+    });
+
+    it('reports a rejected key as such', async () => {
+      const service = createService(async () => {
+        throw apiError(401, 'authentication_error');
+      });
+
+      await expect(service.generateText(PARAMS)).rejects.toMatchObject({ code: ErrorCode.INVALID_API_KEY });
+    });
+
+    it('keeps the status and error type of other API errors', async () => {
+      const badRequest = createService(async () => {
+        throw apiError(400, 'invalid_request_error');
+      });
+      const serverError = createService(async () => {
+        throw apiError(500, 'api_error');
+      });
+
+      const error = await badRequest.generateText(PARAMS).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(APIError);
+      expect(error).toMatchObject({ metadata: { status: 400, errorType: 'invalid_request_error' } });
+      await expect(serverError.generateText(PARAMS)).rejects.toMatchObject({
+        code: ErrorCode.API_ERROR,
+        metadata: { status: 500, errorType: 'api_error' },
+      });
+    });
+
+    it('wraps network failures without a status', async () => {
+      const service = createService(async () => {
+        throw new TypeError('fetch failed');
+      });
+
+      const error = await service.generateText(PARAMS).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(APIError);
+      expect((error as APIError).message).toContain('Failed to generate text: TypeError: fetch failed');
+      expect((error as APIError).metadata?.status).toBeUndefined();
+    });
+
+    it('passes application errors through unchanged', async () => {
+      const original = new ValidationError('Prompt too long');
+      const service = createService(async () => {
+        throw original;
+      });
+
+      await expect(service.generateText(PARAMS)).rejects.toBe(original);
+    });
+  });
+
+  it('sends the system prompt apart and joins the text blocks of the reply', async () => {
+    const service = createService(async () => ({
+      model: 'claude-default',
+      content: [
+        { type: 'text', text: 'Les volcans ' },
+        { type: 'text', text: 'dorment.' },
+      ],
+      usage: { input_tokens: 10, output_tokens: 4 },
+    }));
+
+    const result = await service.generateText({ ...PARAMS, options: { model: 'claude-other', maxTokens: 500 } });
+
+    expect(service['client'].messages.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'claude-other',
+        max_tokens: 500,
+        system: 'Tu es un narrateur.',
+        messages: [{ role: 'user', content: 'Raconte les volcans.' }],
+      })
+    );
+    expect(result).toEqual({
+      content: 'Les volcans dorment.',
+      model: 'claude-default',
+      usage: { inputTokens: 10, outputTokens: 4, totalTokens: 14 },
+    });
+  });
+});
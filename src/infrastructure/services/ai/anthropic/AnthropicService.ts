@@ -0,0 +1,262 @@
+// src/infrastructure/services/ai/anthropic/AnthropicService.ts
+// Anthropic Claude service implementation for text generation and chat (Messages API)
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ITextGenerationService,
+  TextGenerationParams,
+} from '@/core/ports/services/ai/ITextGenerationService';
+import {
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  IChatService,
+} from '@/core/ports/services/ai/IChatService';
+import {
+  AIChatMessage,
+  AICompletionResult,
+  AIRequestOptions,
+  AIStreamChunk,
+  AIUsage,
+  IAIService,
+} from '@/core/ports/services/ai/IAIService';
+import { AppError, APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { ANTHROPIC_PROVIDER, AnthropicRateLimiter } from './RateLimiter';
+
+export interface AnthropicServiceConfig {
+  apiKey: string;
+  defaultModel: string;
+}
+
+interface AnthropicRequest {
+  system?: string;
+  messages: Anthropic.MessageParam[];
+  options?: AIRequestOptions;
+}
+
+const DEFAULT_MAX_TOKENS = 4000;
+// HTTP status of "overloaded_error": the API is saturated, retried like a 429
+const OVERLOADED_STATUS = 529;
+// Rough tokenizer-free estimate used to reserve tokens before the call
+const CHARS_PER_TOKEN = 4;
+
+// Prompt tokens plus the full completion budget (max_tokens)
+function estimateTokens(request: AnthropicRequest): number {
+  const promptChars = (request.system?.length ?? 0) +
+    request.messages.reduce((sum, m) => sum + (typeof m.content === 'string' ? m.content.length : 0), 0);
+  return Math.ceil(promptChars / CHARS_PER_TOKEN) + (request.options?.maxTokens ?? DEFAULT_MAX_TOKENS);
+}
+
+export class AnthropicService implements ITextGenerationService, IChatService, IAIService {
+  private readonly client: Anthropic;
+  private readonly rateLimiter?: AnthropicRateLimiter;
+
+  constructor(
+    private readonly config: AnthropicServiceConfig,
+    rateLimiter?: RateLimitStrategy
+  ) {
+    // Retries belong to the workers' RetryStrategy and the rate limiter, not to the SDK
+    this.client = new Anthropic({ apiKey: config.apiKey, maxRetries: 0 });
+    this.rateLimiter = rateLimiter && new AnthropicRateLimiter(rateLimiter, config.apiKey);
+  }
+
+  getProviderName(): string {
+    return ANTHROPIC_PROVIDER;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.client.models.list({ limit: 1 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generateText(params: TextGenerationParams): Promise<AICompletionResult> {
+    return await this.complete(this.fromTextParams(params));
+  }
+
+  streamText(params: TextGenerationParams): AsyncIterable<AIStreamChunk> {
+    return this.stream(this.fromTextParams(params));
+  }
+
+  async completeChat(messages: AIChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    return await this.complete(this.fromChatMessages(messages, options));
+  }
+
+  streamChat(messages: AIChatMessage[], options?: ChatCompletionOptions): AsyncIterable<AIStreamChunk> {
+    return this.stream(this.fromChatMessages(messages, options));
+  }
+
+  // Chat requests declare no tools, so Claude has nothing to call back
+  async executeTool(name: string): Promise<never> {
+    throw new ValidationError(`Tool '${name}' is not available with the Anthropic chat provider`, {
+      provider: ANTHROPIC_PROVIDER,
+      toolName: name,
+    });
+  }
+
+  private async complete(request: AnthropicRequest): Promise<AICompletionResult> {
+    if (!this.rateLimiter) {
+      return await this.requestCompletion(request);
+    }
+    return await this.rateLimiter.schedule(estimateTokens(request), () => this.requestCompletion(request));
+  }
+
+  private stream(request: AnthropicRequest): AsyncIterable<AIStreamChunk> {
+    if (!this.rateLimiter) {
+      return this.requestStream(request);
+    }
+    return this.rateLimiter.stream(estimateTokens(request), () => this.requestStream(request));
+  }
+
+  private async requestCompletion(request: AnthropicRequest): Promise<AICompletionResult> {
+    try {
+      const message = await this.client.messages.create(this.buildBody(request));
+
+      const content = message.content
+        .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+        .map((block) => block.text)
+        .join('');
+
+      return {
+        content,
+        model: message.model,
+        usage: this.mapUsage(message.usage.input_tokens, message.usage.output_tokens),
+      };
+    } catch (error) {
+      throw this.mapError(error, 'Failed to generate text');
+    }
+  }
+
+  private async *requestStream(request: AnthropicRequest): AsyncIterable<AIStreamChunk> {
+    let model: string | undefined;
+    let inputTokens: number | undefined;
+
+    try {
+      const events = await this.client.messages.create({ ...this.buildBody(request), stream: true });
+
+      for await (const event of events) {
+        switch (event.type) {
+          case 'message_start':
+            model = event.message.model;
+            inputTokens = event.message.usage.input_tokens;
+            break;
+
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta' && event.delta.text) {
+              yield { delta: event.delta.text, done: false, model };
+            }
+            break;
+
+          // Carries the cumulative output tokens once the message is complete
+          case 'message_delta':
+            yield {
+              delta: '',
+              done: true,
+              model,
+              usage: this.mapUsage(event.usage.input_tokens ?? inputTokens, event.usage.output_tokens),
+            };
+            break;
+        }
+      }
+    } catch (error) {
+      throw this.mapError(error, 'Failed to stream text');
+    }
+  }
+
+  private fromTextParams(params: TextGenerationParams): AnthropicRequest {
+    if (!params.userPrompt || params.userPrompt.trim().length === 0) {
+      throw new ValidationError('User prompt is required');
+    }
+
+    return {
+      system: params.systemPrompt || undefined,
+      messages: [{ role: 'user', content: params.userPrompt }],
+      options: params.options,
+    };
+  }
+
+  // The Messages API takes the system prompt apart from the conversation
+  private fromChatMessages(messages: AIChatMessage[], options?: ChatCompletionOptions): AnthropicRequest {
+    const system = [
+      options?.systemPrompt,
+      ...messages.filter((m) => m.role === 'system').map((m) => m.content),
+    ].filter((part): part is string => !!part && part.trim().length > 0);
+
+    const conversation = messages
+      .filter((m) => m.role !== 'system' && m.content.trim().length > 0)
+      .map((m): Anthropic.MessageParam => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    if (!conversation.some((m) => m.role === 'user')) {
+      throw new ValidationError('At least one user message is required');
+    }
+
+    return {
+      system: system.length > 0 ? system.join('\n\n') : undefined,
+      messages: conversation,
+      options,
+    };
+  }
+
+  private buildBody(request: AnthropicRequest): Anthropic.MessageCreateParamsNonStreaming {
+    const options = request.options;
+
+    return {
+      model: options?.model || this.config.defaultModel,
+      max_tokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: request.messages,
+      temperature: options?.temperature ?? 0.7,
+      // Recent models reject temperature and top_p together: only sent when asked for
+      ...(options?.topP !== undefined ? { top_p: options.topP } : {}),
+      ...(options?.stop?.length ? { stop_sequences: options.stop } : {}),
+    };
+  }
+
+  private mapUsage(inputTokens: number | null | undefined, outputTokens: number | null | undefined): AIUsage {
+    const usage: AIUsage = {
+      inputTokens: inputTokens ?? undefined,
+      outputTokens: outputTokens ?? undefined,
+    };
+    if (usage.inputTokens !== undefined && usage.outputTokens !== undefined) {
+      usage.totalTokens = usage.inputTokens + usage.outputTokens;
+    }
+    return usage;
+  }
+
+  private mapError(error: unknown, context: string): Error {
+    if (error instanceof AppError) {
+      return error;
+    }
+
+    if (error instanceof Anthropic.APIError) {
+      // Errors sent inside an open stream have no status, only the error type
+      const errorType = (error.error as { error?: { type?: string } } | undefined)?.error?.type;
+
+      if (
+        error.status === 429 ||
+        error.status === OVERLOADED_STATUS ||
+        errorType === 'rate_limit_error' ||
+        errorType === 'overloaded_error'
+      ) {
+        const retryAfter = Number(error.headers?.get('retry-after'));
+        return new RateLimitError(
+          'Anthropic',
+          Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+          { overloaded: error.status === OVERLOADED_STATUS || errorType === 'overloaded_error' }
+        );
+      }
+
+      if (error.status === 401) {
+        return ErrorFactory.invalidApiKey('Anthropic');
+      }
+
+      return new APIError('Anthropic', error.message, { status: error.status, errorType });
+    }
+
+    return new APIError('Anthropic', `${context}: ${error}`);
+  }
+}
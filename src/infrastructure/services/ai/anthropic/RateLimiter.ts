@@ -0,0 +1,34 @@
+// src/infrastructure/services/ai/anthropic/RateLimiter.ts
+// Anthropic rate limiter - requests/min and tokens/min per API key
+
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { RateLimitError } from '@/shared/utils/errors/AppError';
+
+export const ANTHROPIC_PROVIDER = 'anthropic';
+
+export class AnthropicRateLimiter {
+  constructor(
+    private readonly strategy: RateLimitStrategy,
+    private readonly apiKey: string
+  ) {}
+
+  async schedule<T>(tokens: number, fn: () => Promise<T>): Promise<T> {
+    return await this.strategy.schedule(ANTHROPIC_PROVIDER, { tokens }, fn, this.apiKey);
+  }
+
+  // Streaming calls keep their lease until the stream is fully consumed
+  async *stream<T>(tokens: number, fn: () => AsyncIterable<T>): AsyncIterable<T> {
+    const lease = await this.strategy.acquire(ANTHROPIC_PROVIDER, { tokens }, this.apiKey);
+
+    try {
+      yield* fn();
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        await this.strategy.recordRateLimitHit(ANTHROPIC_PROVIDER, error, this.apiKey);
+      }
+      throw error;
+    } finally {
+      lease.release();
+    }
+  }
+}
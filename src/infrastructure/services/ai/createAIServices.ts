@@ -0,0 +1,45 @@
+// src/infrastructure/services/ai/createAIServices.ts
+// Builds the text generation and chat services with every LLM provider that has credentials configured
+
+import { AIConfig, createAIConfig } from '@/shared/config/ai.config';
+import { createFakeServicesConfig } from '@/shared/config/fake.config';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { TextGenerationAdapter } from './adapters/TextGenerationAdapter';
+import { ChatAdapter } from './adapters/ChatAdapter';
+import { AnthropicService } from './anthropic/AnthropicService';
+import { MistralService } from './mistral/MistralService';
+import { ResponseParser } from './mistral/ResponseParser';
+import { FakeTextGenerationService } from './fake/FakeTextGenerationService';
+import { FakeChatService } from './fake/FakeChatService';
+
+export interface AIServices {
+  textGeneration: TextGenerationAdapter;
+  chat: ChatAdapter;
+}
+
+export function createAIServices(
+  config: AIConfig = createAIConfig(),
+  rateLimiter?: RateLimitStrategy
+): AIServices {
+  const textGeneration = new TextGenerationAdapter(config.defaultProvider, config.fallbackChain, config.fallbackOn);
+  const chat = new ChatAdapter(config.chatProvider);
+
+  if (config.anthropic) {
+    const anthropic = new AnthropicService(config.anthropic, rateLimiter);
+    textGeneration.register('anthropic', anthropic);
+    chat.register('anthropic', anthropic);
+  }
+
+  if (config.mistral) {
+    textGeneration.register('mistral', new MistralService(rateLimiter, new ResponseParser(config.mistral.responseParser)));
+  }
+
+  // Offline runs only: never reachable from a job in a configured deployment
+  if (config.defaultProvider === 'fake' || config.chatProvider === 'fake') {
+    const fakeConfig = createFakeServicesConfig();
+    textGeneration.register('fake', new FakeTextGenerationService(fakeConfig));
+    chat.register('fake', new FakeChatService(fakeConfig));
+  }
+
+  return { textGeneration, chat };
+}
@@ -0,0 +1,81 @@
+// src/infrastructure/services/ai/fake/FakeChatService.ts
+// Offline, deterministic IChatService for CI/laptop runs
+
+import {
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  IChatService,
+} from '@/core/ports/services/ai/IChatService';
+import { AIChatMessage, AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { FaultSimulator } from '../../fake/FaultSimulator';
+import { FAKE_MODEL, buildFakeText, estimateTokens } from './FakeTextGenerationService';
+
+export class FakeChatService implements IChatService {
+  private readonly faults: FaultSimulator;
+
+  constructor(config: FakeServicesConfig) {
+    this.faults = new FaultSimulator('FakeChat', config);
+  }
+
+  async completeChat(
+    messages: AIChatMessage[],
+    options?: ChatCompletionOptions
+  ): Promise<ChatCompletionResult> {
+    const prompt = this.lastUserMessage(messages);
+    await this.faults.beforeCall('completeChat');
+
+    const content = buildFakeText(prompt, Math.min(options?.maxTokens ?? 400, 400));
+    const inputTokens = estimateTokens(messages.map((m) => m.content).join('\n'));
+    const outputTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: FAKE_MODEL,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  async *streamChat(
+    messages: AIChatMessage[],
+    options?: ChatCompletionOptions
+  ): AsyncIterable<AIStreamChunk> {
+    const result = await this.completeChat(messages, options);
+    const parts = result.content.match(/\S+\s*/g) || [];
+
+    for (const part of parts) {
+      yield { delta: part, done: false, model: FAKE_MODEL };
+    }
+
+    yield { delta: '', done: true, model: FAKE_MODEL, usage: result.usage };
+  }
+
+  // No tool runs offline: echoes the call so tool-call flows can be exercised
+  async executeTool(
+    name: string,
+    args: Record<string, unknown>,
+    context: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    await this.faults.beforeCall('executeTool');
+
+    return {
+      tool: name,
+      arguments: args,
+      sessionId: context.sessionId ?? null,
+      output: `Fake result for ${name}`,
+    };
+  }
+
+  private lastUserMessage(messages: AIChatMessage[]): string {
+    const last = [...messages].reverse().find((m) => m.role === 'user');
+    if (!last || last.content.trim().length === 0) {
+      throw new ValidationError('At least one user message is required');
+    }
+    return last.content;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { FAKE_MODEL, FakeTextGenerationService, buildFakeText } from './FakeTextGenerationService';
+import { FakeChatService } from './FakeChatService';
+import { AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { APIError, ValidationError } from '@/shared/utils/errors/AppError';
+
+const CONFIG: FakeServicesConfig = {
+  seed: 1,
+  latencyMs: 0,
+  retryAfterSeconds: 1,
+  faults: { rateLimit: 0, timeout: 0, malformed: 0 },
+};
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('buildFakeText', () => {
+  it('is deterministic per prompt and opens on the prompt\'s first line', () => {
+    const text = buildFakeText('\nLes volcans d\'Auvergne.\nTon léger');
+
+    expect(buildFakeText('\nLes volcans d\'Auvergne.\nTon léger')).toBe(text);
+    expect(buildFakeText('Les glaciers')).not.toBe(text);
+    expect(text.startsWith('Parlons de Les volcans d\'Auvergne.')).toBe(true);
+  });
+
+  it('sizes the script from maxTokens and breaks paragraphs every four sentences', () => {
+    const short = buildFakeText('Sujet', 40);
+    const long = buildFakeText('Sujet', 400);
+
+    expect(short.split(/(?<=\.) /).length).toBe(3);
+    expect(long.split('\n\n')).toHaveLength(3);
+  });
+});
+
+describe('FakeTextGenerationService', () => {
+  it('returns the same text and usage for the same prompt', async () => {
+    const service = new FakeTextGenerationService(CONFIG);
+    const params = { userPrompt: 'Les volcans', systemPrompt: 'Tu es un narrateur.' };
+
+    const first = await service.generateText(params);
+    const second = await service.generateText(params);
+
+    expect(second).toEqual(first);
+    expect(first.model).toBe(FAKE_MODEL);
+    expect(first.usage?.totalTokens).toBe((first.usage?.inputTokens ?? 0) + (first.usage?.outputTokens ?? 0));
+  });
+
+  it('streams the same text it generates, then a final chunk with usage', async () => {
+    const service = new FakeTextGenerationService(CONFIG);
+    const params = { userPrompt: 'Les volcans' };
+
+    const chunks = await collect(service.streamText(params));
+    const result = await service.generateText(params);
+
+    expect(chunks.map((chunk) => chunk.delta).join('')).toBe(result.content);
+    expect(chunks[chunks.length - 1]).toMatchObject({ done: true, usage: result.usage });
+  });
+
+  it('rejects an empty prompt and raises the configured faults', async () => {
+    const malformed = new FakeTextGenerationService({ ...CONFIG, faults: { ...CONFIG.faults, malformed: 1 } });
+
+    await expect(new FakeTextGenerationService(CONFIG).generateText({ userPrompt: ' ' })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(malformed.generateText({ userPrompt: 'Les volcans' })).rejects.toThrow(APIError);
+  });
+});
+
+describe('FakeChatService', () => {
+  it('answers the last user message deterministically', async () => {
+    const service = new FakeChatService(CONFIG);
+    const messages = [
+      { role: 'user' as const, content: 'Premier sujet' },
+      { role: 'assistant' as const, content: 'Réponse' },
+      { role: 'user' as const, content: 'Second sujet' },
+    ];
+
+    const result = await service.completeChat(messages);
+
+    expect(result.content).toBe(buildFakeText('Second sujet', 400));
+    expect((await service.completeChat(messages)).content).toBe(result.content);
+    await expect(service.completeChat([{ role: 'assistant', content: 'Seul' }])).rejects.toThrow(ValidationError);
+  });
+
+  it('echoes tool calls', async () => {
+    const result = await new FakeChatService(CONFIG).executeTool('search', { q: 'volcans' }, { sessionId: 's-1' });
+
+    expect(result).toEqual({
+      tool: 'search',
+      arguments: { q: 'volcans' },
+      sessionId: 's-1',
+      output: 'Fake result for search',
+    });
+  });
+});
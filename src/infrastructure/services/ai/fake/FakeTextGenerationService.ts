@@ -0,0 +1,113 @@
+// src/infrastructure/services/ai/fake/FakeTextGenerationService.ts
+// Offline, deterministic ITextGenerationService for CI/laptop pipeline runs
+
+import {
+  ITextGenerationService,
+  TextGenerationParams,
+} from '@/core/ports/services/ai/ITextGenerationService';
+import { AICompletionResult, AIStreamChunk } from '@/core/ports/services/ai/IAIService';
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { FaultSimulator, createRandom, hashString } from '../../fake/FaultSimulator';
+
+const WORDS = [
+  'histoire', 'idée', 'moment', 'monde', 'question', 'réponse', 'chemin', 'projet',
+  'découverte', 'époque', 'regard', 'détail', 'récit', 'voyage', 'secret', 'lumière',
+  'important', 'simple', 'nouveau', 'ancien', 'essentiel', 'surprenant', 'clair', 'profond',
+  'comprendre', 'raconter', 'explorer', 'montrer', 'expliquer', 'découvrir', 'partager', 'retenir',
+];
+
+const OPENERS = ['Aujourd\'hui', 'Ensuite', 'Par ailleurs', 'En réalité', 'Au fond', 'Pour finir'];
+
+export const FAKE_MODEL = 'fake-deterministic-1';
+
+// Deterministic script built from the prompt: same prompt, same text
+export function buildFakeText(prompt: string, maxTokens: number = 2000): string {
+  const random = createRandom(hashString(prompt));
+  const pick = <T,>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+  const topic = prompt.split('\n').map((line) => line.trim()).find((line) => line.length > 0) || 'ce sujet';
+  const sentenceCount = Math.min(60, Math.max(3, Math.floor(maxTokens / 40)));
+  const sentences: string[] = [`Parlons de ${topic.slice(0, 80).replace(/[.!?]+$/, '')}.`];
+
+  for (let i = 1; i < sentenceCount; i++) {
+    const length = 6 + Math.floor(random() * 10);
+    const words = Array.from({ length }, () => pick(WORDS));
+    sentences.push(`${pick(OPENERS)}, ${words.join(' ')}.`);
+  }
+
+  // Paragraph break every four sentences
+  const paragraphs: string[] = [];
+  for (let i = 0; i < sentences.length; i += 4) {
+    paragraphs.push(sentences.slice(i, i + 4).join(' '));
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class FakeTextGenerationService implements ITextGenerationService {
+  private readonly faults: FaultSimulator;
+
+  constructor(config: FakeServicesConfig) {
+    this.faults = new FaultSimulator('FakeAI', config);
+  }
+
+  async generateText(params: TextGenerationParams): Promise<AICompletionResult> {
+    this.validate(params);
+    await this.faults.beforeCall('generateText');
+
+    const content = buildFakeText(this.promptOf(params), params.options?.maxTokens);
+    const inputTokens = estimateTokens(this.promptOf(params));
+    const outputTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: FAKE_MODEL,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  async *streamText(params: TextGenerationParams): AsyncIterable<AIStreamChunk> {
+    this.validate(params);
+    await this.faults.beforeCall('streamText');
+
+    const content = buildFakeText(this.promptOf(params), params.options?.maxTokens);
+    const parts = content.match(/\S+\s*/g) || [];
+
+    for (const part of parts) {
+      yield { delta: part, done: false, model: FAKE_MODEL };
+    }
+
+    const inputTokens = estimateTokens(this.promptOf(params));
+    const outputTokens = estimateTokens(content);
+
+    yield {
+      delta: '',
+      done: true,
+      model: FAKE_MODEL,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  private validate(params: TextGenerationParams): void {
+    if (!params.userPrompt || params.userPrompt.trim().length === 0) {
+      throw new ValidationError('User prompt is required');
+    }
+  }
+
+  private promptOf(params: TextGenerationParams): string {
+    return params.systemPrompt ? `${params.userPrompt}\n${params.systemPrompt}` : params.userPrompt;
+  }
+}
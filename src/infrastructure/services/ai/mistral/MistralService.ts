@@ -1,5 +1,6 @@
 // src/infrastructure/services/ai/mistral/MistralService.ts
 // Mistral AI service implementation for text generation
+// Completions go through ResponseParser (streams are passed through as generated)
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import {
@@ -9,21 +10,45 @@ import {
   AIStreamChunk,
 } from '@/core/ports/services/ai/ITextGenerationService';
 import { envConfig } from '@/shared/config/env';
-import { APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { AppError, APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+import { logger } from '@/shared/lib/logger';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { MistralRateLimiter } from './RateLimiter';
+import { ResponseParser } from './ResponseParser';
 
 export class MistralService implements ITextGenerationService {
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.mistral.ai/v1';
   private readonly defaultModel = 'mistral-large-latest';
+  private readonly rateLimiter?: MistralRateLimiter;
 
-  constructor() {
+  constructor(
+    rateLimiter?: RateLimitStrategy,
+    private readonly responseParser: ResponseParser = new ResponseParser()
+  ) {
     this.apiKey = envConfig.get('MISTRAL_API_KEY');
     if (!this.apiKey) {
       throw new ValidationError('MISTRAL_API_KEY is not configured');
     }
+    this.rateLimiter = rateLimiter && new MistralRateLimiter(rateLimiter, this.apiKey);
   }
 
   async generateText(params: TextGenerationParams): Promise<AICompletionResult> {
+    if (!this.rateLimiter) {
+      return await this.requestCompletion(params);
+    }
+    return await this.rateLimiter.schedule(params, () => this.requestCompletion(params));
+  }
+
+  streamText(params: TextGenerationParams): AsyncIterable<AIStreamChunk> {
+    if (!this.rateLimiter) {
+      return this.requestStream(params);
+    }
+    return this.rateLimiter.stream(params, () => this.requestStream(params));
+  }
+
+  private async requestCompletion(params: TextGenerationParams): Promise<AICompletionResult> {
     try {
       if (!params.userPrompt || params.userPrompt.trim().length === 0) {
         throw new ValidationError('User prompt is required');
@@ -71,24 +96,40 @@ export class MistralService implements ITextGenerationService {
         throw new APIError('Mistral', 'No completion returned');
       }
 
+      const usage = {
+        inputTokens: data.usage?.prompt_tokens,
+        outputTokens: data.usage?.completion_tokens,
+        totalTokens: data.usage?.total_tokens,
+      };
+
+      if (params.options?.rawResponse) {
+        return { content: choice.message?.content || '', model: data.model, usage };
+      }
+
+      const parsed = this.responseParser.parse(choice.message?.content || '', choice.finish_reason);
+      if (parsed.removed.length > 0) {
+        logger.info('Mistral response cleaned up', {
+          model: data.model,
+          removed: parsed.removed.length,
+          kinds: Array.from(new Set(parsed.removed.map((removal) => removal.kind))),
+        });
+      }
+
       return {
-        content: choice.message?.content || '',
+        content: parsed.content,
         model: data.model,
-        usage: {
-          inputTokens: data.usage?.prompt_tokens,
-          outputTokens: data.usage?.completion_tokens,
-          totalTokens: data.usage?.total_tokens,
-        },
+        usage,
+        removed: parsed.removed.length > 0 ? parsed.removed : undefined,
       };
     } catch (error) {
-      if (error instanceof APIError || error instanceof RateLimitError) {
+      if (error instanceof AppError) {
         throw error;
       }
       throw new APIError('Mistral', `Failed to generate text: ${error}`);
     }
   }
 
-  async *streamText(params: TextGenerationParams): AsyncIterable<AIStreamChunk> {
+  private async *requestStream(params: TextGenerationParams): AsyncIterable<AIStreamChunk> {
     try {
       if (!params.userPrompt || params.userPrompt.trim().length === 0) {
         throw new ValidationError('User prompt is required');
@@ -180,7 +221,7 @@ export class MistralService implements ITextGenerationService {
         }
       }
     } catch (error) {
-      if (error instanceof APIError || error instanceof RateLimitError) {
+      if (error instanceof AppError) {
         throw error;
       }
       throw new APIError('Mistral', `Failed to stream text: ${error}`);
@@ -199,15 +240,16 @@ export class MistralService implements ITextGenerationService {
     }
 
     if (status === 401) {
-      throw new APIError('Mistral', 'Invalid API key');
+      throw ErrorFactory.invalidApiKey('Mistral');
     }
 
     if (status >= 400 && status < 500) {
       const error = await response.json().catch(() => ({}));
-      throw new APIError('Mistral', error.message || 'API error');
+      throw new APIError('Mistral', error.message || 'API error', { status });
     }
 
-    throw new APIError('Mistral', `Unexpected error: ${status}`);
+    // The status tells the fallback chain this is a server-side failure
+    throw new APIError('Mistral', `Unexpected error: ${status}`, { status });
   }
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
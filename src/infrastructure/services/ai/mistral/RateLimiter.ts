@@ -0,0 +1,54 @@
+// src/infrastructure/services/ai/mistral/RateLimiter.ts
+// Mistral rate limiter - requests/min and tokens/min per API key
+
+import { TextGenerationParams } from '@/core/ports/services/ai/ITextGenerationService';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { RateLimitError } from '@/shared/utils/errors/AppError';
+
+export const MISTRAL_PROVIDER = 'mistral';
+
+// Rough tokenizer-free estimate used to reserve tokens before the call
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_MAX_TOKENS = 4000;
+
+export class MistralRateLimiter {
+  constructor(
+    private readonly strategy: RateLimitStrategy,
+    private readonly apiKey: string
+  ) {}
+
+  // Prompt tokens plus the full completion budget, since Mistral counts both
+  estimateTokens(params: TextGenerationParams): number {
+    const promptChars = (params.systemPrompt?.length ?? 0) + params.userPrompt.length;
+    return Math.ceil(promptChars / CHARS_PER_TOKEN) + (params.options?.maxTokens ?? DEFAULT_MAX_TOKENS);
+  }
+
+  async schedule<T>(params: TextGenerationParams, fn: () => Promise<T>): Promise<T> {
+    return await this.strategy.schedule(
+      MISTRAL_PROVIDER,
+      { tokens: this.estimateTokens(params) },
+      fn,
+      this.apiKey
+    );
+  }
+
+  // Streaming calls keep their lease until the stream is fully consumed
+  async *stream<T>(params: TextGenerationParams, fn: () => AsyncIterable<T>): AsyncIterable<T> {
+    const lease = await this.strategy.acquire(
+      MISTRAL_PROVIDER,
+      { tokens: this.estimateTokens(params) },
+      this.apiKey
+    );
+
+    try {
+      yield* fn();
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        await this.strategy.recordRateLimitHit(MISTRAL_PROVIDER, error, this.apiKey);
+      }
+      throw error;
+    } finally {
+      lease.release();
+    }
+  }
+}
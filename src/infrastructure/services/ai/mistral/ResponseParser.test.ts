@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseParser } from './ResponseParser';
+import { TextGenerationError } from '@/shared/utils/errors/AppError';
+
+const SCRIPT = 'Bonjour et bienvenue. Aujourd\'hui, nous parlons du climat.';
+
+// The error thrown by parse, to assert on its check
+function parseError(parser: ResponseParser, raw: string, finishReason?: string): TextGenerationError {
+  try {
+    parser.parse(raw, finishReason);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TextGenerationError);
+    return error as TextGenerationError;
+  }
+  throw new Error('parse did not throw');
+}
+
+describe('ResponseParser', () => {
+  const parser = new ResponseParser();
+
+  it('keeps a clean script as it is', () => {
+    expect(parser.parse(SCRIPT)).toEqual({ content: SCRIPT, removed: [] });
+  });
+
+  it('extracts the script from a fenced block and drops the text around it', () => {
+    const { content, removed } = parser.parse(`Voici :\n\`\`\`text\n${SCRIPT}\n\`\`\`\nBonne lecture`);
+
+    expect(content).toBe(SCRIPT);
+    expect(removed[0]).toMatchObject({ kind: 'structure' });
+  });
+
+  it('keeps the answer when a fenced block is only a snippet of it', () => {
+    const raw = `${SCRIPT} On retiendra la formule suivante, qui résume le sujet.\n\`\`\`\nCO2\n\`\`\`\nVoilà qui conclut.`;
+
+    expect(parser.parse(raw).content).toContain('Bonjour et bienvenue.');
+  });
+
+  it('reads the script field of a JSON response', () => {
+    const { content, removed } = parser.parse(JSON.stringify({ titre: 'Climat', script: SCRIPT }));
+
+    expect(content).toBe(SCRIPT);
+    expect(removed).toEqual([{ kind: 'structure', text: 'JSON response, kept "script", dropped titre' }]);
+  });
+
+  it('strips preambles and closing offers', () => {
+    const raw = `Bien sûr !\nVoici le script :\n\n${SCRIPT}\n\n---\nN'hésitez pas à me demander une autre version.`;
+
+    const { content, removed } = parser.parse(raw);
+
+    expect(content).toBe(SCRIPT);
+    expect(removed.map((removal) => removal.kind)).toEqual(['preamble', 'preamble', 'postamble']);
+  });
+
+  it('strips stage directions and speaker labels', () => {
+    const raw = '**[Musique d\'intro]**\nNarrateur : Bonjour et bienvenue. (rires) Aujourd\'hui, nous parlons du climat.';
+
+    expect(parser.parse(raw).content).toBe(SCRIPT);
+  });
+
+  it('keeps parentheses that are part of the text', () => {
+    const raw = 'Le GIEC (groupe d\'experts sur le climat) publie un rapport.';
+
+    expect(parser.parse(raw).content).toBe(raw);
+  });
+
+  it('turns markdown into plain sentences', () => {
+    const raw = '# Le climat\n\nTrois points **importants** :\n- la *chaleur*\n- les [océans](https://example.com)\n2. le `CO2`';
+
+    expect(parser.parse(raw).content).toBe('Trois points importants :\nla chaleur.\nles océans.\nle CO2.');
+  });
+
+  it('removes emojis but not symbols', () => {
+    expect(parser.parse('Bonjour 👋🏽 à tous 🌍 ! Marque© déposée™.').content).toBe('Bonjour à tous ! Marque© déposée™.');
+  });
+
+  it('rejects a short refusal', () => {
+    expect(parseError(parser, 'Je suis désolé, je ne peux pas écrire ce script.').metadata).toMatchObject({ check: 'refusal' });
+    expect(parseError(parser, 'I\'m sorry, but I can\'t help with that.').metadata).toMatchObject({ check: 'refusal' });
+  });
+
+  it('accepts a long script that opens like a refusal', () => {
+    const raw = `Je ne peux pas vous cacher que ce sujet me passionne. ${SCRIPT.repeat(8)}`;
+
+    expect(parser.parse(raw).content).toBe(raw);
+  });
+
+  it('rejects a truncated script', () => {
+    expect(parseError(parser, 'Bonjour et bienvenue. Aujourd\'hui, nous parlons du').metadata).toMatchObject({
+      check: 'truncated',
+    });
+    expect(parseError(parser, SCRIPT, 'length').metadata).toMatchObject({ check: 'truncated', finishReason: 'length' });
+    // A sentence may end inside closing quotes
+    expect(parser.parse('Il a dit : « Bonjour. »').content).toBe('Il a dit : « Bonjour. »');
+  });
+
+  it('rejects a response with nothing left after cleanup', () => {
+    expect(parseError(parser, '[Musique]\n🎵').metadata).toMatchObject({ check: 'empty' });
+  });
+
+  it('only applies the configured rules', () => {
+    const raw = '**Bonjour** 👋';
+    const lenient = new ResponseParser({ cleanup: ['markdown'], checks: [] });
+
+    expect(lenient.parse(raw).content).toBe('Bonjour 👋');
+  });
+});
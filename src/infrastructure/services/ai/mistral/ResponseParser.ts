@@ -0,0 +1,246 @@
+// src/infrastructure/services/ai/mistral/ResponseParser.ts
+// Turns a raw Mistral completion into a script TTS can read: extracts it from fenced or JSON
+// responses, strips preambles, stage directions, markdown and emojis, and rejects refusals
+// and truncated outputs
+
+import { AIResponseRemoval } from '@/core/ports/services/ai/IAIService';
+import { AIResponseParserConfig } from '@/shared/config/ai.config';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+export interface ParsedResponse {
+  content: string;
+  removed: AIResponseRemoval[];
+}
+
+const DEFAULT_CONFIG: AIResponseParserConfig = {
+  cleanup: ['structure', 'preambles', 'stage_directions', 'markdown', 'emojis'],
+  checks: ['refusal', 'truncated'],
+};
+
+// Keeps the stored record small when a response is full of bullets or emojis
+const MAX_RECORDED_REMOVALS = 100;
+const MAX_RECORDED_LENGTH = 200;
+
+// Fields holding the script in a JSON response ({"titre": ..., "script": ...})
+const SCRIPT_FIELDS = ['script', 'texte', 'text', 'contenu', 'content'];
+
+const FENCED_BLOCK = /```[\w-]*[ \t]*\n([\s\S]*?)\n?```/g;
+
+// "Voici le script :", "Here is your script:" introduce; "Bien sûr !" opens a short reply line
+const PREAMBLE_INTRO = /^(?:voici|voilà|ci-dessous|je vous propose|here(?:'s| is)|below is)\b.*:$/i;
+const PREAMBLE_OPENER = /^(?:sure|certainly|of course|absolutely|bien sûr|d'accord|absolument|avec plaisir|très bien)\b.{0,80}[!.:]$/i;
+const POSTAMBLE = /^(?:n'hésitez pas|j'espère que|si vous souhaitez|souhaitez-vous|voulez-vous|dites-moi|i hope|let me know|feel free|would you like|if you'd like)\b/i;
+
+// "[Musique]", "**[Jingle d'intro]**"; "[texte](url)" is a link, left to the markdown rule
+const BRACKETED_DIRECTION = /[*_]*\[[^\]\n]{1,80}\](?!\()[*_]*/g;
+const PARENTHESIZED_DIRECTION =
+  /[*_]*\((?:[^)\n]{0,60}\s)?(?:musique|music|jingle|pause|rires?|laughs?|laughter|applaudissements|applause|silence|bruitages?|sound effects?|sfx|effet sonore|intro|outro|générique|transition|fondu|fade(?: in| out)?|soupir|sighs?)(?:\s[^)\n]{0,60})?\)[*_]*/giu;
+const SPEAKER_LABEL =
+  /^[ \t]*[*_]*(?:narrateur|narratrice|narrator|voix off|voice-over|voiceover|animateur|animatrice|présentateur|présentatrice|host|presenter|speaker)[*_]*[ \t]*:[ \t]*[*_]*/gimu;
+
+const HEADING = /^[ \t]{0,3}#{1,6}[ \t]+.*$/gm;
+const HORIZONTAL_RULE = /^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/gm;
+const BLOCKQUOTE = /^[ \t]*>[ \t]?/gm;
+const LIST_MARKER = /^[ \t]*(?:[-*+•]|\d{1,2}[.)])[ \t]+/;
+const STRONG = /(\*\*|__)(?=\S)([^\n]+?)(?<=\S)\1/g;
+const EMPHASIS = /(?<![\p{L}\p{N}*_])([*_])(?=\S)([^*_\n]+?)(?<=\S)\1(?![\p{L}\p{N}*_])/gu;
+const INLINE_CODE = /`([^`\n]+)`/g;
+const LINK = /\[([^\]\n]+)\]\([^)\s]+\)/g;
+
+// Pictographs shown as emojis, with their ZWJ sequences and skin tones ("©" and "™" stay)
+const EMOJI = /(?:\p{Emoji_Presentation}|\p{Extended_Pictographic}\u{FE0F})[\u{1F3FB}-\u{1F3FF}]?(?:\u{200D}(?:\p{Emoji_Presentation}|\p{Extended_Pictographic}\u{FE0F}?)[\u{1F3FB}-\u{1F3FF}]?)*/gu;
+const EMOJI_LEFTOVERS = /[\u{FE0F}\u{20E3}]/gu;
+
+// A refusal is a short answer opening with an apology or an "I can't"; a script may
+// open the same way ("Je ne peux pas vous cacher que...") but goes on much longer
+const MAX_REFUSAL_LENGTH = 400;
+const REFUSAL = /^(?:je suis (?:vraiment )?désolée?|désolée?,|je ne peux pas|je ne suis pas en mesure|je regrette|en tant qu'(?:ia|intelligence artificielle|assistant)|i'm sorry|i am sorry|sorry,|i can(?:'|no)t|i'm unable|i am unable|as an ai)/i;
+
+// A complete script ends on a sentence, possibly inside closing quotes or brackets
+const TRAILING_CLOSERS = /["'»”’)\]*_\s]+$/;
+const SENTENCE_END = /[.!?…]$/;
+
+export class ResponseParser {
+  constructor(private readonly config: AIResponseParserConfig = DEFAULT_CONFIG) {}
+
+  // finishReason is Mistral's ('length' when max_tokens cut the answer)
+  parse(raw: string, finishReason?: string): ParsedResponse {
+    const removed: AIResponseRemoval[] = [];
+    const record = (kind: string, text: string): void => {
+      const trimmed = text.trim();
+      if (trimmed.length > 0 && removed.length < MAX_RECORDED_REMOVALS) {
+        removed.push({ kind, text: trimmed.slice(0, MAX_RECORDED_LENGTH) });
+      }
+    };
+
+    let content = raw.replace(/\r\n?/g, '\n');
+
+    if (this.has('structure')) content = this.extractScript(content, record);
+    if (this.has('preambles')) content = this.stripPreambles(content, record);
+    if (this.has('stage_directions')) content = this.stripStageDirections(content, record);
+    if (this.has('markdown')) content = this.stripMarkdown(content, record);
+    if (this.has('emojis')) {
+      content = this.strip(content, EMOJI, 'emoji', record).replace(EMOJI_LEFTOVERS, '');
+    }
+
+    content = this.cleanWhitespace(content);
+    this.check(content, finishReason, removed);
+
+    return { content, removed };
+  }
+
+  private has(rule: AIResponseParserConfig['cleanup'][number]): boolean {
+    return this.config.cleanup.includes(rule);
+  }
+
+  private extractScript(text: string, record: (kind: string, text: string) => void): string {
+    const blocks = Array.from(text.matchAll(FENCED_BLOCK));
+    if (blocks.length > 0) {
+      const longest = blocks.reduce((best, block) => (block[1].length > best[1].length ? block : best));
+      const outside = text.replace(longest[0], '');
+      // A short snippet inside a long answer is not the script
+      if (longest[1].trim().length >= outside.trim().length) {
+        record('structure', outside);
+        return this.extractFromJson(longest[1], record) ?? longest[1];
+      }
+    }
+
+    return this.extractFromJson(text, record) ?? text;
+  }
+
+  private extractFromJson(text: string, record: (kind: string, text: string) => void): string | null {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+    if (!data || typeof data !== 'object') return null;
+
+    const fields = data as Record<string, unknown>;
+    const field = Object.keys(fields).find(
+      (key) => SCRIPT_FIELDS.includes(key.toLowerCase()) && typeof fields[key] === 'string'
+    );
+    if (!field) return null;
+
+    const others = Object.keys(fields).filter((key) => key !== field);
+    record('structure', `JSON response, kept "${field}"${others.length > 0 ? `, dropped ${others.join(', ')}` : ''}`);
+    return fields[field] as string;
+  }
+
+  private stripPreambles(text: string, record: (kind: string, text: string) => void): string {
+    const lines = text.trim().split('\n');
+    const plain = (line: string): string => line.replace(/[*_#>]/g, '').trim();
+
+    // At most two opening lines: "Bien sûr !" followed by "Voici le script :"
+    for (let i = 0; i < 2 && lines.length > 1; i++) {
+      const line = plain(lines[0]);
+      if (!PREAMBLE_INTRO.test(line) && !PREAMBLE_OPENER.test(line)) break;
+      record('preamble', lines.shift() ?? '');
+      while (lines.length > 1 && lines[0].trim() === '') lines.shift();
+    }
+
+    // Closing offers, and the separator that often precedes them
+    while (lines.length > 1) {
+      const line = plain(lines[lines.length - 1]);
+      if (line === '' || /^[-_]{3,}$/.test(line)) {
+        lines.pop();
+        continue;
+      }
+      if (!POSTAMBLE.test(line)) break;
+      record('postamble', lines.pop() ?? '');
+    }
+
+    return lines.join('\n');
+  }
+
+  private stripStageDirections(text: string, record: (kind: string, text: string) => void): string {
+    let result = this.strip(text, BRACKETED_DIRECTION, 'stage_direction', record);
+    result = this.strip(result, PARENTHESIZED_DIRECTION, 'stage_direction', record);
+    return this.strip(result, SPEAKER_LABEL, 'speaker_label', record);
+  }
+
+  private stripMarkdown(text: string, record: (kind: string, text: string) => void): string {
+    let result = this.strip(text, HEADING, 'heading', record);
+    result = this.strip(result, HORIZONTAL_RULE, 'rule', record);
+    result = result.replace(BLOCKQUOTE, '');
+
+    // List items become sentences of their own so TTS pauses between them
+    result = result
+      .split('\n')
+      .map((line) => {
+        const marker = LIST_MARKER.exec(line);
+        if (!marker) return line;
+        record('list_marker', marker[0]);
+        const item = line.slice(marker[0].length).trimEnd();
+        return /[.!?…:;,]$/.test(item) ? item : `${item}.`;
+      })
+      .join('\n');
+
+    result = this.unwrap(result, LINK, 1, 'link', record);
+    result = this.unwrap(result, STRONG, 2, 'emphasis', record);
+    result = this.unwrap(result, EMPHASIS, 2, 'emphasis', record);
+    return this.unwrap(result, INLINE_CODE, 1, 'code', record);
+  }
+
+  private strip(text: string, pattern: RegExp, kind: string, record: (kind: string, text: string) => void): string {
+    return text.replace(pattern, (match: string) => {
+      record(kind, match);
+      return '';
+    });
+  }
+
+  // Keeps the wrapped text and records the markup around it
+  private unwrap(
+    text: string,
+    pattern: RegExp,
+    group: number,
+    kind: string,
+    record: (kind: string, text: string) => void
+  ): string {
+    return text.replace(pattern, (match: string, ...groups: string[]) => {
+      record(kind, match);
+      return groups[group - 1];
+    });
+  }
+
+  private cleanWhitespace(text: string): string {
+    return text
+      .replace(/[ \t]+/g, ' ')
+      // Spaces left in front of a full stop or comma by a removal (French spacing before "!" stays)
+      .replace(/ +([.,])/g, '$1')
+      .replace(/^ +| +$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private check(content: string, finishReason: string | undefined, removed: AIResponseRemoval[]): void {
+    if (content.length === 0) {
+      throw ErrorFactory.textGenerationError('Mistral response has no script left after cleanup', undefined, {
+        check: 'empty',
+        removedCount: removed.length,
+      });
+    }
+
+    if (this.config.checks.includes('refusal') && content.length <= MAX_REFUSAL_LENGTH && REFUSAL.test(content)) {
+      throw ErrorFactory.textGenerationError('Mistral response looks like a refusal', undefined, {
+        check: 'refusal',
+        excerpt: content.slice(0, MAX_RECORDED_LENGTH),
+      });
+    }
+
+    if (this.config.checks.includes('truncated')) {
+      const ending = content.replace(TRAILING_CLOSERS, '');
+      if (finishReason === 'length' || !SENTENCE_END.test(ending)) {
+        throw ErrorFactory.textGenerationError('Mistral response looks truncated', undefined, {
+          check: 'truncated',
+          finishReason,
+          excerpt: content.slice(-MAX_RECORDED_LENGTH),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { FFmpegAudioMetadataService, readWavMetadata } from './FFmpegAudioMetadataService';
+import { estimateFakeDuration, synthesizeWav } from '@/infrastructure/services/tts/fake/FakeTTSService';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+const TEXT = 'Les volcans dorment, puis se réveillent.';
+
+// A LIST chunk before "data", as written by most encoders
+function withListChunk(wav: Buffer): Buffer {
+  const list = Buffer.alloc(8 + 5 + 1);
+  list.write('LIST', 0, 'ascii');
+  list.writeUInt32LE(5, 4);
+  list.write('INFOx', 8, 'ascii');
+  return Buffer.concat([wav.subarray(0, 36), list, wav.subarray(36)]);
+}
+
+describe('readWavMetadata', () => {
+  it('measures PCM audio from its header', () => {
+    const wav = synthesizeWav(TEXT, 220);
+
+    expect(readWavMetadata(wav)).toMatchObject({
+      format: 'wav',
+      sampleRate: 16000,
+      bitrate: 256000,
+      fileSize: wav.length,
+    });
+    expect(readWavMetadata(wav)?.duration).toBeCloseTo(estimateFakeDuration(TEXT), 2);
+  });
+
+  it('skips the chunks before the data, with their padding byte', () => {
+    const wav = synthesizeWav(TEXT, 220, 2);
+
+    expect(readWavMetadata(withListChunk(wav))?.duration).toBeCloseTo(estimateFakeDuration(TEXT, 2), 2);
+  });
+
+  it('counts only the samples present when the header overstates the data', () => {
+    const wav = synthesizeWav(TEXT, 220);
+    wav.writeUInt32LE(0xffffffff, 40);
+
+    expect(readWavMetadata(wav)?.duration).toBeCloseTo(estimateFakeDuration(TEXT), 2);
+  });
+
+  it('leaves other formats to ffprobe', () => {
+    expect(readWavMetadata(Buffer.from('ID3\u0004\u0000\u0000'))).toBeUndefined();
+    expect(readWavMetadata(Buffer.alloc(0))).toBeUndefined();
+  });
+});
+
+describe('FFmpegAudioMetadataService', () => {
+  it('measures WAV buffers without ffprobe', async () => {
+    const service = new FFmpegAudioMetadataService({ ffprobePath: '/nonexistent/ffprobe' });
+
+    const metadata = await service.getMetadataFromBuffer(synthesizeWav(TEXT, 220));
+
+    expect(metadata.duration).toBeCloseTo(estimateFakeDuration(TEXT), 2);
+  });
+
+  it('fails when other audio cannot be probed, and removes its temporary copy', async () => {
+    const service = new FFmpegAudioMetadataService({ ffprobePath: '/nonexistent/ffprobe' });
+    const before = (await fs.readdir(tmpdir())).filter((name) => name.startsWith('audio-probe-'));
+
+    await expect(service.getMetadataFromBuffer(Buffer.from('ID3 not really an mp3'))).rejects.toMatchObject({
+      code: ErrorCode.INVALID_FILE_TYPE,
+    });
+
+    const after = (await fs.readdir(tmpdir())).filter((name) => name.startsWith('audio-probe-'));
+    expect(after).toEqual(before);
+  });
+});
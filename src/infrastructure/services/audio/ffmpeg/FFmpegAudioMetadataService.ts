@@ -0,0 +1,116 @@
+// src/infrastructure/services/audio/ffmpeg/FFmpegAudioMetadataService.ts
+// Audio metadata through ffprobe; PCM WAV buffers are measured from their header
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { IAudioMetadataService } from '@/core/ports/services/audio/IAudioMetadataService';
+import { AudioMetadataData } from '@/core/domain/value-objects/AudioMetadata';
+import { ErrorCode, FileError } from '@/shared/utils/errors/AppError';
+
+const execFileAsync = promisify(execFile);
+
+export interface FFmpegAudioMetadataServiceConfig {
+  ffprobePath?: string;
+  timeoutMs?: number;
+}
+
+// Walks the RIFF chunks for "fmt " and "data"; undefined when the buffer is not a WAV file
+export function readWavMetadata(buffer: Buffer): AudioMetadataData | undefined {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+
+  let sampleRate: number | undefined;
+  let byteRate: number | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+
+    if (id === 'fmt ' && offset + 20 <= buffer.length) {
+      sampleRate = buffer.readUInt32LE(offset + 12);
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (id === 'data' && byteRate) {
+      // Streamed WAVs may declare more data than they carry
+      const dataSize = Math.min(size, buffer.length - offset - 8);
+      return {
+        duration: dataSize / byteRate,
+        fileSize: buffer.length,
+        format: 'wav',
+        sampleRate,
+        bitrate: byteRate * 8,
+      };
+    }
+
+    // Chunks are word-aligned
+    offset += 8 + size + (size % 2);
+  }
+
+  return undefined;
+}
+
+export class FFmpegAudioMetadataService implements IAudioMetadataService {
+  private readonly ffprobePath: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: FFmpegAudioMetadataServiceConfig = {}) {
+    this.ffprobePath = config.ffprobePath ?? 'ffprobe';
+    this.timeoutMs = config.timeoutMs ?? 30000;
+  }
+
+  async getMetadataFromFile(filePath: string): Promise<AudioMetadataData> {
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(
+        this.ffprobePath,
+        ['-v', 'quiet', '-show_entries', 'format=duration,size,format_name:stream=bit_rate,sample_rate', '-of', 'json', filePath],
+        { timeout: this.timeoutMs }
+      ));
+    } catch (error) {
+      throw new FileError(
+        `Failed to probe audio file: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCode.INVALID_FILE_TYPE,
+        { filePath }
+      );
+    }
+
+    const data = JSON.parse(stdout || '{}');
+    const format = data.format || {};
+    const stream = data.streams?.[0] || {};
+    const duration = parseFloat(format.duration);
+
+    if (!Number.isFinite(duration)) {
+      throw new FileError('Audio file has no measurable duration', ErrorCode.INVALID_FILE_TYPE, { filePath });
+    }
+
+    return {
+      duration,
+      fileSize: parseInt(format.size) || 0,
+      format: typeof format.format_name === 'string' ? format.format_name.split(',')[0] : undefined,
+      sampleRate: parseInt(stream.sample_rate) || undefined,
+      bitrate: parseInt(stream.bit_rate) || undefined,
+    };
+  }
+
+  async getMetadataFromBuffer(buffer: Buffer): Promise<AudioMetadataData> {
+    const wav = readWavMetadata(buffer);
+    if (wav) {
+      return wav;
+    }
+
+    // ffprobe needs a seekable file to read the real length of an MP3 (Xing/VBR headers)
+    const workDir = await fs.mkdtemp(join(tmpdir(), 'audio-probe-'));
+    const filePath = join(workDir, 'audio');
+
+    try {
+      await fs.writeFile(filePath, buffer);
+      return { ...(await this.getMetadataFromFile(filePath)), fileSize: buffer.length };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
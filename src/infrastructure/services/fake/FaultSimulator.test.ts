@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { FaultSimulator, createRandom, hashString } from './FaultSimulator';
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { APIError, ErrorCode, RateLimitError } from '@/shared/utils/errors/AppError';
+
+function config(faults: Partial<FakeServicesConfig['faults']> = {}, seed = 42): FakeServicesConfig {
+  return {
+    seed,
+    latencyMs: 0,
+    retryAfterSeconds: 7,
+    faults: { rateLimit: 0, timeout: 0, malformed: 0, ...faults },
+  };
+}
+
+function draw(simulator: FaultSimulator, count: number) {
+  return Array.from({ length: count }, () => simulator.nextFault());
+}
+
+describe('createRandom', () => {
+  it('replays the same sequence for the same seed', () => {
+    const a = createRandom(hashString('prompt'));
+    const b = createRandom(hashString('prompt'));
+    const c = createRandom(hashString('other prompt'));
+
+    const sequence = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(sequence);
+    expect([c(), c(), c()]).not.toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('FaultSimulator', () => {
+  it('draws a reproducible fault sequence for a seed and service', () => {
+    const rates = { rateLimit: 0.2, timeout: 0.2, malformed: 0.2 };
+
+    const first = draw(new FaultSimulator('FakeAI', config(rates)), 50);
+    expect(draw(new FaultSimulator('FakeAI', config(rates)), 50)).toEqual(first);
+    expect(draw(new FaultSimulator('FakeTTS', config(rates)), 50)).not.toEqual(first);
+    expect(draw(new FaultSimulator('FakeAI', config(rates, 43)), 50)).not.toEqual(first);
+  });
+
+  it('never faults with zero rates and always faults when the rates cover every roll', () => {
+    expect(draw(new FaultSimulator('FakeAI', config()), 100).every((f) => f === null)).toBe(true);
+    expect(draw(new FaultSimulator('FakeAI', config({ rateLimit: 1 })), 20).every((f) => f === 'rate_limit')).toBe(true);
+    expect(draw(new FaultSimulator('FakeAI', config({ malformed: 1 })), 20).every((f) => f === 'malformed')).toBe(true);
+  });
+
+  it('counts calls', () => {
+    const simulator = new FaultSimulator('FakeAI', config());
+    draw(simulator, 3);
+    expect(simulator.getCallCount()).toBe(3);
+  });
+
+  it('raises the errors a live adapter would', () => {
+    const simulator = new FaultSimulator('FakeAI', config());
+
+    expect(() => simulator.raise('rate_limit', 'generateText')).toThrow(RateLimitError);
+    expect(() => simulator.raise('rate_limit', 'generateText')).toThrow('Retry after 7s');
+    expect(() => simulator.raise('timeout', 'generateText')).toThrow(
+      expect.objectContaining({ code: ErrorCode.TIMEOUT })
+    );
+    expect(() => simulator.raise('malformed', 'generateText')).toThrow(
+      expect.objectContaining({ metadata: expect.objectContaining({ status: 502, simulated: true }) })
+    );
+    expect(() => simulator.raise('malformed', 'generateText')).toThrow(APIError);
+  });
+
+  it('beforeCall throws the drawn fault', async () => {
+    await expect(new FaultSimulator('FakeAI', config({ timeout: 1 })).beforeCall('generateText')).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+    });
+    await expect(new FaultSimulator('FakeAI', config()).beforeCall('generateText')).resolves.toBeUndefined();
+  });
+});
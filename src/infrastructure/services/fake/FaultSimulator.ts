@@ -0,0 +1,88 @@
+// src/infrastructure/services/fake/FaultSimulator.ts
+// Deterministic fault injection shared by the fake AI/TTS services
+
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { APIError, RateLimitError } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+
+export type SimulatedFault = 'rate_limit' | 'timeout' | 'malformed';
+
+// FNV-1a hash, used to derive stable seeds from prompts/voice IDs
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 PRNG: same seed, same sequence
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class FaultSimulator {
+  private readonly random: () => number;
+  private callCount = 0;
+
+  constructor(
+    private readonly service: string,
+    private readonly config: FakeServicesConfig
+  ) {
+    this.random = createRandom(config.seed ^ hashString(service));
+  }
+
+  getCallCount(): number {
+    return this.callCount;
+  }
+
+  // Picks the fault (if any) for the next call; the sequence is reproducible for a given seed
+  nextFault(): SimulatedFault | null {
+    this.callCount++;
+    const roll = this.random();
+    const { rateLimit, timeout, malformed } = this.config.faults;
+
+    if (roll < rateLimit) return 'rate_limit';
+    if (roll < rateLimit + timeout) return 'timeout';
+    if (roll < rateLimit + timeout + malformed) return 'malformed';
+    return null;
+  }
+
+  async simulateLatency(): Promise<void> {
+    if (this.config.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.config.latencyMs));
+    }
+  }
+
+  // Throws the error a live adapter would raise for the given fault
+  raise(fault: SimulatedFault, operation: string): never {
+    switch (fault) {
+      case 'rate_limit':
+        throw new RateLimitError(this.service, this.config.retryAfterSeconds, { simulated: true });
+      case 'timeout':
+        throw ErrorFactory.timeout(`${this.service}.${operation}`, this.config.latencyMs, { simulated: true });
+      case 'malformed':
+        throw new APIError(this.service, 'Malformed response: unexpected end of JSON input', {
+          status: 502,
+          simulated: true,
+        });
+    }
+  }
+
+  // Runs latency + fault injection before a call; returns normally when no fault is drawn
+  async beforeCall(operation: string): Promise<void> {
+    await this.simulateLatency();
+    const fault = this.nextFault();
+    if (fault) {
+      this.raise(fault, operation);
+    }
+  }
+}
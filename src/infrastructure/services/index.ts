@@ -2,7 +2,19 @@
 // Export all service implementations
 
 export { ElevenLabsService } from './tts/elevenlabs/ElevenLabsService';
+export { InworldService } from './tts/inworld/InworldService';
+export { OpenAITTSService } from './tts/openai/OpenAITTSService';
+export { LocalTTSService } from './tts/local/LocalTTSService';
+export { FakeTTSService } from './tts/fake/FakeTTSService';
+export { TTSProviderRegistry, createTTSProviderRegistry } from './tts/TTSProviderRegistry';
 export { MistralService } from './ai/mistral/MistralService';
+export { FakeTextGenerationService } from './ai/fake/FakeTextGenerationService';
+export { FakeChatService } from './ai/fake/FakeChatService';
 export { SmartTextChunker } from './parsing/text/SmartTextChunker';
 export { PapaParseService } from './parsing/csv/PapaParseService';
 export { FFmpegMergeService } from './audio/ffmpeg/FFmpegMergeService';
+export { ZipArchiveService } from './storage/ZipArchiveService';
+export { LocalStorageService } from './storage/local/LocalStorageService';
+export { LocalUrlSigner } from './storage/local/LocalUrlSigner';
+export { createStorageService, createLocalUrlSigner } from './storage/createStorageService';
+export { R2StorageService } from './storage/r2/R2StorageService';
@@ -0,0 +1,19 @@
+// src/infrastructure/services/parsing/text/CharacterCounter.ts
+// Character counts as TTS providers bill them: Unicode code points of the NFC form,
+// so "é" counts once whether it was typed precomposed or with a combining accent
+
+export class CharacterCounter {
+  static count(text: string): number {
+    return Array.from(text.normalize('NFC')).length;
+  }
+
+  static countWords(text: string): number {
+    return text.trim().split(/\s+/).filter((word) => word.length > 0).length;
+  }
+
+  // Growth of a text after normalization, e.g. 1.4 when the spoken form is 40% longer
+  static expansionRatio(original: string, normalized: string): number {
+    const originalCount = this.count(original);
+    return originalCount === 0 ? 1 : this.count(normalized) / originalCount;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { TextNormalizer } from './TextNormalizer';
+import { ALL_LANGUAGES } from '@/shared/config/normalizer.config';
+
+const normalizer = new TextNormalizer();
+
+const fr = (text: string): string => normalizer.normalize(text, { language: 'fr' });
+const en = (text: string): string => normalizer.normalize(text, { language: 'en' });
+
+describe('TextNormalizer', () => {
+  it('only cleans whitespace for languages it does not speak', () => {
+    expect(normalizer.supportsLanguage('FR')).toBe(true);
+    expect(normalizer.supportsLanguage('de')).toBe(false);
+    expect(normalizer.normalize('  12  €  \n  fin ', { language: 'de' })).toBe('12 €\nfin');
+    expect(normalizer.normalize('12 €')).toBe('12 €');
+  });
+
+  describe('French', () => {
+    it('reads amounts with grouped thousands and cents', () => {
+      expect(fr('1 250 €')).toBe('mille deux cent cinquante euros');
+      expect(fr('12,5 €')).toBe('douze euros cinquante');
+      expect(fr('2 Md€')).toBe('deux milliards d\'euros');
+    });
+
+    it('reads dates and times', () => {
+      expect(fr('Le 14/07/1789 à 14h30.')).toBe(
+        'Le quatorze juillet mille sept cent quatre-vingt-neuf à quatorze heures trente.'
+      );
+      // 30 February is not a date
+      expect(fr('2024-02-30')).not.toContain('février');
+    });
+
+    it('reads percentages, units and negative numbers', () => {
+      expect(fr('Hausse de 3,5 % en 2023.')).toBe('Hausse de trois virgule cinq pour cent en deux mille vingt-trois.');
+      expect(fr('Il fait -5 °C.')).toBe('Il fait moins cinq degrés Celsius.');
+      expect(fr('21 km')).toBe('vingt et un kilomètres');
+    });
+
+    it('follows the French rules for seventy and eighty', () => {
+      expect(fr('71')).toBe('soixante et onze');
+      expect(fr('80 ans')).toBe('quatre-vingts ans');
+    });
+
+    it('reads ordinals and roman numerals', () => {
+      expect(fr('Le 1er mai, le XXIe siècle, Louis XIV.')).toBe('Le premier mai, le vingt et unième siècle, Louis quatorze.');
+      expect(fr('François Ier, Charles V et Madame X')).toBe('François premier, Charles cinq et Madame X');
+    });
+
+    it('reads year ranges', () => {
+      expect(fr('En 1995-1996.')).toBe('En mille neuf cent quatre-vingt-quinze à mille neuf cent quatre-vingt-seize.');
+      expect(fr('La saison 2023–24')).toBe('La saison deux mille vingt-trois à deux mille vingt-quatre');
+    });
+
+    it('reads numbers with a leading zero digit by digit', () => {
+      expect(fr('Appelez le 06 12.')).toBe('Appelez le zéro six douze.');
+    });
+
+    it('expands abbreviations, its own and the configured ones', () => {
+      const configured = new TextNormalizer({
+        fr: { PDG: 'président-directeur général' },
+        [ALL_LANGUAGES]: { ONU: 'Organisation des Nations unies' },
+      });
+
+      expect(fr('M. Dupont, etc.')).toBe('Monsieur Dupont, et cetera.');
+      expect(configured.normalize('Le PDG de l\'ONU', { language: 'fr' })).toBe(
+        'Le président-directeur général de l\'Organisation des Nations unies'
+      );
+    });
+
+    it('leaves words with digits and out of range numbers alone', () => {
+      expect(fr('Format A4 et mp3')).toBe('Format A4 et mp3');
+      expect(fr('1000000000000000')).toBe('1000000000000000');
+      expect(fr('Jean & Marie')).toBe('Jean et Marie');
+    });
+  });
+
+  describe('English', () => {
+    it('reads amounts', () => {
+      expect(en('$1,250')).toBe('one thousand two hundred fifty dollars');
+      expect(en('$12.50')).toBe('twelve dollars and fifty cents');
+      expect(en('€2.5M')).toBe('two point five million euros');
+    });
+
+    it('reads month-first dates and 12-hour times', () => {
+      expect(en('On 07/14/1789 at 3:30 pm, it began.')).toBe(
+        'On July fourteenth, seventeen eighty-nine at three thirty PM, it began.'
+      );
+    });
+
+    it('keeps the full stop after a time ending a sentence', () => {
+      expect(en('We start at 3:30 pm.')).toBe('We start at three thirty PM.');
+      expect(en('We start at 3:30 p.m.')).toBe('We start at three thirty PM.');
+      expect(en('At 3:30 p.m. we start.')).toBe('At three thirty PM we start.');
+    });
+
+    it('reads percentages, units and ordinals', () => {
+      expect(en('3.5%')).toBe('three point five percent');
+      expect(en('-5 °C')).toBe('minus five degrees Celsius');
+      expect(en('Dr. Smith, 101 km')).toBe('Doctor Smith, one hundred one kilometers');
+      expect(en('The 21st century')).toBe('The twenty-first century');
+    });
+
+    it('reads years in pairs of digits, and ranges', () => {
+      expect(en('In 1999, 1969 and 2005.')).toBe('In nineteen ninety-nine, nineteen sixty-nine and two thousand five.');
+      expect(en('From 1995-1996 and in 2023–24')).toBe(
+        'From nineteen ninety-five to nineteen ninety-six and in twenty twenty-three to twenty twenty-four'
+      );
+      // Quantities are grouped, or signed, or decimal
+      expect(en('1,999 people, -1999, 3.1999')).toBe(
+        'one thousand nine hundred ninety-nine people, minus one thousand nine hundred ninety-nine, three point one nine nine nine'
+      );
+    });
+
+    it('reads the numeral of a king as an ordinal, and of a series as a cardinal', () => {
+      expect(en('Henry VIII, Pope John Paul II and Henry V.')).toBe('Henry the Eighth, Pope John Paul the Second and Henry the Fifth.');
+      expect(en('World War II followed World War I.')).toBe('World War Two followed World War One.');
+      expect(en('Then I saw Malcolm X.')).toBe('Then I saw Malcolm X.');
+    });
+
+    it('leaves decades as written', () => {
+      expect(en('The 1990s')).toBe('The 1990s');
+    });
+  });
+});
@@ -0,0 +1,403 @@
+// src/infrastructure/services/parsing/text/TextNormalizer.ts
+// Spoken-form normalization before TTS: "1 250 €" → "mille deux cent cinquante euros"
+// Written forms are rewritten pass by pass, most specific first (dates and amounts before bare numbers)
+
+import { ITextNormalizerService, TextNormalizerOptions } from '@/core/ports/services/parsing/ITextNormalizerService';
+import { AmountScale, SpokenLocale } from './spoken/SpokenLocale';
+import { FrenchSpokenLocale } from './spoken/FrenchSpokenLocale';
+import { EnglishSpokenLocale } from './spoken/EnglishSpokenLocale';
+import { CharacterCounter } from './CharacterCounter';
+import { ALL_LANGUAGES } from '@/shared/config/normalizer.config';
+import { logger } from '@/shared/lib/logger';
+
+// A match must not start or end inside a word ("A4", "mp3", "1990s" stay as written)
+const START = '(?<![\\p{L}\\p{N}])';
+const END = "(?![\\p{L}\\p{N}'’])";
+// Minus sign only at the start of a token: "-5 °C" but not "10-5"
+const SIGN = '(?:(?<![^\\s(])([-−]))?';
+
+// Four digits without group separator ("1999", not "1,999"): read as a year
+const YEAR = '(1[1-9]\\d{2}|20\\d{2})';
+
+// Cardinals go up to the hundreds of billions
+const MAX_INTEGER_DIGITS = 12;
+
+// Units read the wrong way when glued to a number ("1990s", "5t" typos): require a space
+const SPACED_UNITS = new Set(['s', 't']);
+
+const SCALE_SYMBOLS: Record<string, AmountScale> = {
+  k: 'thousand',
+  K: 'thousand',
+  M: 'million',
+  Md: 'billion',
+  Mds: 'billion',
+  B: 'billion',
+  bn: 'billion',
+};
+
+const SCALE_WORDS: Record<string, AmountScale> = {
+  thousand: 'thousand',
+  mille: 'thousand',
+  million: 'million',
+  millions: 'million',
+  billion: 'billion',
+  billions: 'billion',
+  milliard: 'billion',
+  milliards: 'billion',
+};
+
+const ROMAN_NUMERALS: Array<[string, number]> = [
+  ['M', 1000], ['CM', 900], ['D', 500], ['CD', 400],
+  ['C', 100], ['XC', 90], ['L', 50], ['XL', 40],
+  ['X', 10], ['IX', 9], ['V', 5], ['IV', 4], ['I', 1],
+];
+
+interface WrittenNumber {
+  digits: string;
+  integer: number;
+  fraction?: string;
+  value: number;
+}
+
+interface LocalePatterns {
+  abbreviations?: RegExp;
+  abbreviationMap: Record<string, string>;
+  isoDate: RegExp;
+  numericDate: RegExp;
+  hourTime: RegExp;
+  colonTime: RegExp;
+  suffixAmount: RegExp;
+  prefixAmount: RegExp;
+  percentage: RegExp;
+  unit: RegExp;
+  ordinal: RegExp;
+  romanOrdinal: RegExp;
+  namedRoman: RegExp;
+  roman: RegExp;
+  year: RegExp;
+  plainNumber: RegExp;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first so that "km/h" wins over "km" and "m"
+const alternation = (keys: string[]): string =>
+  [...keys].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+export class TextNormalizer implements ITextNormalizerService {
+  private readonly locales: Record<string, SpokenLocale> = {
+    fr: new FrenchSpokenLocale(),
+    en: new EnglishSpokenLocale(),
+  };
+
+  private readonly patterns = new Map<string, LocalePatterns>();
+
+  // language → abbreviation → expansion, on top of each locale's built-in list
+  constructor(private readonly abbreviations: Record<string, Record<string, string>> = {}) {}
+
+  supportsLanguage(language: string): boolean {
+    return language.toLowerCase() in this.locales;
+  }
+
+  normalize(text: string, options?: TextNormalizerOptions): string {
+    const language = options?.language?.toLowerCase();
+    const locale = language ? this.locales[language] : undefined;
+
+    if (!locale) {
+      return this.cleanWhitespace(text);
+    }
+
+    const patterns = this.getPatterns(locale);
+    let result = text;
+
+    result = this.expandAbbreviations(result, patterns);
+    result = this.speakDates(result, locale, patterns);
+    result = this.speakTimes(result, locale, patterns);
+    result = this.speakAmounts(result, locale, patterns);
+    result = result.replace(patterns.percentage, (match: string, sign: string | undefined, raw: string) => {
+      const number = this.parseNumber(locale, raw);
+      return number ? this.signed(locale, sign, `${this.spellNumber(locale, number)} ${locale.percentWord}`) : match;
+    });
+    result = this.speakUnits(result, locale, patterns);
+    result = this.speakOrdinals(result, locale, patterns);
+    result = this.speakYears(result, locale, patterns);
+    result = result.replace(/\s&\s/g, ` ${locale.ampersandWord} `).replace(/(?<=\p{L})&(?=\p{L})/gu, ` ${locale.ampersandWord} `);
+    result = result.replace(patterns.plainNumber, (match: string, sign: string | undefined, raw: string) => {
+      const number = this.parseNumber(locale, raw);
+      return number ? this.signed(locale, sign, this.spellNumber(locale, number)) : match;
+    });
+    result = this.cleanWhitespace(result);
+
+    logger.debug('Text normalized', {
+      language: locale.language,
+      originalChars: CharacterCounter.count(text),
+      normalizedChars: CharacterCounter.count(result),
+    });
+
+    return result;
+  }
+
+  private expandAbbreviations(text: string, patterns: LocalePatterns): string {
+    if (!patterns.abbreviations) return text;
+
+    return text.replace(patterns.abbreviations, (match: string, offset: number, whole: string) => {
+      const expansion = patterns.abbreviationMap[match];
+      const next = whole.charAt(offset + match.length);
+
+      // "etc." ending a paragraph keeps its full stop; "n°5" gets a space before the number
+      if (match.endsWith('.') && (next === '' || next === '\n')) return `${expansion}.`;
+      if (/[\p{L}\p{N}]/u.test(next)) return `${expansion} `;
+      return expansion;
+    });
+  }
+
+  private speakDates(text: string, locale: SpokenLocale, patterns: LocalePatterns): string {
+    const speak = (match: string, day: number, month: number, year: number): string =>
+      this.isValidDate(day, month, year) ? locale.date(day, month, year) : match;
+
+    return text
+      .replace(patterns.isoDate, (match: string, year: string, month: string, day: string) =>
+        speak(match, Number(day), Number(month), Number(year)))
+      .replace(patterns.numericDate, (match: string, first: string, _separator: string, second: string, year: string) =>
+        locale.dayFirst
+          ? speak(match, Number(first), Number(second), Number(year))
+          : speak(match, Number(second), Number(first), Number(year)));
+  }
+
+  private speakTimes(text: string, locale: SpokenLocale, patterns: LocalePatterns): string {
+    return text
+      .replace(patterns.hourTime, (match: string, hours: string, minutes: string) =>
+        Number(hours) < 24 && Number(minutes) < 60 ? locale.time(Number(hours), Number(minutes)) : match)
+      .replace(
+        patterns.colonTime,
+        (match: string, hours: string, minutes: string, meridiem: string | undefined, offset: number, whole: string) => {
+          const h = Number(hours);
+          const m = Number(minutes);
+          if (m >= 60) return match;
+          if (!meridiem) return h < 24 ? locale.time(h, m) : match;
+          if (h < 1 || h > 12) return match;
+
+          // Like "etc.", a "p.m." ending a paragraph keeps its full stop
+          const next = whole.charAt(offset + match.length);
+          const stop = match.endsWith('.') && (next === '' || next === '\n') ? '.' : '';
+          return `${locale.time(h, m, meridiem.toLowerCase() === 'a' ? 'am' : 'pm')}${stop}`;
+        }
+      );
+  }
+
+  private speakAmounts(text: string, locale: SpokenLocale, patterns: LocalePatterns): string {
+    return text
+      .replace(
+        patterns.suffixAmount,
+        (match: string, sign: string | undefined, raw: string, scaleSymbol: string | undefined, scaleWord: string | undefined, symbol: string) =>
+          this.speakAmount(locale, sign, raw, this.scaleOf(scaleSymbol, scaleWord), symbol) ?? match
+      )
+      .replace(
+        patterns.prefixAmount,
+        (match: string, symbol: string, raw: string, scaleSymbol: string | undefined, scaleWord: string | undefined) =>
+          this.speakAmount(locale, undefined, raw, this.scaleOf(scaleSymbol, scaleWord), symbol) ?? match
+      );
+  }
+
+  private speakAmount(
+    locale: SpokenLocale,
+    sign: string | undefined,
+    raw: string,
+    scale: AmountScale | undefined,
+    symbol: string
+  ): string | null {
+    const number = this.parseNumber(locale, raw);
+    const currency = locale.currencies[symbol];
+    if (!number || !currency) return null;
+
+    if (scale) {
+      return this.signed(locale, sign, locale.scaledAmount(this.spellNumber(locale, number), number.value, scale, currency));
+    }
+
+    // "12,5 €" is twelve euros fifty; more than two decimals is read as a plain quantity
+    if (number.fraction === undefined || number.fraction.length <= 2) {
+      const cents = Number((number.fraction ?? '').padEnd(2, '0'));
+      return this.signed(locale, sign, locale.amount(number.integer, cents, currency));
+    }
+
+    return this.signed(locale, sign, locale.quantity(this.spellNumber(locale, number), number.value, currency));
+  }
+
+  private speakUnits(text: string, locale: SpokenLocale, patterns: LocalePatterns): string {
+    return text.replace(
+      patterns.unit,
+      (match: string, sign: string | undefined, raw: string, tightSymbol: string | undefined, spacedSymbol: string | undefined) => {
+        const number = this.parseNumber(locale, raw);
+        const unit = locale.units[tightSymbol ?? spacedSymbol ?? ''];
+        if (!number || !unit) return match;
+
+        const words = locale.quantity(this.spellNumber(locale, number, unit.feminine), number.value, unit);
+        return this.signed(locale, sign, words);
+      }
+    );
+  }
+
+  private speakOrdinals(text: string, locale: SpokenLocale, patterns: LocalePatterns): string {
+    const speak = (match: string, value: number | null, suffix: string): string =>
+      value !== null && value > 0 && locale.acceptsOrdinal(value, suffix) ? locale.writtenOrdinal(value, suffix) : match;
+
+    return text
+      .replace(patterns.ordinal, (match: string, digits: string, suffix: string) =>
+        digits.length > MAX_INTEGER_DIGITS ? match : speak(match, Number(digits), suffix))
+      .replace(patterns.romanOrdinal, (match: string, numeral: string, suffix: string) =>
+        speak(match, this.parseRoman(numeral), suffix))
+      .replace(patterns.namedRoman, (match: string, name: string, numeral: string) => {
+        const value = this.parseRoman(numeral);
+        return value !== null ? locale.namedNumeral(value, name) ?? match : match;
+      })
+      .replace(patterns.roman, (match: string, numeral: string) => {
+        const value = this.parseRoman(numeral);
+        return value !== null ? locale.cardinal(value) : match;
+      });
+  }
+
+  // "1995-1996" and "2023-24" are ranges: spelled apart, the dash would glue the two years together
+  private speakYears(text: string, locale: SpokenLocale, patterns: LocalePatterns): string {
+    return text.replace(patterns.year, (match: string, first: string, last: string | undefined) => {
+      const start = Number(first);
+      if (last === undefined) return locale.year(start);
+
+      const end = last.length === 2 ? start - (start % 100) + Number(last) : Number(last);
+      // "1999-05" is no range: only the year is read
+      return end > start
+        ? `${locale.year(start)} ${locale.rangeWord} ${locale.year(end)}`
+        : `${locale.year(start)}${match.slice(first.length)}`;
+    });
+  }
+
+  private cleanWhitespace(text: string): string {
+    return text
+      .replace(/[\u00A0\u202F]/g, ' ')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .trim();
+  }
+
+  private parseNumber(locale: SpokenLocale, raw: string): WrittenNumber | null {
+    const [digits, fraction] = raw
+      .replace(new RegExp(locale.groupSeparatorPattern, 'g'), '')
+      .split(locale.decimalSeparator);
+
+    if (digits.length > MAX_INTEGER_DIGITS) return null;
+
+    return {
+      digits,
+      integer: Number(digits),
+      fraction,
+      value: Number(`${digits}.${fraction ?? '0'}`),
+    };
+  }
+
+  private spellNumber(locale: SpokenLocale, number: WrittenNumber, feminine = false): string {
+    if (number.fraction !== undefined) {
+      return locale.decimal(locale.cardinal(number.integer), number.fraction);
+    }
+
+    // Codes and phone numbers ("007", "06 12") are read digit by digit
+    if (number.digits.length > 1 && number.digits.startsWith('0')) {
+      return number.digits.split('').map((digit) => locale.cardinal(Number(digit))).join(' ');
+    }
+
+    return locale.cardinal(number.integer, feminine);
+  }
+
+  private signed(locale: SpokenLocale, sign: string | undefined, words: string): string {
+    return sign ? `${locale.minusWord} ${words}` : words;
+  }
+
+  private scaleOf(symbol: string | undefined, word: string | undefined): AmountScale | undefined {
+    if (symbol) return SCALE_SYMBOLS[symbol];
+    if (word) return SCALE_WORDS[word];
+    return undefined;
+  }
+
+  private isValidDate(day: number, month: number, year: number): boolean {
+    if (month < 1 || month > 12 || day < 1) return false;
+    return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+  }
+
+  // Canonical numerals only: "XIV" is 14, "IIII" or "VX" are left alone
+  private parseRoman(numeral: string): number | null {
+    let value = 0;
+    let rest = numeral;
+    for (const [symbol, amount] of ROMAN_NUMERALS) {
+      while (rest.startsWith(symbol)) {
+        value += amount;
+        rest = rest.slice(symbol.length);
+      }
+    }
+    return rest === '' && value > 0 && this.toRoman(value) === numeral ? value : null;
+  }
+
+  private toRoman(value: number): string {
+    let numeral = '';
+    let rest = value;
+    for (const [symbol, amount] of ROMAN_NUMERALS) {
+      while (rest >= amount) {
+        numeral += symbol;
+        rest -= amount;
+      }
+    }
+    return numeral;
+  }
+
+  private getPatterns(locale: SpokenLocale): LocalePatterns {
+    const cached = this.patterns.get(locale.language);
+    if (cached) return cached;
+
+    const group = locale.groupSeparatorPattern;
+    const decimal = escapeRegExp(locale.decimalSeparator);
+    const number = `\\d{1,3}(?:${group}\\d{3})+(?:${decimal}\\d+)?|\\d+(?:${decimal}\\d+)?`;
+    const currencies = alternation(Object.keys(locale.currencies));
+    const scale = `(?:\\s?(${alternation(Object.keys(SCALE_SYMBOLS))})(?![\\p{L}\\p{N}])|\\s(${alternation(Object.keys(SCALE_WORDS))}))?`;
+    const unitSymbols = Object.keys(locale.units);
+    const tightUnits = alternation(unitSymbols.filter((symbol) => !SPACED_UNITS.has(symbol)));
+    const ordinalSuffix = locale.ordinalSuffixPattern;
+
+    const abbreviationMap = {
+      ...locale.abbreviations,
+      ...this.abbreviations[ALL_LANGUAGES],
+      ...this.abbreviations[locale.language],
+    };
+    const abbreviationKeys = Object.keys(abbreviationMap).sort((a, b) => b.length - a.length);
+    const abbreviations = abbreviationKeys.length > 0
+      ? new RegExp(
+          `${START}(?:${abbreviationKeys
+            .map((key) => `${escapeRegExp(key)}${/[\p{L}\p{N}]$/u.test(key) ? '(?![\\p{L}\\p{N}])' : ''}`)
+            .join('|')})`,
+          'gu'
+        )
+      : undefined;
+
+    const patterns: LocalePatterns = {
+      abbreviations,
+      abbreviationMap,
+      isoDate: new RegExp(`${START}(\\d{4})-(\\d{2})-(\\d{2})${END}`, 'gu'),
+      numericDate: new RegExp(`${START}(\\d{1,2})([/.])(\\d{1,2})\\2(\\d{4})${END}`, 'gu'),
+      hourTime: new RegExp(`${START}(\\d{1,2})\\s?h\\s?(\\d{2})${END}`, 'gu'),
+      // Only "p.m." takes a final full stop: in "3:30 pm." it ends the sentence
+      colonTime: new RegExp(`${START}(\\d{1,2}):(\\d{2})(?:\\s?([aApP])(?:\\.[mM]\\.|[mM])(?!\\p{L}))?${END}`, 'gu'),
+      suffixAmount: new RegExp(`${START}${SIGN}(${number})${scale}\\s?(${currencies})${END}`, 'gu'),
+      prefixAmount: new RegExp(`${START}(${currencies})\\s?(${number})${scale}${END}`, 'gu'),
+      percentage: new RegExp(`${START}${SIGN}(${number})\\s?%`, 'gu'),
+      unit: new RegExp(`${START}${SIGN}(${number})(?:\\s?(${tightUnits})|\\s(${alternation(unitSymbols)}))${END}`, 'gu'),
+      ordinal: new RegExp(`${START}(\\d+)(${ordinalSuffix})${END}`, 'gu'),
+      // A lone "C", "D", "L" or "M" before a suffix is a word ("Ce", "De", "Le"), not a numeral
+      romanOrdinal: new RegExp(`${START}([IVXLCDM]{2,}|[IVX])(${ordinalSuffix})${END}`, 'gu'),
+      // After a capitalized word; a lone "X" is a name ("Malcolm X", "Madame X")
+      namedRoman: new RegExp(`(?<=(?<![\\p{L}\\p{N}])(\\p{Lu}\\p{L}*)\\s)([IVX]{2,}|[IV])${END}`, 'gu'),
+      roman: new RegExp(`${START}([IVX]{2,})${END}`, 'gu'),
+      // Not the digits of a signed, decimal or grouped number
+      year: new RegExp(`${START}(?<![-−.,])${YEAR}(?:\\s?[-–]\\s?(\\d{4}|\\d{2}))?${END}(?![.,]\\d)`, 'gu'),
+      plainNumber: new RegExp(`${START}${SIGN}(${number})${END}`, 'gu'),
+    };
+
+    this.patterns.set(locale.language, patterns);
+    return patterns;
+  }
+}
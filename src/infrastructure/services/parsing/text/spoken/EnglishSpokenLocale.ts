@@ -0,0 +1,257 @@
+// src/infrastructure/services/parsing/text/spoken/EnglishSpokenLocale.ts
+// English spelling: American usage ("one hundred five", "nineteen eighty-four", "March twelfth")
+
+import { AmountScale, SpokenCurrency, SpokenLocale, SpokenNoun } from './SpokenLocale';
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Names numbered like a series rather than a reign: "World War II", "Part I", "Type II"
+const SERIES_NAMES = new Set([
+  'war', 'part', 'chapter', 'volume', 'book', 'act', 'scene', 'episode', 'season', 'phase',
+  'stage', 'level', 'round', 'type', 'class', 'category', 'grade', 'apollo', 'vatican',
+]);
+
+// "twenty-first" → "Twenty-First": the numeral is part of the name
+const titleCase = (words: string): string =>
+  words.replace(/(^|[\s-])([a-z])/g, (_, separator: string, letter: string) => `${separator}${letter.toUpperCase()}`);
+
+const noun = (singular: string, plural: string): SpokenNoun => ({ singular, plural });
+
+const CENT = noun('cent', 'cents');
+const EURO: SpokenCurrency = { ...noun('euro', 'euros'), subunit: CENT };
+const DOLLAR: SpokenCurrency = { ...noun('dollar', 'dollars'), subunit: CENT };
+const POUND: SpokenCurrency = { ...noun('pound', 'pounds'), subunit: noun('penny', 'pence') };
+const SWISS_FRANC: SpokenCurrency = { ...noun('Swiss franc', 'Swiss francs'), subunit: noun('centime', 'centimes') };
+
+export class EnglishSpokenLocale implements SpokenLocale {
+  readonly language = 'en';
+  readonly decimalSeparator = '.';
+  readonly groupSeparatorPattern = ',';
+  readonly dayFirst = false;
+  readonly minusWord = 'minus';
+  readonly percentWord = 'percent';
+  readonly ampersandWord = 'and';
+  readonly rangeWord = 'to';
+  readonly ordinalSuffixPattern = 'st|nd|rd|th';
+
+  // "in" (inches) is left out: "5 in the morning" is far more common
+  readonly units: Record<string, SpokenNoun> = {
+    'km/h': noun('kilometer per hour', 'kilometers per hour'),
+    'km²': noun('square kilometer', 'square kilometers'),
+    'm²': noun('square meter', 'square meters'),
+    'm³': noun('cubic meter', 'cubic meters'),
+    mph: noun('mile per hour', 'miles per hour'),
+    km: noun('kilometer', 'kilometers'),
+    m: noun('meter', 'meters'),
+    cm: noun('centimeter', 'centimeters'),
+    mm: noun('millimeter', 'millimeters'),
+    mi: noun('mile', 'miles'),
+    ha: noun('hectare', 'hectares'),
+    kg: noun('kilogram', 'kilograms'),
+    g: noun('gram', 'grams'),
+    mg: noun('milligram', 'milligrams'),
+    lbs: noun('pound', 'pounds'),
+    lb: noun('pound', 'pounds'),
+    oz: noun('ounce', 'ounces'),
+    L: noun('liter', 'liters'),
+    l: noun('liter', 'liters'),
+    ml: noun('milliliter', 'milliliters'),
+    mL: noun('milliliter', 'milliliters'),
+    '°C': noun('degree Celsius', 'degrees Celsius'),
+    '°F': noun('degree Fahrenheit', 'degrees Fahrenheit'),
+    '°': noun('degree', 'degrees'),
+    h: noun('hour', 'hours'),
+    min: noun('minute', 'minutes'),
+    s: noun('second', 'seconds'),
+    ms: noun('millisecond', 'milliseconds'),
+    TB: noun('terabyte', 'terabytes'),
+    GB: noun('gigabyte', 'gigabytes'),
+    MB: noun('megabyte', 'megabytes'),
+    KB: noun('kilobyte', 'kilobytes'),
+    GHz: noun('gigahertz', 'gigahertz'),
+    MHz: noun('megahertz', 'megahertz'),
+    kWh: noun('kilowatt-hour', 'kilowatt-hours'),
+    kW: noun('kilowatt', 'kilowatts'),
+    W: noun('watt', 'watts'),
+    V: noun('volt', 'volts'),
+  };
+
+  readonly currencies: Record<string, SpokenCurrency> = {
+    '€': EURO,
+    EUR: EURO,
+    $: DOLLAR,
+    USD: DOLLAR,
+    '£': POUND,
+    GBP: POUND,
+    CHF: SWISS_FRANC,
+  };
+
+  readonly abbreviations: Record<string, string> = {
+    'Mr.': 'Mister',
+    'Mrs.': 'Missus',
+    'Ms.': 'Miz',
+    'Dr.': 'Doctor',
+    'Prof.': 'Professor',
+    'Jr.': 'Junior',
+    'Sr.': 'Senior',
+    'St.': 'Saint',
+    'e.g.': 'for example',
+    'i.e.': 'that is',
+    'etc.': 'et cetera',
+    'vs.': 'versus',
+    vs: 'versus',
+    'approx.': 'approximately',
+  };
+
+  cardinal(value: number): string {
+    if (value === 0) return ONES[0];
+
+    const parts: string[] = [];
+    const billions = Math.floor(value / 1e9);
+    const millions = Math.floor((value % 1e9) / 1e6);
+    const thousands = Math.floor((value % 1e6) / 1e3);
+    const rest = value % 1e3;
+
+    if (billions > 0) parts.push(`${this.belowThousand(billions)} billion`);
+    if (millions > 0) parts.push(`${this.belowThousand(millions)} million`);
+    if (thousands > 0) parts.push(`${this.belowThousand(thousands)} thousand`);
+    if (rest > 0) parts.push(this.belowThousand(rest));
+
+    return parts.join(' ');
+  }
+
+  // The last word takes the ordinal form: "twenty-first", "one hundredth"
+  ordinal(value: number): string {
+    return this.cardinal(value).replace(/[a-z]+$/, (word) => {
+      if (IRREGULAR_ORDINALS[word]) return IRREGULAR_ORDINALS[word];
+      if (word.endsWith('y')) return `${word.slice(0, -1)}ieth`;
+      return `${word}th`;
+    });
+  }
+
+  // Digits after the point are read one by one: "three point one four"
+  decimal(integerWords: string, fractionDigits: string): string {
+    const digits = fractionDigits.split('').map((digit) => ONES[Number(digit)]);
+    return `${integerWords} point ${digits.join(' ')}`;
+  }
+
+  isPlural(value: number): boolean {
+    return value !== 1;
+  }
+
+  quantity(valueWords: string, value: number, unit: SpokenNoun): string {
+    return `${valueWords} ${this.isPlural(value) ? unit.plural : unit.singular}`;
+  }
+
+  // "twelve dollars and fifty cents"
+  amount(integer: number, cents: number, currency: SpokenCurrency): string {
+    const centsWords = cents > 0 ? this.quantity(this.cardinal(cents), cents, currency.subunit) : '';
+    if (integer === 0 && cents > 0) {
+      return centsWords;
+    }
+
+    const main = this.quantity(this.cardinal(integer), integer, currency);
+    return cents > 0 ? `${main} and ${centsWords}` : main;
+  }
+
+  scaledAmount(valueWords: string, value: number, scale: AmountScale, currency: SpokenCurrency): string {
+    return `${valueWords} ${this.scaleWord(scale)} ${currency.plural}`;
+  }
+
+  scaleWord(scale: AmountScale): string {
+    return scale;
+  }
+
+  date(day: number, month: number, year: number): string {
+    return `${MONTHS[month - 1]} ${this.ordinal(day)}, ${this.year(year)}`;
+  }
+
+  // "ten oh five", "two thirty PM", "nine o'clock"
+  time(hours: number, minutes: number, meridiem?: 'am' | 'pm'): string {
+    const parts = [this.cardinal(hours)];
+    if (minutes > 0) {
+      parts.push(minutes < 10 ? `oh ${this.cardinal(minutes)}` : this.cardinal(minutes));
+    } else if (!meridiem) {
+      parts.push("o'clock");
+    }
+    if (meridiem) {
+      parts.push(meridiem.toUpperCase());
+    }
+    return parts.join(' ');
+  }
+
+  acceptsOrdinal(value: number, suffix: string): boolean {
+    const lastTwo = value % 100;
+    if (lastTwo >= 11 && lastTwo <= 13) return suffix === 'th';
+
+    switch (value % 10) {
+      case 1:
+        return suffix === 'st';
+      case 2:
+        return suffix === 'nd';
+      case 3:
+        return suffix === 'rd';
+      default:
+        return suffix === 'th';
+    }
+  }
+
+  writtenOrdinal(value: number): string {
+    return this.ordinal(value);
+  }
+
+  // "Henry the Eighth", "World War Two"; a lone "I" after a name is the pronoun ("Then I")
+  namedNumeral(value: number, name: string): string | null {
+    if (SERIES_NAMES.has(name.toLowerCase())) return titleCase(this.cardinal(value));
+    return value > 1 ? `the ${titleCase(this.ordinal(value))}` : null;
+  }
+
+  // "nineteen eighty-four", "nineteen oh five", "two thousand eight", "twenty twenty-four"
+  year(value: number): string {
+    if (value < 1100 || value >= 10000 || (value >= 2000 && value < 2010) || value % 1000 < 10) {
+      return this.cardinal(value);
+    }
+
+    const century = Math.floor(value / 100);
+    const rest = value % 100;
+    if (rest === 0) return `${this.cardinal(century)} hundred`;
+    return `${this.cardinal(century)} ${rest < 10 ? `oh ${this.cardinal(rest)}` : this.cardinal(rest)}`;
+  }
+
+  private belowThousand(value: number): string {
+    const hundreds = Math.floor(value / 100);
+    const rest = value % 100;
+
+    if (hundreds === 0) return this.belowHundred(rest);
+    if (rest === 0) return `${ONES[hundreds]} hundred`;
+    return `${ONES[hundreds]} hundred ${this.belowHundred(rest)}`;
+  }
+
+  private belowHundred(value: number): string {
+    if (value < 20) return ONES[value];
+
+    const tens = Math.floor(value / 10);
+    const unit = value % 10;
+    return unit === 0 ? TENS[tens] : `${TENS[tens]}-${ONES[unit]}`;
+  }
+}
@@ -0,0 +1,280 @@
+// src/infrastructure/services/parsing/text/spoken/FrenchSpokenLocale.ts
+// French spelling: traditional orthography ("vingt et un", "quatre-vingts", "deux cents", "mille")
+
+import { AmountScale, SpokenCurrency, SpokenLocale, SpokenNoun } from './SpokenLocale';
+
+const UNITS = [
+  'zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf',
+  'dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize',
+];
+
+const TENS = ['', 'dix', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+const MONTHS = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+];
+
+const noun = (singular: string, plural: string, feminine?: boolean): SpokenNoun => ({ singular, plural, feminine });
+
+const CENTIME = noun('centime', 'centimes');
+const EURO: SpokenCurrency = { ...noun('euro', 'euros'), subunit: CENTIME };
+const DOLLAR: SpokenCurrency = { ...noun('dollar', 'dollars'), subunit: noun('cent', 'cents') };
+const POUND: SpokenCurrency = { ...noun('livre', 'livres', true), subunit: noun('penny', 'pence') };
+const SWISS_FRANC: SpokenCurrency = { ...noun('franc suisse', 'francs suisses'), subunit: CENTIME };
+
+export class FrenchSpokenLocale implements SpokenLocale {
+  readonly language = 'fr';
+  readonly decimalSeparator = ',';
+  // Space, no-break space and narrow no-break space ("1 250", "1 250")
+  readonly groupSeparatorPattern = '[ \\u00A0\\u202F]';
+  readonly dayFirst = true;
+  readonly minusWord = 'moins';
+  readonly percentWord = 'pour cent';
+  readonly ampersandWord = 'et';
+  readonly rangeWord = 'à';
+  readonly ordinalSuffixPattern = 'ère|er|re|èmes|ème|es|e|è';
+
+  readonly units: Record<string, SpokenNoun> = {
+    'km/h': noun('kilomètre heure', 'kilomètres heure'),
+    'km²': noun('kilomètre carré', 'kilomètres carrés'),
+    'm²': noun('mètre carré', 'mètres carrés'),
+    'm³': noun('mètre cube', 'mètres cubes'),
+    km: noun('kilomètre', 'kilomètres'),
+    m: noun('mètre', 'mètres'),
+    cm: noun('centimètre', 'centimètres'),
+    mm: noun('millimètre', 'millimètres'),
+    ha: noun('hectare', 'hectares'),
+    kg: noun('kilogramme', 'kilogrammes'),
+    g: noun('gramme', 'grammes'),
+    mg: noun('milligramme', 'milligrammes'),
+    t: noun('tonne', 'tonnes', true),
+    L: noun('litre', 'litres'),
+    l: noun('litre', 'litres'),
+    cl: noun('centilitre', 'centilitres'),
+    ml: noun('millilitre', 'millilitres'),
+    mL: noun('millilitre', 'millilitres'),
+    '°C': noun('degré Celsius', 'degrés Celsius'),
+    '°F': noun('degré Fahrenheit', 'degrés Fahrenheit'),
+    '°': noun('degré', 'degrés'),
+    h: noun('heure', 'heures', true),
+    min: noun('minute', 'minutes', true),
+    s: noun('seconde', 'secondes', true),
+    ms: noun('milliseconde', 'millisecondes', true),
+    To: noun('téraoctet', 'téraoctets'),
+    Go: noun('gigaoctet', 'gigaoctets'),
+    Mo: noun('mégaoctet', 'mégaoctets'),
+    Ko: noun('kilooctet', 'kilooctets'),
+    GHz: noun('gigahertz', 'gigahertz'),
+    MHz: noun('mégahertz', 'mégahertz'),
+    kWh: noun('kilowattheure', 'kilowattheures'),
+    kW: noun('kilowatt', 'kilowatts'),
+    W: noun('watt', 'watts'),
+    V: noun('volt', 'volts'),
+  };
+
+  readonly currencies: Record<string, SpokenCurrency> = {
+    '€': EURO,
+    EUR: EURO,
+    $: DOLLAR,
+    USD: DOLLAR,
+    '£': POUND,
+    GBP: POUND,
+    CHF: SWISS_FRANC,
+  };
+
+  readonly abbreviations: Record<string, string> = {
+    'av. J.-C.': 'avant Jésus-Christ',
+    'apr. J.-C.': 'après Jésus-Christ',
+    'J.-C.': 'Jésus-Christ',
+    'c.-à-d.': "c'est-à-dire",
+    'p. ex.': 'par exemple',
+    'M.': 'Monsieur',
+    'MM.': 'Messieurs',
+    Mme: 'Madame',
+    Mmes: 'Mesdames',
+    Mlle: 'Mademoiselle',
+    'Dr.': 'Docteur',
+    Dr: 'Docteur',
+    'Pr.': 'Professeur',
+    Pr: 'Professeur',
+    St: 'Saint',
+    Ste: 'Sainte',
+    'etc.': 'et cetera',
+    'env.': 'environ',
+    'cf.': 'confer',
+    'n°': 'numéro',
+    'N°': 'numéro',
+    bd: 'boulevard',
+  };
+
+  cardinal(value: number, feminine = false): string {
+    const words = this.spell(value);
+    // "vingt et une heures", "une livre"
+    return feminine ? words.replace(/\bun$/, 'une') : words;
+  }
+
+  ordinal(value: number, feminine = false): string {
+    if (value === 1) {
+      return feminine ? 'première' : 'premier';
+    }
+
+    const words = this.spell(value)
+      .replace(/(vingt|cent)s$/, '$1')
+      .replace(/cinq$/, 'cinqu')
+      .replace(/neuf$/, 'neuv')
+      .replace(/e$/, '');
+    return `${words}ième`;
+  }
+
+  decimal(integerWords: string, fractionDigits: string): string {
+    const leadingZeros = fractionDigits.match(/^0*/)?.[0].length ?? 0;
+    const rest = fractionDigits.slice(leadingZeros);
+    const parts = Array<string>(leadingZeros).fill('zéro');
+    if (rest.length > 0) {
+      parts.push(this.spell(Number(rest)));
+    }
+    return `${integerWords} virgule ${parts.join(' ')}`;
+  }
+
+  // "1,5 kilomètre": plural from two on
+  isPlural(value: number): boolean {
+    return Math.abs(value) >= 2;
+  }
+
+  quantity(valueWords: string, value: number, unit: SpokenNoun): string {
+    return `${valueWords} ${this.isPlural(value) ? unit.plural : unit.singular}`;
+  }
+
+  amount(integer: number, cents: number, currency: SpokenCurrency): string {
+    const centsWords = cents > 0 ? this.quantity(this.cardinal(cents, currency.subunit.feminine), cents, currency.subunit) : '';
+    if (integer === 0 && cents > 0) {
+      return centsWords;
+    }
+
+    const integerWords = this.cardinal(integer, currency.feminine);
+    // "un million d'euros", "deux milliards de dollars"
+    const main = /(million|milliard)s?$/.test(integerWords)
+      ? `${integerWords} ${this.of(currency.plural)}`
+      : this.quantity(integerWords, integer, currency);
+
+    // "douze euros cinquante"
+    return cents > 0 ? `${main} ${this.cardinal(cents, currency.subunit.feminine)}` : main;
+  }
+
+  scaledAmount(valueWords: string, value: number, scale: AmountScale, currency: SpokenCurrency): string {
+    if (scale === 'thousand') {
+      return `${valueWords} mille ${currency.plural}`;
+    }
+    return `${valueWords} ${this.scaleWord(scale, value)} ${this.of(currency.plural)}`;
+  }
+
+  scaleWord(scale: AmountScale, value: number): string {
+    switch (scale) {
+      case 'thousand':
+        return 'mille';
+      case 'million':
+        return this.isPlural(value) ? 'millions' : 'million';
+      case 'billion':
+        return this.isPlural(value) ? 'milliards' : 'milliard';
+    }
+  }
+
+  date(day: number, month: number, year: number): string {
+    return `${day === 1 ? 'premier' : this.cardinal(day)} ${MONTHS[month - 1]} ${this.year(year)}`;
+  }
+
+  year(value: number): string {
+    return this.cardinal(value);
+  }
+
+  // 24-hour clock: "quatorze heures trente", "une heure"
+  time(hours: number, minutes: number): string {
+    const hoursWords = this.quantity(this.cardinal(hours, true), hours, this.units.h);
+    return minutes > 0 ? `${hoursWords} ${this.cardinal(minutes, true)}` : hoursWords;
+  }
+
+  acceptsOrdinal(value: number, suffix: string): boolean {
+    return ['er', 're', 'ère'].includes(suffix) ? value === 1 : value >= 1;
+  }
+
+  writtenOrdinal(value: number, suffix: string): string {
+    const words = this.ordinal(value, suffix === 're' || suffix === 'ère');
+    return suffix.endsWith('s') ? `${words}s` : words;
+  }
+
+  // Kings and popes take the cardinal ("Louis quatorze"); the first one is written "Ier"
+  namedNumeral(value: number): string | null {
+    return value > 1 ? this.cardinal(value) : null;
+  }
+
+  private of(noun: string): string {
+    return /^[aeiouyéèêh]/i.test(noun) ? `d'${noun}` : `de ${noun}`;
+  }
+
+  private spell(value: number): string {
+    if (value === 0) return UNITS[0];
+
+    const parts: string[] = [];
+    const billions = Math.floor(value / 1e9);
+    const millions = Math.floor((value % 1e9) / 1e6);
+    const thousands = Math.floor((value % 1e6) / 1e3);
+    const rest = value % 1e3;
+
+    if (billions > 0) {
+      parts.push(billions === 1 ? 'un milliard' : `${this.belowThousand(billions, true)} milliards`);
+    }
+    if (millions > 0) {
+      parts.push(millions === 1 ? 'un million' : `${this.belowThousand(millions, true)} millions`);
+    }
+    if (thousands > 0) {
+      // "mille" is invariable and so are "vingt"/"cent" right before it
+      parts.push(thousands === 1 ? 'mille' : `${this.belowThousand(thousands, false)} mille`);
+    }
+    if (rest > 0) {
+      parts.push(this.belowThousand(rest, true));
+    }
+
+    return parts.join(' ');
+  }
+
+  private belowThousand(value: number, pluralize: boolean): string {
+    const hundreds = Math.floor(value / 100);
+    const rest = value % 100;
+
+    if (hundreds === 0) {
+      return this.belowHundred(rest, pluralize);
+    }
+
+    const prefix = hundreds === 1 ? 'cent' : `${UNITS[hundreds]} cent`;
+    if (rest === 0) {
+      return hundreds > 1 && pluralize ? `${prefix}s` : prefix;
+    }
+    return `${prefix} ${this.belowHundred(rest, pluralize)}`;
+  }
+
+  private belowHundred(value: number, pluralize: boolean): string {
+    if (value <= 16) return UNITS[value];
+    if (value < 20) return `dix-${UNITS[value - 10]}`;
+
+    const tens = Math.floor(value / 10);
+    const unit = value % 10;
+
+    if (tens <= 6) {
+      if (unit === 0) return TENS[tens];
+      if (unit === 1) return `${TENS[tens]} et un`;
+      return `${TENS[tens]}-${UNITS[unit]}`;
+    }
+
+    if (tens === 7) {
+      return unit === 1 ? 'soixante et onze' : `soixante-${this.belowHundred(10 + unit, pluralize)}`;
+    }
+
+    if (tens === 8) {
+      if (unit === 0) return pluralize ? 'quatre-vingts' : 'quatre-vingt';
+      return `quatre-vingt-${UNITS[unit]}`;
+    }
+
+    return `quatre-vingt-${this.belowHundred(10 + unit, pluralize)}`;
+  }
+}
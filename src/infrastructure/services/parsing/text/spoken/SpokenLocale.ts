@@ -0,0 +1,57 @@
+// src/infrastructure/services/parsing/text/spoken/SpokenLocale.ts
+// Language-specific spelling used by TextNormalizer (one implementation per supported language)
+
+export interface SpokenNoun {
+  singular: string;
+  plural: string;
+  // Drives "une heure" / "vingt et une minutes"
+  feminine?: boolean;
+}
+
+export interface SpokenCurrency extends SpokenNoun {
+  subunit: SpokenNoun;
+}
+
+// Written scale of an amount: "5 k€", "1,5 M€", "$2bn", "3 millions"
+export type AmountScale = 'thousand' | 'million' | 'billion';
+
+export interface SpokenLocale {
+  readonly language: string;
+  // Number syntax: "1 250,5" in French, "1,250.5" in English
+  readonly decimalSeparator: string;
+  readonly groupSeparatorPattern: string;
+  // Numeric dates: "12/03/2024" is 12 March in French, December 3 in English
+  readonly dayFirst: boolean;
+  readonly minusWord: string;
+  readonly percentWord: string;
+  readonly ampersandWord: string;
+  // Between the two years of a range: "1995-1996"
+  readonly rangeWord: string;
+  // Unit symbol → noun, symbols matched case-sensitively after a number
+  readonly units: Record<string, SpokenNoun>;
+  // Symbol or ISO code → currency
+  readonly currencies: Record<string, SpokenCurrency>;
+  readonly abbreviations: Record<string, string>;
+  // Written ordinal suffixes after digits or Roman numerals ("2e", "XIXe" / "2nd")
+  readonly ordinalSuffixPattern: string;
+
+  cardinal(value: number, feminine?: boolean): string;
+  ordinal(value: number, feminine?: boolean): string;
+  // Integer part already spelled out; fraction digits as written ("05" in "3,05")
+  decimal(integerWords: string, fractionDigits: string): string;
+  isPlural(value: number): boolean;
+  quantity(valueWords: string, value: number, noun: SpokenNoun): string;
+  amount(integer: number, cents: number, currency: SpokenCurrency): string;
+  scaledAmount(valueWords: string, value: number, scale: AmountScale, currency: SpokenCurrency): string;
+  scaleWord(scale: AmountScale, value: number): string;
+  date(day: number, month: number, year: number): string;
+  year(value: number): string;
+  time(hours: number, minutes: number, meridiem?: 'am' | 'pm'): string;
+  // Whether a written ordinal suffix matches the value ("1er" but not "2er")
+  acceptsOrdinal(value: number, suffix: string): boolean;
+  // Digits or Roman numeral followed by an ordinal suffix ("2e", "XIXe siècle", "François Ier", "3rd")
+  writtenOrdinal(value: number, suffix: string): string;
+  // Roman numeral right after a capitalized word ("Louis XIV", "Henry VIII", "World War II");
+  // null leaves it to the plain numeral reading
+  namedNumeral(value: number, name: string): string | null;
+}
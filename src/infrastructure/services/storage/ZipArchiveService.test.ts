@@ -0,0 +1,84 @@
+import { Readable } from 'stream';
+import { describe, expect, it, vi } from 'vitest';
+import { ZipArchiveService } from './ZipArchiveService';
+import { ArchiveEntry } from '@/core/ports/services/storage/IArchiveService';
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+async function* entries(list: ArchiveEntry[]): AsyncGenerator<ArchiveEntry> {
+  yield* list;
+}
+
+// Keeps what putObjectStream receives; stored objects are served from `objects`
+function stubStorage(objects: Record<string, Buffer> = {}) {
+  const written: Record<string, Buffer> = {};
+  const storage = {
+    getObjectStream: vi.fn(async (key: string) => Readable.from([objects[key]])),
+    putObjectStream: vi.fn(async (key: string, stream: Readable) => {
+      const parts: Buffer[] = [];
+      for await (const part of stream) parts.push(part as Buffer);
+      written[key] = Buffer.concat(parts);
+      return { key, size: written[key].length };
+    }),
+  };
+  return { storage, written };
+}
+
+// Names from the central directory records (signature PK\x01\x02)
+function zipEntryNames(zip: Buffer): string[] {
+  const names: string[] = [];
+  let offset = zip.indexOf('PK\x01\x02', 0, 'latin1');
+  while (offset !== -1) {
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    names.push(zip.toString('utf8', offset + 46, offset + 46 + nameLength));
+    offset = zip.indexOf('PK\x01\x02', offset + 46 + nameLength + extraLength + commentLength, 'latin1');
+  }
+  return names;
+}
+
+describe('ZipArchiveService', () => {
+  it('streams generated content and stored objects into one archive', async () => {
+    const { storage, written } = stubStorage({ 'output/item-1.mp3': Buffer.from('ID3 audio') });
+    const service = new ZipArchiveService(storage as unknown as IStorageService);
+
+    const info = await service.createZip('exports/job-1/export.zip', entries([
+      { name: 'scripts/0001_intro.txt', source: { content: 'Bonjour.' } },
+      { name: 'audio/0001_intro.mp3', source: { storageKey: 'output/item-1.mp3' }, compress: false },
+      { name: 'manifest.json', source: { content: '{}' } },
+    ]), { metadata: { jobId: 'job-1' } });
+
+    const zip = written['exports/job-1/export.zip'];
+    expect(info).toEqual({ key: 'exports/job-1/export.zip', size: zip.length });
+    expect(zip.subarray(0, 2).toString()).toBe('PK');
+    expect(zipEntryNames(zip)).toEqual(['scripts/0001_intro.txt', 'audio/0001_intro.mp3', 'manifest.json']);
+    // Stored, not deflated: the audio bytes appear as is
+    expect(zip.includes('ID3 audio')).toBe(true);
+    expect(storage.putObjectStream).toHaveBeenCalledWith(
+      'exports/job-1/export.zip',
+      expect.anything(),
+      { contentType: 'application/zip', metadata: { jobId: 'job-1' } }
+    );
+  });
+
+  it('stops reading entries and reports a storage error when the upload fails', async () => {
+    const { storage } = stubStorage();
+    storage.putObjectStream.mockRejectedValueOnce(new Error('bucket unavailable'));
+    const service = new ZipArchiveService(storage as unknown as IStorageService);
+    const read = vi.fn();
+
+    async function* slowEntries(): AsyncGenerator<ArchiveEntry> {
+      for (let i = 0; i < 100; i++) {
+        read();
+        yield { name: `scripts/${i}.txt`, source: { content: 'x'.repeat(1024) } };
+      }
+    }
+
+    await expect(service.createZip('exports/job-1/export.zip', slowEntries())).rejects.toMatchObject({
+      code: ErrorCode.STORAGE_ERROR,
+      message: expect.stringContaining('bucket unavailable'),
+    });
+    expect(read.mock.calls.length).toBeLessThan(100);
+  });
+});
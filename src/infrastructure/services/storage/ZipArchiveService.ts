@@ -0,0 +1,82 @@
+// src/infrastructure/services/storage/ZipArchiveService.ts
+// Streaming ZIP archives written straight to storage (job exports)
+// Entries are read one at a time and piped through archiver into
+// IStorageService.putObjectStream: memory stays flat whatever the archive size
+// (archiver switches to ZIP64 past 4 GB)
+
+import archiver from 'archiver';
+import { once } from 'events';
+import { ArchiveEntry, IArchiveService } from '@/core/ports/services/storage/IArchiveService';
+import {
+  IStorageService,
+  StorageObjectInfo,
+  StoragePutOptions,
+} from '@/core/ports/services/storage/IStorageService';
+import { AppError } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { logger } from '@/shared/lib/logger';
+
+// Scripts and manifests compress well; media is stored (compress: false)
+const COMPRESSION_LEVEL = 6;
+
+export class ZipArchiveService implements IArchiveService {
+  constructor(private readonly storage: IStorageService) {}
+
+  async createZip(
+    key: string,
+    entries: AsyncIterable<ArchiveEntry>,
+    options?: StoragePutOptions
+  ): Promise<StorageObjectInfo> {
+    const archive = archiver('zip', { zlib: { level: COMPRESSION_LEVEL } });
+    archive.on('warning', (warning) => {
+      logger.warn('ZIP archive warning', { key, warning: warning.message });
+    });
+
+    const upload = this.storage.putObjectStream(key, archive, {
+      contentType: 'application/zip',
+      ...options,
+    });
+    // An upload that fails stops draining the archive: never wait on it afterwards
+    const uploadFailed = upload.then(
+      () => new Promise<never>(() => undefined),
+      (error) => Promise.reject(error)
+    );
+    uploadFailed.catch(() => undefined);
+
+    let entryCount = 0;
+
+    try {
+      for await (const entry of entries) {
+        const source = 'content' in entry.source
+          ? entry.source.content
+          : await this.storage.getObjectStream(entry.source.storageKey);
+
+        const written = once(archive, 'entry');
+        archive.append(source, {
+          name: entry.name,
+          store: entry.compress === false,
+          date: entry.modifiedAt,
+        });
+        await Promise.race([written, uploadFailed]);
+        entryCount++;
+      }
+
+      await Promise.race([archive.finalize(), uploadFailed]);
+      const info = await upload;
+
+      logger.info('ZIP archive written', { key, entries: entryCount, size: info.size });
+      return info;
+    } catch (error) {
+      archive.abort();
+      await upload.catch(() => undefined);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw ErrorFactory.storageError(
+        `Failed to write archive ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { key, entriesWritten: entryCount }
+      );
+    }
+  }
+}
@@ -0,0 +1,24 @@
+// src/infrastructure/services/storage/contentTypes.ts
+// Content types of stored objects, by key extension (used when a writer does not set one)
+
+import path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/rss+xml; charset=utf-8',
+  '.srt': 'application/x-subrip; charset=utf-8',
+  '.vtt': 'text/vtt; charset=utf-8',
+};
+
+export function getContentType(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
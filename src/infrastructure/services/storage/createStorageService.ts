@@ -0,0 +1,26 @@
+// src/infrastructure/services/storage/createStorageService.ts
+// Selects the storage backend from the storage configuration
+
+import { IStorageService } from '@/core/ports/services/storage/IStorageService';
+import { StorageConfig } from '@/shared/config/storage.config';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { LocalStorageService } from './local/LocalStorageService';
+import { LocalUrlSigner } from './local/LocalUrlSigner';
+import { R2StorageService } from './r2/R2StorageService';
+
+export function createStorageService(config: StorageConfig, signer?: LocalUrlSigner): IStorageService {
+  switch (config.backend) {
+    case 's3':
+      if (!config.s3) {
+        throw ErrorFactory.missingConfig('S3_ENDPOINT');
+      }
+      return new R2StorageService(config.s3);
+    case 'local':
+    default:
+      return new LocalStorageService(config.local, signer ?? createLocalUrlSigner(config));
+  }
+}
+
+export function createLocalUrlSigner(config: StorageConfig): LocalUrlSigner {
+  return new LocalUrlSigner(config.local.baseUrl, config.local.urlTtlSeconds, config.local.signingSecret);
+}
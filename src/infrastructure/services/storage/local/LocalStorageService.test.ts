@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LocalStorageService } from './LocalStorageService';
+import { LocalUrlSigner } from './LocalUrlSigner';
+import { StorageObjectInfo } from '@/core/ports/services/storage/IStorageService';
+
+const AUDIO = Buffer.from('identical chunk audio');
+// Past the usage cache and the orphan grace period
+const LATER = 5 * 60 * 1000;
+
+let rootDir: string;
+let elapsed = 0;
+
+function createService(): LocalStorageService {
+  return new LocalStorageService(
+    {
+      rootDir,
+      audioDir: path.join(rootDir, 'audio'),
+      maxSizeBytes: 1024 * 1024,
+      urlTtlSeconds: 3600,
+      baseUrl: 'http://localhost:3000',
+    },
+    new LocalUrlSigner('http://localhost:3000', 3600, 'test-secret')
+  );
+}
+
+async function list(service: LocalStorageService, prefix: string): Promise<StorageObjectInfo[]> {
+  const objects: StorageObjectInfo[] = [];
+  for await (const object of service.listObjects(prefix)) objects.push(object);
+  return objects;
+}
+
+// Each call measures again, further in the future
+async function usageLater(service: LocalStorageService): Promise<number> {
+  elapsed += LATER;
+  const spy = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + elapsed);
+  try {
+    return await service.getUsage();
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+async function blobs(): Promise<string[]> {
+  const casDir = path.join(rootDir, '.cas');
+  const prefixes = await fs.readdir(casDir).catch(() => [] as string[]);
+  const names = await Promise.all(prefixes.map((prefix) => fs.readdir(path.join(casDir, prefix))));
+  return names.flat();
+}
+
+describe('LocalStorageService', () => {
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(tmpdir(), 'local-storage-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores identical objects once and frees the blob with its last key', async () => {
+    const service = createService();
+
+    await service.putObject('audio/a.mp3', AUDIO);
+    await service.putObject('output/b.mp3', AUDIO);
+
+    expect(await blobs()).toHaveLength(1);
+    expect(await usageLater(service)).toBe(AUDIO.length);
+
+    await service.deleteObject('audio/a.mp3');
+    expect(await usageLater(service)).toBe(AUDIO.length);
+
+    await service.deleteObject('output/b.mp3');
+    expect(await usageLater(service)).toBe(0);
+    expect(await blobs()).toEqual([]);
+  });
+
+  it('lists a key deduplicated onto an old blob with the time it was linked', async () => {
+    const service = createService();
+    await service.putObject('audio/old.mp3', AUDIO);
+    const old = new Date('2020-01-01T00:00:00Z');
+    await fs.utimes(path.join(rootDir, 'audio/old.mp3'), old, old);
+
+    const linkedAfter = Date.now() - 1000;
+    await service.putObject('audio/new.mp3', AUDIO);
+
+    const listed = (await list(service, 'audio/')).find((object) => object.key === 'audio/new.mp3');
+    expect(listed?.lastModified!.getTime()).toBeGreaterThanOrEqual(linkedAfter);
+    expect((await service.headObject('audio/new.mp3'))!.lastModified!.getTime()).toBeGreaterThanOrEqual(linkedAfter);
+    // The blob itself was not rewritten
+    expect((await fs.stat(path.join(rootDir, 'audio/new.mp3'))).mtime).toEqual(old);
+  });
+
+  describe('with the audio directory on another device', () => {
+    beforeEach(() => {
+      const link = fs.link;
+      vi.spyOn(fs, 'link').mockImplementation(async (existing, target) => {
+        if (String(target).startsWith(path.join(rootDir, 'audio'))) {
+          throw Object.assign(new Error('cross-device link not permitted'), { code: 'EXDEV' });
+        }
+        return await link(existing, target);
+      });
+
+      const stat = fs.stat;
+      vi.spyOn(fs, 'stat').mockImplementation((async (target: string) => {
+        const stats = await stat(target);
+        if (target === path.join(rootDir, 'audio')) stats.dev += 1;
+        return stats;
+      }) as typeof fs.stat);
+    });
+
+    it('counts the copied audio once its unlinked blob is swept', async () => {
+      const service = createService();
+
+      await service.putObject('audio/a.mp3', AUDIO);
+      await service.putObject('audio/b.mp3', AUDIO);
+      await service.putObject('output/c.mp3', AUDIO);
+
+      // Two copies plus the blob linked from output/
+      expect(await usageLater(service)).toBe(3 * AUDIO.length);
+      expect(await blobs()).toHaveLength(1);
+
+      await service.deleteObject('output/c.mp3');
+      expect(await usageLater(service)).toBe(2 * AUDIO.length);
+      expect(await blobs()).toEqual([]);
+      expect((await service.getObject('audio/b.mp3')).data).toEqual(AUDIO);
+    });
+  });
+});
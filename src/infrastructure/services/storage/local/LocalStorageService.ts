@@ -0,0 +1,369 @@
+// src/infrastructure/services/storage/local/LocalStorageService.ts
+// IStorageService on the local disk
+// Layout: every object is written once under .cas/<sha256[0:2]>/<sha256> and its key is a
+// hard link to that blob, so identical chunk audio is stored (and counted in the quota) once.
+// Writes go through a temp file then a rename: readers never see a partial object
+
+import { createHash, randomUUID } from 'crypto';
+import { createWriteStream, promises as fs, Stats } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  IStorageService,
+  StorageData,
+  StorageGetResult,
+  StorageObjectInfo,
+  StoragePutOptions,
+  StorageRange,
+} from '@/core/ports/services/storage/IStorageService';
+import { AppError } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { LocalStorageConfig } from '@/shared/config/storage.config';
+import { logger } from '@/shared/lib/logger';
+import { getContentType } from '../contentTypes';
+import { LocalUrlSigner } from './LocalUrlSigner';
+
+const CAS_DIR = '.cas';
+const TMP_DIR = '.tmp';
+
+// Other processes (workers, web) write to the same directory: the usage is re-measured this often
+const USAGE_TTL_MS = 60000;
+// A blob is linked to its key right after being written: younger unlinked blobs are not orphans
+const ORPHAN_GRACE_MS = 60000;
+// Hard link being swapped in by linkKey: "<key>.<uuid>.tmp"
+const STAGING_FILE = /\.[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.tmp$/;
+
+// Keys share their blob's inode, and so its mtime: a key deduplicated onto an old blob would
+// look old to the storage GC. Linking (and unlinking) a key updates the inode's ctime instead
+function linkedAt(stats: Stats): Date {
+  return stats.ctimeMs > stats.mtimeMs ? stats.ctime : stats.mtime;
+}
+
+export class LocalStorageService implements IStorageService {
+  private readonly rootDir: string;
+  private readonly audioDir: string;
+  private usage?: { bytes: number; measuredAt: number };
+
+  constructor(
+    private readonly config: LocalStorageConfig,
+    private readonly signer: LocalUrlSigner
+  ) {
+    this.rootDir = path.resolve(config.rootDir);
+    this.audioDir = path.resolve(config.audioDir);
+  }
+
+  async putObject(key: string, data: StorageData, options?: StoragePutOptions): Promise<StorageObjectInfo> {
+    const buffer = Buffer.isBuffer(data)
+      ? data
+      : data instanceof ArrayBuffer ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+    return await this.putObjectStream(key, Readable.from([buffer]), options);
+  }
+
+  async putObjectStream(key: string, stream: Readable, options?: StoragePutOptions): Promise<StorageObjectInfo> {
+    const target = this.resolvePath(key);
+    const tempPath = path.join(this.rootDir, TMP_DIR, randomUUID());
+    await fs.mkdir(path.dirname(tempPath), { recursive: true });
+
+    const hash = createHash('sha256');
+    const usedBytes = await this.getUsage();
+    let size = 0;
+
+    // Fails as soon as the quota is crossed rather than after writing a multi-GB export
+    const meter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        hash.update(chunk);
+        size += chunk.length;
+        if (usedBytes + size > this.config.maxSizeBytes) {
+          callback(ErrorFactory.storageQuotaExceeded(usedBytes, size, this.config.maxSizeBytes));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(stream, meter, createWriteStream(tempPath, { flags: 'wx' }));
+      const digest = hash.digest('hex');
+      const blob = await this.commitBlob(tempPath, digest, size);
+      await this.linkKey(blob, target);
+
+      return {
+        key,
+        size,
+        contentType: options?.contentType ?? getContentType(key),
+        etag: digest,
+        lastModified: new Date(),
+      };
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw ErrorFactory.storageError(
+        `Failed to write ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { key }
+      );
+    }
+  }
+
+  async getObject(key: string): Promise<StorageGetResult> {
+    const filePath = this.resolvePath(key);
+
+    try {
+      const data = await fs.readFile(filePath);
+      return { data, contentType: getContentType(key), size: data.length };
+    } catch (error) {
+      throw this.toReadError(error, key);
+    }
+  }
+
+  async getObjectStream(key: string, range?: StorageRange): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+
+    // Opened eagerly so a missing object fails here rather than mid-stream
+    try {
+      const handle = await fs.open(filePath, 'r');
+      return handle.createReadStream({ start: range?.start, end: range?.end });
+    } catch (error) {
+      throw this.toReadError(error, key);
+    }
+  }
+
+  async headObject(key: string): Promise<StorageObjectInfo | null> {
+    const stats = await this.statOrNull(this.resolvePath(key));
+    if (!stats?.isFile()) return null;
+
+    return {
+      key,
+      size: stats.size,
+      contentType: getContentType(key),
+      lastModified: linkedAt(stats),
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.headObject(key)) !== null;
+  }
+
+  async *listObjects(prefix: string): AsyncIterable<StorageObjectInfo> {
+    // Walks the deepest directory the prefix names ("audio/item_" lists audio/) and filters
+    const dirKey = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    for await (const object of this.walk(dirKey)) {
+      if (object.key.startsWith(prefix)) yield object;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    const stats = await this.statOrNull(filePath);
+    if (!stats) return;
+
+    await fs.rm(filePath, { force: true });
+
+    // Last key of the blob (key + blob links): its bytes are freed by the next sweep
+    if (stats.nlink <= 2 && this.usage) {
+      this.usage.bytes = Math.max(0, this.usage.bytes - stats.size);
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    this.resolvePath(key);
+    return this.signer.createUrl(key);
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds?: number): Promise<string> {
+    this.resolvePath(key);
+    return this.signer.createUrl(key, expiresInSeconds);
+  }
+
+  // Referenced bytes: blobs still linked from a key, plus audio copied across devices.
+  // Orphans are removed along the way
+  async getUsage(): Promise<number> {
+    if (this.usage && Date.now() - this.usage.measuredAt < USAGE_TTL_MS) {
+      return this.usage.bytes;
+    }
+
+    let bytes = 0;
+    const casDir = path.join(this.rootDir, CAS_DIR);
+    const prefixes = await fs.readdir(casDir).catch(() => [] as string[]);
+
+    for (const prefix of prefixes) {
+      const blobs = await fs.readdir(path.join(casDir, prefix)).catch(() => [] as string[]);
+
+      for (const blob of blobs) {
+        const blobPath = path.join(casDir, prefix, blob);
+        const stats = await this.statOrNull(blobPath);
+        if (!stats) continue;
+
+        if (stats.nlink > 1) {
+          bytes += stats.size;
+        } else if (Date.now() - stats.mtimeMs > ORPHAN_GRACE_MS) {
+          await fs.rm(blobPath, { force: true });
+        }
+      }
+    }
+
+    bytes += await this.measureCopiedAudio();
+
+    this.usage = { bytes, measuredAt: Date.now() };
+    return bytes;
+  }
+
+  // Legacy helpers used by the pipeline use cases: they return storage keys
+  async uploadFile(
+    fileName: string,
+    data: Buffer,
+    options?: { contentType?: string; metadata?: Record<string, unknown> }
+  ): Promise<string> {
+    const key = `uploads/${fileName}`;
+    await this.putObject(key, data, { contentType: options?.contentType });
+    return key;
+  }
+
+  async uploadAudio(
+    fileName: string,
+    data: Buffer,
+    options?: { contentType?: string; metadata?: Record<string, unknown> }
+  ): Promise<string> {
+    const key = `audio/${fileName}`;
+    await this.putObject(key, data, { contentType: options?.contentType });
+    return key;
+  }
+
+  // Returns a download URL
+  async uploadExport(fileName: string, data: Buffer, contentType: string): Promise<string> {
+    const key = `exports/${fileName}`;
+    await this.putObject(key, data, { contentType });
+    return await this.getSignedUrl(key);
+  }
+
+  // Keys are relative, "/"-separated paths: no absolute paths, "." or ".." segments,
+  // backslashes or reserved top-level directories
+  private resolvePath(key: string): string {
+    const segments = key.split('/');
+    const invalid =
+      key.length === 0 ||
+      key.includes('\\') ||
+      key.includes('\0') ||
+      segments.some((segment) => segment === '' || segment === '.' || segment === '..') ||
+      segments[0] === CAS_DIR ||
+      segments[0] === TMP_DIR;
+
+    if (invalid) {
+      throw ErrorFactory.validation(`Invalid storage key: ${JSON.stringify(key)}`, { key });
+    }
+
+    const [baseDir, relative] = segments[0] === 'audio' && segments.length > 1
+      ? [this.audioDir, segments.slice(1)]
+      : [this.rootDir, segments];
+    const resolved = path.resolve(baseDir, ...relative);
+
+    // Defence in depth against platform-specific path tricks (drive letters, etc.)
+    if (!resolved.startsWith(baseDir + path.sep)) {
+      throw ErrorFactory.validation(`Invalid storage key: ${JSON.stringify(key)}`, { key });
+    }
+
+    return resolved;
+  }
+
+  private async *walk(dirKey: string): AsyncIterable<StorageObjectInfo> {
+    // "audio/" keys live in audioDir, wherever it is
+    const dir = dirKey === '' ? this.rootDir : dirKey === 'audio' ? this.audioDir : this.resolvePath(dirKey);
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') return [];
+      throw error;
+    });
+
+    for (const entry of entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))) {
+      const key = dirKey === '' ? entry.name : `${dirKey}/${entry.name}`;
+      if (dirKey === '' && [CAS_DIR, TMP_DIR].includes(entry.name)) continue;
+
+      if (entry.isDirectory()) {
+        yield* this.walk(key);
+      } else if (entry.isFile() && !STAGING_FILE.test(entry.name)) {
+        const stats = await this.statOrNull(path.join(dir, entry.name));
+        if (stats) {
+          yield { key, size: stats.size, contentType: getContentType(key), lastModified: linkedAt(stats) };
+        }
+      }
+    }
+  }
+
+  // Keys linkKey had to copy (AUDIO_STORAGE_DIR on another device) hold their own bytes;
+  // their blobs, left unlinked, are swept as orphans
+  private async measureCopiedAudio(): Promise<number> {
+    const [root, audio] = await Promise.all([this.statOrNull(this.rootDir), this.statOrNull(this.audioDir)]);
+    if (!root || !audio || root.dev === audio.dev) return 0;
+
+    let bytes = 0;
+    for await (const object of this.walk('audio')) {
+      bytes += object.size ?? 0;
+    }
+    return bytes;
+  }
+
+  // Moves the temp file into the store, or drops it when identical content is already there
+  private async commitBlob(tempPath: string, digest: string, size: number): Promise<string> {
+    const blob = path.join(this.rootDir, CAS_DIR, digest.slice(0, 2), digest);
+
+    if (await this.statOrNull(blob)) {
+      await fs.rm(tempPath, { force: true });
+      return blob;
+    }
+
+    const usedBytes = await this.getUsage();
+    if (usedBytes + size > this.config.maxSizeBytes) {
+      throw ErrorFactory.storageQuotaExceeded(usedBytes, size, this.config.maxSizeBytes);
+    }
+
+    await fs.mkdir(path.dirname(blob), { recursive: true });
+    await fs.rename(tempPath, blob);
+    if (this.usage) this.usage.bytes += size;
+
+    return blob;
+  }
+
+  // The key is swapped in with a rename, so an existing object is replaced atomically
+  private async linkKey(blob: string, target: string): Promise<void> {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const staging = `${target}.${randomUUID()}.tmp`;
+
+    try {
+      await fs.link(blob, staging);
+    } catch (error) {
+      // AUDIO_STORAGE_DIR on another device: hard links are impossible, the blob is copied
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      logger.warn('Storage directories are on different devices: audio is not deduplicated', { target });
+      await fs.copyFile(blob, staging);
+    }
+
+    try {
+      await fs.rename(staging, target);
+    } catch (error) {
+      await fs.rm(staging, { force: true });
+      throw error;
+    }
+  }
+
+  private async statOrNull(filePath: string): Promise<Stats | null> {
+    try {
+      return await fs.stat(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private toReadError(error: unknown, key: string): AppError {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'EISDIR') {
+      return ErrorFactory.fileNotFound(key);
+    }
+    return ErrorFactory.storageError(
+      `Failed to read ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { key }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalUrlSigner } from './LocalUrlSigner';
+
+const KEY = 'audio/chunks/item-1/0001_1700000000000.mp3';
+
+function createSigner(secret = 'test-secret'): LocalUrlSigner {
+  return new LocalUrlSigner('http://localhost:3000', 3600, secret);
+}
+
+describe('LocalUrlSigner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('encodes the storage key as base64url', () => {
+    const id = LocalUrlSigner.encodeKey(KEY);
+
+    expect(id).not.toMatch(/[/+=]/);
+    expect(Buffer.from(id, 'base64url').toString('utf8')).toBe(KEY);
+  });
+
+  it('builds a download URL that verifies back to the key', () => {
+    const signer = createSigner();
+
+    const url = new URL(signer.createUrl(KEY));
+    const id = url.pathname.replace('/api/audio/download/', '');
+
+    expect(url.origin).toBe('http://localhost:3000');
+    expect(id).toBe(LocalUrlSigner.encodeKey(KEY));
+    expect(url.searchParams.get('expires')).toBe(String(Date.now() / 1000 + 3600));
+    expect(signer.verify(id, url.searchParams.get('expires'), url.searchParams.get('signature'))).toBe(KEY);
+  });
+
+  it('rejects an expired URL', () => {
+    const signer = createSigner();
+    const { expires, signature } = signer.sign(KEY, 60);
+
+    vi.advanceTimersByTime(61_000);
+
+    expect(signer.verify(LocalUrlSigner.encodeKey(KEY), String(expires), signature)).toBeNull();
+  });
+
+  it('rejects a URL whose key, expiry or signature was changed', () => {
+    const signer = createSigner();
+    const { expires, signature } = signer.sign(KEY);
+    const id = LocalUrlSigner.encodeKey(KEY);
+
+    expect(signer.verify(LocalUrlSigner.encodeKey('audio/other.mp3'), String(expires), signature)).toBeNull();
+    expect(signer.verify(id, String(expires + 3600), signature)).toBeNull();
+    expect(signer.verify(id, String(expires), `${signature.slice(0, -1)}A`)).toBeNull();
+    expect(signer.verify(id, String(expires), 'short')).toBeNull();
+  });
+
+  it('rejects missing or non-numeric parameters', () => {
+    const signer = createSigner();
+    const { expires, signature } = signer.sign(KEY);
+    const id = LocalUrlSigner.encodeKey(KEY);
+
+    expect(signer.verify(id, null, signature)).toBeNull();
+    expect(signer.verify(id, String(expires), null)).toBeNull();
+    expect(signer.verify(id, `${expires}.5`, signature)).toBeNull();
+  });
+
+  it('does not accept signatures made with another secret', () => {
+    const { expires, signature } = createSigner('secret-a').sign(KEY);
+
+    expect(createSigner('secret-b').verify(LocalUrlSigner.encodeKey(KEY), String(expires), signature)).toBeNull();
+  });
+});
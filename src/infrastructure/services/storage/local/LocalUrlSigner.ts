@@ -0,0 +1,59 @@
+// src/infrastructure/services/storage/local/LocalUrlSigner.ts
+// Signed, expiring download URLs for the local storage, served by /api/audio/download/:id
+// The id is the base64url storage key; expires and signature are query parameters
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { logger } from '@/shared/lib/logger';
+
+export interface SignedUrlParams {
+  expires: number;
+  signature: string;
+}
+
+export class LocalUrlSigner {
+  private readonly secret: string;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly defaultTtlSeconds: number,
+    secret?: string
+  ) {
+    if (!secret) {
+      logger.warn('No STORAGE_SIGNING_SECRET or SESSION_SECRET: download URLs only work in the process that signed them');
+    }
+    this.secret = secret ?? randomBytes(32).toString('hex');
+  }
+
+  static encodeKey(key: string): string {
+    return Buffer.from(key, 'utf8').toString('base64url');
+  }
+
+  sign(key: string, expiresInSeconds: number = this.defaultTtlSeconds): SignedUrlParams {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return { expires, signature: this.computeSignature(key, expires) };
+  }
+
+  createUrl(key: string, expiresInSeconds?: number): string {
+    const { expires, signature } = this.sign(key, expiresInSeconds);
+    const url = new URL(`/api/audio/download/${LocalUrlSigner.encodeKey(key)}`, this.baseUrl);
+    url.searchParams.set('expires', String(expires));
+    url.searchParams.set('signature', signature);
+    return url.toString();
+  }
+
+  // The storage key when the signature matches and has not expired, null otherwise
+  verify(id: string, expires: string | null, signature: string | null): string | null {
+    if (!expires || !signature || !/^\d+$/.test(expires)) return null;
+    if (Number(expires) < Math.floor(Date.now() / 1000)) return null;
+
+    const key = Buffer.from(id, 'base64url').toString('utf8');
+    const expected = Buffer.from(this.computeSignature(key, Number(expires)));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? key : null;
+  }
+
+  private computeSignature(key: string, expires: number): string {
+    return createHmac('sha256', this.secret).update(`${key}\n${expires}`).digest('base64url');
+  }
+}
@@ -0,0 +1,86 @@
+// src/infrastructure/services/storage/r2/FileDownloader.ts
+// Reads objects from the bucket: whole, streamed (with HTTP ranges) or metadata only
+
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import {
+  StorageGetResult,
+  StorageObjectInfo,
+  StorageRange,
+} from '@/core/ports/services/storage/IStorageService';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { S3Client } from './S3Client';
+
+export class FileDownloader {
+  constructor(private readonly client: S3Client) {}
+
+  async download(key: string): Promise<StorageGetResult> {
+    const response = await this.client.send('GET', key);
+    const data = Buffer.from(await response.arrayBuffer());
+
+    return {
+      data,
+      contentType: response.headers.get('content-type') ?? undefined,
+      size: data.length,
+    };
+  }
+
+  async downloadStream(key: string, range?: StorageRange): Promise<Readable> {
+    const headers: Record<string, string> = {};
+    if (range) {
+      headers.Range = `bytes=${range.start}-${range.end ?? ''}`;
+    }
+
+    const response = await this.client.send('GET', key, { headers });
+    if (!response.body) {
+      throw ErrorFactory.storageError(`S3 GET ${key} returned no body`, { key });
+    }
+    return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  }
+
+  // ListObjectsV2, 1000 keys per page
+  async *list(prefix: string): AsyncIterable<StorageObjectInfo> {
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const xml = await (await this.client.send('GET', undefined, { query })).text();
+      for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const lastModified = S3Client.xmlValue(contents, 'LastModified');
+        yield {
+          key: S3Client.xmlValue(contents, 'Key') as string,
+          size: Number(S3Client.xmlValue(contents, 'Size') ?? 0),
+          etag: S3Client.xmlValue(contents, 'ETag')?.replace(/"/g, ''),
+          lastModified: lastModified ? new Date(lastModified) : undefined,
+        };
+      }
+
+      continuationToken = S3Client.xmlValue(xml, 'IsTruncated') === 'true'
+        ? S3Client.xmlValue(xml, 'NextContinuationToken')
+        : undefined;
+    } while (continuationToken);
+  }
+
+  // null on 404; bad credentials (403) still throw
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    const response = await this.client.send('HEAD', key, { allowedStatuses: [404] });
+    if (response.status === 404) {
+      return null;
+    }
+
+    const contentLength = response.headers.get('content-length');
+    const lastModified = response.headers.get('last-modified');
+
+    return {
+      key,
+      size: contentLength !== null ? Number(contentLength) : undefined,
+      contentType: response.headers.get('content-type') ?? undefined,
+      etag: response.headers.get('etag')?.replace(/"/g, '') ?? undefined,
+      lastModified: lastModified ? new Date(lastModified) : undefined,
+    };
+  }
+}
@@ -0,0 +1,187 @@
+// src/infrastructure/services/storage/r2/FileUploader.ts
+// Writes objects to the bucket. Buffers and small streams go in one PUT; streams larger
+// than one part become a multipart upload with a few parts in flight at a time, aborted on failure
+// so the bucket does not keep billing for orphan parts
+
+import { Readable } from 'stream';
+import { StorageObjectInfo, StoragePutOptions } from '@/core/ports/services/storage/IStorageService';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { logger } from '@/shared/lib/logger';
+import { S3Client } from './S3Client';
+
+interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+// S3 limit: parts are numbered 1 to 10000
+const MAX_PARTS = 10000;
+
+export class FileUploader {
+  constructor(
+    private readonly client: S3Client,
+    private readonly partSizeBytes: number,
+    private readonly concurrency: number
+  ) {}
+
+  async upload(key: string, data: Buffer, options?: StoragePutOptions): Promise<StorageObjectInfo> {
+    const response = await this.client.send('PUT', key, {
+      headers: this.objectHeaders(options),
+      body: data,
+    });
+
+    return {
+      key,
+      size: data.length,
+      contentType: options?.contentType,
+      etag: response.headers.get('etag')?.replace(/"/g, '') ?? undefined,
+      lastModified: new Date(),
+    };
+  }
+
+  async uploadStream(key: string, stream: Readable, options?: StoragePutOptions): Promise<StorageObjectInfo> {
+    let uploadId: string | undefined;
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    let size = 0;
+    let partNumber = 0;
+    const parts: UploadedPart[] = [];
+    const inFlight = new Set<Promise<void>>();
+    let failure: unknown;
+
+    const startPart = (body: Buffer) => {
+      const number = ++partNumber;
+      if (number > MAX_PARTS) {
+        throw ErrorFactory.storageError(
+          `${key} needs more than ${MAX_PARTS} parts: raise S3_MULTIPART_PART_SIZE_MB`,
+          { key, partSizeBytes: this.partSizeBytes }
+        );
+      }
+
+      const upload: Promise<void> = this.uploadPart(key, uploadId as string, number, body)
+        .then((etag) => { parts.push({ partNumber: number, etag }); })
+        .catch((error) => { failure ??= error; })
+        .finally(() => { inFlight.delete(upload); });
+      inFlight.add(upload);
+    };
+
+    try {
+      for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        pending.push(buffer);
+        pendingBytes += buffer.length;
+        size += buffer.length;
+
+        while (pendingBytes >= this.partSizeBytes) {
+          const joined = Buffer.concat(pending);
+          pending = [joined.subarray(this.partSizeBytes)];
+          pendingBytes = joined.length - this.partSizeBytes;
+
+          uploadId ??= await this.createMultipartUpload(key, options);
+          startPart(joined.subarray(0, this.partSizeBytes));
+
+          // Back-pressure: the stream is not read further until a slot frees up
+          while (inFlight.size >= this.concurrency && failure === undefined) {
+            await Promise.race(inFlight);
+          }
+          if (failure !== undefined) throw failure;
+        }
+      }
+
+      const rest = Buffer.concat(pending);
+      if (!uploadId) {
+        return await this.upload(key, rest, options);
+      }
+
+      if (rest.length > 0) {
+        startPart(rest);
+      }
+      await Promise.all(inFlight);
+      if (failure !== undefined) throw failure;
+
+      const etag = await this.completeMultipartUpload(key, uploadId, parts);
+      return { key, size, contentType: options?.contentType, etag, lastModified: new Date() };
+    } catch (error) {
+      if (uploadId) {
+        await Promise.all(inFlight);
+        await this.abortMultipartUpload(key, uploadId);
+      }
+      throw error;
+    }
+  }
+
+  private async createMultipartUpload(key: string, options?: StoragePutOptions): Promise<string> {
+    const response = await this.client.send('POST', key, {
+      query: { uploads: '' },
+      headers: this.objectHeaders(options),
+      retryable: false,
+    });
+
+    const uploadId = S3Client.xmlValue(await response.text(), 'UploadId');
+    if (!uploadId) {
+      throw ErrorFactory.storageError(`S3 did not return an upload id for ${key}`, { key });
+    }
+    return uploadId;
+  }
+
+  private async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    const response = await this.client.send('PUT', key, {
+      query: { partNumber: String(partNumber), uploadId },
+      body,
+    });
+
+    const etag = response.headers.get('etag');
+    if (!etag) {
+      throw ErrorFactory.storageError(`S3 returned no ETag for part ${partNumber} of ${key}`, { key, partNumber });
+    }
+    return etag;
+  }
+
+  private async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<string | undefined> {
+    const body = [
+      '<CompleteMultipartUpload>',
+      ...[...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map((part) => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${this.escapeXml(part.etag)}</ETag></Part>`),
+      '</CompleteMultipartUpload>',
+    ].join('');
+
+    const response = await this.client.send('POST', key, {
+      query: { uploadId },
+      headers: { 'Content-Type': 'application/xml' },
+      body,
+    });
+
+    // A 200 can still carry an <Error> document when the completion fails server-side
+    const xml = await response.text();
+    if (xml.includes('<Error>')) {
+      throw this.client.errorFromXml(xml, response.status, 'POST', key);
+    }
+    return S3Client.xmlValue(xml, 'ETag')?.replace(/"/g, '');
+  }
+
+  private async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.client.send('DELETE', key, { query: { uploadId }, allowedStatuses: [404] });
+    } catch (error) {
+      // Left to the bucket lifecycle rule on incomplete multipart uploads
+      logger.error('Failed to abort multipart upload', error instanceof Error ? error : undefined, { key, uploadId });
+    }
+  }
+
+  private objectHeaders(options?: StoragePutOptions): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (options?.contentType) headers['Content-Type'] = options.contentType;
+    if (options?.cacheControl) headers['Cache-Control'] = options.cacheControl;
+
+    // Header values must be ASCII
+    for (const [name, value] of Object.entries(options?.metadata ?? {})) {
+      headers[`x-amz-meta-${name.toLowerCase()}`] = encodeURIComponent(value);
+    }
+    return headers;
+  }
+
+  private escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,113 @@
+// src/infrastructure/services/storage/r2/R2StorageService.ts
+// IStorageService on an S3-compatible bucket (Cloudflare R2, MinIO, AWS S3)
+// Requests are signed with SigV4; large streams use multipart uploads; downloads are
+// presigned GET URLs, or plain URLs on the bucket's public domain when S3_PUBLIC_URL is set
+
+import { Readable } from 'stream';
+import {
+  IStorageService,
+  StorageData,
+  StorageGetResult,
+  StorageObjectInfo,
+  StoragePutOptions,
+  StorageRange,
+} from '@/core/ports/services/storage/IStorageService';
+import { S3StorageConfig } from '@/shared/config/storage.config';
+import { getContentType } from '../contentTypes';
+import { FileDownloader } from './FileDownloader';
+import { FileUploader } from './FileUploader';
+import { S3Client } from './S3Client';
+import { SigV4Signer } from './SigV4Signer';
+import { URLGenerator } from './URLGenerator';
+
+export class R2StorageService implements IStorageService {
+  private readonly client: S3Client;
+  private readonly urls: URLGenerator;
+  private readonly uploader: FileUploader;
+  private readonly downloader: FileDownloader;
+
+  constructor(config: S3StorageConfig) {
+    const signer = new SigV4Signer(config.accessKeyId, config.secretAccessKey, config.region);
+    this.urls = new URLGenerator(config, signer);
+    this.client = new S3Client(signer, this.urls);
+    this.uploader = new FileUploader(this.client, config.partSizeBytes, config.multipartConcurrency);
+    this.downloader = new FileDownloader(this.client);
+  }
+
+  async putObject(key: string, data: StorageData, options?: StoragePutOptions): Promise<StorageObjectInfo> {
+    const buffer = Buffer.isBuffer(data)
+      ? data
+      : data instanceof ArrayBuffer ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+    return await this.uploader.upload(key, buffer, this.withContentType(key, options));
+  }
+
+  async putObjectStream(key: string, stream: Readable, options?: StoragePutOptions): Promise<StorageObjectInfo> {
+    return await this.uploader.uploadStream(key, stream, this.withContentType(key, options));
+  }
+
+  async getObject(key: string): Promise<StorageGetResult> {
+    return await this.downloader.download(key);
+  }
+
+  async getObjectStream(key: string, range?: StorageRange): Promise<Readable> {
+    return await this.downloader.downloadStream(key, range);
+  }
+
+  async headObject(key: string): Promise<StorageObjectInfo | null> {
+    return await this.downloader.head(key);
+  }
+
+  listObjects(prefix: string): AsyncIterable<StorageObjectInfo> {
+    return this.downloader.list(prefix);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.headObject(key)) !== null;
+  }
+
+  // S3 deletes are idempotent: a missing key is not an error
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send('DELETE', key, { allowedStatuses: [404] });
+  }
+
+  getPublicUrl(key: string): string {
+    return this.urls.publicUrl(key);
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds?: number): Promise<string> {
+    return this.urls.presignedGetUrl(key, expiresInSeconds);
+  }
+
+  // Legacy helpers used by the pipeline use cases: they return storage keys
+  async uploadFile(
+    fileName: string,
+    data: Buffer,
+    options?: { contentType?: string; metadata?: Record<string, unknown> }
+  ): Promise<string> {
+    const key = `uploads/${fileName}`;
+    await this.putObject(key, data, { contentType: options?.contentType });
+    return key;
+  }
+
+  async uploadAudio(
+    fileName: string,
+    data: Buffer,
+    options?: { contentType?: string; metadata?: Record<string, unknown> }
+  ): Promise<string> {
+    const key = `audio/${fileName}`;
+    await this.putObject(key, data, { contentType: options?.contentType });
+    return key;
+  }
+
+  // Returns a download URL
+  async uploadExport(fileName: string, data: Buffer, contentType: string): Promise<string> {
+    const key = `exports/${fileName}`;
+    await this.putObject(key, data, { contentType });
+    return this.urls.presignedGetUrl(key, undefined, { contentDisposition: `attachment; filename="${fileName}"` });
+  }
+
+  private withContentType(key: string, options?: StoragePutOptions): StoragePutOptions {
+    return { ...options, contentType: options?.contentType ?? getContentType(key) };
+  }
+}
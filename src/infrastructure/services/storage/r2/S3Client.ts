@@ -0,0 +1,111 @@
+// src/infrastructure/services/storage/r2/S3Client.ts
+// Signed HTTP requests to the S3 API, shared by the uploader and the downloader
+// Transient failures (network, 500/502/503/504) are retried when the request can be replayed
+
+import { AppError } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { logger } from '@/shared/lib/logger';
+import { SigV4Signer } from './SigV4Signer';
+import { URLGenerator } from './URLGenerator';
+
+export interface S3RequestOptions {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Buffer | string;
+  // Statuses returned to the caller instead of thrown (e.g. 404 on HEAD)
+  allowedStatuses?: number[];
+  // CreateMultipartUpload must not be replayed: a retry would leave an orphan upload
+  retryable?: boolean;
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 200;
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+export class S3Client {
+  constructor(
+    private readonly signer: SigV4Signer,
+    private readonly urls: URLGenerator
+  ) {}
+
+  async send(method: string, key: string | undefined, options: S3RequestOptions = {}): Promise<Response> {
+    const body = typeof options.body === 'string' ? Buffer.from(options.body, 'utf8') : options.body;
+    const url = this.urls.objectUrl(key, options.query);
+    const payloadHash = SigV4Signer.hashPayload(body);
+    // Same bytes, typed as a fetch body
+    const requestBody = body && new Uint8Array(body.buffer as ArrayBuffer, body.byteOffset, body.byteLength);
+    const attempts = options.retryable === false ? 1 : MAX_ATTEMPTS;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          // Signed per attempt: x-amz-date must stay within the 15-minute skew window
+          headers: this.signer.signRequest(method, url, options.headers ?? {}, payloadHash),
+          body: requestBody,
+        });
+      } catch (error) {
+        if (attempt < attempts) {
+          await this.backoff(attempt, method, key, error instanceof Error ? error.message : String(error));
+          continue;
+        }
+        throw ErrorFactory.storageError(
+          `S3 ${method} ${key ?? '/'} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { key, method }
+        );
+      }
+
+      if (response.ok || options.allowedStatuses?.includes(response.status)) {
+        return response;
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status) && attempt < attempts) {
+        await response.body?.cancel();
+        await this.backoff(attempt, method, key, `HTTP ${response.status}`);
+        continue;
+      }
+
+      throw await this.toError(response, method, key);
+    }
+  }
+
+  // S3 errors are <Error><Code>NoSuchKey</Code><Message>...</Message></Error> documents
+  async toError(response: Response, method: string, key?: string): Promise<AppError> {
+    const xml = method === 'HEAD' ? '' : await response.text().catch(() => '');
+    return this.errorFromXml(xml, response.status, method, key);
+  }
+
+  errorFromXml(xml: string, status: number, method: string, key?: string): AppError {
+    const code = S3Client.xmlValue(xml, 'Code') ?? `HTTP ${status}`;
+    const message = S3Client.xmlValue(xml, 'Message') ?? 'no error message';
+
+    if (status === 404 && key && code !== 'NoSuchBucket') {
+      return ErrorFactory.fileNotFound(key, { s3Code: code });
+    }
+    return ErrorFactory.storageError(`S3 ${method} ${key ?? '/'} failed: ${code} (${message})`, {
+      key,
+      method,
+      status,
+      s3Code: code,
+    });
+  }
+
+  static xmlValue(xml: string, tag: string): string | undefined {
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    return match
+      ? match[1]
+          .replace(/&quot;/g, '"')
+          .replace(/&apos;/g, "'")
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&amp;/g, '&')
+      : undefined;
+  }
+
+  private async backoff(attempt: number, method: string, key: string | undefined, reason: string): Promise<void> {
+    const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    logger.warn('S3 request failed, retrying', { method, key, attempt, delayMs, reason });
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+}
@@ -0,0 +1,68 @@
+// src/infrastructure/services/storage/r2/URLGenerator.ts
+// Object URLs for the S3 API: path-style (MinIO) or virtual-hosted (R2, S3),
+// presigned GET links and public URLs
+
+import { S3StorageConfig } from '@/shared/config/storage.config';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { SigV4Signer } from './SigV4Signer';
+
+export interface PresignOptions {
+  // Sets Content-Disposition on the download (e.g. attachment; filename="export.zip")
+  contentDisposition?: string;
+}
+
+export class URLGenerator {
+  private readonly endpoint: URL;
+
+  constructor(
+    private readonly config: S3StorageConfig,
+    private readonly signer: SigV4Signer
+  ) {
+    this.endpoint = new URL(config.endpoint);
+  }
+
+  // The bucket URL when no key is given (multipart uploads are created on the key, listings on the bucket)
+  objectUrl(key?: string, query: Record<string, string> = {}): URL {
+    const path = key === undefined ? '' : this.encodeKey(key);
+    const url = this.config.forcePathStyle
+      ? new URL(`${this.endpoint.protocol}//${this.endpoint.host}/${this.config.bucket}/${path}`)
+      : new URL(`${this.endpoint.protocol}//${this.config.bucket}.${this.endpoint.host}/${path}`);
+
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    return url;
+  }
+
+  presignedGetUrl(key: string, expiresInSeconds: number = this.config.urlTtlSeconds, options?: PresignOptions): string {
+    const query: Record<string, string> = {};
+    if (options?.contentDisposition) {
+      query['response-content-disposition'] = options.contentDisposition;
+    }
+
+    const ttl = Math.min(expiresInSeconds, this.config.urlTtlSeconds);
+    return this.signer.presign('GET', this.objectUrl(key, query), ttl).toString();
+  }
+
+  // Unsigned when the bucket has a public domain, presigned otherwise
+  publicUrl(key: string): string {
+    if (!this.config.publicUrl) {
+      return this.presignedGetUrl(key);
+    }
+    return `${this.config.publicUrl.replace(/\/+$/, '')}/${this.encodeKey(key)}`;
+  }
+
+  // Same key rules as the local storage: "." and ".." segments would be resolved away by URL parsing
+  private encodeKey(key: string): string {
+    const segments = key.split('/');
+    if (
+      key.length === 0 ||
+      key.includes('\0') ||
+      segments.some((segment) => segment === '' || segment === '.' || segment === '..')
+    ) {
+      throw ErrorFactory.validation(`Invalid storage key: ${JSON.stringify(key)}`, { key });
+    }
+
+    return segments.map((segment) => SigV4Signer.encode(segment)).join('/');
+  }
+}
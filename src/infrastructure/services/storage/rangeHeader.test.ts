@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseRangeHeader } from './rangeHeader';
+
+describe('parseRangeHeader', () => {
+  it('sends the whole object without a usable Range header', () => {
+    expect(parseRangeHeader(null, 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+    // Multiple ranges are not supported
+    expect(parseRangeHeader('bytes=0-10,20-30', 1000)).toBeNull();
+  });
+
+  it('parses a closed range', () => {
+    expect(parseRangeHeader('bytes=100-199', 1000)).toEqual({ start: 100, end: 199 });
+    expect(parseRangeHeader(' bytes=0-0 ', 1000)).toEqual({ start: 0, end: 0 });
+  });
+
+  it('reads an open range to the end of the object', () => {
+    expect(parseRangeHeader('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('clamps the end to the last byte', () => {
+    expect(parseRangeHeader('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  it('serves the last bytes of a suffix range', () => {
+    expect(parseRangeHeader('bytes=-200', 1000)).toEqual({ start: 800, end: 999 });
+    // A suffix longer than the object is the whole object
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('rejects ranges that start past the end or end before they start', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=300-200', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+});
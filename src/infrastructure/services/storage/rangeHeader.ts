@@ -0,0 +1,23 @@
+// src/infrastructure/services/storage/rangeHeader.ts
+// HTTP Range header parsing for the audio download route (players and podcast apps seek with it)
+
+import { StorageRange } from '@/core/ports/services/storage/IStorageService';
+
+// Single "bytes=start-end" ranges, suffix ranges ("bytes=-500") included;
+// null means "send the whole object"
+export function parseRangeHeader(header: string | null, size: number): StorageRange | 'unsatisfiable' | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  return start > end || start >= size ? 'unsatisfiable' : { start, end };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TTSProviderRegistry } from './TTSProviderRegistry';
+import { ITTSService } from '@/core/ports/services/tts/ITTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+// A provider answering with its own name, or failing with `error`
+function provider(name: string, error?: Error): ITTSService & { generateAudio: ReturnType<typeof vi.fn> } {
+  return {
+    getProviderName: () => name,
+    generateAudio: vi.fn(async () => {
+      if (error) throw error;
+      return { audio: Buffer.from(name), contentType: 'audio/mpeg' };
+    }),
+  };
+}
+
+function createRegistry(services: ITTSService[], defaultProvider = 'openai'): TTSProviderRegistry {
+  const registry = new TTSProviderRegistry(defaultProvider, [
+    { provider: 'local', voiceId: 'fr_FR-siwis-medium' },
+    { provider: 'openai', voiceId: 'alloy' },
+  ]);
+  services.forEach((service) => registry.register(service));
+  return registry;
+}
+
+describe('TTSProviderRegistry', () => {
+  it('dispatches to the provider named by the voice settings', async () => {
+    const registry = createRegistry([provider('openai'), provider('inworld')]);
+
+    const result = await registry.generateAudio('Bonjour', VoiceSettings.create({ voiceId: 'Ashley', provider: 'inworld' }));
+
+    expect(result).toMatchObject({ provider: 'inworld', voiceId: 'Ashley', usedFallback: false });
+    expect(result.audio.toString()).toBe('inworld');
+  });
+
+  it('uses the default provider when the voice settings name none', async () => {
+    const openai = provider('openai');
+    const registry = createRegistry([openai, provider('elevenlabs')]);
+
+    const result = await registry.generateAudio('Bonjour', VoiceSettings.create({ voiceId: 'alloy' }));
+
+    expect(result.provider).toBe('openai');
+    expect(openai.generateAudio).toHaveBeenCalledTimes(1);
+    expect(registry.getDefaultProvider()).toBe('openai');
+  });
+
+  it('rejects a provider that is not configured', () => {
+    const registry = createRegistry([provider('openai')]);
+
+    expect(registry.has('elevenlabs')).toBe(false);
+    expect(() => registry.get('elevenlabs')).toThrow(ValidationError);
+  });
+
+  it('falls back along the chain with the fallback voice when the provider is unavailable', async () => {
+    const local = provider('local');
+    const registry = createRegistry([provider('inworld', new RateLimitError('Inworld', 30)), local, provider('openai')]);
+
+    const result = await registry.generateAudio('Bonjour', VoiceSettings.create({ voiceId: 'Ashley', provider: 'inworld' }));
+
+    expect(result).toMatchObject({ provider: 'local', voiceId: 'fr_FR-siwis-medium', usedFallback: true });
+    const settings = local.generateAudio.mock.calls[0][1] as VoiceSettings;
+    expect(settings.provider).toBe('local');
+    expect(settings.voiceId).toBe('fr_FR-siwis-medium');
+  });
+
+  it('falls back on server errors but not on client errors', async () => {
+    const serverError = createRegistry([provider('inworld', new APIError('Inworld', 'Bad gateway', { status: 502 })), provider('local')]);
+    const clientError = createRegistry([provider('inworld', new APIError('Inworld', 'Bad request', { status: 400 })), provider('local')]);
+    const voice = VoiceSettings.create({ voiceId: 'Ashley', provider: 'inworld' });
+
+    expect((await serverError.generateAudio('Bonjour', voice)).provider).toBe('local');
+    await expect(clientError.generateAudio('Bonjour', voice)).rejects.toMatchObject({ metadata: { status: 400 } });
+  });
+
+  it('never falls back on an invalid API key', async () => {
+    const local = provider('local');
+    const registry = createRegistry([provider('inworld', ErrorFactory.invalidApiKey('Inworld')), local]);
+
+    await expect(
+      registry.generateAudio('Bonjour', VoiceSettings.create({ voiceId: 'Ashley', provider: 'inworld' }))
+    ).rejects.toThrow();
+    expect(local.generateAudio).not.toHaveBeenCalled();
+  });
+
+  it('skips fallback targets that are not configured and rethrows the last error', async () => {
+    const unavailable = new RateLimitError('OpenAI', 10);
+    const registry = createRegistry([provider('openai', unavailable)]);
+
+    await expect(registry.generateAudio('Bonjour', VoiceSettings.default())).rejects.toBe(unavailable);
+  });
+});
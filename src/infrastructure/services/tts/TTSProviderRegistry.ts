@@ -0,0 +1,152 @@
+// src/infrastructure/services/tts/TTSProviderRegistry.ts
+// TTS provider registry - dispatches to the provider named by the voice settings
+// and falls back to the configured chain when a provider is unavailable
+
+import {
+  ITTSProviderRegistry,
+  TTSDispatchResult,
+  TTSFallbackTarget,
+} from '@/core/ports/services/tts/ITTSProviderRegistry';
+import { ITTSService, TTSOptions } from '@/core/ports/services/tts/ITTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { AppError, ErrorCode, ValidationError } from '@/shared/utils/errors/AppError';
+import { TTSConfig, createTTSConfig } from '@/shared/config/tts.config';
+import { logger } from '@/shared/lib/logger';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { ElevenLabsService } from './elevenlabs/ElevenLabsService';
+import { InworldService } from './inworld/InworldService';
+import { OpenAITTSService } from './openai/OpenAITTSService';
+import { LocalTTSService } from './local/LocalTTSService';
+import { FakeTTSService } from './fake/FakeTTSService';
+
+export class TTSProviderRegistry implements ITTSProviderRegistry {
+  private readonly providers: Map<string, ITTSService> = new Map();
+
+  constructor(
+    private readonly defaultProvider: string,
+    private readonly fallbackChain: TTSFallbackTarget[] = []
+  ) {}
+
+  register(service: ITTSService): void {
+    this.providers.set(service.getProviderName(), service);
+  }
+
+  get(provider: string): ITTSService {
+    const service = this.providers.get(provider);
+    if (!service) {
+      throw new ValidationError(`TTS provider '${provider}' is not configured`, {
+        provider,
+        availableProviders: this.listProviders(),
+      });
+    }
+    return service;
+  }
+
+  has(provider: string): boolean {
+    return this.providers.has(provider);
+  }
+
+  listProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  getDefaultProvider(): string {
+    return this.defaultProvider;
+  }
+
+  async generateAudio(
+    text: string,
+    voiceSettings: VoiceSettings,
+    options?: TTSOptions
+  ): Promise<TTSDispatchResult> {
+    const primary = voiceSettings.provider || this.defaultProvider;
+    const targets: TTSFallbackTarget[] = [
+      { provider: primary, voiceId: voiceSettings.voiceId },
+      ...this.fallbackChain.filter(
+        (target) => target.provider !== primary && this.has(target.provider)
+      ),
+    ];
+
+    let lastError: unknown;
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      const settings = i === 0 ? voiceSettings : voiceSettings.withProvider(target.provider, target.voiceId);
+
+      try {
+        const result = await this.get(target.provider).generateAudio(text, settings, options);
+        return {
+          ...result,
+          provider: target.provider,
+          voiceId: target.voiceId,
+          usedFallback: i > 0,
+        };
+      } catch (error) {
+        lastError = error;
+
+        if (!this.shouldFallback(error) || i === targets.length - 1) {
+          break;
+        }
+
+        logger.warn('TTS provider failed, falling back', {
+          provider: target.provider,
+          nextProvider: targets[i + 1].provider,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Only fall back when the vendor itself is unavailable; client errors
+  // (bad voice ID, invalid key, empty text) would fail on every provider.
+  private shouldFallback(error: unknown): boolean {
+    if (!(error instanceof AppError)) {
+      return false;
+    }
+
+    switch (error.code) {
+      case ErrorCode.RATE_LIMIT:
+      case ErrorCode.SERVICE_UNAVAILABLE:
+      case ErrorCode.TIMEOUT:
+        return true;
+      case ErrorCode.API_ERROR: {
+        const status = error.metadata?.status;
+        return typeof status !== 'number' || status >= 500;
+      }
+      default:
+        return false;
+    }
+  }
+}
+
+// Builds a registry with every provider that has credentials/binaries configured
+export function createTTSProviderRegistry(
+  config: TTSConfig = createTTSConfig(),
+  rateLimiter?: RateLimitStrategy
+): TTSProviderRegistry {
+  const registry = new TTSProviderRegistry(config.defaultProvider, config.fallbackChain);
+
+  if (config.elevenlabs) {
+    registry.register(new ElevenLabsService(config.elevenlabs.apiKey, rateLimiter));
+  }
+
+  if (config.inworld) {
+    registry.register(new InworldService(config.inworld, rateLimiter));
+  }
+
+  if (config.openai) {
+    registry.register(new OpenAITTSService(config.openai, rateLimiter));
+  }
+
+  if (config.local) {
+    registry.register(new LocalTTSService(config.local, rateLimiter));
+  }
+
+  if (config.fake) {
+    registry.register(new FakeTTSService(config.fake));
+  }
+
+  return registry;
+}
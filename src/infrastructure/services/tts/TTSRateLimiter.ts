@@ -0,0 +1,23 @@
+// src/infrastructure/services/tts/TTSRateLimiter.ts
+// TTS provider rate limiter - concurrency cap and characters/min per API key
+// (ElevenLabs has its own in elevenlabs/RateLimiter.ts)
+
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+
+export class TTSRateLimiter {
+  constructor(
+    private readonly strategy: RateLimitStrategy,
+    private readonly provider: string,
+    private readonly apiKey?: string
+  ) {}
+
+  // TTS providers bill and throttle on the characters sent for synthesis
+  async schedule<T>(text: string, fn: () => Promise<T>): Promise<T> {
+    return await this.strategy.schedule(
+      this.provider,
+      { characters: text.length },
+      fn,
+      this.apiKey
+    );
+  }
+}
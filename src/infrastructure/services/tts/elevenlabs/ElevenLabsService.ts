@@ -3,17 +3,27 @@
 
 import { ITTSService, TTSOptions, TTSResult } from '@/core/ports/services/tts/ITTSService';
 import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
-import { APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { envConfig } from '@/shared/config/env';
+import { AppError, APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { ElevenLabsRateLimiter } from './RateLimiter';
 
 export class ElevenLabsService implements ITTSService {
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.elevenlabs.io/v1';
+  private readonly rateLimiter?: ElevenLabsRateLimiter;
 
-  constructor() {
-    this.apiKey = process.env.ELEVENLABS_API_KEY || '';
+  constructor(apiKey?: string, rateLimiter?: RateLimitStrategy) {
+    this.apiKey = apiKey || envConfig.getElevenLabsApiKey() || '';
     if (!this.apiKey) {
       throw new ValidationError('ELEVENLABS_API_KEY is not configured');
     }
+    this.rateLimiter = rateLimiter && new ElevenLabsRateLimiter(rateLimiter, this.apiKey);
+  }
+
+  getProviderName(): string {
+    return 'elevenlabs';
   }
 
   async generateAudio(
@@ -45,37 +55,44 @@ export class ElevenLabsService implements ITTSService {
         },
       };
 
-      const response = await fetch(
-        `${this.baseUrl}/text-to-speech/${voiceSettings.voiceId}?output_format=${outputFormat}`,
-        {
-          method: 'POST',
-          headers: {
-            'xi-api-key': this.apiKey,
-            'Content-Type': 'application/json',
-            'Accept': 'audio/mpeg',
-          },
-          body: JSON.stringify(requestBody),
+      // The download is part of the request for the concurrency cap
+      const buffer = await this.throttle(requestBody.text, async () => {
+        const response = await fetch(
+          `${this.baseUrl}/text-to-speech/${voiceSettings.voiceId}?output_format=${outputFormat}`,
+          {
+            method: 'POST',
+            headers: {
+              'xi-api-key': this.apiKey,
+              'Content-Type': 'application/json',
+              'Accept': 'audio/mpeg',
+            },
+            body: JSON.stringify(requestBody),
+          }
+        );
+
+        if (!response.ok) {
+          await this.handleError(response);
         }
-      );
 
-      if (!response.ok) {
-        await this.handleError(response);
-      }
-
-      const buffer = Buffer.from(await response.arrayBuffer());
+        return Buffer.from(await response.arrayBuffer());
+      });
 
       return {
         audio: buffer,
         contentType: 'audio/mpeg',
       };
     } catch (error) {
-      if (error instanceof APIError || error instanceof RateLimitError) {
+      if (error instanceof AppError) {
         throw error;
       }
       throw new APIError('ElevenLabs', `Failed to generate audio: ${error}`);
     }
   }
 
+  private async throttle<T>(text: string, fn: () => Promise<T>): Promise<T> {
+    return this.rateLimiter ? await this.rateLimiter.schedule(text, fn) : await fn();
+  }
+
   private async handleError(response: Response): Promise<never> {
     const status = response.status;
 
@@ -88,18 +105,18 @@ export class ElevenLabsService implements ITTSService {
     }
 
     if (status === 401) {
-      throw new APIError('ElevenLabs', 'Invalid API key');
+      throw ErrorFactory.invalidApiKey('ElevenLabs', { status });
     }
 
     if (status === 404) {
-      throw new APIError('ElevenLabs', 'Voice not found');
+      throw ErrorFactory.voiceNotFound('ElevenLabs', undefined, { status });
     }
 
     if (status >= 400 && status < 500) {
       const error = await response.json().catch(() => ({}));
-      throw new APIError('ElevenLabs', error.detail?.message || error.message || 'API error');
+      throw new APIError('ElevenLabs', error.detail?.message || error.message || 'API error', { status });
     }
 
-    throw new APIError('ElevenLabs', `Unexpected error: ${status}`);
+    throw new APIError('ElevenLabs', `Unexpected error: ${status}`, { status });
   }
 }
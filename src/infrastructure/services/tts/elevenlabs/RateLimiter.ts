@@ -0,0 +1,23 @@
+// src/infrastructure/services/tts/elevenlabs/RateLimiter.ts
+// ElevenLabs rate limiter - concurrency cap and characters/min per API key
+
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+
+export const ELEVENLABS_PROVIDER = 'elevenlabs';
+
+export class ElevenLabsRateLimiter {
+  constructor(
+    private readonly strategy: RateLimitStrategy,
+    private readonly apiKey: string
+  ) {}
+
+  // ElevenLabs bills and throttles on the characters sent for synthesis
+  async schedule<T>(text: string, fn: () => Promise<T>): Promise<T> {
+    return await this.strategy.schedule(
+      ELEVENLABS_PROVIDER,
+      { characters: text.length },
+      fn,
+      this.apiKey
+    );
+  }
+}
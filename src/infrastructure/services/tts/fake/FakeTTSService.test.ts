@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { FakeTTSService, estimateFakeDuration, synthesizeWav } from './FakeTTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { ErrorCode, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+
+const CONFIG: FakeServicesConfig = {
+  seed: 1,
+  latencyMs: 0,
+  retryAfterSeconds: 1,
+  faults: { rateLimit: 0, timeout: 0, malformed: 0 },
+};
+
+const voice = (voiceId: string, speed?: number) => VoiceSettings.create({ voiceId, speed });
+
+// Duration of a 16-bit mono WAV, read from its header
+function wavDuration(audio: Buffer): number {
+  return audio.readUInt32LE(40) / audio.readUInt32LE(28);
+}
+
+describe('synthesizeWav', () => {
+  it('writes a PCM WAV whose duration tracks character count and speed', () => {
+    const text = 'Bonjour à tous, bienvenue.';
+    const audio = synthesizeWav(text, 220);
+
+    expect(audio.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(audio.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(audio.readUInt32LE(4)).toBe(audio.length - 8);
+    expect(wavDuration(audio)).toBeCloseTo(estimateFakeDuration(text), 2);
+    expect(wavDuration(synthesizeWav(text, 220, 2))).toBeCloseTo(estimateFakeDuration(text, 2), 2);
+  });
+
+  it('keeps spaces and punctuation silent', () => {
+    const audio = synthesizeWav('a .', 220);
+    const samplesPerChar = (audio.length - 44) / 2 / 3;
+
+    const sampleAt = (n: number) => audio.readInt16LE(44 + n * 2);
+    const silent = Array.from({ length: samplesPerChar }, (_, i) => sampleAt(samplesPerChar + i));
+    const voiced = Array.from({ length: samplesPerChar }, (_, i) => sampleAt(i));
+
+    expect(silent.every((value) => value === 0)).toBe(true);
+    expect(voiced.some((value) => value !== 0)).toBe(true);
+  });
+});
+
+describe('FakeTTSService', () => {
+  it('returns the same audio for the same text and voice', async () => {
+    const service = new FakeTTSService(CONFIG);
+
+    const first = await service.generateAudio('Un deux trois.', voice('narrator'));
+    const second = await service.generateAudio('Un deux trois.', voice('narrator'));
+    const otherVoice = await service.generateAudio('Un deux trois.', voice('guest'));
+
+    expect(first.contentType).toBe('audio/wav');
+    expect(second.audio.equals(first.audio)).toBe(true);
+    expect(otherVoice.audio.length).toBe(first.audio.length);
+    expect(otherVoice.audio.equals(first.audio)).toBe(false);
+  });
+
+  it('applies the voice speed, and reports the duration of the audio', async () => {
+    const result = await new FakeTTSService(CONFIG).generateAudio('Un deux trois.', voice('narrator', 2));
+
+    expect(wavDuration(result.audio)).toBeCloseTo(estimateFakeDuration('Un deux trois.', 2), 2);
+    expect(result.duration).toBeCloseTo(wavDuration(result.audio), 2);
+  });
+
+  it('rejects empty text', async () => {
+    await expect(new FakeTTSService(CONFIG).generateAudio('  ', voice('narrator'))).rejects.toThrow(ValidationError);
+  });
+
+  it('raises the configured faults', async () => {
+    const rateLimited = new FakeTTSService({ ...CONFIG, faults: { ...CONFIG.faults, rateLimit: 1 } });
+    const timingOut = new FakeTTSService({ ...CONFIG, faults: { ...CONFIG.faults, timeout: 1 } });
+
+    await expect(rateLimited.generateAudio('Bonjour.', voice('narrator'))).rejects.toThrow(RateLimitError);
+    await expect(timingOut.generateAudio('Bonjour.', voice('narrator'))).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+    });
+  });
+});
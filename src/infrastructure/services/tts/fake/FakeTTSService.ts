@@ -0,0 +1,82 @@
+// src/infrastructure/services/tts/fake/FakeTTSService.ts
+// Offline TTS stand-in: synthesizes tone/silence WAV audio whose duration tracks character count
+
+import { ITTSService, TTSResult } from '@/core/ports/services/tts/ITTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { FakeServicesConfig } from '@/shared/config/fake.config';
+import { ValidationError } from '@/shared/utils/errors/AppError';
+import { FaultSimulator, hashString } from '../../fake/FaultSimulator';
+
+const SAMPLE_RATE = 16000;
+// Roughly the pace of a narrated script (~150 words per minute)
+export const FAKE_CHARS_PER_SECOND = 15;
+
+export function estimateFakeDuration(text: string, speed: number = 1): number {
+  return text.trim().length / (FAKE_CHARS_PER_SECOND * speed);
+}
+
+// 16-bit PCM mono WAV: letters become a short tone, spaces/punctuation become silence
+export function synthesizeWav(text: string, frequency: number, speed: number = 1): Buffer {
+  const samplesPerChar = Math.round(SAMPLE_RATE / (FAKE_CHARS_PER_SECOND * speed));
+  const chars = text.trim();
+  const sampleCount = samplesPerChar * chars.length;
+  const buffer = Buffer.alloc(44 + sampleCount * 2);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + sampleCount * 2, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(sampleCount * 2, 40);
+
+  for (let c = 0; c < chars.length; c++) {
+    const voiced = /[\p{L}\p{N}]/u.test(chars[c]);
+    for (let i = 0; i < samplesPerChar; i++) {
+      const n = c * samplesPerChar + i;
+      const value = voiced ? Math.sin((2 * Math.PI * frequency * n) / SAMPLE_RATE) * 0.3 : 0;
+      buffer.writeInt16LE(Math.round(value * 32767), 44 + n * 2);
+    }
+  }
+
+  return buffer;
+}
+
+export class FakeTTSService implements ITTSService {
+  private readonly faults: FaultSimulator;
+
+  constructor(config: FakeServicesConfig) {
+    this.faults = new FaultSimulator('FakeTTS', config);
+  }
+
+  getProviderName(): string {
+    return 'fake';
+  }
+
+  async generateAudio(text: string, voiceSettings: VoiceSettings): Promise<TTSResult> {
+    if (!text || text.trim().length === 0) {
+      throw new ValidationError('Text cannot be empty');
+    }
+
+    if (!voiceSettings || !voiceSettings.voiceId) {
+      throw new ValidationError('Voice settings and voice ID are required');
+    }
+
+    await this.faults.beforeCall('generateAudio');
+
+    // Each voice gets its own pitch so merged output is distinguishable by ear
+    const frequency = 180 + (hashString(voiceSettings.voiceId) % 240);
+
+    return {
+      audio: synthesizeWav(text, frequency, voiceSettings.speed),
+      contentType: 'audio/wav',
+      duration: estimateFakeDuration(text, voiceSettings.speed),
+    };
+  }
+}
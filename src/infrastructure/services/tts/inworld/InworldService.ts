@@ -0,0 +1,121 @@
+// src/infrastructure/services/tts/inworld/InworldService.ts
+// Inworld TTS service implementation
+
+import { ITTSService, TTSOptions, TTSResult } from '@/core/ports/services/tts/ITTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { AppError, APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { TTSRateLimiter } from '../TTSRateLimiter';
+
+export interface InworldServiceConfig {
+  apiKey: string;
+  modelId?: string;
+}
+
+export class InworldService implements ITTSService {
+  private readonly apiKey: string;
+  private readonly modelId: string;
+  private readonly baseUrl = 'https://api.inworld.ai/tts/v1';
+  private readonly rateLimiter?: TTSRateLimiter;
+
+  constructor(config: InworldServiceConfig, rateLimiter?: RateLimitStrategy) {
+    if (!config.apiKey) {
+      throw new ValidationError('INWORLD_API_KEY is not configured');
+    }
+    this.apiKey = config.apiKey;
+    this.modelId = config.modelId || 'inworld-tts-1';
+    this.rateLimiter = rateLimiter && new TTSRateLimiter(rateLimiter, this.getProviderName(), this.apiKey);
+  }
+
+  getProviderName(): string {
+    return 'inworld';
+  }
+
+  async generateAudio(
+    text: string,
+    voiceSettings: VoiceSettings,
+    options?: TTSOptions
+  ): Promise<TTSResult> {
+    try {
+      if (!text || text.trim().length === 0) {
+        throw new ValidationError('Text cannot be empty');
+      }
+
+      if (!voiceSettings || !voiceSettings.voiceId) {
+        throw new ValidationError('Voice settings and voice ID are required');
+      }
+
+      const requestBody = {
+        text: text.trim(),
+        voiceId: voiceSettings.voiceId,
+        modelId: this.modelId,
+        audioConfig: {
+          audioEncoding: (options?.outputFormat || 'MP3').toUpperCase(),
+          speakingRate: voiceSettings.speed,
+        },
+      };
+
+      const data = await this.throttle(requestBody.text, async () => {
+        const response = await fetch(`${this.baseUrl}/voice`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+        });
+
+        if (!response.ok) {
+          await this.handleError(response);
+        }
+
+        return await response.json();
+      });
+      if (!data.audioContent) {
+        throw new APIError('Inworld', 'No audio content returned');
+      }
+
+      return {
+        audio: Buffer.from(data.audioContent, 'base64'),
+        contentType: 'audio/mpeg',
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new APIError('Inworld', `Failed to generate audio: ${error}`);
+    }
+  }
+
+  private async throttle<T>(text: string, fn: () => Promise<T>): Promise<T> {
+    return this.rateLimiter ? await this.rateLimiter.schedule(text, fn) : await fn();
+  }
+
+  private async handleError(response: Response): Promise<never> {
+    const status = response.status;
+
+    if (status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      throw new RateLimitError(
+        'Inworld',
+        retryAfter ? parseInt(retryAfter, 10) : undefined
+      );
+    }
+
+    if (status === 401 || status === 403) {
+      throw ErrorFactory.invalidApiKey('Inworld', { status });
+    }
+
+    if (status === 404) {
+      throw ErrorFactory.voiceNotFound('Inworld', undefined, { status });
+    }
+
+    if (status >= 400 && status < 500) {
+      const error = await response.json().catch(() => ({}));
+      throw new APIError('Inworld', error.message || 'API error', { status });
+    }
+
+    throw new APIError('Inworld', `Unexpected error: ${status}`, { status });
+  }
+}
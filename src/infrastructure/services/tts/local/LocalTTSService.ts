@@ -0,0 +1,132 @@
+// src/infrastructure/services/tts/local/LocalTTSService.ts
+// Local TTS service backed by a Piper or espeak-ng binary
+
+import { ITTSService, TTSResult } from '@/core/ports/services/tts/ITTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { AppError, APIError, ValidationError } from '@/shared/utils/errors/AppError';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { spawn } from 'child_process';
+import { TTSRateLimiter } from '../TTSRateLimiter';
+
+export interface LocalTTSServiceConfig {
+  engine: 'piper' | 'espeak';
+  binaryPath?: string;
+  modelsDir?: string;
+  timeoutMs?: number;
+}
+
+export class LocalTTSService implements ITTSService {
+  private readonly engine: 'piper' | 'espeak';
+  private readonly binaryPath: string;
+  private readonly modelsDir: string;
+  private readonly timeoutMs: number;
+  private readonly rateLimiter?: TTSRateLimiter;
+
+  constructor(config: LocalTTSServiceConfig, rateLimiter?: RateLimitStrategy) {
+    this.engine = config.engine;
+    this.binaryPath = config.binaryPath || (config.engine === 'piper' ? 'piper' : 'espeak-ng');
+    this.modelsDir = resolve(config.modelsDir || './models/piper');
+    this.timeoutMs = config.timeoutMs ?? 120000;
+    // Caps the synthesis processes running at once (RATE_LIMIT_MAX_CONCURRENT=local:N)
+    this.rateLimiter = rateLimiter && new TTSRateLimiter(rateLimiter, this.getProviderName());
+  }
+
+  getProviderName(): string {
+    return 'local';
+  }
+
+  async generateAudio(
+    text: string,
+    voiceSettings: VoiceSettings
+  ): Promise<TTSResult> {
+    if (!text || text.trim().length === 0) {
+      throw new ValidationError('Text cannot be empty');
+    }
+
+    if (!voiceSettings || !voiceSettings.voiceId) {
+      throw new ValidationError('Voice settings and voice ID are required');
+    }
+
+    const workDir = await fs.mkdtemp(join(tmpdir(), 'local-tts-'));
+    const outputPath = join(workDir, 'output.wav');
+
+    try {
+      await this.throttle(text, () => this.runBinary(this.buildArgs(voiceSettings, outputPath), text.trim()));
+
+      return {
+        audio: await fs.readFile(outputPath),
+        contentType: 'audio/wav',
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new APIError('LocalTTS', `Failed to generate audio: ${error}`);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async throttle<T>(text: string, fn: () => Promise<T>): Promise<T> {
+    return this.rateLimiter ? await this.rateLimiter.schedule(text, fn) : await fn();
+  }
+
+  private buildArgs(voiceSettings: VoiceSettings, outputPath: string): string[] {
+    if (this.engine === 'piper') {
+      // Voice IDs are Piper model names, resolved inside the models directory
+      const modelName = voiceSettings.voiceId.replace(/\.onnx$/, '');
+      if (modelName.includes('/') || modelName.includes('\\') || modelName.includes('..')) {
+        throw new ValidationError(`Invalid Piper model name: ${voiceSettings.voiceId}`);
+      }
+
+      return [
+        '--model', join(this.modelsDir, `${modelName}.onnx`),
+        '--output_file', outputPath,
+        '--length_scale', String(1 / voiceSettings.speed),
+      ];
+    }
+
+    // espeak-ng: voice IDs are espeak voice names (e.g. "fr", "en-us")
+    return [
+      '-v', voiceSettings.voiceId,
+      '-s', String(Math.round(175 * voiceSettings.speed)),
+      '-w', outputPath,
+      '--stdin',
+    ];
+  }
+
+  private runBinary(args: string[], input: string): Promise<void> {
+    return new Promise((resolvePromise, reject) => {
+      const child = spawn(this.binaryPath, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new APIError('LocalTTS', `${this.engine} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new APIError('LocalTTS', `Failed to start ${this.binaryPath}: ${error.message}`));
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolvePromise();
+        } else {
+          reject(new APIError('LocalTTS', `${this.engine} exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.stdin.end(input);
+    });
+  }
+}
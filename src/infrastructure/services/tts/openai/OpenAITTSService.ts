@@ -0,0 +1,128 @@
+// src/infrastructure/services/tts/openai/OpenAITTSService.ts
+// OpenAI-compatible TTS service implementation (/audio/speech)
+
+import { ITTSService, TTSOptions, TTSResult } from '@/core/ports/services/tts/ITTSService';
+import { VoiceSettings } from '@/core/domain/value-objects/VoiceSettings';
+import { AppError, APIError, RateLimitError, ValidationError } from '@/shared/utils/errors/AppError';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+import { RateLimitStrategy } from '@/infrastructure/queue/strategies/RateLimitStrategy';
+import { TTSRateLimiter } from '../TTSRateLimiter';
+
+export interface OpenAITTSServiceConfig {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  pcm: 'audio/pcm',
+};
+
+export class OpenAITTSService implements ITTSService {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly rateLimiter?: TTSRateLimiter;
+
+  constructor(config: OpenAITTSServiceConfig, rateLimiter?: RateLimitStrategy) {
+    if (!config.apiKey) {
+      throw new ValidationError('OPENAI_TTS_API_KEY is not configured');
+    }
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.model = config.model || 'tts-1';
+    this.rateLimiter = rateLimiter && new TTSRateLimiter(rateLimiter, this.getProviderName(), this.apiKey);
+  }
+
+  getProviderName(): string {
+    return 'openai';
+  }
+
+  async generateAudio(
+    text: string,
+    voiceSettings: VoiceSettings,
+    options?: TTSOptions
+  ): Promise<TTSResult> {
+    try {
+      if (!text || text.trim().length === 0) {
+        throw new ValidationError('Text cannot be empty');
+      }
+
+      if (!voiceSettings || !voiceSettings.voiceId) {
+        throw new ValidationError('Voice settings and voice ID are required');
+      }
+
+      const responseFormat = options?.outputFormat && CONTENT_TYPES[options.outputFormat]
+        ? options.outputFormat
+        : 'mp3';
+
+      const requestBody = {
+        model: this.model,
+        input: text.trim(),
+        voice: voiceSettings.voiceId,
+        response_format: responseFormat,
+        speed: voiceSettings.speed,
+      };
+
+      // The download is part of the request for the concurrency cap
+      const audio = await this.throttle(requestBody.input, async () => {
+        const response = await fetch(`${this.baseUrl}/audio/speech`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+        });
+
+        if (!response.ok) {
+          await this.handleError(response);
+        }
+
+        return Buffer.from(await response.arrayBuffer());
+      });
+
+      return {
+        audio,
+        contentType: CONTENT_TYPES[responseFormat],
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new APIError('OpenAI TTS', `Failed to generate audio: ${error}`);
+    }
+  }
+
+  private async throttle<T>(text: string, fn: () => Promise<T>): Promise<T> {
+    return this.rateLimiter ? await this.rateLimiter.schedule(text, fn) : await fn();
+  }
+
+  private async handleError(response: Response): Promise<never> {
+    const status = response.status;
+
+    if (status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      throw new RateLimitError(
+        'OpenAI TTS',
+        retryAfter ? parseInt(retryAfter, 10) : undefined
+      );
+    }
+
+    if (status === 401) {
+      throw ErrorFactory.invalidApiKey('OpenAI TTS', { status });
+    }
+
+    if (status >= 400 && status < 500) {
+      const error = await response.json().catch(() => ({}));
+      throw new APIError('OpenAI TTS', error.error?.message || 'API error', { status });
+    }
+
+    throw new APIError('OpenAI TTS', `Unexpected error: ${status}`, { status });
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SSEManager } from './SSEManager';
+import { InMemoryBroadcastBackend } from './backends/InMemoryBroadcastBackend';
+import { SSEEvent } from '@/core/ports/streaming/ISSEService';
+import { StreamingConfig } from '@/shared/config/streaming.config';
+
+const STREAMING_CONFIG: StreamingConfig = {
+  broadcastBackend: 'memory',
+  replayBufferSize: 3,
+  replayTtlMs: 60000,
+  heartbeatIntervalMs: 60000,
+  retryMs: 2000,
+  websocket: { port: 3001, path: '/ws', maxPayloadBytes: 65536 },
+};
+
+function collect(manager: SSEManager, channel: string, lastEventId?: string) {
+  const received: SSEEvent[] = [];
+  const unsubscribe = manager.subscribe(channel, (event) => { received.push(event); }, { lastEventId });
+  return { received, unsubscribe };
+}
+
+async function publish(manager: SSEManager, channel: string, ...steps: string[]) {
+  for (const step of steps) {
+    await manager.broadcast(channel, { event: 'progress', data: { step } });
+  }
+}
+
+const steps = (events: SSEEvent[]) => events.map((event) => (event.data as { step: string }).step);
+
+describe('SSEManager', () => {
+  it('numbers every delivered event', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    const { received } = collect(manager, 'job:1');
+
+    await publish(manager, 'job:1', 'a', 'b');
+
+    expect(steps(received)).toEqual(['a', 'b']);
+    const [first, second] = received.map((event) => Number(event.id!.split('-').pop()));
+    expect(second).toBe(first + 1);
+    expect(received[1].id).toBe(manager.getCursor());
+  });
+
+  it('replays the events missed since Last-Event-ID before the live ones', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    const first = collect(manager, 'job:1');
+    await publish(manager, 'job:1', 'a');
+    first.unsubscribe();
+
+    const lastEventId = first.received[0].id!;
+    await publish(manager, 'job:1', 'b', 'c');
+    expect(manager.canResume('job:1', lastEventId)).toBe(true);
+
+    const resumed = collect(manager, 'job:1', lastEventId);
+    await publish(manager, 'job:1', 'd');
+
+    expect(steps(resumed.received)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('refuses to resume once the gap left the replay buffer', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    const { received } = collect(manager, 'job:1');
+    await publish(manager, 'job:1', 'a', 'b', 'c', 'd');
+
+    // Buffer of 3: 'a' was evicted, so a client that last saw it missed nothing, one before it did
+    expect(manager.canResume('job:1', received[0].id!)).toBe(true);
+    await publish(manager, 'job:1', 'e');
+    expect(manager.canResume('job:1', received[0].id!)).toBe(false);
+    expect(manager.canResume('job:1', received[1].id!)).toBe(true);
+  });
+
+  it('refuses ids from another instance, from the future or for an unknown channel', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    await publish(manager, 'job:1', 'a');
+    const cursor = manager.getCursor();
+    const sequence = Number(cursor.split('-').pop());
+
+    expect(manager.canResume('job:1', 'otherinstance-1')).toBe(false);
+    expect(manager.canResume('job:1', cursor.replace(/\d+$/, String(sequence + 5)))).toBe(false);
+    expect(manager.canResume('job:2', cursor)).toBe(false);
+  });
+
+  it('keeps no history when replay is disabled', async () => {
+    const manager = new SSEManager({ ...STREAMING_CONFIG, replayBufferSize: 0 });
+    await publish(manager, 'job:1', 'a');
+
+    expect(manager.canResume('job:1', manager.getCursor())).toBe(false);
+  });
+
+  it('fans broadcasts out to the other instances sharing the backend', async () => {
+    const backend = new InMemoryBroadcastBackend();
+    const web = new SSEManager(STREAMING_CONFIG, backend);
+    const worker = new SSEManager(STREAMING_CONFIG, backend);
+    const local = collect(web, 'job:1');
+    const remote = collect(worker, 'job:1');
+
+    await publish(web, 'job:1', 'a');
+
+    // Delivered once on each side, numbered by the instance that delivers it
+    expect(steps(local.received)).toEqual(['a']);
+    expect(steps(remote.received)).toEqual(['a']);
+    expect(remote.received[0].id).toBe(worker.getCursor());
+  });
+
+  it('keeps notifying the other subscribers when one throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = new SSEManager(STREAMING_CONFIG);
+    manager.subscribe('job:1', () => { throw new Error('client gone'); });
+    const { received } = collect(manager, 'job:1');
+
+    await publish(manager, 'job:1', 'a');
+
+    expect(steps(received)).toEqual(['a']);
+  });
+});
@@ -1,24 +1,55 @@
 // src/infrastructure/streaming/SSEManager.ts
 // SSE manager for real-time streaming to clients
+// Every delivered event gets an increasing id and is kept in a bounded
+// per-channel replay buffer so reconnecting clients resume with Last-Event-ID
+// Broadcasts are fanned out to the other processes through the broadcast backend
 
 import {
   IStreamManager,
+  StreamSubscribeOptions,
   StreamSubscriber,
   UnsubscribeStreamFn,
 } from '@/core/ports/streaming/IStreamManager';
 import { SSEChannel, SSEEvent } from '@/core/ports/streaming/ISSEService';
+import { BroadcastMessage, IBroadcastBackend } from '@/core/ports/streaming/IBroadcastBackend';
+import { StreamingConfig, createStreamingConfig } from '@/shared/config/streaming.config';
+import { logger } from '@/shared/lib/logger';
+import { InMemoryBroadcastBackend } from './backends/InMemoryBroadcastBackend';
 
 type ChannelSubscription<T = unknown> = {
   subscriber: StreamSubscriber<T>;
   createdAt: Date;
 };
 
+type ReplayBuffer = {
+  events: SSEEvent[];
+  // Sequence of the newest event no longer buffered: clients behind it cannot resume
+  evictedUpTo: number;
+  lastEventAt: number;
+};
+
+// Idle replay buffers are pruned at most this often
+const PRUNE_INTERVAL_MS = 60000;
+
 export class SSEManager implements IStreamManager {
   private readonly channels: Map<string, ChannelSubscription[]> = new Map();
+  private readonly buffers: Map<string, ReplayBuffer> = new Map();
+  // Ids are "<instance>-<sequence>": each process numbers the events it delivers,
+  // so an id from another process or from before a restart is never resumable
+  private readonly instanceId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  private sequence = 0;
+  private lastPruneAt = Date.now();
+  private detachBackend?: UnsubscribeStreamFn;
+
+  constructor(
+    private readonly config: StreamingConfig = createStreamingConfig(),
+    private readonly backend: IBroadcastBackend = new InMemoryBroadcastBackend()
+  ) {}
 
   subscribe<T>(
     channel: SSEChannel,
-    subscriber: StreamSubscriber<T>
+    subscriber: StreamSubscriber<T>,
+    options?: StreamSubscribeOptions
   ): UnsubscribeStreamFn {
     if (!channel || channel.trim().length === 0) {
       throw new Error('Channel name cannot be empty');
@@ -29,11 +60,20 @@ export class SSEManager implements IStreamManager {
       createdAt: new Date(),
     };
 
+    // Missed events are delivered synchronously before registering,
+    // so nothing broadcast in between can be lost or reordered
+    if (options?.lastEventId !== undefined) {
+      for (const event of this.getEventsAfter(channel, options.lastEventId)) {
+        void this.safeNotify(event as SSEEvent<T>, subscriber);
+      }
+    }
+
     if (!this.channels.has(channel)) {
       this.channels.set(channel, []);
     }
 
     this.channels.get(channel)!.push(subscription);
+    this.attachBackend();
 
     // Return unsubscribe function
     return () => {
@@ -41,7 +81,37 @@ export class SSEManager implements IStreamManager {
     };
   }
 
+  // Delivered to the local subscribers right away, then fanned out to the other processes
   async broadcast<T>(channel: SSEChannel, event: SSEEvent<T>): Promise<void> {
+    const delivered = this.deliver(channel, event);
+
+    try {
+      await this.backend.publish({
+        origin: this.instanceId,
+        channel,
+        event: { event: event.event, data: event.data },
+      });
+    } catch (error) {
+      logger.error('Failed to fan out stream event', error instanceof Error ? error : undefined, {
+        channel,
+      });
+    }
+
+    await delivered;
+  }
+
+  // Closes the broadcast backend connection
+  async close(): Promise<void> {
+    this.detachBackend?.();
+    this.detachBackend = undefined;
+    await this.backend.close();
+  }
+
+  // Ids are assigned here: any id set by the publisher is replaced
+  private async deliver<T>(channel: SSEChannel, event: SSEEvent<T>): Promise<void> {
+    event = { ...event, id: `${this.instanceId}-${++this.sequence}` };
+    this.remember(channel, event);
+
     const subscribers = this.channels.get(channel);
 
     if (!subscribers || subscribers.length === 0) {
@@ -61,6 +131,32 @@ export class SSEManager implements IStreamManager {
     await Promise.allSettled(promises);
   }
 
+  canResume(channel: SSEChannel, lastEventId: string): boolean {
+    const sequence = this.parseSequence(lastEventId);
+    const buffer = this.buffers.get(channel);
+
+    if (sequence === undefined || !buffer || sequence > this.sequence) {
+      return false;
+    }
+
+    return sequence >= buffer.evictedUpTo;
+  }
+
+  getCursor(): string {
+    return `${this.instanceId}-${this.sequence}`;
+  }
+
+  getEventsAfter(channel: SSEChannel, lastEventId: string): SSEEvent[] {
+    const sequence = this.parseSequence(lastEventId);
+    const events = this.buffers.get(channel)?.events ?? [];
+
+    if (sequence === undefined) {
+      return [];
+    }
+
+    return events.filter((event) => this.parseSequence(event.id!)! > sequence);
+  }
+
   getSubscriberCount(channel: SSEChannel): number {
     const subscribers = this.channels.get(channel);
     return subscribers ? subscribers.length : 0;
@@ -101,10 +197,68 @@ export class SSEManager implements IStreamManager {
 
   clearChannel(channel: SSEChannel): void {
     this.channels.delete(channel);
+    this.buffers.delete(channel);
   }
 
   clear(): void {
     this.channels.clear();
+    this.buffers.clear();
+  }
+
+  // Events published by this instance were already delivered by broadcast()
+  private attachBackend(): void {
+    if (this.detachBackend) return;
+
+    this.detachBackend = this.backend.subscribe((message: BroadcastMessage) => {
+      if (message.origin !== this.instanceId) {
+        void this.deliver(message.channel, message.event);
+      }
+    });
+  }
+
+  private parseSequence(id: string): number | undefined {
+    const prefix = `${this.instanceId}-`;
+    if (!id.startsWith(prefix)) return undefined;
+
+    const sequence = Number(id.slice(prefix.length));
+    return Number.isInteger(sequence) ? sequence : undefined;
+  }
+
+  private remember(channel: SSEChannel, event: SSEEvent): void {
+    const now = Date.now();
+    this.pruneBuffers(now);
+
+    if (this.config.replayBufferSize === 0) {
+      return;
+    }
+
+    let buffer = this.buffers.get(channel);
+    if (!buffer) {
+      buffer = { events: [], evictedUpTo: this.sequence - 1, lastEventAt: now };
+      this.buffers.set(channel, buffer);
+    }
+
+    buffer.events.push(event);
+    buffer.lastEventAt = now;
+
+    if (buffer.events.length > this.config.replayBufferSize) {
+      const evicted = buffer.events.shift()!;
+      buffer.evictedUpTo = this.parseSequence(evicted.id!)!;
+    }
+  }
+
+  // Channels with live subscribers keep their buffer regardless of age
+  private pruneBuffers(now: number): void {
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPruneAt = now;
+
+    for (const [channel, buffer] of this.buffers) {
+      if (now - buffer.lastEventAt > this.config.replayTtlMs && !this.channels.has(channel)) {
+        this.buffers.delete(channel);
+      }
+    }
   }
 
   private async safeNotify<T>(
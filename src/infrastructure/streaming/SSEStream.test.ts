@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSSEResponse } from './SSEStream';
+import { SSEManager } from './SSEManager';
+import { StreamingConfig } from '@/shared/config/streaming.config';
+
+const STREAMING_CONFIG: StreamingConfig = {
+  broadcastBackend: 'memory',
+  replayBufferSize: 3,
+  replayTtlMs: 60000,
+  heartbeatIntervalMs: 60000,
+  retryMs: 2000,
+  websocket: { port: 3001, path: '/ws', maxPayloadBytes: 65536 },
+};
+
+// Reads the chunks written so far; the stream writes synchronously on subscribe and broadcast
+async function readAvailable(reader: ReadableStreamDefaultReader<Uint8Array>, chunks: number): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  for (let i = 0; i < chunks; i++) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  return text;
+}
+
+function open(manager: SSEManager, lastEventId?: string, snapshot: unknown = { status: 'PROCESSING' }) {
+  const controller = new AbortController();
+  const loadSnapshot = vi.fn(async () => (snapshot ? { event: 'snapshot', data: snapshot } : null));
+  const response = createSSEResponse({
+    manager,
+    channel: 'job:1',
+    lastEventId,
+    loadSnapshot,
+    signal: controller.signal,
+    config: STREAMING_CONFIG,
+  });
+  return { response, loadSnapshot, controller };
+}
+
+describe('createSSEResponse', () => {
+  it('starts a new stream with the snapshot, then the live events', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    const { response, controller } = open(manager);
+    const reader = (await response)!.body!.getReader();
+
+    await manager.broadcast('job:1', { event: 'progress', data: { step: 'a' } });
+    const text = await readAvailable(reader, 3);
+    controller.abort();
+
+    expect((await response)!.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+    expect(text).toBe(
+      'retry: 2000\n\n' +
+      'event: snapshot\ndata: {"status":"PROCESSING"}\n\n' +
+      `id: ${manager.getCursor()}\nevent: progress\ndata: {"step":"a"}\n\n`
+    );
+  });
+
+  it('resumes from Last-Event-ID without a snapshot', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    await manager.broadcast('job:1', { event: 'progress', data: { step: 'a' } });
+    const lastEventId = manager.getCursor();
+    await manager.broadcast('job:1', { event: 'progress', data: { step: 'b' } });
+
+    const { response, loadSnapshot, controller } = open(manager, lastEventId);
+    const text = await readAvailable((await response)!.body!.getReader(), 2);
+    controller.abort();
+
+    expect(loadSnapshot).not.toHaveBeenCalled();
+    expect(text).toBe(`retry: 2000\n\nid: ${manager.getCursor()}\nevent: progress\ndata: {"step":"b"}\n\n`);
+  });
+
+  it('falls back to a snapshot when the id cannot be resumed', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    const { response, loadSnapshot, controller } = open(manager, 'unknown-12');
+    const text = await readAvailable((await response)!.body!.getReader(), 2);
+    controller.abort();
+
+    expect(loadSnapshot).toHaveBeenCalledTimes(1);
+    expect(text).toContain('event: snapshot');
+  });
+
+  it('returns null when the streamed resource does not exist', async () => {
+    const { response } = open(new SSEManager(STREAMING_CONFIG), undefined, null);
+
+    expect(await response).toBeNull();
+  });
+
+  it('unsubscribes when the client disconnects', async () => {
+    const manager = new SSEManager(STREAMING_CONFIG);
+    const { response, controller } = open(manager);
+    await response;
+    expect(manager.getSubscriberCount('job:1')).toBe(1);
+
+    controller.abort();
+
+    expect(manager.getSubscriberCount('job:1')).toBe(0);
+  });
+});
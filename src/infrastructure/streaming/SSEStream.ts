@@ -0,0 +1,115 @@
+// src/infrastructure/streaming/SSEStream.ts
+// Resumable text/event-stream responses for the job and item stream routes
+// Resume with Last-Event-ID when the replay buffer still covers the gap,
+// otherwise send a snapshot of the current state before the live events
+
+import { IStreamManager } from '@/core/ports/streaming/IStreamManager';
+import { SSEChannel, SSEEvent } from '@/core/ports/streaming/ISSEService';
+import { StreamingConfig, createStreamingConfig } from '@/shared/config/streaming.config';
+import { SSEEncoder } from './encoders/SSEEncoder';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  // Disables response buffering in nginx
+  'X-Accel-Buffering': 'no',
+};
+
+export interface SSEStreamOptions {
+  manager: IStreamManager;
+  channel: SSEChannel;
+  // Last-Event-ID header sent by a reconnecting EventSource
+  lastEventId?: string | null;
+  // Current state of the streamed resource, null when it does not exist.
+  // The snapshot has no id so the client keeps its Last-Event-ID
+  loadSnapshot: () => Promise<SSEEvent | null>;
+  // Aborted when the client disconnects
+  signal: AbortSignal;
+  config?: StreamingConfig;
+}
+
+// Returns null when the snapshot source does not exist
+export async function createSSEResponse(options: SSEStreamOptions): Promise<Response | null> {
+  const { manager, channel, signal } = options;
+  const config = options.config ?? createStreamingConfig();
+  const encoder = new SSEEncoder();
+
+  let cursor = options.lastEventId ?? undefined;
+  let snapshot: SSEEvent | null = null;
+
+  if (!cursor || !manager.canResume(channel, cursor)) {
+    // Taken before loading the snapshot: events broadcast while it loads are replayed after it
+    cursor = manager.getCursor();
+    snapshot = await options.loadSnapshot();
+
+    if (!snapshot) {
+      return null;
+    }
+  }
+
+  let cleanup: (() => void) | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      // Assigned once subscribed: close() may run before (client already gone)
+      const resources: {
+        heartbeat?: ReturnType<typeof setInterval>;
+        unsubscribe?: () => void;
+      } = {};
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+
+        if (resources.heartbeat) clearInterval(resources.heartbeat);
+        resources.unsubscribe?.();
+        signal.removeEventListener('abort', close);
+
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      cleanup = close;
+
+      const send = (chunk: Uint8Array) => {
+        if (closed) return;
+        try {
+          controller.enqueue(chunk);
+        } catch {
+          close();
+        }
+      };
+
+      send(encoder.encodeRetry(config.retryMs));
+      if (snapshot) {
+        send(encoder.encode(snapshot));
+      }
+
+      resources.unsubscribe = manager.subscribe(channel, (event) => send(encoder.encode(event)), {
+        lastEventId: cursor,
+      });
+
+      if (closed) {
+        resources.unsubscribe();
+        return;
+      }
+
+      resources.heartbeat = setInterval(() => send(encoder.encodeComment('heartbeat')), config.heartbeatIntervalMs);
+
+      if (signal.aborted) {
+        close();
+      } else {
+        signal.addEventListener('abort', close);
+      }
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
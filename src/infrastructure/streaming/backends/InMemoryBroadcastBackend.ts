@@ -0,0 +1,37 @@
+// src/infrastructure/streaming/backends/InMemoryBroadcastBackend.ts
+// Single-process fan-out: only the SSEManagers sharing this instance see the messages
+
+import {
+  BroadcastListener,
+  BroadcastMessage,
+  IBroadcastBackend,
+} from '@/core/ports/streaming/IBroadcastBackend';
+import { UnsubscribeStreamFn } from '@/core/ports/streaming/IStreamManager';
+import { logger } from '@/shared/lib/logger';
+
+export class InMemoryBroadcastBackend implements IBroadcastBackend {
+  private readonly listeners: Set<BroadcastListener> = new Set();
+
+  async publish(message: BroadcastMessage): Promise<void> {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(message);
+      } catch (error) {
+        logger.error('Broadcast listener failed', error instanceof Error ? error : undefined, {
+          channel: message.channel,
+        });
+      }
+    }
+  }
+
+  subscribe(listener: BroadcastListener): UnsubscribeStreamFn {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PostgresBroadcastBackend } from './PostgresBroadcastBackend';
+import { BroadcastMessage } from '@/core/ports/streaming/IBroadcastBackend';
+
+// Stand-in for pg.Client: NOTIFY reaches every connected client LISTENing on the channel,
+// like the clients of one Postgres server
+const server = vi.hoisted(() => ({
+  clients: [] as Array<{ channels: Set<string>; queries: string[] } & import('node:events').EventEmitter>,
+  failConnect: 0,
+}));
+
+vi.mock('pg', async () => {
+  const { EventEmitter } = await import('node:events');
+
+  class Client extends EventEmitter {
+    readonly channels = new Set<string>();
+    readonly queries: string[] = [];
+    ended = false;
+
+    async connect() {
+      if (server.failConnect > 0) {
+        server.failConnect--;
+        throw new Error('connection refused');
+      }
+      server.clients.push(this);
+    }
+
+    async query(sql: string, values?: string[]) {
+      this.queries.push(sql);
+      const listen = /^LISTEN "(.+)"$/.exec(sql);
+      if (listen) this.channels.add(listen[1]);
+      if (sql.startsWith('SELECT pg_notify')) {
+        const [channel, payload] = values!;
+        for (const client of server.clients.filter((c) => c.channels.has(channel))) {
+          client.emit('notification', { channel, payload, processId: 1 });
+        }
+      }
+    }
+
+    escapeIdentifier(value: string) {
+      return `"${value}"`;
+    }
+
+    async end() {
+      this.ended = true;
+      server.clients = server.clients.filter((client) => client !== this);
+    }
+  }
+  return { Client };
+});
+
+const OPTIONS = { connectionString: 'postgres://localhost/test', channel: 'sse_events' };
+
+function message(step: string, origin = 'web-1'): BroadcastMessage {
+  return { origin, channel: 'job:1', event: { event: 'progress', data: { step } } };
+}
+
+// Lets the connection and LISTEN started by subscribe() settle
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('PostgresBroadcastBackend', () => {
+  afterEach(() => {
+    server.clients = [];
+    server.failConnect = 0;
+    vi.useRealTimers();
+  });
+
+  it('delivers what one instance publishes to the listeners of every instance', async () => {
+    const web = new PostgresBroadcastBackend(OPTIONS);
+    const worker = new PostgresBroadcastBackend(OPTIONS);
+    const received: BroadcastMessage[] = [];
+    web.subscribe((m) => received.push(m));
+    await settle();
+
+    await worker.publish(message('a', 'worker-1'));
+
+    expect(received).toEqual([message('a', 'worker-1')]);
+    await Promise.all([web.close(), worker.close()]);
+  });
+
+  it('never LISTENs in a process that only publishes', async () => {
+    const worker = new PostgresBroadcastBackend(OPTIONS);
+
+    await worker.publish(message('a'));
+
+    expect(server.clients[0].queries).toEqual(['SELECT pg_notify($1, $2)']);
+    await worker.close();
+  });
+
+  it('keeps payloads NOTIFY would reject on this instance', async () => {
+    const backend = new PostgresBroadcastBackend(OPTIONS);
+
+    await backend.publish({ ...message('a'), event: { event: 'progress', data: 'x'.repeat(8000) } });
+
+    expect(server.clients).toHaveLength(0);
+  });
+
+  it('ignores malformed notifications and isolates failing listeners', async () => {
+    const backend = new PostgresBroadcastBackend(OPTIONS);
+    const received: BroadcastMessage[] = [];
+    backend.subscribe(() => { throw new Error('listener bug'); });
+    backend.subscribe((m) => received.push(m));
+    await settle();
+
+    server.clients[0].emit('notification', { channel: 'sse_events', payload: '{not json', processId: 1 });
+    await backend.publish(message('a'));
+
+    expect(received).toEqual([message('a')]);
+    await backend.close();
+  });
+
+  it('reconnects with backoff and LISTENs again after losing the connection', async () => {
+    const backend = new PostgresBroadcastBackend(OPTIONS);
+    const received: BroadcastMessage[] = [];
+    backend.subscribe((m) => received.push(m));
+    await settle();
+
+    vi.useFakeTimers();
+    server.failConnect = 1;
+    server.clients[0].emit('error', new Error('terminating connection'));
+    expect(server.clients).toHaveLength(0);
+
+    // First retry after 1s fails, the second one 2s later succeeds
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(server.clients).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(server.clients).toHaveLength(1);
+
+    await backend.publish(message('b'));
+    expect(received).toEqual([message('b')]);
+    await backend.close();
+  });
+
+  it('stops reconnecting once closed', async () => {
+    const backend = new PostgresBroadcastBackend(OPTIONS);
+    backend.subscribe(() => {});
+    await settle();
+    vi.useFakeTimers();
+
+    server.clients[0].emit('error', new Error('terminating connection'));
+    await backend.close();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(server.clients).toHaveLength(0);
+    await expect(backend.publish(message('a'))).rejects.toThrow('Broadcast backend is closed');
+  });
+});
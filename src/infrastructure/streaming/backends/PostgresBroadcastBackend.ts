@@ -0,0 +1,178 @@
+// src/infrastructure/streaming/backends/PostgresBroadcastBackend.ts
+// Cross-process fan-out over Postgres LISTEN/NOTIFY: events published by the
+// workers or another Next.js instance reach the subscribers connected here
+// Prisma cannot LISTEN, so a dedicated pg connection is opened on first use
+
+import { Client, Notification } from 'pg';
+import {
+  BroadcastListener,
+  BroadcastMessage,
+  IBroadcastBackend,
+} from '@/core/ports/streaming/IBroadcastBackend';
+import { UnsubscribeStreamFn } from '@/core/ports/streaming/IStreamManager';
+import { logger } from '@/shared/lib/logger';
+
+export interface PostgresBroadcastOptions {
+  connectionString: string;
+  // NOTIFY channel shared by every instance
+  channel: string;
+}
+
+// NOTIFY rejects payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7999;
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export class PostgresBroadcastBackend implements IBroadcastBackend {
+  private readonly listeners: Set<BroadcastListener> = new Set();
+  private client?: Client;
+  private connecting?: Promise<Client>;
+  private listening = false;
+  private closed = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly options: PostgresBroadcastOptions) {}
+
+  async publish(message: BroadcastMessage): Promise<void> {
+    const payload = JSON.stringify(message);
+
+    // Too large for NOTIFY: only the subscribers of the publishing instance get it
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      logger.warn('Stream event too large for NOTIFY, not fanned out', {
+        channel: message.channel,
+        event: message.event.event,
+        bytes: Buffer.byteLength(payload),
+      });
+      return;
+    }
+
+    const client = await this.getClient();
+    await client.query('SELECT pg_notify($1, $2)', [this.options.channel, payload]);
+  }
+
+  // Processes that only publish (workers) never LISTEN
+  subscribe(listener: BroadcastListener): UnsubscribeStreamFn {
+    this.listeners.add(listener);
+
+    if (this.client && !this.listening) {
+      void this.listen(this.client).catch((error) => this.handleDisconnect(this.client!, error));
+    } else if (!this.client) {
+      void this.getClient().catch(() => this.scheduleReconnect());
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.listeners.clear();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    const client = this.client;
+    this.client = undefined;
+    await client?.end();
+  }
+
+  private async getClient(): Promise<Client> {
+    if (this.closed) {
+      throw new Error('Broadcast backend is closed');
+    }
+    if (this.client) {
+      return this.client;
+    }
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return await this.connecting;
+  }
+
+  private async connect(): Promise<Client> {
+    const client = new Client({ connectionString: this.options.connectionString });
+
+    client.on('notification', (notification) => this.handleNotification(notification));
+    client.on('error', (error) => this.handleDisconnect(client, error));
+    client.on('end', () => this.handleDisconnect(client));
+
+    await client.connect();
+    this.client = client;
+    this.listening = false;
+    this.reconnectAttempts = 0;
+
+    if (this.listeners.size > 0) {
+      await this.listen(client);
+    }
+
+    return client;
+  }
+
+  private async listen(client: Client): Promise<void> {
+    await client.query(`LISTEN ${client.escapeIdentifier(this.options.channel)}`);
+    this.listening = true;
+  }
+
+  private handleNotification(notification: Notification): void {
+    if (notification.channel !== this.options.channel || !notification.payload) {
+      return;
+    }
+
+    let message: BroadcastMessage;
+    try {
+      message = JSON.parse(notification.payload);
+    } catch (error) {
+      logger.error('Invalid broadcast payload', error instanceof Error ? error : undefined);
+      return;
+    }
+
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(message);
+      } catch (error) {
+        logger.error('Broadcast listener failed', error instanceof Error ? error : undefined, {
+          channel: message.channel,
+        });
+      }
+    }
+  }
+
+  // Events notified while disconnected never reach this instance's subscribers
+  private handleDisconnect(client: Client, error?: Error): void {
+    if (this.client !== client) {
+      return;
+    }
+
+    this.client = undefined;
+    this.listening = false;
+    void client.end().catch(() => undefined);
+
+    if (!this.closed) {
+      logger.warn('Broadcast connection lost', { error: error?.message });
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer || this.listeners.size === 0) {
+      return;
+    }
+
+    const delay = Math.min(MIN_RECONNECT_DELAY_MS * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.getClient().catch((error) => {
+        logger.warn('Broadcast reconnection failed', { error: error instanceof Error ? error.message : String(error) });
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+}
@@ -0,0 +1,20 @@
+// src/infrastructure/streaming/backends/createBroadcastBackend.ts
+// Selects the SSE fan-out backend from the streaming configuration
+
+import { IBroadcastBackend } from '@/core/ports/streaming/IBroadcastBackend';
+import { StreamingConfig } from '@/shared/config/streaming.config';
+import { InMemoryBroadcastBackend } from './InMemoryBroadcastBackend';
+import { PostgresBroadcastBackend } from './PostgresBroadcastBackend';
+
+export function createBroadcastBackend(config: StreamingConfig): IBroadcastBackend {
+  switch (config.broadcastBackend) {
+    case 'postgres':
+      return new PostgresBroadcastBackend({
+        connectionString: config.postgres!.connectionString,
+        channel: config.postgres!.notifyChannel,
+      });
+    case 'memory':
+    default:
+      return new InMemoryBroadcastBackend();
+  }
+}
@@ -0,0 +1,68 @@
+// src/infrastructure/streaming/channels/ChatChannel.ts
+// Chat-specific SSE channel for streamed assistant responses
+
+import { SSEManager } from '../SSEManager';
+import { SSEEvent } from '@/core/ports/streaming/ISSEService';
+
+export interface ChatStreamData {
+  sessionId: string;
+  messageId: string;
+  content: string;
+  isComplete: boolean;
+}
+
+export interface ChatEventData {
+  type: 'chunk' | 'completed' | 'failed';
+  timestamp: Date;
+  data: ChatStreamData;
+}
+
+export class ChatChannel {
+  private static readonly CHANNEL_PREFIX = 'chat:';
+
+  constructor(private readonly sseManager: SSEManager) {}
+
+  getChannelName(sessionId: string): string {
+    return `${ChatChannel.CHANNEL_PREFIX}${sessionId}`;
+  }
+
+  async broadcastChunk(sessionId: string, data: ChatStreamData): Promise<void> {
+    const event: SSEEvent<ChatEventData> = {
+      event: 'chunk',
+      data: {
+        type: 'chunk',
+        timestamp: new Date(),
+        data,
+      },
+    };
+
+    await this.sseManager.broadcast(this.getChannelName(sessionId), event);
+  }
+
+  async broadcastCompleted(sessionId: string, data: ChatStreamData): Promise<void> {
+    const event: SSEEvent<ChatEventData> = {
+      event: 'completed',
+      data: {
+        type: 'completed',
+        timestamp: new Date(),
+        data,
+      },
+    };
+
+    await this.sseManager.broadcast(this.getChannelName(sessionId), event);
+  }
+
+  async broadcastFailed(sessionId: string, data: ChatStreamData, error?: string): Promise<void> {
+    const event: SSEEvent<ChatEventData & { error?: string }> = {
+      event: 'failed',
+      data: {
+        type: 'failed',
+        timestamp: new Date(),
+        data,
+        error,
+      },
+    };
+
+    await this.sseManager.broadcast(this.getChannelName(sessionId), event);
+  }
+}
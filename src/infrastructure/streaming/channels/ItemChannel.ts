@@ -3,6 +3,7 @@
 
 import { SSEManager } from '../SSEManager';
 import { SSEEvent } from '@/core/ports/streaming/ISSEService';
+import { ContentItem } from '@/core/domain/entities/ContentItem';
 
 export interface ItemProgressData {
   itemId: string;
@@ -23,7 +24,7 @@ export interface TextStreamData {
 }
 
 export interface ItemEventData {
-  type: 'progress' | 'text_stream' | 'completed' | 'failed';
+  type: 'snapshot' | 'progress' | 'text_stream' | 'completed' | 'failed';
   timestamp: Date;
   data: ItemProgressData | TextStreamData;
 }
@@ -33,10 +34,35 @@ export class ItemChannel {
 
   constructor(private readonly sseManager: SSEManager) {}
 
-  private getChannelName(itemId: string): string {
+  getChannelName(itemId: string): string {
     return `${ItemChannel.CHANNEL_PREFIX}${itemId}`;
   }
 
+  static toProgressData(item: ContentItem): ItemProgressData {
+    return {
+      itemId: item.id,
+      jobId: item.jobId,
+      status: item.status,
+      currentStep: item.currentStep,
+      progressPercentage: item.getProgressPercentage(),
+      generatedText: item.generatedText,
+      audioPath: item.finalAudioPath,
+      retryCount: item.retryCount,
+    };
+  }
+
+  // Current state sent to clients that connect or cannot resume (not broadcast, no id)
+  createSnapshot(item: ContentItem): SSEEvent<ItemEventData> {
+    return {
+      event: 'snapshot',
+      data: {
+        type: 'snapshot',
+        timestamp: new Date(),
+        data: ItemChannel.toProgressData(item),
+      },
+    };
+  }
+
   async broadcastProgress(itemId: string, data: ItemProgressData): Promise<void> {
     const event: SSEEvent<ItemEventData> = {
       event: 'progress',
@@ -3,6 +3,7 @@
 
 import { SSEManager } from '../SSEManager';
 import { SSEEvent } from '@/core/ports/streaming/ISSEService';
+import { Job } from '@/core/domain/entities/Job';
 
 export interface JobProgressData {
   jobId: string;
@@ -15,7 +16,7 @@ export interface JobProgressData {
 }
 
 export interface JobEventData {
-  type: 'progress' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'started';
+  type: 'snapshot' | 'progress' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'started';
   timestamp: Date;
   data: JobProgressData;
 }
@@ -25,10 +26,33 @@ export class JobChannel {
 
   constructor(private readonly sseManager: SSEManager) {}
 
-  private getChannelName(jobId: string): string {
+  getChannelName(jobId: string): string {
     return `${JobChannel.CHANNEL_PREFIX}${jobId}`;
   }
 
+  static toProgressData(job: Job): JobProgressData {
+    return {
+      jobId: job.id,
+      status: job.status,
+      progressPercentage: job.getProgressPercentage(),
+      completedItems: job.completedItems,
+      totalItems: job.totalItems,
+      failedItems: job.failedItems,
+    };
+  }
+
+  // Current state sent to clients that connect or cannot resume (not broadcast, no id)
+  createSnapshot(job: Job): SSEEvent<JobEventData> {
+    return {
+      event: 'snapshot',
+      data: {
+        type: 'snapshot',
+        timestamp: new Date(),
+        data: JobChannel.toProgressData(job),
+      },
+    };
+  }
+
   async broadcastProgress(jobId: string, data: JobProgressData): Promise<void> {
     const event: SSEEvent<JobEventData> = {
       event: 'progress',
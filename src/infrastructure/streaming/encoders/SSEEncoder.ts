@@ -0,0 +1,36 @@
+// src/infrastructure/streaming/encoders/SSEEncoder.ts
+// Serializes SSEEvents to the text/event-stream wire format
+
+import { SSEEvent } from '@/core/ports/streaming/ISSEService';
+
+export class SSEEncoder {
+  private readonly encoder = new TextEncoder();
+
+  encode<T>(event: SSEEvent<T>): Uint8Array {
+    return this.encoder.encode(this.format(event));
+  }
+
+  // Comment lines are ignored by EventSource: used as heartbeats
+  encodeComment(comment: string): Uint8Array {
+    return this.encoder.encode(`: ${comment}\n\n`);
+  }
+
+  encodeRetry(retryMs: number): Uint8Array {
+    return this.encoder.encode(`retry: ${retryMs}\n\n`);
+  }
+
+  format<T>(event: SSEEvent<T>): string {
+    const lines: string[] = [];
+
+    if (event.id !== undefined) lines.push(`id: ${event.id}`);
+    if (event.event) lines.push(`event: ${event.event}`);
+
+    const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+    // A data field cannot contain line breaks: one data line per line
+    for (const line of data.split(/\r\n|\r|\n/)) {
+      lines.push(`data: ${line}`);
+    }
+
+    return `${lines.join('\n')}\n\n`;
+  }
+}
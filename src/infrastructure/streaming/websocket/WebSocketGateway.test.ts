@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { WebSocketGateway, WebSocketGatewayDeps } from './WebSocketGateway';
+import { ServerMessage } from './WebSocketProtocol';
+import { SSEManager } from '../SSEManager';
+import { JobChannel } from '../channels/JobChannel';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+import { StreamingConfig } from '@/shared/config/streaming.config';
+
+const PORT = 40000 + (process.pid % 10000);
+
+const CONFIG: StreamingConfig = {
+  broadcastBackend: 'memory',
+  replayBufferSize: 10,
+  replayTtlMs: 60000,
+  heartbeatIntervalMs: 60000,
+  retryMs: 2000,
+  websocket: { port: PORT, path: '/ws', maxPayloadBytes: 65536 },
+};
+
+const job = (status = 'PROCESSING') => ({
+  id: 'job-1',
+  status,
+  completedItems: 1,
+  totalItems: 2,
+  failedItems: 0,
+  getProgressPercentage: () => 50,
+});
+
+// Buffers what the server sends so each test can await the next message
+class TestClient {
+  private readonly received: ServerMessage[] = [];
+  private waiting?: () => void;
+  readonly closed: Promise<number>;
+
+  constructor(readonly socket: WebSocket) {
+    socket.on('message', (data) => {
+      this.received.push(JSON.parse(data.toString()));
+      this.waiting?.();
+    });
+    this.closed = new Promise((resolve) => socket.on('close', (code) => resolve(code)));
+  }
+
+  static async connect(): Promise<TestClient> {
+    const socket = new WebSocket(`ws://localhost:${PORT}/ws`);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    return new TestClient(socket);
+  }
+
+  send(message: unknown): void {
+    this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  async next(): Promise<ServerMessage> {
+    while (this.received.length === 0) {
+      await new Promise<void>((resolve) => { this.waiting = resolve; });
+    }
+    return this.received.shift()!;
+  }
+}
+
+describe('WebSocketGateway', () => {
+  let sseManager: SSEManager;
+  let jobChannel: JobChannel;
+  let deps: WebSocketGatewayDeps;
+  let gateway: WebSocketGateway;
+  let clients: TestClient[];
+
+  const connect = async () => {
+    const client = await TestClient.connect();
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    sseManager = new SSEManager(CONFIG);
+    jobChannel = new JobChannel(sseManager);
+    deps = {
+      sseManager,
+      jobChannel,
+      jobRepository: { findById: vi.fn(async (id: string) => (id === 'job-1' ? job() : null)) },
+      pauseJob: { execute: vi.fn().mockResolvedValue({ success: true, jobId: 'job-1', status: 'PAUSED' }) },
+    } as unknown as WebSocketGatewayDeps;
+    gateway = new WebSocketGateway(deps, CONFIG);
+    clients = [];
+    await gateway.start();
+  });
+
+  afterEach(async () => {
+    for (const client of clients) client.socket.terminate();
+    await gateway.stop();
+  });
+
+  it('sends the job snapshot on subscribe, then the live events', async () => {
+    const client = await connect();
+
+    client.send({ type: 'subscribe', requestId: 'r1', channel: 'job:job-1' });
+
+    expect(await client.next()).toMatchObject({ type: 'event', channel: 'job:job-1', event: 'snapshot' });
+    expect(await client.next()).toEqual({ type: 'ack', requestId: 'r1', action: 'subscribe' });
+
+    await jobChannel.broadcastProgress('job-1', JobChannel.toProgressData(job() as never));
+    expect(await client.next()).toMatchObject({
+      type: 'event', channel: 'job:job-1', id: sseManager.getCursor(), event: 'progress',
+    });
+  });
+
+  it('resumes from lastEventId without a snapshot', async () => {
+    await jobChannel.broadcastProgress('job-1', JobChannel.toProgressData(job() as never));
+    const lastEventId = sseManager.getCursor();
+    await jobChannel.broadcastProgress('job-1', JobChannel.toProgressData(job('COMPLETED') as never));
+    const client = await connect();
+
+    client.send({ type: 'subscribe', channel: 'job:job-1', lastEventId });
+
+    const missed = await client.next();
+    expect(missed).toMatchObject({ type: 'event', id: sseManager.getCursor(), event: 'progress' });
+    expect(await client.next()).toMatchObject({ type: 'ack', action: 'subscribe' });
+  });
+
+  it('answers invalid requests with an error carrying the requestId', async () => {
+    const client = await connect();
+
+    client.send('{not json');
+    expect(await client.next()).toMatchObject({ type: 'error', code: ErrorCode.VALIDATION_ERROR });
+
+    client.send({ type: 'subscribe', requestId: 'r2', channel: 'jobs' });
+    expect(await client.next()).toMatchObject({
+      type: 'error', requestId: 'r2', action: 'subscribe', code: ErrorCode.VALIDATION_ERROR,
+    });
+
+    client.send({ type: 'subscribe', requestId: 'r3', channel: 'job:missing' });
+    expect(await client.next()).toMatchObject({ type: 'error', requestId: 'r3', code: ErrorCode.JOB_NOT_FOUND });
+  });
+
+  it('runs control messages and broadcasts the new state to every watcher', async () => {
+    const watcher = await connect();
+    watcher.send({ type: 'subscribe', channel: 'job:job-1' });
+    await watcher.next();
+    await watcher.next();
+    const controller = await connect();
+
+    controller.send({ type: 'pause_job', requestId: 'r4', jobId: 'job-1' });
+
+    expect(await controller.next()).toEqual({
+      type: 'ack', requestId: 'r4', action: 'pause_job', result: { jobId: 'job-1', status: 'PAUSED' },
+    });
+    expect(deps.pauseJob.execute).toHaveBeenCalledWith({ jobId: 'job-1' });
+    expect(await watcher.next()).toMatchObject({ type: 'event', channel: 'job:job-1', event: 'paused' });
+  });
+
+  it('drops the subscriptions of a closed connection', async () => {
+    const client = await connect();
+    client.send({ type: 'subscribe', channel: 'job:job-1' });
+    await client.next();
+    await client.next();
+    expect(sseManager.getSubscriberCount('job:job-1')).toBe(1);
+
+    client.socket.close();
+    await client.closed;
+    await vi.waitFor(() => expect(gateway.getConnectionCount()).toBe(0));
+
+    expect(sseManager.getSubscriberCount('job:job-1')).toBe(0);
+  });
+
+  it('tells clients the server is going away on stop', async () => {
+    const client = await connect();
+    await vi.waitFor(() => expect(gateway.getConnectionCount()).toBe(1));
+
+    await gateway.stop();
+
+    expect(await client.closed).toBe(1001);
+  });
+});
@@ -0,0 +1,305 @@
+// src/infrastructure/streaming/websocket/WebSocketGateway.ts
+// WebSocket transport alongside SSE: same channels (job/item/chat) and resume
+// semantics, plus control messages (pause, resume, cancel, retry item, chat input)
+// answered with an ack or an error carrying the client's requestId
+
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { z } from 'zod';
+import { SSEEvent } from '@/core/ports/streaming/ISSEService';
+import { UnsubscribeStreamFn } from '@/core/ports/streaming/IStreamManager';
+import { IJobRepository } from '@/core/ports/repositories/IJobRepository';
+import { IContentItemRepository } from '@/core/ports/repositories/IContentItemRepository';
+import { PauseJobUseCase } from '@/core/domain/use-cases/job/PauseJobUseCase';
+import { ResumeJobUseCase } from '@/core/domain/use-cases/job/ResumeJobUseCase';
+import { CancelJobUseCase } from '@/core/domain/use-cases/job/CancelJobUseCase';
+import { RetryJobUseCase } from '@/core/domain/use-cases/job/RetryJobUseCase';
+import { SendChatMessageUseCase } from '@/core/domain/use-cases/chat/SendChatMessageUseCase';
+import { AppError, ErrorCode } from '@/shared/utils/errors/AppError';
+import ErrorFactory from '@/shared/utils/errors/ErrorFactory';
+import { StreamingConfig, createStreamingConfig } from '@/shared/config/streaming.config';
+import { logger } from '@/shared/lib/logger';
+import { SSEManager } from '../SSEManager';
+import { JobChannel } from '../channels/JobChannel';
+import { ItemChannel } from '../channels/ItemChannel';
+import { ChatChannel } from '../channels/ChatChannel';
+import { ClientMessage, ClientMessageSchema, ClientMessageTypeSchema, ServerMessage } from './WebSocketProtocol';
+
+export interface WebSocketGatewayDeps {
+  sseManager: SSEManager;
+  jobChannel: JobChannel;
+  itemChannel: ItemChannel;
+  chatChannel: ChatChannel;
+  jobRepository: IJobRepository;
+  contentItemRepository: IContentItemRepository;
+  pauseJob: PauseJobUseCase;
+  resumeJob: ResumeJobUseCase;
+  cancelJob: CancelJobUseCase;
+  retryJob: RetryJobUseCase;
+  sendChatMessage: SendChatMessageUseCase;
+}
+
+type ConnectionState = {
+  subscriptions: Map<string, UnsubscribeStreamFn>;
+  // Reset by each pong: connections that miss a heartbeat are terminated
+  alive: boolean;
+};
+
+type ControlMessage = Exclude<ClientMessage, { type: 'subscribe' | 'unsubscribe' }>;
+
+export class WebSocketGateway {
+  private server?: WebSocketServer;
+  private heartbeat?: ReturnType<typeof setInterval>;
+  private readonly connections: Map<WebSocket, ConnectionState> = new Map();
+
+  constructor(
+    private readonly deps: WebSocketGatewayDeps,
+    private readonly config: StreamingConfig = createStreamingConfig()
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const { port, path, maxPayloadBytes } = this.config.websocket;
+    const server = new WebSocketServer({ port, path, maxPayload: maxPayloadBytes });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+
+    server.on('connection', (socket) => this.handleConnection(socket));
+    this.server = server;
+    this.heartbeat = setInterval(() => this.checkConnections(), this.config.heartbeatIntervalMs);
+
+    logger.info('WebSocket server listening', { port, path });
+  }
+
+  // Clients are told the server is going away and reconnect elsewhere
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+
+    for (const socket of this.connections.keys()) {
+      socket.close(1001, 'Server shutting down');
+      this.cleanup(socket);
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ConnectionState = { subscriptions: new Map(), alive: true };
+    this.connections.set(socket, state);
+
+    socket.on('pong', () => {
+      state.alive = true;
+    });
+    socket.on('message', (data) => void this.handleMessage(socket, state, data));
+    socket.on('close', () => this.cleanup(socket));
+    socket.on('error', (error) => {
+      logger.warn('WebSocket connection error', { error: error.message });
+      this.cleanup(socket);
+    });
+  }
+
+  private async handleMessage(socket: WebSocket, state: ConnectionState, data: RawData): Promise<void> {
+    let message: ClientMessage | undefined;
+    // What the client sent, so a request failing validation is still answered with its requestId
+    let raw: { requestId?: unknown; type?: unknown } | undefined;
+
+    try {
+      raw = JSON.parse(data.toString());
+      message = ClientMessageSchema.parse(raw);
+
+      switch (message.type) {
+        case 'subscribe':
+          await this.subscribe(socket, state, message);
+          break;
+        case 'unsubscribe':
+          state.subscriptions.get(message.channel)?.();
+          state.subscriptions.delete(message.channel);
+          break;
+        default:
+          this.send(socket, {
+            type: 'ack',
+            requestId: message.requestId,
+            action: message.type,
+            result: await this.execute(message),
+          });
+          return;
+      }
+
+      this.send(socket, { type: 'ack', requestId: message.requestId, action: message.type });
+    } catch (error) {
+      const requestId = message?.requestId ?? (typeof raw?.requestId === 'string' ? raw.requestId : undefined);
+      const action = message?.type ?? ClientMessageTypeSchema.safeParse(raw?.type).data;
+
+      this.send(socket, { type: 'error', requestId, action, ...this.toErrorBody(error) });
+    }
+  }
+
+  // Resumes from lastEventId when still buffered, otherwise sends the current state first
+  private async subscribe(
+    socket: WebSocket,
+    state: ConnectionState,
+    message: Extract<ClientMessage, { type: 'subscribe' }>
+  ): Promise<void> {
+    const { channel } = message;
+    const manager = this.deps.sseManager;
+
+    let cursor = message.lastEventId;
+    let snapshot: SSEEvent | null = null;
+
+    if (!cursor || !manager.canResume(channel, cursor)) {
+      cursor = manager.getCursor();
+      snapshot = await this.loadSnapshot(channel);
+    }
+
+    // Subscribing twice to a channel replaces the first subscription
+    state.subscriptions.get(channel)?.();
+
+    if (snapshot) {
+      this.send(socket, { type: 'event', channel, event: snapshot.event, data: snapshot.data });
+    }
+
+    const unsubscribe = manager.subscribe(
+      channel,
+      (event) => this.send(socket, { type: 'event', channel, id: event.id, event: event.event, data: event.data }),
+      { lastEventId: cursor }
+    );
+    state.subscriptions.set(channel, unsubscribe);
+  }
+
+  // Chat channels have no snapshot: the history comes from the chat routes
+  private async loadSnapshot(channel: string): Promise<SSEEvent | null> {
+    const [kind, id] = [channel.slice(0, channel.indexOf(':')), channel.slice(channel.indexOf(':') + 1)];
+
+    if (kind === 'job') {
+      const job = await this.deps.jobRepository.findById(id);
+      if (!job) throw ErrorFactory.jobNotFound(id);
+      return this.deps.jobChannel.createSnapshot(job);
+    }
+
+    if (kind === 'item') {
+      const item = await this.deps.contentItemRepository.findById(id);
+      if (!item) throw ErrorFactory.itemNotFound(id);
+      return this.deps.itemChannel.createSnapshot(item);
+    }
+
+    return null;
+  }
+
+  // The resulting state is also broadcast so every client watching the job sees it
+  private async execute(message: ControlMessage): Promise<unknown> {
+    const { jobChannel, itemChannel } = this.deps;
+
+    switch (message.type) {
+      case 'pause_job': {
+        const result = await this.deps.pauseJob.execute({ jobId: message.jobId });
+        const job = await this.deps.jobRepository.findById(message.jobId);
+        if (job) await jobChannel.broadcastJobPaused(job.id, JobChannel.toProgressData(job));
+        return { jobId: result.jobId, status: result.status };
+      }
+
+      case 'resume_job': {
+        const result = await this.deps.resumeJob.execute({ jobId: message.jobId });
+        const job = await this.deps.jobRepository.findById(message.jobId);
+        if (job) await jobChannel.broadcastProgress(job.id, JobChannel.toProgressData(job));
+        return { jobId: result.jobId, status: result.status };
+      }
+
+      case 'cancel_job': {
+        const { job, cancelledItemsCount } = await this.deps.cancelJob.execute({
+          jobId: message.jobId,
+          reason: message.reason,
+        });
+        await jobChannel.broadcastJobCancelled(job.id, JobChannel.toProgressData(job));
+        return { jobId: job.id, status: job.status, cancelledItemsCount };
+      }
+
+      case 'retry_item': {
+        const { job, retriedItemsCount } = await this.deps.retryJob.execute({
+          jobId: message.jobId,
+          retryFailedOnly: false,
+          itemIds: [message.itemId],
+        });
+        await jobChannel.broadcastProgress(job.id, JobChannel.toProgressData(job));
+        const item = await this.deps.contentItemRepository.findById(message.itemId);
+        if (item) await itemChannel.broadcastProgress(item.id, ItemChannel.toProgressData(item));
+        return { jobId: job.id, itemId: message.itemId, status: job.status, retriedItemsCount };
+      }
+
+      case 'send_chat_message': {
+        const { userMessage, assistantMessage } = await this.deps.sendChatMessage.execute({
+          sessionId: message.sessionId,
+          content: message.content,
+          role: 'user',
+        });
+        await this.deps.chatChannel.broadcastCompleted(message.sessionId, {
+          sessionId: message.sessionId,
+          messageId: assistantMessage.id,
+          content: assistantMessage.content,
+          isComplete: true,
+        });
+        return {
+          userMessageId: userMessage.id,
+          assistantMessageId: assistantMessage.id,
+          content: assistantMessage.content,
+        };
+      }
+    }
+  }
+
+  private toErrorBody(error: unknown): { code: string; message: string } {
+    if (error instanceof SyntaxError) {
+      return { code: ErrorCode.VALIDATION_ERROR, message: 'Message is not valid JSON' };
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: error.issues.map((issue) => `${issue.path.join('.') || 'message'}: ${issue.message}`).join('; '),
+      };
+    }
+    if (error instanceof AppError) {
+      return { code: error.code, message: error.message };
+    }
+
+    logger.error('WebSocket request failed', error instanceof Error ? error : undefined);
+    return { code: ErrorCode.UNKNOWN_ERROR, message: 'Internal error' };
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify(message));
+  }
+
+  private checkConnections(): void {
+    for (const [socket, state] of this.connections) {
+      if (!state.alive) {
+        socket.terminate();
+        this.cleanup(socket);
+        continue;
+      }
+      state.alive = false;
+      socket.ping();
+    }
+  }
+
+  private cleanup(socket: WebSocket): void {
+    const state = this.connections.get(socket);
+    if (!state) return;
+
+    for (const unsubscribe of state.subscriptions.values()) {
+      unsubscribe();
+    }
+    this.connections.delete(socket);
+  }
+}
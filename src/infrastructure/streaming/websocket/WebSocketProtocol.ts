@@ -0,0 +1,83 @@
+// src/infrastructure/streaming/websocket/WebSocketProtocol.ts
+// JSON messages exchanged over the WebSocket transport
+// Channels are the SSEManager ones: job:{id}, item:{id}, chat:{sessionId}
+
+import { z } from 'zod';
+
+const ChannelSchema = z.string().regex(/^(job|item|chat):.+$/, 'Expected job:{id}, item:{id} or chat:{sessionId}');
+
+// requestId is echoed in the ack/error so the client can match its request
+const RequestIdSchema = z.string().min(1).max(100).optional();
+
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('subscribe'),
+    requestId: RequestIdSchema,
+    channel: ChannelSchema,
+    // Same semantics as the SSE Last-Event-ID header
+    lastEventId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('unsubscribe'),
+    requestId: RequestIdSchema,
+    channel: ChannelSchema,
+  }),
+  z.object({
+    type: z.literal('pause_job'),
+    requestId: RequestIdSchema,
+    jobId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('resume_job'),
+    requestId: RequestIdSchema,
+    jobId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('cancel_job'),
+    requestId: RequestIdSchema,
+    jobId: z.string().min(1),
+    reason: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('retry_item'),
+    requestId: RequestIdSchema,
+    jobId: z.string().min(1),
+    itemId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('send_chat_message'),
+    requestId: RequestIdSchema,
+    sessionId: z.string().min(1),
+    content: z.string().min(1),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type ClientMessageType = ClientMessage['type'];
+
+export const ClientMessageTypeSchema = z.enum(
+  ClientMessageSchema.options.map((option) => option.shape.type.value) as [ClientMessageType, ...ClientMessageType[]]
+);
+
+export type ServerMessage =
+  | {
+      type: 'event';
+      channel: string;
+      // Absent on snapshots, like on SSE
+      id?: string;
+      event?: string;
+      data: unknown;
+    }
+  | {
+      type: 'ack';
+      requestId?: string;
+      action: ClientMessageType;
+      result?: unknown;
+    }
+  | {
+      type: 'error';
+      requestId?: string;
+      action?: ClientMessageType;
+      code: string;
+      message: string;
+    };
@@ -6,6 +6,7 @@
 import React from 'react';
 import { Job } from '@/core/domain/entities/Job';
 import { JobStatus } from '@/core/domain/value-objects/JobStatus';
+import { Priority, PriorityHelper } from '@/core/domain/value-objects/Priority';
 
 interface JobCardProps {
   job: any;
@@ -32,6 +33,19 @@ export function JobCard({ job, onClick }: JobCardProps) {
     }
   };
 
+  const getPriorityColor = (priority: Priority) => {
+    switch (priority) {
+      case Priority.LOW:
+        return 'bg-gray-100 text-gray-600';
+      case Priority.HIGH:
+        return 'bg-orange-200 text-orange-800';
+      case Priority.URGENT:
+        return 'bg-red-200 text-red-800';
+      default:
+        return 'bg-blue-100 text-blue-700';
+    }
+  };
+
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleString();
   };
@@ -43,13 +57,24 @@ export function JobCard({ job, onClick }: JobCardProps) {
     >
       <div className="flex justify-between items-start mb-2">
         <h3 className="text-lg font-semibold">{job.name}</h3>
-        <span
-          className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(
-            job.status
-          )}`}
-        >
-          {job.status}
-        </span>
+        <div className="flex gap-2">
+          {job.priority && job.priority !== Priority.NORMAL && (
+            <span
+              className={`px-2 py-1 rounded text-xs font-medium ${getPriorityColor(
+                job.priority
+              )}`}
+            >
+              {PriorityHelper.getLabel(job.priority)}
+            </span>
+          )}
+          <span
+            className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(
+              job.status
+            )}`}
+          >
+            {job.status}
+          </span>
+        </div>
       </div>
 
       <div className="space-y-2 text-sm text-gray-600">
@@ -5,18 +5,25 @@
 
 import React from 'react';
 import { useJobs } from '@/presentation/state/queries/useJobs';
+import { Priority } from '@/core/domain/value-objects/Priority';
 import { JobCard } from './JobCard';
 import { useRouter } from 'next/navigation';
 
 interface JobsListProps {
   status?: string;
+  priority?: string;
   limit?: number;
   offset?: number;
 }
 
-export function JobsList({ status, limit = 20, offset = 0 }: JobsListProps) {
+export function JobsList({ status, priority, limit = 20, offset = 0 }: JobsListProps) {
   const router = useRouter();
-  const { data, isLoading, error } = useJobs({ status: status as any, limit, offset });
+  const { data, isLoading, error } = useJobs({
+    status: status as any,
+    priority: priority as Priority | undefined,
+    limit,
+    offset,
+  });
 
   if (isLoading) {
     return (
@@ -4,9 +4,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Job } from '@/core/domain/entities/Job';
 import { JobStatus } from '@/core/domain/value-objects/JobStatus';
+import { Priority } from '@/core/domain/value-objects/Priority';
 
 interface JobListParams {
   status?: JobStatus;
+  priority?: Priority;
   limit?: number;
   offset?: number;
   order?: 'asc' | 'desc';
@@ -30,6 +32,7 @@ interface JobResponse {
 async function fetchJobs(params: JobListParams = {}): Promise<JobListResponse> {
   const searchParams = new URLSearchParams();
   if (params.status) searchParams.set('status', params.status);
+  if (params.priority) searchParams.set('priority', params.priority);
   if (params.limit) searchParams.set('limit', params.limit.toString());
   if (params.offset) searchParams.set('offset', params.offset.toString());
   if (params.order) searchParams.set('order', params.order);
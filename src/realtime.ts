@@ -0,0 +1,69 @@
+// src/realtime.ts
+// Standalone WebSocket server: job/item/chat events and control messages
+// Next.js route handlers cannot upgrade connections, so it runs beside the web app
+// (set SSE_BROADCAST_BACKEND=postgres so it receives the events of the other processes)
+// Usage: npm run realtime
+
+import { loadEnvConfig } from '@next/env';
+
+// Same .env files as the web app; must run before env.ts is imported
+loadEnvConfig(process.cwd());
+
+async function main(): Promise<void> {
+  const { logger } = await import('@/shared/lib/logger');
+  const { prisma, prismaShutdownHandler } = await import('@/shared/lib/prisma');
+  const { serviceProvider } = await import('@/infrastructure/di/ServiceProvider');
+  const { container } = await import('@/infrastructure/di/Container');
+  const { WebSocketGateway } = await import('@/infrastructure/streaming/websocket/WebSocketGateway');
+
+  // prisma.ts exits on the first signal; connections are closed first
+  process.off('SIGINT', prismaShutdownHandler);
+  process.off('SIGTERM', prismaShutdownHandler);
+
+  await serviceProvider.initialize();
+
+  const gateway = new WebSocketGateway({
+    sseManager: container.get('SSEManager'),
+    jobChannel: container.get('JobChannel'),
+    itemChannel: container.get('ItemChannel'),
+    chatChannel: container.get('ChatChannel'),
+    jobRepository: container.get('IJobRepository'),
+    contentItemRepository: container.get('IContentItemRepository'),
+    pauseJob: container.get('PauseJobUseCase'),
+    resumeJob: container.get('ResumeJobUseCase'),
+    cancelJob: container.get('CancelJobUseCase'),
+    retryJob: container.get('RetryJobUseCase'),
+    sendChatMessage: container.get('SendChatMessageUseCase'),
+  });
+  await gateway.start();
+
+  logger.info('Realtime process started', { pid: process.pid });
+
+  let shuttingDown = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    logger.info('Shutdown requested, closing WebSocket connections', {
+      signal,
+      connections: gateway.getConnectionCount(),
+    });
+
+    await gateway.stop();
+    await serviceProvider.shutdown();
+    await prisma.$disconnect();
+    logger.info('Realtime process stopped');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', (signal) => void shutdown(signal));
+  process.on('SIGINT', (signal) => void shutdown(signal));
+}
+
+main().catch((error) => {
+  console.error('❌ Realtime server failed to start:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,123 @@
+// src/shared/config/ai.config.ts
+// LLM provider configuration (default providers, API keys, default models, fallback chain,
+// Mistral response cleanup)
+// Used by createAIServices; jobs and templates may pick another configured provider/model
+
+import { envConfig } from './env';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+export type AIProviderName = 'anthropic' | 'mistral' | 'fake';
+
+// Errors worth retrying on another model; client errors (bad prompt, invalid key) are not
+export type AIFallbackErrorClass = 'rate_limit' | 'server_error' | 'timeout';
+
+// Cleanup applied to Mistral scripts before they reach TTS (see mistral/ResponseParser)
+export type AIResponseCleanupRule = 'structure' | 'preambles' | 'stage_directions' | 'markdown' | 'emojis';
+
+// Checks that reject a script as an item error instead of sending it to TTS
+export type AIResponseCheck = 'refusal' | 'truncated';
+
+export interface AIResponseParserConfig {
+  cleanup: AIResponseCleanupRule[];
+  checks: AIResponseCheck[];
+}
+
+export interface AIFallbackTarget {
+  provider: string;
+  // The provider's default model when unset
+  model?: string;
+}
+
+export interface AIConfig {
+  defaultProvider: AIProviderName;
+  // Mistral only implements text generation: chat goes to Anthropic unless AI_CHAT_PROVIDER says otherwise
+  chatProvider: AIProviderName;
+  anthropic?: {
+    apiKey: string;
+    defaultModel: string;
+  };
+  mistral?: {
+    apiKey: string;
+    responseParser: AIResponseParserConfig;
+  };
+  fallbackChain: AIFallbackTarget[];
+  fallbackOn: AIFallbackErrorClass[];
+}
+
+const FALLBACK_ERROR_CLASSES: AIFallbackErrorClass[] = ['rate_limit', 'server_error', 'timeout'];
+const RESPONSE_CLEANUP_RULES: AIResponseCleanupRule[] = ['structure', 'preambles', 'stage_directions', 'markdown', 'emojis'];
+const RESPONSE_CHECKS: AIResponseCheck[] = ['refusal', 'truncated'];
+
+// Parses "provider[:model],provider[:model]" into fallback targets (models may contain ":")
+export function parseAIFallbackChain(value: string | undefined): AIFallbackTarget[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator === 0 || separator === entry.length - 1) {
+        throw ErrorFactory.invalidConfig('AI_FALLBACK_CHAIN', `invalid entry '${entry}', expected provider[:model]`);
+      }
+      return separator < 0
+        ? { provider: entry }
+        : { provider: entry.slice(0, separator).trim(), model: entry.slice(separator + 1).trim() };
+    });
+}
+
+function parseFallbackErrorClasses(value: string): AIFallbackErrorClass[] {
+  const classes = value.split(',').map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+  const unknown = classes.filter((entry) => !FALLBACK_ERROR_CLASSES.includes(entry as AIFallbackErrorClass));
+  if (unknown.length > 0) {
+    throw ErrorFactory.invalidConfig('AI_FALLBACK_ON', `unknown error classes ${unknown.join(', ')}, expected ${FALLBACK_ERROR_CLASSES.join(', ')}`);
+  }
+  return classes as AIFallbackErrorClass[];
+}
+
+function parseOptionList<T extends string>(key: string, value: string, allowed: T[]): T[] {
+  const entries = value.split(',').map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+  const unknown = entries.filter((entry) => !allowed.includes(entry as T));
+  if (unknown.length > 0) {
+    throw ErrorFactory.invalidConfig(key, `unknown values ${unknown.join(', ')}, expected ${allowed.join(', ')}`);
+  }
+  return entries as T[];
+}
+
+export function createAIConfig(): AIConfig {
+  const env = envConfig.getConfig();
+  const chatProvider = env.AI_CHAT_PROVIDER ?? (env.AI_PROVIDER === 'mistral' ? 'anthropic' : env.AI_PROVIDER);
+
+  if (env.AI_PROVIDER === 'mistral' && !env.MISTRAL_API_KEY) {
+    throw ErrorFactory.invalidConfig('MISTRAL_API_KEY', 'required when AI_PROVIDER=mistral');
+  }
+  if (env.AI_PROVIDER === 'anthropic' && !env.ANTHROPIC_API_KEY) {
+    throw ErrorFactory.invalidConfig('ANTHROPIC_API_KEY', 'required when AI_PROVIDER=anthropic');
+  }
+  if (env.AI_CHAT_PROVIDER === 'anthropic' && !env.ANTHROPIC_API_KEY) {
+    throw ErrorFactory.invalidConfig('ANTHROPIC_API_KEY', 'required when AI_CHAT_PROVIDER=anthropic');
+  }
+
+  return {
+    defaultProvider: env.AI_PROVIDER,
+    chatProvider,
+    anthropic: env.ANTHROPIC_API_KEY
+      ? {
+          apiKey: env.ANTHROPIC_API_KEY,
+          defaultModel: env.ANTHROPIC_MODEL,
+        }
+      : undefined,
+    mistral: env.MISTRAL_API_KEY
+      ? {
+          apiKey: env.MISTRAL_API_KEY,
+          responseParser: {
+            cleanup: parseOptionList('MISTRAL_RESPONSE_CLEANUP', env.MISTRAL_RESPONSE_CLEANUP, RESPONSE_CLEANUP_RULES),
+            checks: parseOptionList('MISTRAL_RESPONSE_CHECKS', env.MISTRAL_RESPONSE_CHECKS, RESPONSE_CHECKS),
+          },
+        }
+      : undefined,
+    fallbackChain: parseAIFallbackChain(env.AI_FALLBACK_CHAIN),
+    fallbackOn: parseFallbackErrorClasses(env.AI_FALLBACK_ON),
+  };
+}
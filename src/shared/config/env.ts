@@ -10,10 +10,40 @@ const EnvSchema = z.object({
   DATABASE_URL: z.string().url().describe('PostgreSQL database connection URL'),
   
   // AI Service API Keys
-  ELEVENLABS_API_KEY: z.string().min(1).describe('ElevenLabs API key for TTS'),
+  ELEVENLABS_API_KEY: z.string().min(1).optional().describe('ElevenLabs API key for TTS'),
   ANTHROPIC_API_KEY: z.string().min(1).optional().describe('Anthropic API key for text generation'),
   MISTRAL_API_KEY: z.string().min(1).optional().describe('Mistral API key for text generation'),
-  
+  AI_PROVIDER: z.enum(['mistral', 'anthropic', 'fake']).default('mistral'),
+  AI_CHAT_PROVIDER: z.enum(['anthropic', 'fake']).optional().describe('Chat provider (defaults to AI_PROVIDER, or anthropic when it is mistral)'),
+  ANTHROPIC_MODEL: z.string().default('claude-sonnet-4-5'),
+  AI_FALLBACK_CHAIN: z.string().optional().describe('Comma-separated provider[:model] tried in order when a text generation fails (e.g. "mistral:mistral-small-latest,anthropic")'),
+  AI_FALLBACK_ON: z.string().default('rate_limit,server_error,timeout').describe('Error classes that move on to the next fallback (rate_limit, server_error, timeout)'),
+  MISTRAL_RESPONSE_CLEANUP: z.string().default('structure,preambles,stage_directions,markdown,emojis').describe('Comma-separated cleanup rules applied to Mistral scripts (structure, preambles, stage_directions, markdown, emojis); empty keeps the response as returned'),
+  MISTRAL_RESPONSE_CHECKS: z.string().default('refusal,truncated').describe('Comma-separated checks that fail the item on a suspicious Mistral script (refusal, truncated)'),
+  
+  // TTS Providers
+  TTS_DEFAULT_PROVIDER: z.enum(['elevenlabs', 'inworld', 'openai', 'local', 'fake']).default('elevenlabs'),
+  TTS_FALLBACK_CHAIN: z.string().optional().describe('Comma-separated provider:voiceId fallbacks (e.g. "openai:alloy,local:fr_FR-siwis-medium")'),
+  INWORLD_API_KEY: z.string().min(1).optional().describe('Inworld API key (Basic auth credentials)'),
+  INWORLD_TTS_MODEL: z.string().default('inworld-tts-1'),
+  OPENAI_TTS_API_KEY: z.string().min(1).optional().describe('API key for an OpenAI-compatible /audio/speech endpoint'),
+  OPENAI_TTS_BASE_URL: z.string().url().default('https://api.openai.com/v1'),
+  OPENAI_TTS_MODEL: z.string().default('tts-1'),
+  LOCAL_TTS_ENGINE: z.enum(['piper', 'espeak']).optional().describe('Local TTS binary to use (disabled when unset)'),
+  LOCAL_TTS_BINARY_PATH: z.string().optional(),
+  LOCAL_TTS_MODELS_DIR: z.string().default('./models/piper'),
+  FFPROBE_PATH: z.string().default('ffprobe').describe('Measures generated chunk audio for caption timing (WAV is read directly)'),
+  TTS_TEXT_NORMALIZATION: z.enum(['true', 'false']).default('true').transform((value) => value === 'true').describe('Spell out numbers, dates, currencies, units and abbreviations before chunking'),
+  TTS_ABBREVIATIONS: z.string().optional().describe('Comma-separated [language:]abbreviation=expansion entries added to the built-in ones (e.g. "fr:CA=chiffre d\'affaires,en:CEO=chief executive officer")'),
+
+  // Offline fake services (AI_PROVIDER=fake / TTS_DEFAULT_PROVIDER=fake)
+  FAKE_SEED: z.coerce.number().int().default(42),
+  FAKE_LATENCY_MS: z.coerce.number().int().min(0).default(0),
+  FAKE_RATE_LIMIT_RATE: z.coerce.number().min(0).max(1).default(0),
+  FAKE_TIMEOUT_RATE: z.coerce.number().min(0).max(1).default(0),
+  FAKE_MALFORMED_RATE: z.coerce.number().min(0).max(1).default(0),
+  FAKE_RETRY_AFTER_SECONDS: z.coerce.number().int().min(0).default(1),
+
   // Application Configuration
   APP_ENV: z.enum(['development', 'production', 'test']).default('development'),
   APP_PORT: z.coerce.number().default(3000),
@@ -23,9 +53,31 @@ const EnvSchema = z.object({
   STORAGE_DIR: z.string().default('./storage'),
   AUDIO_STORAGE_DIR: z.string().default('./storage/audio'),
   MAX_STORAGE_SIZE_MB: z.coerce.number().default(1024),
+  STORAGE_BACKEND: z.enum(['local', 's3']).default('local'),
+  STORAGE_SIGNING_SECRET: z.string().min(32).optional().describe('Signs local download URLs (falls back to SESSION_SECRET)'),
+  STORAGE_URL_TTL_SECONDS: z.coerce.number().int().min(60).default(604800).describe('Lifetime of signed download URLs'),
+  S3_ENDPOINT: z.string().url().optional().describe('S3-compatible endpoint (R2: https://<account>.r2.cloudflarestorage.com, MinIO: http://localhost:9000)'),
+  S3_REGION: z.string().min(1).default('auto').describe('"auto" for R2, "us-east-1" for MinIO'),
+  S3_BUCKET: z.string().min(1).optional(),
+  S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+  S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('true').transform((value) => value === 'true').describe('endpoint/bucket/key URLs (MinIO) instead of bucket.endpoint/key'),
+  S3_PUBLIC_URL: z.string().url().optional().describe('Public bucket domain: when set, public URLs are unsigned'),
+  S3_MULTIPART_PART_SIZE_MB: z.coerce.number().int().min(5).max(5120).default(8).describe('Streams larger than one part are sent as a multipart upload'),
+  S3_MULTIPART_CONCURRENCY: z.coerce.number().int().min(1).default(4).describe('Parts uploaded in parallel'),
+  STORAGE_GC_ENABLED: z.enum(['true', 'false']).default('true').transform((value) => value === 'true').describe('Periodic storage GC in the worker process'),
+  STORAGE_GC_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(360),
+  STORAGE_GC_GRACE_HOURS: z.coerce.number().min(0).default(24).describe('Unreferenced objects younger than this are kept (uploads not yet saved, exports in progress)'),
+  STORAGE_GC_PREFIXES: z.string().default('audio/,output/,uploads/').describe('Comma-separated key prefixes holding chunk, merged and uploaded audio (every finalAudioPath must fall under one)'),
+  STORAGE_GC_DROP_MERGED_CHUNKS: z.enum(['true', 'false']).default('false').transform((value) => value === 'true').describe('Delete chunk files of merged items (chunk audio then leaves exports)'),
   
   // Rate Limiting
   API_RATE_LIMIT: z.coerce.number().default(100),
+  RATE_LIMIT_REQUESTS_PER_MINUTE: z.string().optional().describe('Comma-separated provider:requests per minute (e.g. "elevenlabs:100,mistral:60")'),
+  RATE_LIMIT_CHARACTERS_PER_MINUTE: z.string().optional().describe('Comma-separated provider:characters per minute for TTS providers'),
+  RATE_LIMIT_TOKENS_PER_MINUTE: z.string().optional().describe('Comma-separated provider:tokens per minute for LLM providers'),
+  RATE_LIMIT_MAX_CONCURRENT: z.string().optional().describe('Comma-separated provider:max concurrent requests (e.g. "elevenlabs:3")'),
+  RATE_LIMIT_DEFAULT_BACKOFF_MS: z.coerce.number().int().min(0).default(30000).describe('Backoff when a 429 has no Retry-After'),
   
   // Security
   JWT_SECRET: z.string().min(32).optional(),
@@ -35,13 +87,43 @@ const EnvSchema = z.object({
   ENABLE_AUDIO_GENERATION: z.coerce.boolean().default(true),
   ENABLE_TEXT_GENERATION: z.coerce.boolean().default(true),
   ENABLE_CHAT_INTERFACE: z.coerce.boolean().default(true),
+  EVENT_STORE_ENABLED: z.enum(['true', 'false']).default('true').transform((value) => value === 'true').describe('Persist every domain event for replay'),
   
   // Logging
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   
   // Queue Configuration
   QUEUE_CONCURRENCY: z.coerce.number().default(5),
+  QUEUE_CONCURRENCY_OVERRIDES: z.string().optional().describe('Comma-separated queue:concurrency overrides (e.g. "audio-generation:2,upload:1")'),
+  QUEUE_POLL_INTERVAL_MS: z.coerce.number().int().min(10).default(1000),
+  WORKER_DRAIN_TIMEOUT_MS: z.coerce.number().int().min(0).default(25000).describe('Max time to wait for in-flight jobs on SIGTERM'),
   MAX_RETRIES: z.coerce.number().default(3),
+  RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(1000).describe('Delay before the first retry'),
+  RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(300000).describe('Upper bound of the exponential backoff'),
+  RETRY_MULTIPLIER: z.coerce.number().min(1).default(2),
+  RETRY_JITTER: z.coerce.number().min(0).max(1).default(0.2).describe('Fraction of each retry delay that is randomized'),
+  QUEUE_BACKEND: z.enum(['memory', 'redis', 'postgres']).default('memory').describe('memory runs the workers inside the web process; the worker process needs redis or postgres'),
+  QUEUE_VISIBILITY_TIMEOUT_MS: z.coerce.number().int().min(1000).default(300000),
+  QUEUE_KEY_PREFIX: z.string().default('audiogen:queue'),
+  REDIS_URL: z.string().url().optional().describe('Redis connection URL (required when QUEUE_BACKEND=redis)'),
+
+  // Streaming (SSE)
+  SSE_REPLAY_BUFFER_SIZE: z.coerce.number().int().min(0).default(200).describe('Events kept per channel for Last-Event-ID resume'),
+  SSE_REPLAY_TTL_MS: z.coerce.number().int().min(0).default(3600000).describe('Replay buffers of channels idle for longer are dropped'),
+  SSE_HEARTBEAT_INTERVAL_MS: z.coerce.number().int().min(1000).default(15000),
+  SSE_RETRY_MS: z.coerce.number().int().min(0).default(3000).describe('Reconnection delay advertised to EventSource clients'),
+  SSE_BROADCAST_BACKEND: z.enum(['memory', 'postgres']).default('memory').describe('postgres fans events out to every process (workers, web instances)'),
+  SSE_NOTIFY_CHANNEL: z.string().regex(/^[a-z_][a-z0-9_]*$/).default('audiogen_sse'),
+  WS_PORT: z.coerce.number().int().min(1).max(65535).default(3001).describe('Port of the WebSocket server (npm run realtime)'),
+  WS_PATH: z.string().startsWith('/').default('/ws'),
+  WS_MAX_PAYLOAD_BYTES: z.coerce.number().int().min(1024).default(65536).describe('Largest accepted client message'),
+
+  // Podcast feeds (RSS 2.0 + iTunes tags)
+  PODCAST_IMAGE_URL: z.string().url().optional().describe('Cover art (1400 to 3000 px square) required by Apple Podcasts'),
+  PODCAST_CATEGORY: z.string().default('Education'),
+  PODCAST_OWNER_EMAIL: z.string().email().optional(),
+  PODCAST_EXPLICIT: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  PODCAST_MAX_EPISODES: z.coerce.number().int().min(1).default(300).describe('Most recent episodes kept in the channel feed'),
 });
 
 // Type for the validated environment variables
@@ -97,7 +179,7 @@ class EnvironmentConfig {
     return this.config.DATABASE_URL;
   }
   
-  public getElevenLabsApiKey(): string {
+  public getElevenLabsApiKey(): string | undefined {
     return this.config.ELEVENLABS_API_KEY;
   }
   
@@ -0,0 +1,35 @@
+// src/shared/config/fake.config.ts
+// Configuration for the offline fake AI/TTS services (deterministic output + fault injection)
+
+import { envConfig } from './env';
+
+export interface FakeServicesConfig {
+  seed: number;
+  latencyMs: number;
+  retryAfterSeconds: number;
+  // Probability (0-1) of each simulated failure per call
+  faults: {
+    rateLimit: number;
+    timeout: number;
+    malformed: number;
+  };
+}
+
+export function createFakeServicesConfig(): FakeServicesConfig {
+  const env = envConfig.getConfig();
+
+  return {
+    seed: env.FAKE_SEED,
+    latencyMs: env.FAKE_LATENCY_MS,
+    retryAfterSeconds: env.FAKE_RETRY_AFTER_SECONDS,
+    faults: {
+      rateLimit: env.FAKE_RATE_LIMIT_RATE,
+      timeout: env.FAKE_TIMEOUT_RATE,
+      malformed: env.FAKE_MALFORMED_RATE,
+    },
+  };
+}
+
+export function isFakeAIEnabled(): boolean {
+  return envConfig.getConfig().AI_PROVIDER === 'fake';
+}
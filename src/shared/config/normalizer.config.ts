@@ -0,0 +1,48 @@
+// src/shared/config/normalizer.config.ts
+// Spoken-form text normalization before TTS (on/off, extra abbreviations per language)
+// Used by TextNormalizer; the language is the channel's (UserSettings.channelLanguage)
+
+import { envConfig } from './env';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+// Abbreviations of every language are stored under this key
+export const ALL_LANGUAGES = '*';
+
+export interface TextNormalizerConfig {
+  enabled: boolean;
+  // language → abbreviation → expansion, added to (and overriding) the built-in ones
+  abbreviations: Record<string, Record<string, string>>;
+}
+
+// Parses "[language:]abbreviation=expansion,..."; the language prefix is a 2-letter code
+export function parseAbbreviations(value: string | undefined): Record<string, Record<string, string>> {
+  const abbreviations: Record<string, Record<string, string>> = {};
+  if (!value) return abbreviations;
+
+  for (const entry of value.split(',').map((item) => item.trim()).filter((item) => item.length > 0)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw ErrorFactory.invalidConfig('TTS_ABBREVIATIONS', `invalid entry '${entry}', expected [language:]abbreviation=expansion`);
+    }
+
+    const prefixed = /^([a-z]{2}):(.+)$/.exec(entry.slice(0, separator).trim());
+    const language = prefixed ? prefixed[1] : ALL_LANGUAGES;
+    const abbreviation = prefixed ? prefixed[2] : entry.slice(0, separator).trim();
+
+    abbreviations[language] = {
+      ...abbreviations[language],
+      [abbreviation]: entry.slice(separator + 1).trim(),
+    };
+  }
+
+  return abbreviations;
+}
+
+export function createTextNormalizerConfig(): TextNormalizerConfig {
+  const env = envConfig.getConfig();
+
+  return {
+    enabled: env.TTS_TEXT_NORMALIZATION,
+    abbreviations: parseAbbreviations(env.TTS_ABBREVIATIONS),
+  };
+}
@@ -0,0 +1,28 @@
+// src/shared/config/podcast.config.ts
+// Podcast feed configuration (channel artwork, iTunes category, episode cap)
+// Used by GeneratePodcastFeedUseCase; titles and descriptions come from UserSettings
+
+import { envConfig } from './env';
+
+export interface PodcastConfig {
+  // Prefix of the feed and enclosure links (the episode route redirects to the storage)
+  baseUrl: string;
+  imageUrl?: string;
+  category: string;
+  ownerEmail?: string;
+  explicit: boolean;
+  maxEpisodes: number;
+}
+
+export function createPodcastConfig(): PodcastConfig {
+  const env = envConfig.getConfig();
+
+  return {
+    baseUrl: env.APP_BASE_URL,
+    imageUrl: env.PODCAST_IMAGE_URL,
+    category: env.PODCAST_CATEGORY,
+    ownerEmail: env.PODCAST_OWNER_EMAIL,
+    explicit: env.PODCAST_EXPLICIT,
+    maxEpisodes: env.PODCAST_MAX_EPISODES,
+  };
+}
@@ -0,0 +1,66 @@
+// src/shared/config/queue.config.ts
+// Queue backend configuration (in-memory for dev/tests, Redis or Postgres for durable queues)
+// Used by the QueueManager
+
+import { envConfig } from './env';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+export type QueueBackend = 'memory' | 'redis' | 'postgres';
+
+export interface QueueConfig {
+  backend: QueueBackend;
+  // Workers per queue (QUEUE_CONCURRENCY), with per-queue overrides
+  concurrency: number;
+  concurrencyOverrides: Record<string, number>;
+  // Idle delay between two dequeue attempts on an empty queue
+  pollIntervalMs: number;
+  // How long a dequeued job stays invisible before another worker may reclaim it
+  visibilityTimeoutMs: number;
+  redis?: {
+    url: string;
+    keyPrefix: string;
+  };
+}
+
+// Parses "queue:concurrency,queue:concurrency" into a lookup table
+export function parseConcurrencyOverrides(value: string | undefined): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  if (!value) return overrides;
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter((e) => e.length > 0)) {
+    const [queue, raw] = entry.split(':').map((part) => part.trim());
+    const concurrency = Number(raw);
+    if (!queue || !Number.isInteger(concurrency) || concurrency < 1) {
+      throw ErrorFactory.invalidConfig(
+        'QUEUE_CONCURRENCY_OVERRIDES',
+        `invalid entry '${entry}', expected queue:concurrency`
+      );
+    }
+    overrides[queue] = concurrency;
+  }
+
+  return overrides;
+}
+
+export function getQueueConcurrency(config: QueueConfig, queueName: string): number {
+  return config.concurrencyOverrides[queueName] ?? config.concurrency;
+}
+
+export function createQueueConfig(): QueueConfig {
+  const env = envConfig.getConfig();
+
+  if (env.QUEUE_BACKEND === 'redis' && !env.REDIS_URL) {
+    throw ErrorFactory.invalidConfig('REDIS_URL', 'required when QUEUE_BACKEND=redis');
+  }
+
+  return {
+    backend: env.QUEUE_BACKEND,
+    concurrency: env.QUEUE_CONCURRENCY,
+    concurrencyOverrides: parseConcurrencyOverrides(env.QUEUE_CONCURRENCY_OVERRIDES),
+    pollIntervalMs: env.QUEUE_POLL_INTERVAL_MS,
+    visibilityTimeoutMs: env.QUEUE_VISIBILITY_TIMEOUT_MS,
+    redis: env.REDIS_URL
+      ? { url: env.REDIS_URL, keyPrefix: env.QUEUE_KEY_PREFIX }
+      : undefined,
+  };
+}
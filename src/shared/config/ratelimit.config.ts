@@ -0,0 +1,71 @@
+// src/shared/config/ratelimit.config.ts
+// Per-provider rate limits (requests, characters, tokens, concurrency)
+// Used by the RateLimitStrategy shared by the AI/TTS services and the workers
+
+import { envConfig } from './env';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+export interface ProviderRateLimit {
+  requestsPerMinute?: number;
+  // TTS providers bill (and throttle) on characters
+  charactersPerMinute?: number;
+  // LLM providers throttle on prompt + completion tokens
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
+}
+
+export interface RateLimitConfig {
+  providers: Record<string, ProviderRateLimit>;
+  // Used when a 429 carries no Retry-After
+  defaultBackoffMs: number;
+}
+
+// Conservative defaults matching the entry-level plans; override through env
+const DEFAULT_PROVIDER_LIMITS: Record<string, ProviderRateLimit> = {
+  elevenlabs: { maxConcurrent: 2 },
+  mistral: { requestsPerMinute: 60 },
+};
+
+// Parses "provider:value,provider:value" into a lookup table
+function parseProviderLimits(key: string, value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  if (!value) return limits;
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter((e) => e.length > 0)) {
+    const [provider, raw] = entry.split(':').map((part) => part.trim());
+    const limit = Number(raw);
+    if (!provider || !Number.isInteger(limit) || limit < 1) {
+      throw ErrorFactory.invalidConfig(key, `invalid entry '${entry}', expected provider:limit`);
+    }
+    limits[provider] = limit;
+  }
+
+  return limits;
+}
+
+export function createRateLimitConfig(): RateLimitConfig {
+  const env = envConfig.getConfig();
+
+  const providers: Record<string, ProviderRateLimit> = {};
+  for (const [provider, limit] of Object.entries(DEFAULT_PROVIDER_LIMITS)) {
+    providers[provider] = { ...limit };
+  }
+
+  const overrides: [keyof ProviderRateLimit, string, string | undefined][] = [
+    ['requestsPerMinute', 'RATE_LIMIT_REQUESTS_PER_MINUTE', env.RATE_LIMIT_REQUESTS_PER_MINUTE],
+    ['charactersPerMinute', 'RATE_LIMIT_CHARACTERS_PER_MINUTE', env.RATE_LIMIT_CHARACTERS_PER_MINUTE],
+    ['tokensPerMinute', 'RATE_LIMIT_TOKENS_PER_MINUTE', env.RATE_LIMIT_TOKENS_PER_MINUTE],
+    ['maxConcurrent', 'RATE_LIMIT_MAX_CONCURRENT', env.RATE_LIMIT_MAX_CONCURRENT],
+  ];
+
+  for (const [field, key, value] of overrides) {
+    for (const [provider, limit] of Object.entries(parseProviderLimits(key, value))) {
+      providers[provider] = { ...providers[provider], [field]: limit };
+    }
+  }
+
+  return {
+    providers,
+    defaultBackoffMs: env.RATE_LIMIT_DEFAULT_BACKOFF_MS,
+  };
+}
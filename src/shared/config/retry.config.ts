@@ -0,0 +1,81 @@
+// src/shared/config/retry.config.ts
+// Retry policies (attempts, exponential backoff, jitter) keyed by pipeline step and error code
+// Used by the RetryStrategy shared by the queue workers and the error recovery services
+
+import { envConfig } from './env';
+import { ErrorCode } from '@/shared/utils/errors/AppError';
+
+export interface RetryPolicy {
+  // Total attempts, the first run included
+  maxAttempts: number;
+  baseDelayMs: number;
+  multiplier: number;
+  maxDelayMs: number;
+  // Fraction of each delay that is randomized (0 = fixed, 1 = full jitter)
+  jitter: number;
+  // Never retry a rate-limited call before the provider's Retry-After
+  honorRetryAfter: boolean;
+}
+
+export interface RetryConfig {
+  defaultPolicy: RetryPolicy;
+  // Keyed by PipelineStep; error code policies are applied on top
+  byStep: Record<string, Partial<RetryPolicy>>;
+  byErrorCode: Partial<Record<ErrorCode, Partial<RetryPolicy>>>;
+  // Errors a retry cannot fix: the job fails on the first occurrence
+  nonRetryableCodes: ErrorCode[];
+}
+
+const DEFAULT_STEP_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  TEXT_GENERATION: { baseDelayMs: 2000 },
+  AUDIO_GENERATION: { baseDelayMs: 2000 },
+  UPLOAD: { maxAttempts: 5 },
+};
+
+const DEFAULT_ERROR_CODE_POLICIES: Partial<Record<ErrorCode, Partial<RetryPolicy>>> = {
+  [ErrorCode.RATE_LIMIT]: { maxAttempts: 6, baseDelayMs: 5000, maxDelayMs: 120000 },
+  [ErrorCode.SERVICE_UNAVAILABLE]: { maxAttempts: 5, baseDelayMs: 5000 },
+  [ErrorCode.TIMEOUT]: { multiplier: 1.5 },
+  [ErrorCode.DATABASE_ERROR]: { maxAttempts: 5, baseDelayMs: 500, maxDelayMs: 10000 },
+};
+
+const DEFAULT_NON_RETRYABLE_CODES: ErrorCode[] = [
+  ErrorCode.INVALID_API_KEY,
+  ErrorCode.VOICE_NOT_FOUND,
+  ErrorCode.UNAUTHORIZED,
+  ErrorCode.FORBIDDEN,
+  ErrorCode.VALIDATION_ERROR,
+  ErrorCode.NOT_FOUND,
+  ErrorCode.JOB_NOT_FOUND,
+  ErrorCode.ITEM_NOT_FOUND,
+  ErrorCode.JOB_ALREADY_COMPLETED,
+  ErrorCode.INVALID_STATE,
+  ErrorCode.INVALID_STEP,
+  ErrorCode.DUPLICATE_ERROR,
+  ErrorCode.FILE_TOO_LARGE,
+  ErrorCode.STORAGE_QUOTA_EXCEEDED,
+  ErrorCode.INVALID_FILE_TYPE,
+  ErrorCode.CSV_PARSE_ERROR,
+  ErrorCode.INVALID_CSV_FORMAT,
+  ErrorCode.MISSING_REQUIRED_COLUMN,
+  ErrorCode.MISSING_CONFIG,
+  ErrorCode.INVALID_CONFIG,
+];
+
+export function createRetryConfig(): RetryConfig {
+  const env = envConfig.getConfig();
+
+  return {
+    defaultPolicy: {
+      maxAttempts: env.MAX_RETRIES + 1,
+      baseDelayMs: env.RETRY_BASE_DELAY_MS,
+      multiplier: env.RETRY_MULTIPLIER,
+      maxDelayMs: env.RETRY_MAX_DELAY_MS,
+      jitter: env.RETRY_JITTER,
+      honorRetryAfter: true,
+    },
+    byStep: { ...DEFAULT_STEP_POLICIES },
+    byErrorCode: { ...DEFAULT_ERROR_CODE_POLICIES },
+    nonRetryableCodes: [...DEFAULT_NON_RETRYABLE_CODES],
+  };
+}
@@ -0,0 +1,109 @@
+// src/shared/config/storage.config.ts
+// Storage backend configuration (local disk layout and quota, S3-compatible bucket, signed download URLs, GC)
+// Used by createStorageService and the audio download route
+
+import { envConfig } from './env';
+import { ErrorFactory } from '@/shared/utils/errors/ErrorFactory';
+
+export type StorageBackend = 'local' | 's3';
+
+export interface LocalStorageConfig {
+  rootDir: string;
+  // Keys under "audio/" live here (inside rootDir by default)
+  audioDir: string;
+  // Counted on stored bytes, identical files once
+  maxSizeBytes: number;
+  // Without one, URLs are signed with a per-process secret and only work in that process
+  signingSecret?: string;
+  urlTtlSeconds: number;
+  // Prefix of the signed download URLs
+  baseUrl: string;
+}
+
+// Cloudflare R2, MinIO, AWS S3 or any SigV4 S3 API
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  publicUrl?: string;
+  // Presigned URLs cannot outlive 7 days
+  urlTtlSeconds: number;
+  partSizeBytes: number;
+  multipartConcurrency: number;
+}
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  local: LocalStorageConfig;
+  s3?: S3StorageConfig;
+}
+
+// Storage GC: unreferenced audio cleanup (CollectStorageGarbageUseCase)
+export interface StorageGcConfig {
+  enabled: boolean;
+  intervalMs: number;
+  gracePeriodMs: number;
+  prefixes: string[];
+  dropMergedChunks: boolean;
+}
+
+const MAX_PRESIGNED_TTL_SECONDS = 604800;
+
+export function createStorageConfig(): StorageConfig {
+  const env = envConfig.getConfig();
+
+  if (env.STORAGE_BACKEND === 's3') {
+    for (const key of ['S3_ENDPOINT', 'S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'] as const) {
+      if (!env[key]) {
+        throw ErrorFactory.invalidConfig(key, 'required when STORAGE_BACKEND=s3');
+      }
+    }
+  }
+
+  return {
+    backend: env.STORAGE_BACKEND,
+    local: {
+      rootDir: env.STORAGE_DIR,
+      audioDir: env.AUDIO_STORAGE_DIR,
+      maxSizeBytes: env.MAX_STORAGE_SIZE_MB * 1024 * 1024,
+      signingSecret: env.STORAGE_SIGNING_SECRET ?? env.SESSION_SECRET,
+      urlTtlSeconds: env.STORAGE_URL_TTL_SECONDS,
+      baseUrl: env.APP_BASE_URL,
+    },
+    s3: env.S3_ENDPOINT && env.S3_BUCKET && env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+      ? {
+          endpoint: env.S3_ENDPOINT,
+          region: env.S3_REGION,
+          bucket: env.S3_BUCKET,
+          accessKeyId: env.S3_ACCESS_KEY_ID,
+          secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+          forcePathStyle: env.S3_FORCE_PATH_STYLE,
+          publicUrl: env.S3_PUBLIC_URL,
+          urlTtlSeconds: Math.min(env.STORAGE_URL_TTL_SECONDS, MAX_PRESIGNED_TTL_SECONDS),
+          partSizeBytes: env.S3_MULTIPART_PART_SIZE_MB * 1024 * 1024,
+          multipartConcurrency: env.S3_MULTIPART_CONCURRENCY,
+        }
+      : undefined,
+  };
+}
+
+export function createStorageGcConfig(): StorageGcConfig {
+  const env = envConfig.getConfig();
+  const prefixes = env.STORAGE_GC_PREFIXES.split(',').map((prefix) => prefix.trim()).filter((prefix) => prefix.length > 0);
+
+  // An empty prefix would sweep feeds, exports and CSV uploads too
+  if (prefixes.length === 0 || prefixes.some((prefix) => !prefix.endsWith('/'))) {
+    throw ErrorFactory.invalidConfig('STORAGE_GC_PREFIXES', 'expected comma-separated prefixes ending with "/"');
+  }
+
+  return {
+    enabled: env.STORAGE_GC_ENABLED,
+    intervalMs: env.STORAGE_GC_INTERVAL_MINUTES * 60 * 1000,
+    gracePeriodMs: env.STORAGE_GC_GRACE_HOURS * 60 * 60 * 1000,
+    prefixes,
+    dropMergedChunks: env.STORAGE_GC_DROP_MERGED_CHUNKS,
+  };
+}
@@ -0,0 +1,49 @@
+// src/shared/config/streaming.config.ts
+// Real-time streaming configuration (SSE replay buffers, heartbeats, cross-process fan-out)
+// Used by the SSEManager, the job/item stream routes and the WebSocket server
+
+import { envConfig } from './env';
+
+export type BroadcastBackend = 'memory' | 'postgres';
+
+export interface StreamingConfig {
+  // memory: events only reach subscribers of the publishing process
+  broadcastBackend: BroadcastBackend;
+  postgres?: {
+    connectionString: string;
+    notifyChannel: string;
+  };
+  // Events kept per channel so a reconnecting client can resume (0 disables replay)
+  replayBufferSize: number;
+  // Replay buffers of channels without events for this long are dropped
+  replayTtlMs: number;
+  // Comment lines keeping idle connections open through proxies
+  heartbeatIntervalMs: number;
+  // Reconnection delay sent to EventSource clients
+  retryMs: number;
+  websocket: {
+    port: number;
+    path: string;
+    maxPayloadBytes: number;
+  };
+}
+
+export function createStreamingConfig(): StreamingConfig {
+  const env = envConfig.getConfig();
+
+  return {
+    broadcastBackend: env.SSE_BROADCAST_BACKEND,
+    postgres: env.SSE_BROADCAST_BACKEND === 'postgres'
+      ? { connectionString: env.DATABASE_URL, notifyChannel: env.SSE_NOTIFY_CHANNEL }
+      : undefined,
+    replayBufferSize: env.SSE_REPLAY_BUFFER_SIZE,
+    replayTtlMs: env.SSE_REPLAY_TTL_MS,
+    heartbeatIntervalMs: env.SSE_HEARTBEAT_INTERVAL_MS,
+    retryMs: env.SSE_RETRY_MS,
+    websocket: {
+      port: env.WS_PORT,
+      path: env.WS_PATH,
+      maxPayloadBytes: env.WS_MAX_PAYLOAD_BYTES,
+    },
+  };
+}
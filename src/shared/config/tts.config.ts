@@ -0,0 +1,91 @@
+// src/shared/config/tts.config.ts
+// TTS provider configuration (enabled providers, default provider, fallback chain)
+// Used by the TTS provider registry
+
+import { envConfig } from './env';
+import { FakeServicesConfig, createFakeServicesConfig } from './fake.config';
+
+export type TTSProviderName = 'elevenlabs' | 'inworld' | 'openai' | 'local' | 'fake';
+
+export interface TTSFallbackConfig {
+  provider: string;
+  voiceId: string;
+}
+
+export interface TTSConfig {
+  defaultProvider: TTSProviderName;
+  fallbackChain: TTSFallbackConfig[];
+  elevenlabs?: {
+    apiKey: string;
+  };
+  inworld?: {
+    apiKey: string;
+    modelId: string;
+  };
+  openai?: {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+  };
+  local?: {
+    engine: 'piper' | 'espeak';
+    binaryPath?: string;
+    modelsDir: string;
+  };
+  fake?: FakeServicesConfig;
+  ffprobePath: string;
+}
+
+// Parses "provider:voiceId,provider:voiceId" into fallback targets
+export function parseFallbackChain(value: string | undefined): TTSFallbackConfig[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Invalid TTS fallback entry '${entry}', expected provider:voiceId`);
+      }
+      return {
+        provider: entry.slice(0, separator).trim(),
+        voiceId: entry.slice(separator + 1).trim(),
+      };
+    });
+}
+
+export function createTTSConfig(): TTSConfig {
+  const env = envConfig.getConfig();
+  const fallbackChain = parseFallbackChain(env.TTS_FALLBACK_CHAIN);
+  const fakeEnabled =
+    env.TTS_DEFAULT_PROVIDER === 'fake' || fallbackChain.some((target) => target.provider === 'fake');
+
+  return {
+    defaultProvider: env.TTS_DEFAULT_PROVIDER,
+    fallbackChain,
+    elevenlabs: env.ELEVENLABS_API_KEY
+      ? { apiKey: env.ELEVENLABS_API_KEY }
+      : undefined,
+    inworld: env.INWORLD_API_KEY
+      ? { apiKey: env.INWORLD_API_KEY, modelId: env.INWORLD_TTS_MODEL }
+      : undefined,
+    openai: env.OPENAI_TTS_API_KEY
+      ? {
+          apiKey: env.OPENAI_TTS_API_KEY,
+          baseUrl: env.OPENAI_TTS_BASE_URL,
+          model: env.OPENAI_TTS_MODEL,
+        }
+      : undefined,
+    local: env.LOCAL_TTS_ENGINE
+      ? {
+          engine: env.LOCAL_TTS_ENGINE,
+          binaryPath: env.LOCAL_TTS_BINARY_PATH,
+          modelsDir: env.LOCAL_TTS_MODELS_DIR,
+        }
+      : undefined,
+    fake: fakeEnabled ? createFakeServicesConfig() : undefined,
+    ffprobePath: env.FFPROBE_PATH,
+  };
+}
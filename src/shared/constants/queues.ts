@@ -0,0 +1,55 @@
+// src/shared/constants/queues.ts
+// Queue names and job types of the item pipeline
+// validation → text-generation → text-chunking → audio-generation → audio-merge → upload
+
+export const QUEUE_NAMES = {
+  VALIDATION: 'validation',
+  TEXT_GENERATION: 'text-generation',
+  TEXT_REFINEMENT: 'text-refinement',
+  TEXT_CHUNKING: 'text-chunking',
+  AUDIO_GENERATION: 'audio-generation',
+  AUDIO_MERGE: 'audio-merge',
+  UPLOAD: 'upload',
+  METRICS: 'metrics',
+} as const;
+
+export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
+
+export const JOB_TYPES = {
+  VALIDATE_ITEM: 'validate_item',
+  GENERATE_TEXT: 'generate_text',
+  REFINE_TEXT: 'refine_text',
+  RUN_SCRIPT_STAGES: 'run_script_stages',
+  CHUNK_TEXT: 'chunk_text',
+  GENERATE_AUDIO: 'generate_audio',
+  MERGE_AUDIO: 'merge_audio',
+  UPLOAD_AUDIO: 'upload_audio',
+} as const;
+
+// Payload shared by every item-level pipeline job
+export interface ItemJobPayload {
+  jobId: string;
+  itemId: string;
+}
+
+export interface ChunkJobPayload extends ItemJobPayload {
+  chunkId: string;
+}
+
+export interface RefineTextJobPayload extends ItemJobPayload {
+  instructions: string;
+}
+
+// Re-runs the job's script stages from the given stage (index or name)
+export interface ScriptStagesJobPayload extends ItemJobPayload {
+  fromStage: number | string;
+}
+
+export interface UploadJobPayload extends ItemJobPayload {
+  audioPath: string;
+}
+
+// Deterministic queue job IDs so a step is only enqueued once per item/chunk
+export function pipelineJobId(type: string, id: string): string {
+  return `${type}:${id}`;
+}
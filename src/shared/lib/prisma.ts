@@ -55,3 +55,5 @@ process.on('SIGTERM', shutdownHandler);
 
 export default prisma;
 export { prisma };
+// Exported so a process that manages its own shutdown (the worker) can detach it
+export { shutdownHandler as prismaShutdownHandler };
@@ -29,6 +29,7 @@ export enum ErrorCode {
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
   INVALID_FILE_TYPE = 'INVALID_FILE_TYPE',
   STORAGE_ERROR = 'STORAGE_ERROR',
+  STORAGE_QUOTA_EXCEEDED = 'STORAGE_QUOTA_EXCEEDED',
   
   // CSV/Parsing errors
   CSV_PARSE_ERROR = 'CSV_PARSE_ERROR',
@@ -47,6 +48,8 @@ export enum ErrorCode {
   AUDIO_GENERATION_ERROR = 'AUDIO_GENERATION_ERROR',
   CHUNK_ERROR = 'CHUNK_ERROR',
   MERGE_ERROR = 'MERGE_ERROR',
+  INVALID_API_KEY = 'INVALID_API_KEY',
+  VOICE_NOT_FOUND = 'VOICE_NOT_FOUND',
   
   // Configuration errors
   MISSING_CONFIG = 'MISSING_CONFIG',
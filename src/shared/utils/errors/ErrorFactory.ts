@@ -58,6 +58,26 @@ export class ErrorFactory {
     return new RateLimitError(service, retryAfter, metadata);
   }
 
+  static invalidApiKey(service: string, metadata?: ErrorMetadata): AppError {
+    return new AppError(
+      `${service} API error: Invalid API key`,
+      ErrorCode.INVALID_API_KEY,
+      401,
+      true,
+      { ...metadata, service }
+    );
+  }
+
+  static voiceNotFound(service: string, voiceId?: string, metadata?: ErrorMetadata): AppError {
+    return new AppError(
+      `${service} API error: Voice not found`,
+      ErrorCode.VOICE_NOT_FOUND,
+      404,
+      true,
+      { ...metadata, service, voiceId }
+    );
+  }
+
   static serviceUnavailable(service: string, metadata?: ErrorMetadata): AppError {
     return new AppError(
       `Service ${service} is currently unavailable`,
@@ -107,6 +127,17 @@ export class ErrorFactory {
     return new FileError(message, ErrorCode.STORAGE_ERROR, metadata);
   }
 
+  static storageQuotaExceeded(usedBytes: number, requestedBytes: number, maxBytes: number): AppError {
+    const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    return new AppError(
+      `Storage quota exceeded: ${toMB(usedBytes)} MB used, ${toMB(requestedBytes)} MB requested, limit is ${toMB(maxBytes)} MB (MAX_STORAGE_SIZE_MB)`,
+      ErrorCode.STORAGE_QUOTA_EXCEEDED,
+      507,
+      true,
+      { usedBytes, requestedBytes, maxBytes }
+    );
+  }
+
   // CSV/Parsing errors
   static csvParseError(message: string, line?: number, metadata?: ErrorMetadata): CSVError {
     return new CSVError(
@@ -0,0 +1,70 @@
+// src/worker.ts
+// Standalone worker process: runs the pipeline queue workers outside the Next.js server
+// Usage: npm run worker
+
+import { loadEnvConfig } from '@next/env';
+
+// Same .env files as the web app; must run before env.ts is imported
+loadEnvConfig(process.cwd());
+
+async function main(): Promise<void> {
+  const { logger } = await import('@/shared/lib/logger');
+  const { envConfig } = await import('@/shared/config/env');
+  const { ErrorFactory } = await import('@/shared/utils/errors/ErrorFactory');
+  const { prisma, prismaShutdownHandler } = await import('@/shared/lib/prisma');
+  const { serviceProvider } = await import('@/infrastructure/di/ServiceProvider');
+
+  // prisma.ts exits on the first signal; the worker drains before disconnecting
+  process.off('SIGINT', prismaShutdownHandler);
+  process.off('SIGTERM', prismaShutdownHandler);
+
+  // In-memory jobs live in the web process, which runs their workers itself
+  if (envConfig.getConfig().QUEUE_BACKEND === 'memory') {
+    throw ErrorFactory.invalidConfig('QUEUE_BACKEND', 'memory queues are not shared between processes; use redis or postgres');
+  }
+
+  await serviceProvider.initialize();
+  serviceProvider.startWorkers();
+
+  logger.info('Worker process started', { pid: process.pid });
+
+  let shuttingDown = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn('Second signal received, exiting without draining', { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    const drainTimeoutMs = envConfig.getConfig().WORKER_DRAIN_TIMEOUT_MS;
+    logger.info('Shutdown requested, draining in-flight jobs', { signal, drainTimeoutMs });
+
+    // Jobs still running at the deadline are reclaimed by the durable queues
+    // once their visibility timeout expires
+    const timer = setTimeout(() => {
+      logger.warn('Drain timeout reached, exiting with jobs in flight', { drainTimeoutMs });
+      process.exit(1);
+    }, drainTimeoutMs);
+    timer.unref();
+
+    await serviceProvider.shutdown();
+    await prisma.$disconnect();
+    logger.info('Worker process stopped');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', (signal) => void shutdown(signal));
+  process.on('SIGINT', (signal) => void shutdown(signal));
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection in worker', reason instanceof Error ? reason : undefined, {
+      reason: reason instanceof Error ? reason.message : String(reason),
+    });
+  });
+}
+
+main().catch((error) => {
+  console.error('❌ Worker failed to start:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});